@@ -3,9 +3,11 @@ import React, { useState, useEffect } from 'react';
 import { 
   ClassLevel, Subject, Chapter, AppState, Board, Stream, User, ContentType, SystemSettings, ActivityLogEntry, WeeklyTest, LessonContent
 } from './types';
-import { getChapterData, saveChapterData, checkFirebaseConnection, saveTestResult, saveUserToLive, updateUserStatus, getUserData, subscribeToSettings, auth, savePublicActivity, saveUserHistory } from './firebase';
+import { getChapterData, saveChapterData, checkFirebaseConnection, saveTestResult, saveUserToLive, updateUserStatus, getUserData, subscribeToSettings, auth, savePublicActivity, saveUserHistory, saveAiEntitlement, stripKeyMaterial } from './firebase';
 import { signInAnonymously } from 'firebase/auth';
-import { fetchChapters, fetchLessonContent } from './services/groq';
+import { fetchChapters, fetchLessonContent } from './services/aiContent';
+import { buildOmrEntry, isResponseAnswered, isResponseCorrect } from './services/questionTypes';
+import { scoreTest, getMarksPercent } from './services/markingSchemes';
 import { BoardSelection } from './components/BoardSelection';
 import { ClassSelection } from './components/ClassSelection';
 import { SubjectSelection } from './components/SubjectSelection';
@@ -33,7 +35,9 @@ import { ErrorBoundary } from './components/ErrorBoundary'; // NEW
 import { generateDailyChallengeQuestions } from './utils/challengeGenerator';
 import { BrainCircuit, Globe, LogOut, LayoutDashboard, BookOpen, Headphones, HelpCircle, Newspaper, KeyRound, Lock, X, ShieldCheck, FileText, UserPlus, EyeOff, WifiOff } from 'lucide-react';
 import { SUPPORT_EMAIL, APP_VERSION } from './constants';
-import { StudentTab, PendingReward, MCQResult, SubscriptionHistoryEntry } from './types';
+import { StudentTab, PendingReward, MCQResult, SubscriptionHistoryEntry, QuestionResponse, LeaderboardEntry } from './types';
+
+const LEADERBOARD_LIMIT = 200; // Entries kept in nst_leaderboard
 
 const TermsPopup: React.FC<{ onClose: () => void, text?: string }> = ({ onClose, text }) => (
     <div className="fixed inset-0 z-[100] bg-black/60 backdrop-blur-sm flex items-end md:items-center justify-center p-0 md:p-4 animate-in fade-in duration-300">
@@ -196,23 +200,6 @@ const App: React.FC = () => {
       }
   }, []);
 
-  // --- AUTO CLEANUP GROQ KEYS ---
-  useEffect(() => {
-      const deletedKeys = state.settings.deletedGroqKeys || [];
-      if (deletedKeys.length > 0) {
-          const now = Date.now();
-          const ninetyDaysMs = 90 * 24 * 60 * 60 * 1000;
-          const newDeletedKeys = deletedKeys.filter(k => (now - k.deletedAt) <= ninetyDaysMs);
-          
-          if (newDeletedKeys.length !== deletedKeys.length) {
-              console.log("Cleaned up old Groq keys");
-              const updatedSettings = { ...state.settings, deletedGroqKeys: newDeletedKeys };
-              setState(prev => ({ ...prev, settings: updatedSettings }));
-              localStorage.setItem('nst_system_settings', JSON.stringify(updatedSettings));
-          }
-      }
-  }, [state.settings.deletedGroqKeys]);
-
   // --- REWARD CHECKER (Login & Pending) ---
   const recordActivity = (type: UsageHistoryEntry['type'], itemTitle: string, amount?: number, extra?: any) => {
     if (!state.user) return;
@@ -519,7 +506,9 @@ const App: React.FC = () => {
       const storedSettings = localStorage.getItem('nst_system_settings');
       if (storedSettings) {
           try {
-              const parsed = JSON.parse(storedSettings);
+              const stored = JSON.parse(storedSettings);
+              const parsed = stripKeyMaterial(stored); // Keys cached by older builds are dropped; the admin migrates the cloud copy
+              localStorage.setItem('nst_system_settings', JSON.stringify(parsed));
               loadedSettings = { ...state.settings, ...parsed };
               setState(prev => ({ 
                   ...prev, 
@@ -690,8 +679,9 @@ const App: React.FC = () => {
               const lbData = localStorage.getItem('nst_leaderboard');
               if (lbData) {
                   const entries: any[] = JSON.parse(lbData);
+                  // Percent of max marks, since entries come from tests with different marking schemes
                   const top3 = entries
-                      .sort((a, b) => b.score - a.score)
+                      .sort((a, b) => b.score / (b.total || 1) - a.score / (a.total || 1))
                       .slice(0, 3)
                       .map(e => e.userId);
                   
@@ -735,8 +725,9 @@ const App: React.FC = () => {
   };
 
   const updateSettings = (newSettings: SystemSettings) => {
-      setState(prev => ({...prev, settings: newSettings}));
-      localStorage.setItem('nst_system_settings', JSON.stringify(newSettings));
+      const publicSettings = stripKeyMaterial(newSettings); // Keys stay in admin_secure only
+      setState(prev => ({...prev, settings: publicSettings}));
+      localStorage.setItem('nst_system_settings', JSON.stringify(publicSettings));
   };
 
   const handleAcceptTerms = () => {
@@ -794,15 +785,14 @@ const App: React.FC = () => {
     setDailyStudySeconds(0);
   };
 
-  const handleMCQComplete = (score: number, answers: Record<number, number>, displayData: MCQItem[], timeTaken: number) => {
+  const handleMCQComplete = (score: number, answers: Record<number, QuestionResponse>, displayData: MCQItem[], timeTaken: number) => {
     if (!state.user || !state.selectedChapter) return;
     
     // Build Wrong Questions List (Strictly Incorrect Attempts)
     const wrongQuestions = displayData
       .map((q, idx) => {
-          const selected = answers[idx] !== undefined ? answers[idx] : -1;
-          // Filter: Must be attempted (not -1) AND wrong
-          if (selected !== -1 && selected !== q.correctAnswer) {
+          // Filter: Must be attempted AND wrong
+          if (isResponseAnswered(q, answers[idx]) && !isResponseCorrect(q, answers[idx])) {
               return {
                   question: q.question,
                   qIndex: idx
@@ -1224,6 +1214,7 @@ const App: React.FC = () => {
           updatedUser.subscriptionEndDate = new Date(Date.now() + (activeReward.durationHours || 4) * 60 * 60 * 1000).toISOString();
           updatedUser.isPremium = true;
           updatedUser.grantedByAdmin = true;
+          if (!state.originalAdmin) saveAiEntitlement(updatedUser);
 
           // RECORD HISTORY
           const historyEntry: SubscriptionHistoryEntry = {
@@ -1270,8 +1261,12 @@ const App: React.FC = () => {
     setActiveWeeklyTest(test);
   };
 
-  const handleWeeklyTestComplete = async (score: number, total: number, answers: Record<number, number>) => {
+  const handleWeeklyTestComplete = async (score: number, total: number, answers: Record<number, QuestionResponse>, questionTimes: Record<number, number> = {}) => {
     if (!activeWeeklyTest || !state.user) return;
+
+    // Marks under the test's marking scheme, per section
+    const testScore = scoreTest(activeWeeklyTest, answers, questionTimes);
+    const percentage = getMarksPercent(testScore.marks, testScore.maxMarks);
     
     // Save Attempt
     const attempt = {
@@ -1281,7 +1276,10 @@ const App: React.FC = () => {
         userName: state.user.name,
         startedAt: localStorage.getItem(`weekly_test_start_${activeWeeklyTest.id}`) || new Date().toISOString(),
         submittedAt: new Date().toISOString(),
-        score: Math.round((score / total) * 100),
+        score: percentage,
+        marks: testScore.marks,
+        maxMarks: testScore.maxMarks,
+        sectionScores: testScore.sections,
         totalQuestions: total,
         answers: answers
     };
@@ -1295,7 +1293,7 @@ const App: React.FC = () => {
     // 2. Firestore Sync (So Admin can see)
     await saveTestResult(state.user.id, attempt);
     
-    logActivity("TEST_SUBMIT", `Completed ${activeWeeklyTest.name} with score ${score}/${total}`);
+    logActivity("TEST_SUBMIT", `Completed ${activeWeeklyTest.name} with ${testScore.marks}/${testScore.maxMarks} marks (${score}/${total} correct)`);
     setActiveWeeklyTest(null);
     
     // REWARD LOGIC
@@ -1303,7 +1301,6 @@ const App: React.FC = () => {
     let rewardMsg = "";
 
     // NEW RULE BASED LOGIC
-    const percentage = (score / total) * 100;
     const isDaily = activeWeeklyTest.id.startsWith('daily-challenge-');
     const category = isDaily ? 'DAILY_CHALLENGE' : 'WEEKLY_TEST';
     
@@ -1330,6 +1327,7 @@ const App: React.FC = () => {
                 grantedByAdmin: true,
                 isPremium: true
             };
+            if (!state.originalAdmin) saveAiEntitlement(updatedUser);
             rewardMsg = `🏆 Reward Unlocked: ${bestRule.label}`;
         }
     } else {
@@ -1351,11 +1349,7 @@ const App: React.FC = () => {
     const startTimeStr = localStorage.getItem(`weekly_test_start_${activeWeeklyTest.id}`);
     const timeTaken = startTimeStr ? (Date.now() - parseInt(startTimeStr)) / 1000 : 0;
     
-    const omrData = activeWeeklyTest.questions.map((q, idx) => ({
-        qIndex: idx,
-        selected: answers[idx] !== undefined ? answers[idx] : -1,
-        correct: q.correctAnswer
-    }));
+    const omrData = activeWeeklyTest.questions.map((q, idx) => ({ ...buildOmrEntry(q, idx, answers[idx]), marks: testScore.questionMarks[idx] }));
 
     const result: MCQResult = {
         id: `wt-${Date.now()}`,
@@ -1367,14 +1361,38 @@ const App: React.FC = () => {
         date: new Date().toISOString(),
         totalQuestions: total,
         correctCount: score,
-        wrongCount: total - score,
+        wrongCount: testScore.wrong + testScore.partial,
         score: score,
+        marks: testScore.marks,
+        maxMarks: testScore.maxMarks,
+        passed: percentage >= (activeWeeklyTest.passingScore || 0),
+        sectionScores: testScore.sections,
         totalTimeSeconds: timeTaken,
         averageTimePerQuestion: total > 0 ? timeTaken / total : 0,
-        performanceTag: (score / total) >= 0.8 ? 'EXCELLENT' : (score / total) >= 0.5 ? 'GOOD' : 'BAD',
+        questionTimes: activeWeeklyTest.questions.map((_, idx) => questionTimes[idx] ?? 0),
+        performanceTag: percentage >= 80 ? 'EXCELLENT' : percentage >= 50 ? 'GOOD' : 'BAD',
         classLevel: activeWeeklyTest.classLevel,
         omrData: omrData
     };
+
+    // Leaderboard entry, ranked against other attempts of the same test by marks
+    try {
+        const board: LeaderboardEntry[] = JSON.parse(localStorage.getItem('nst_leaderboard') || '[]');
+        board.unshift({
+            id: result.id,
+            userId: state.user.id,
+            userName: state.user.name,
+            score: testScore.marks,
+            total: testScore.maxMarks,
+            date: result.date,
+            topic: activeWeeklyTest.name,
+            testId: activeWeeklyTest.id,
+            sectionScores: testScore.sections
+        });
+        localStorage.setItem('nst_leaderboard', JSON.stringify(board.slice(0, LEADERBOARD_LIMIT)));
+    } catch (e) {
+        console.error("Failed to update leaderboard", e);
+    }
     
     // UPDATE USER HISTORY FOR ANALYTICS
     updatedUser.mcqHistory = [result, ...(updatedUser.mcqHistory || [])];
@@ -1443,7 +1461,7 @@ const App: React.FC = () => {
           classLevel: state.user.classLevel || '10',
           questions: questions,
           totalQuestions: questions.length,
-          passingScore: Math.ceil((config.rewardPercentage / 100) * questions.length),
+          passingScore: config.rewardPercentage,
           createdAt: new Date().toISOString(),
           durationMinutes: 15,
           autoSubmitEnabled: true
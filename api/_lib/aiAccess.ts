@@ -0,0 +1,182 @@
+import { requireUser, AuthError, VerifiedUser } from "./auth";
+import { getDocument, commitWrites, runTransaction } from "./firestore";
+import { checkRateLimit, getClientIp } from "./rateLimit";
+
+// Access control shared by the AI proxies: verified identity, per-IP/per-user rate limits,
+// daily AI quota by plan (SystemSettings.aiLimits) and the model allowlist.
+// Nothing here trusts users/{id}, which clients write wholesale:
+// - the caller's app user id comes from auth_links/{uid}, written after a server-side check (api/link-session.ts)
+// - ADMIN is the `role` custom claim (api/admin-access.ts); SUB_ADMIN is admin_roles/{userId}, written by admins
+// - the plan is ai_entitlements/{userId}, written wherever premium is granted (see saveAiEntitlement)
+// Errors carry a stable `code` so the client can show the message instead of a generic failure.
+
+const SETTINGS_CACHE_MS = 60 * 1000;
+
+export const DEFAULT_ALLOWED_MODELS = [
+  "llama-3.1-8b-instant",
+  "llama-3.3-70b-versatile",
+  "llama3-8b-8192",
+  "llama3-70b-8192",
+  "mixtral-8x7b-32768",
+  "gemini-1.5-flash",
+  "gemini-1.5-pro",
+  "gemini-2.0-flash"
+];
+
+const DEFAULT_RATE_LIMITS = { perUserPerMinute: 20, perIpPerMinute: 60 };
+
+export type ProxyErrorCode =
+  | 'UNAUTHENTICATED' | 'FORBIDDEN' | 'AI_DISABLED' | 'MODEL_NOT_ALLOWED' | 'TOOLS_NOT_ALLOWED'
+  | 'RATE_LIMITED' | 'DAILY_LIMIT' | 'BAD_REQUEST' | 'NO_KEYS' | 'UPSTREAM';
+
+export class ProxyError extends Error {
+  status: number;
+  code: ProxyErrorCode;
+  extra: Record<string, any>;
+  constructor(status: number, code: ProxyErrorCode, message: string, extra: Record<string, any> = {}) {
+    super(message);
+    this.name = "ProxyError";
+    this.status = status;
+    this.code = code;
+    this.extra = extra;
+  }
+}
+
+export interface AiCaller {
+  user: VerifiedUser;
+  userId: string; // App User.id (the auth uid unless a legacy login linked another id)
+  role: string;
+  isAdmin: boolean;
+  dailyLimit: number | null; // null = unlimited (admins)
+  usedToday: number;
+}
+
+let settingsCache: { data: Record<string, any>; loadedAt: number } | null = null;
+
+export const loadPublicSettings = async (): Promise<Record<string, any>> => {
+  if (settingsCache && Date.now() - settingsCache.loadedAt < SETTINGS_CACHE_MS) return settingsCache.data;
+  const data = (await getDocument("config/system_settings")) || {};
+  settingsCache = { data, loadedAt: Date.now() };
+  return data;
+};
+
+const today = () => new Date().toISOString().split('T')[0];
+
+// Legacy and anonymous logins get a fresh auth uid, unrelated to their User.id, until they are linked
+export const resolveAppUserId = async (uid: string): Promise<string> => {
+  const link = await getDocument(`auth_links/${uid}`);
+  return typeof link?.userId === 'string' && link.userId ? link.userId : uid;
+};
+
+const resolveRole = async (user: VerifiedUser, userId: string): Promise<string> => {
+  if (user.role === 'ADMIN' || user.role === 'SUB_ADMIN') return user.role;
+  return (await getDocument(`admin_roles/${userId}`))?.role === 'SUB_ADMIN' ? 'SUB_ADMIN' : 'STUDENT';
+};
+
+// Same plan rules as the student app (free / basic / ultra); expired grants fall back to free
+const getDailyLimit = (entitlement: Record<string, any> | null, settings: Record<string, any>): number => {
+  const limits = settings.aiLimits || {};
+  const endDate = entitlement?.subscriptionEndDate ? new Date(entitlement.subscriptionEndDate).getTime() : null;
+  if (!entitlement?.isPremium || (endDate !== null && endDate < Date.now())) return limits.free || 5;
+  if (entitlement.subscriptionLevel === 'ULTRA') return limits.ultra || 99999;
+  return limits.basic || 50;
+};
+
+const rateLimited = (scope: 'IP' | 'USER', retryAfterSeconds: number) =>
+  new ProxyError(429, 'RATE_LIMITED', `Too many requests. Please wait ${retryAfterSeconds}s and try again.`, { scope, retryAfterSeconds });
+
+export const authorizeAiCall = async (req: Request): Promise<{ caller: AiCaller; settings: Record<string, any> }> => {
+  const settings = await loadPublicSettings();
+  const limits = { ...DEFAULT_RATE_LIMITS, ...(settings.aiRateLimits || {}) };
+  const ip = getClientIp(req);
+
+  let user: VerifiedUser;
+  try {
+    user = await requireUser(req);
+  } catch (e: any) {
+    const ipCheck = checkRateLimit(`ip:${ip}`, limits.perIpPerMinute);
+    if (!ipCheck.allowed) throw rateLimited('IP', ipCheck.retryAfterSeconds);
+    throw new ProxyError(e instanceof AuthError ? e.status : 401, 'UNAUTHENTICATED', e.message || "Please log in again.");
+  }
+
+  const userId = await resolveAppUserId(user.uid);
+  const profile = await getDocument(`users/${userId}`);
+  if (profile?.isArchived) throw new ProxyError(403, 'FORBIDDEN', "This account cannot use AI features.");
+
+  const role = await resolveRole(user, userId);
+  const isAdmin = role === 'ADMIN' || role === 'SUB_ADMIN';
+
+  // Admin tooling (Auto-Pilot, bulk jobs) is exempt from rate limits and quotas
+  if (isAdmin) {
+    return { caller: { user, userId, role, isAdmin, dailyLimit: null, usedToday: 0 }, settings };
+  }
+
+  const ipCheck = checkRateLimit(`ip:${ip}`, limits.perIpPerMinute);
+  if (!ipCheck.allowed) throw rateLimited('IP', ipCheck.retryAfterSeconds);
+  const userCheck = checkRateLimit(`user:${user.uid}`, limits.perUserPerMinute);
+  if (!userCheck.allowed) throw rateLimited('USER', userCheck.retryAfterSeconds);
+
+  if (settings.isAiEnabled === false) throw new ProxyError(403, 'AI_DISABLED', "AI features are currently disabled by Admin.");
+
+  const dailyLimit = getDailyLimit(await getDocument(`ai_entitlements/${userId}`), settings);
+  const caller: AiCaller = {
+    user,
+    userId,
+    role,
+    isAdmin,
+    dailyLimit,
+    usedToday: await reserveDailyUsage(userId, dailyLimit)
+  };
+
+  return { caller, settings };
+};
+
+export const assertModelAllowed = (model: string, settings: Record<string, any>) => {
+  const configured: string[] = (settings.aiAllowedModels || []).map((m: string) => String(m).trim()).filter(Boolean);
+  const allowed = configured.length ? configured : DEFAULT_ALLOWED_MODELS;
+  if (!allowed.includes(model)) {
+    throw new ProxyError(403, 'MODEL_NOT_ALLOWED', `Model "${model}" is not enabled on this server.`, { allowed });
+  }
+};
+
+// The call is counted before it runs, in a transaction, so parallel requests cannot overshoot the limit.
+// ai_usage_daily is server-owned (not writable by clients, unlike users/{uid}.dailyAiCount).
+const reserveDailyUsage = async (userId: string, limit: number): Promise<number> => {
+  const path = `ai_usage_daily/${userId}_${today()}`;
+  return runTransaction(async get => {
+    const used = (await get(path))?.count || 0;
+    if (used >= limit) {
+      throw new ProxyError(429, 'DAILY_LIMIT', `Daily AI limit reached (${limit}/${limit}). Upgrade to Premium for more queries!`, { limit, used });
+    }
+    return {
+      result: used,
+      writes: [{ path, merge: { userId, date: today(), updatedAt: new Date().toISOString() }, increments: { count: 1 } }]
+    };
+  });
+};
+
+// Hands the reserved slot back when the call fails before producing an answer
+export const releaseDailyUsage = async (caller: AiCaller) => {
+  if (caller.isAdmin) return;
+  try {
+    await commitWrites([{
+      path: `ai_usage_daily/${caller.userId}_${today()}`,
+      merge: { updatedAt: new Date().toISOString() },
+      increments: { count: -1 }
+    }]);
+  } catch (e) {
+    console.error("Error releasing daily AI usage:", e);
+  }
+};
+
+export const usageSummary = (caller: AiCaller) =>
+  caller.dailyLimit === null ? null : { limit: caller.dailyLimit, used: caller.usedToday + 1 };
+
+export const errorResponse = (err: any) => {
+  const error = err instanceof ProxyError
+    ? err
+    : new ProxyError(err?.status === 429 ? 429 : 502, 'UPSTREAM', err?.message || "AI provider error");
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (error.extra.retryAfterSeconds) headers["Retry-After"] = String(error.extra.retryAfterSeconds);
+  return new Response(JSON.stringify({ error: error.message, code: error.code, ...error.extra }), { status: error.status, headers });
+};
@@ -0,0 +1,42 @@
+import { commitWrites } from "./firestore";
+import { DEFAULT_AI_CACHE_CONFIG, getGenerationCacheKey } from "../../services/aiCacheKey";
+
+// Writes to the shared generation cache (ai_generation_cache/{hash}, looked up by services/aiCache.ts).
+// The hash is computed here, with the client's function, from the provider, model and messages that went
+// upstream, so an entry always holds the answer to its own prompt. Chat and tool calls are never stored.
+
+const CACHEABLE_TASKS = ['NOTES', 'MCQ', 'ANALYSIS', 'TRANSLATION'];
+
+// `cache` is the request body's { task, tag, tagLabel }; a write failure never fails the AI call
+export const storeGeneration = async (
+  cache: any,
+  call: { provider: 'GROQ' | 'GEMINI'; model: string; messages: { role: string; content: string }[]; text: string },
+  settings: Record<string, any>
+) => {
+  if (!cache || !CACHEABLE_TASKS.includes(cache.task)) return;
+  const config = { ...DEFAULT_AI_CACHE_CONFIG, ...(settings.aiCacheConfig || {}) };
+  const sizeBytes = new TextEncoder().encode(call.text || '').length;
+  if (!config.enabled || !call.text || sizeBytes > config.maxEntryKB * 1024) return;
+
+  try {
+    const hash = await getGenerationCacheKey(call.provider, call.model, call.messages, { task: cache.task, toolChoice: null });
+    const now = Date.now();
+    await commitWrites([{
+      path: `ai_generation_cache/${hash}`,
+      merge: {
+        hash,
+        provider: call.provider,
+        model: call.model,
+        task: cache.task,
+        text: call.text,
+        tag: typeof cache.tag === 'string' ? cache.tag : undefined,
+        tagLabel: typeof cache.tagLabel === 'string' ? cache.tagLabel : undefined,
+        sizeBytes,
+        createdAt: new Date(now).toISOString(),
+        expiresAt: new Date(now + config.ttlHours * 60 * 60 * 1000)
+      }
+    }]);
+  } catch (e) {
+    console.error("AI cache write failed:", e);
+  }
+};
@@ -0,0 +1,87 @@
+import { commitWrites } from "./firestore";
+import { AiCaller } from "./aiAccess";
+import { UsageType } from "./keyPool";
+
+// AI spend ledger, written by the proxies: ai_usage_ledger/{id} per model call plus daily totals in
+// admin_stats/ai_spend_{date} (the AiUsageRecord shape in types.ts). The client only names the feature and
+// the coins it charged; the user (resolved from the verified uid), model, key, tokens and latency come from here.
+// A ledger failure is logged and never fails the AI call.
+
+const FEATURES = ['NOTES', 'MCQ', 'ULTRA_ANALYSIS', 'CHAT', 'TRANSLATION'];
+const TASKS = ['NOTES', 'MCQ', 'ANALYSIS', 'CHAT', 'TRANSLATION'];
+
+export interface LedgerCall {
+  provider: 'GROQ' | 'GEMINI';
+  model: string;
+  keyId?: string;
+  usage?: { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number }; // OpenAI-style, as reported upstream
+  messages: { content?: string }[];
+  text: string;
+  latencyMs: number;
+  failed?: boolean;
+}
+
+// Rough count when the provider reports nothing (~4 chars per token)
+const countTokens = (call: LedgerCall) => {
+  if (call.usage) {
+    const promptTokens = call.usage.prompt_tokens || 0;
+    const completionTokens = call.usage.completion_tokens || 0;
+    return { promptTokens, completionTokens, totalTokens: call.usage.total_tokens || promptTokens + completionTokens, estimated: false };
+  }
+  if (call.failed) return { promptTokens: 0, completionTokens: 0, totalTokens: 0, estimated: false };
+  const promptTokens = Math.ceil(call.messages.reduce((sum, m) => sum + (typeof m.content === 'string' ? m.content.length : 0), 0) / 4);
+  const completionTokens = Math.ceil((call.text || '').length / 4);
+  return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens, estimated: true };
+};
+
+// `ledger` is the request body's { task, feature, credits }; anything unexpected falls back
+export const recordAiUsage = async (caller: AiCaller, usageType: UsageType, ledger: any, call: LedgerCall) => {
+  try {
+    const now = new Date();
+    const date = now.toISOString().split('T')[0];
+    const task = TASKS.includes(ledger?.task) ? ledger.task : 'CHAT';
+    const feature = usageType === 'PILOT' ? 'PILOT' : FEATURES.includes(ledger?.feature) ? ledger.feature : 'CHAT';
+    const credits = call.failed ? 0 : Math.max(0, Math.round(Number(ledger?.credits) || 0));
+    const tokens = countTokens(call);
+    const id = `ai-use-${now.getTime()}-${Math.random().toString(36).substr(2, 6)}`;
+
+    await commitWrites([
+      {
+        path: `ai_usage_ledger/${id}`,
+        merge: {
+          id,
+          userId: caller.userId,
+          uid: caller.user.uid,
+          feature,
+          task,
+          provider: call.provider,
+          model: call.model,
+          keyId: call.keyId,
+          promptTokens: tokens.promptTokens,
+          completionTokens: tokens.completionTokens,
+          totalTokens: tokens.totalTokens,
+          tokensEstimated: tokens.estimated,
+          latencyMs: Math.round(call.latencyMs),
+          credits,
+          cached: false,
+          status: call.failed ? 'ERROR' : 'OK',
+          date,
+          timestamp: now.toISOString()
+        }
+      },
+      {
+        path: `admin_stats/ai_spend_${date}`,
+        merge: { date },
+        increments: {
+          calls: 1,
+          tokens: tokens.totalTokens,
+          credits,
+          [`calls_${feature}`]: 1,
+          [`tokens_${feature}`]: tokens.totalTokens
+        }
+      }
+    ]);
+  } catch (e) {
+    console.error("AI ledger write failed:", e);
+  }
+};
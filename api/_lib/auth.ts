@@ -0,0 +1,82 @@
+import { getProjectId } from "./firestore";
+
+// Verifies Firebase ID tokens on the edge runtime (RS256 against Google's published securetoken keys).
+
+const JWKS_URL = "https://www.googleapis.com/service_accounts/v1/jwk/securetoken@system.gserviceaccount.com";
+
+export interface VerifiedUser {
+  uid: string;
+  email?: string;
+  isAnonymous: boolean;
+  role?: string; // Custom claim, granted by api/admin-access.ts (Identity Toolkit customAttributes)
+}
+
+export class AuthError extends Error {
+  status: number;
+  constructor(message: string, status: number = 401) {
+    super(message);
+    this.name = "AuthError";
+    this.status = status;
+  }
+}
+
+let cachedKeys: { keys: Record<string, CryptoKey>; expiresAt: number } | null = null;
+
+const decodeSegment = (segment: string) => {
+  const base64 = segment.replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(base64 + '='.repeat((4 - base64.length % 4) % 4)), c => c.charCodeAt(0));
+};
+
+const getSigningKeys = async (): Promise<Record<string, CryptoKey>> => {
+  if (cachedKeys && cachedKeys.expiresAt > Date.now()) return cachedKeys.keys;
+
+  const res = await fetch(JWKS_URL);
+  if (!res.ok) throw new AuthError("Unable to fetch token signing keys", 503);
+  const { keys } = await res.json();
+  const imported: Record<string, CryptoKey> = {};
+  for (const jwk of keys) {
+    imported[jwk.kid] = await crypto.subtle.importKey('jwk', jwk, { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' }, false, ['verify']);
+  }
+
+  const maxAge = parseInt(res.headers.get('cache-control')?.match(/max-age=(\d+)/)?.[1] || '3600', 10);
+  cachedKeys = { keys: imported, expiresAt: Date.now() + maxAge * 1000 };
+  return imported;
+};
+
+export const verifyIdToken = async (token: string): Promise<VerifiedUser> => {
+  const parts = token.split('.');
+  if (parts.length !== 3) throw new AuthError("Malformed ID token");
+
+  const header = JSON.parse(new TextDecoder().decode(decodeSegment(parts[0])));
+  const payload = JSON.parse(new TextDecoder().decode(decodeSegment(parts[1])));
+  if (header.alg !== 'RS256') throw new AuthError("Unexpected token algorithm");
+
+  const keys = await getSigningKeys();
+  const key = keys[header.kid];
+  if (!key) throw new AuthError("Unknown token signing key");
+
+  const valid = await crypto.subtle.verify('RSASSA-PKCS1-v1_5', key, decodeSegment(parts[2]), new TextEncoder().encode(`${parts[0]}.${parts[1]}`));
+  if (!valid) throw new AuthError("Invalid token signature");
+
+  const projectId = getProjectId();
+  const now = Math.floor(Date.now() / 1000);
+  if (payload.aud !== projectId || payload.iss !== `https://securetoken.google.com/${projectId}`) throw new AuthError("Token issued for another project");
+  if (!payload.exp || payload.exp < now) throw new AuthError("Token expired");
+  if (!payload.iat || payload.iat > now + 300) throw new AuthError("Token issued in the future");
+  if (!payload.sub) throw new AuthError("Token has no subject");
+
+  return {
+    uid: payload.sub,
+    email: payload.email,
+    isAnonymous: payload.firebase?.sign_in_provider === 'anonymous',
+    role: typeof payload.role === 'string' ? payload.role : undefined
+  };
+};
+
+// Reads "Authorization: Bearer <idToken>" and verifies it
+export const requireUser = async (req: Request): Promise<VerifiedUser> => {
+  const header = req.headers.get('authorization') || '';
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  if (!match) throw new AuthError("Missing Authorization header. Please log in again.");
+  return verifyIdToken(match[1].trim());
+};
@@ -0,0 +1,179 @@
+// Minimal Firestore REST client for edge handlers (firebase-admin does not run on the edge runtime).
+// Authenticates as the service account in FIREBASE_SERVICE_ACCOUNT, so security rules do not apply:
+// only use it for data the handler is allowed to touch on the caller's behalf.
+
+const TOKEN_ENDPOINT = "https://oauth2.googleapis.com/token";
+const SCOPE = "https://www.googleapis.com/auth/datastore https://www.googleapis.com/auth/identitytoolkit";
+
+interface ServiceAccount {
+  project_id: string;
+  client_email: string;
+  private_key: string;
+}
+
+let cachedToken: { value: string; expiresAt: number } | null = null;
+
+const getServiceAccount = (): ServiceAccount => {
+  const raw = process.env.FIREBASE_SERVICE_ACCOUNT;
+  if (!raw) throw new Error("FIREBASE_SERVICE_ACCOUNT is not configured");
+  return JSON.parse(raw);
+};
+
+export const getProjectId = () =>
+  process.env.FIREBASE_PROJECT_ID || process.env.VITE_FIREBASE_PROJECT_ID || getServiceAccount().project_id;
+
+const base64Url = (input: ArrayBuffer | string) => {
+  const bytes = typeof input === 'string' ? new TextEncoder().encode(input) : new Uint8Array(input);
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const importPrivateKey = async (pem: string) => {
+  const body = pem.replace(/-----[^-]+-----/g, '').replace(/\s+/g, '');
+  const der = Uint8Array.from(atob(body), c => c.charCodeAt(0));
+  return crypto.subtle.importKey('pkcs8', der, { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' }, false, ['sign']);
+};
+
+// OAuth access token via a self-signed JWT (cached until shortly before expiry); also used by identity.ts
+export const getAccessToken = async (): Promise<string> => {
+  if (cachedToken && cachedToken.expiresAt > Date.now() + 60_000) return cachedToken.value;
+
+  const account = getServiceAccount();
+  const now = Math.floor(Date.now() / 1000);
+  const header = base64Url(JSON.stringify({ alg: 'RS256', typ: 'JWT' }));
+  const claims = base64Url(JSON.stringify({ iss: account.client_email, scope: SCOPE, aud: TOKEN_ENDPOINT, iat: now, exp: now + 3600 }));
+  const key = await importPrivateKey(account.private_key);
+  const signature = await crypto.subtle.sign('RSASSA-PKCS1-v1_5', key, new TextEncoder().encode(`${header}.${claims}`));
+
+  const res = await fetch(TOKEN_ENDPOINT, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams({
+      grant_type: "urn:ietf:params:oauth:grant-type:jwt-bearer",
+      assertion: `${header}.${claims}.${base64Url(signature)}`
+    })
+  });
+  if (!res.ok) throw new Error(`Service account token error: ${res.status}`);
+  const data = await res.json();
+  cachedToken = { value: data.access_token, expiresAt: Date.now() + data.expires_in * 1000 };
+  return cachedToken.value;
+};
+
+const documentsUrl = () => `https://firestore.googleapis.com/v1/projects/${getProjectId()}/databases/(default)/documents`;
+const documentName = (path: string) => `projects/${getProjectId()}/databases/(default)/documents/${path}`;
+
+// --- VALUE CODEC ---
+
+const encodeValue = (value: any): any => {
+  if (value === null || value === undefined) return { nullValue: null };
+  if (typeof value === 'boolean') return { booleanValue: value };
+  if (typeof value === 'number') return Number.isInteger(value) ? { integerValue: String(value) } : { doubleValue: value };
+  if (typeof value === 'string') return { stringValue: value };
+  if (value instanceof Date) return { timestampValue: value.toISOString() };
+  if (Array.isArray(value)) return { arrayValue: { values: value.map(encodeValue) } };
+  return { mapValue: { fields: encodeFields(value) } };
+};
+
+const encodeFields = (obj: Record<string, any>) =>
+  Object.entries(obj).reduce((acc, [k, v]) => (v === undefined ? acc : { ...acc, [k]: encodeValue(v) }), {} as Record<string, any>);
+
+const decodeValue = (value: any): any => {
+  if (!value) return null;
+  if ('nullValue' in value) return null;
+  if ('booleanValue' in value) return value.booleanValue;
+  if ('integerValue' in value) return Number(value.integerValue);
+  if ('doubleValue' in value) return value.doubleValue;
+  if ('stringValue' in value) return value.stringValue;
+  if ('timestampValue' in value) return value.timestampValue;
+  if ('arrayValue' in value) return (value.arrayValue.values || []).map(decodeValue);
+  if ('mapValue' in value) return decodeFields(value.mapValue.fields || {});
+  return null;
+};
+
+const decodeFields = (fields: Record<string, any>) =>
+  Object.entries(fields || {}).reduce((acc, [k, v]) => ({ ...acc, [k]: decodeValue(v) }), {} as Record<string, any>);
+
+// --- OPERATIONS ---
+
+const authorizedFetch = async (url: string, init: RequestInit = {}) => {
+  const token = await getAccessToken();
+  return fetch(url, { ...init, headers: { ...(init.headers || {}), "Authorization": `Bearer ${token}`, "Content-Type": "application/json" } });
+};
+
+export const getDocument = async (path: string, transaction?: string): Promise<Record<string, any> | null> => {
+  const query = transaction ? `?transaction=${encodeURIComponent(transaction)}` : '';
+  const res = await authorizedFetch(`${documentsUrl()}/${path}${query}`);
+  if (res.status === 404) return null;
+  if (!res.ok) throw new Error(`Firestore get ${path} failed: ${res.status}`);
+  const data = await res.json();
+  return decodeFields(data.fields);
+};
+
+// Every document in the collection, page by page; `fields` limits what is returned (a field mask)
+export const listDocuments = async (collectionPath: string, pageSize: number = 300, fields?: string[]): Promise<Record<string, any>[]> => {
+  const mask = (fields || []).map(f => `&mask.fieldPaths=${encodeURIComponent(f)}`).join('');
+  const documents: Record<string, any>[] = [];
+  let pageToken = '';
+  do {
+    const page = pageToken ? `&pageToken=${encodeURIComponent(pageToken)}` : '';
+    const res = await authorizedFetch(`${documentsUrl()}/${collectionPath}?pageSize=${pageSize}${mask}${page}`);
+    if (!res.ok) throw new Error(`Firestore list ${collectionPath} failed: ${res.status}`);
+    const data = await res.json();
+    (data.documents || []).forEach((d: any) => documents.push(decodeFields(d.fields)));
+    pageToken = data.nextPageToken || '';
+  } while (pageToken);
+  return documents;
+};
+
+export interface DocumentWrite {
+  path: string;
+  merge?: Record<string, any>; // Top-level fields to set (other fields untouched)
+  increments?: Record<string, number>; // Field paths ("a.b") to increment atomically
+}
+
+const encodeWrite = (w: DocumentWrite) => ({
+  update: { name: documentName(w.path), fields: encodeFields(w.merge || {}) },
+  updateMask: { fieldPaths: Object.keys(w.merge || {}).filter(k => w.merge![k] !== undefined) },
+  updateTransforms: Object.entries(w.increments || {}).map(([fieldPath, by]) => ({
+    fieldPath,
+    increment: encodeValue(by)
+  }))
+});
+
+// Batched merge + atomic increments (creates documents that do not exist yet)
+export const commitWrites = async (writes: DocumentWrite[]) => {
+  const res = await authorizedFetch(`${documentsUrl()}:commit`, { method: "POST", body: JSON.stringify({ writes: writes.map(encodeWrite) }) });
+  if (!res.ok) throw new Error(`Firestore commit failed: ${res.status} ${await res.text()}`);
+};
+
+const TRANSACTION_ATTEMPTS = 5;
+
+// Read-modify-write: reads inside `body` lock their documents until the commit, and a commit that
+// lost a race (409 ABORTED) is retried from the start. Errors thrown by `body` roll back and propagate.
+export const runTransaction = async <T>(
+  body: (get: (path: string) => Promise<Record<string, any> | null>) => Promise<{ result: T; writes: DocumentWrite[] }>
+): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    const begin = await authorizedFetch(`${documentsUrl()}:beginTransaction`, { method: "POST", body: "{}" });
+    if (!begin.ok) throw new Error(`Firestore beginTransaction failed: ${begin.status}`);
+    const { transaction } = await begin.json();
+
+    let outcome: { result: T; writes: DocumentWrite[] };
+    try {
+      outcome = await body(path => getDocument(path, transaction));
+    } catch (e) {
+      await authorizedFetch(`${documentsUrl()}:rollback`, { method: "POST", body: JSON.stringify({ transaction }) }).catch(() => {});
+      throw e;
+    }
+
+    const res = await authorizedFetch(`${documentsUrl()}:commit`, {
+      method: "POST",
+      body: JSON.stringify({ writes: outcome.writes.map(encodeWrite), transaction })
+    });
+    if (res.ok) return outcome.result;
+    if (res.status !== 409 || attempt >= TRANSACTION_ATTEMPTS) {
+      throw new Error(`Firestore transaction failed: ${res.status} ${await res.text()}`);
+    }
+  }
+};
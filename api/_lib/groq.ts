@@ -0,0 +1,28 @@
+// Groq chat completions, shared by the Groq proxy (api/groq.ts) and the Morning Insight cron (api/morning-insight.ts).
+
+const GROQ_ENDPOINT = "https://api.groq.com/openai/v1/chat/completions";
+export const DEFAULT_GROQ_MODEL = "llama-3.1-8b-instant";
+
+// Upstream failures keep their HTTP status so key health can tell 401/429 apart.
+// Resolves once Groq accepts the request, so a streamed call still rotates keys on 401/429.
+export const openGroq = async (apiKey: string, payload: any) => {
+  const groqRes = await fetch(GROQ_ENDPOINT, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "Authorization": `Bearer ${apiKey}`
+    },
+    body: JSON.stringify(payload)
+  });
+
+  if (!groqRes.ok) {
+    const errorText = await groqRes.text();
+    const error: any = new Error(`Groq API Error: ${errorText}`);
+    error.status = groqRes.status;
+    error.retryAfter = groqRes.headers.get('retry-after') || undefined;
+    throw error;
+  }
+  return groqRes;
+};
+
+export const callGroq = async (apiKey: string, payload: any) => (await openGroq(apiKey, payload)).json();
@@ -0,0 +1,16 @@
+import { getAccessToken, getProjectId } from "./firestore";
+
+// Firebase Auth admin calls over the Identity Toolkit REST API (same service account as firestore.ts).
+
+export type AdminRoleClaim = 'ADMIN' | 'SUB_ADMIN';
+
+// Sets the `role` custom claim read by verifyIdToken; null removes it. The caller must refresh its ID token to see it.
+export const setRoleClaim = async (uid: string, role: AdminRoleClaim | null) => {
+  const token = await getAccessToken();
+  const res = await fetch(`https://identitytoolkit.googleapis.com/v1/projects/${getProjectId()}/accounts:update`, {
+    method: "POST",
+    headers: { "Authorization": `Bearer ${token}`, "Content-Type": "application/json" },
+    body: JSON.stringify({ localId: uid, customAttributes: JSON.stringify(role ? { role } : {}) })
+  });
+  if (!res.ok) throw new Error(`Identity Toolkit accounts:update failed: ${res.status} ${await res.text()}`);
+};
@@ -0,0 +1,107 @@
+import { AiProviderId, ApiKeyHealth } from "../../types";
+import { fingerprintApiKey, getKeyLabel, isKeyQuarantined, classifyKeyError, buildKeySuccessUpdate, buildKeyFailureUpdate } from "../../services/keyHealth";
+import { getDocument, listDocuments, commitWrites } from "./firestore";
+
+// Server-side key rotation shared by the AI proxies: keys come from env + admin_secure/apiKeys,
+// quarantined keys are skipped, and health + daily usage are recorded against the key fingerprint.
+
+const CACHE_MS = 30 * 1000;
+
+export type UsageType = 'PILOT' | 'STUDENT';
+
+interface PooledKey {
+  key: string;
+  fingerprint: string;
+  label: string;
+}
+
+let storeCache: { data: Record<string, any>; loadedAt: number } | null = null;
+let healthCache: { data: Record<string, ApiKeyHealth>; loadedAt: number } | null = null;
+const rotationIndex: Partial<Record<AiProviderId, number>> = {};
+
+const loadSecureStore = async () => {
+  if (storeCache && Date.now() - storeCache.loadedAt < CACHE_MS) return storeCache.data;
+  const data = (await getDocument("admin_secure/apiKeys")) || {};
+  storeCache = { data, loadedAt: Date.now() };
+  return data;
+};
+
+const loadHealth = async () => {
+  if (healthCache && Date.now() - healthCache.loadedAt < CACHE_MS) return healthCache.data;
+  const records = (await listDocuments("api_key_health")) as ApiKeyHealth[];
+  const data = records.reduce((acc, h) => ({ ...acc, [h.fingerprint]: h }), {} as Record<string, ApiKeyHealth>);
+  healthCache = { data, loadedAt: Date.now() };
+  return data;
+};
+
+const readEnvKeys = (envVar: string) =>
+  (process.env[envVar] || '').split(',').map(k => k.trim()).filter(Boolean);
+
+// Usable keys for a provider, in rotation order
+export const getKeyPool = async (provider: AiProviderId, envVar: string, storeField: string): Promise<{ keys: PooledKey[]; total: number }> => {
+  let stored: string[] = [];
+  try {
+    stored = (await loadSecureStore())[storeField] || [];
+  } catch (e) {
+    console.error("Key store unavailable, using env keys only:", e);
+  }
+  const all = Array.from(new Set([...readEnvKeys(envVar), ...stored.map(k => String(k).trim())])).filter(k => k.length > 5);
+
+  let health: Record<string, ApiKeyHealth> = {};
+  try { health = await loadHealth(); } catch (e) { console.error("Key health unavailable:", e); }
+
+  const pooled = await Promise.all(all.map(async key => ({ key, fingerprint: await fingerprintApiKey(key), label: getKeyLabel(key) })));
+  const usable = pooled.filter(k => !isKeyQuarantined(health[k.fingerprint]));
+
+  const start = (rotationIndex[provider] || 0) % Math.max(usable.length, 1);
+  return { keys: [...usable.slice(start), ...usable.slice(0, start)], total: all.length };
+};
+
+const recordOutcome = async (provider: AiProviderId, key: PooledKey, error: any | null, usageType: UsageType) => {
+  const date = new Date().toISOString().split('T')[0];
+  const previous = healthCache?.data[key.fingerprint];
+  const update = error
+    ? buildKeyFailureUpdate(key.fingerprint, provider, key.label, error, previous)
+    : buildKeySuccessUpdate(key.fingerprint, provider, key.label);
+  if (healthCache) healthCache.data[key.fingerprint] = { ...previous, ...update } as ApiKeyHealth;
+
+  try {
+    await commitWrites([
+      { path: `api_key_health/${key.fingerprint}`, merge: update, increments: { [error ? 'failureCount' : 'successCount']: 1 } },
+      ...(error ? [] : [{
+        path: `admin_stats/api_usage_${date}`,
+        increments: { [`key_${key.fingerprint}`]: 1, total: 1, [usageType === 'PILOT' ? 'pilotCount' : 'studentCount']: 1 }
+      }])
+    ]);
+  } catch (e) {
+    console.error("Error recording key outcome:", e);
+  }
+};
+
+// Tries each usable key in turn; the first success wins and the next call starts from the following key.
+// Only key failures (401 / invalid key, 429/quota) mark the key and move on. Any other 4xx is a bad request
+// that every key would reject, so it is thrown at once; 5xx and network errors try the next key unrecorded.
+export const callWithKeyRotation = async <T>(
+  provider: AiProviderId,
+  keys: PooledKey[],
+  usageType: UsageType,
+  call: (key: string) => Promise<T>
+): Promise<{ result: T; keyId: string }> => {
+  let lastError: any = null;
+  for (let i = 0; i < keys.length; i++) {
+    try {
+      const result = await call(keys[i].key);
+      rotationIndex[provider] = (rotationIndex[provider] || 0) + i + 1;
+      await recordOutcome(provider, keys[i], null, usageType);
+      return { result, keyId: keys[i].fingerprint };
+    } catch (error: any) {
+      lastError = error;
+      if (classifyKeyError(error) !== 'OTHER') {
+        await recordOutcome(provider, keys[i], error, usageType);
+      } else if (error?.status >= 400 && error?.status < 500) {
+        throw error;
+      }
+    }
+  }
+  throw lastError || new Error("No usable API keys");
+};
@@ -0,0 +1,36 @@
+// Sliding-window rate limiter kept in isolate memory. Each edge isolate enforces its own window,
+// which is enough to blunt floods from one client without a round trip to a shared store.
+
+const WINDOW_MS = 60 * 1000;
+const MAX_TRACKED = 10000;
+
+const hits = new Map<string, number[]>();
+
+export interface RateLimitResult {
+  allowed: boolean;
+  retryAfterSeconds: number;
+}
+
+export const checkRateLimit = (bucket: string, limitPerMinute: number): RateLimitResult => {
+  const now = Date.now();
+  const recent = (hits.get(bucket) || []).filter(t => now - t < WINDOW_MS);
+
+  if (recent.length >= limitPerMinute) {
+    hits.set(bucket, recent);
+    return { allowed: false, retryAfterSeconds: Math.ceil((WINDOW_MS - (now - recent[0])) / 1000) };
+  }
+
+  recent.push(now);
+  hits.set(bucket, recent);
+
+  // Drop idle buckets so memory stays bounded
+  if (hits.size > MAX_TRACKED) {
+    for (const [key, times] of hits) {
+      if (!times.length || now - times[times.length - 1] >= WINDOW_MS) hits.delete(key);
+    }
+  }
+  return { allowed: true, retryAfterSeconds: 0 };
+};
+
+export const getClientIp = (req: Request) =>
+  (req.headers.get('x-forwarded-for') || '').split(',')[0].trim() || req.headers.get('x-real-ip') || 'unknown';
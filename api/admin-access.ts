@@ -0,0 +1,58 @@
+import { requireUser } from "./_lib/auth";
+import { setRoleClaim } from "./_lib/identity";
+import { checkRateLimit, getClientIp } from "./_lib/rateLimit";
+import { ProxyError, errorResponse } from "./_lib/aiAccess";
+
+export const config = {
+  runtime: 'edge',
+};
+
+// Grants the ADMIN role claim to the signed-in caller when it presents ADMIN_ACCESS_CODE (server env).
+// The adminCode in system settings is public and only gates the login screen; the api/ proxies trust this claim.
+const ATTEMPTS_PER_MINUTE = 5;
+
+const json = (body: any, status: number = 200) => new Response(JSON.stringify(body), {
+  status,
+  headers: { "Content-Type": "application/json" }
+});
+
+// Compares without returning early on the first mismatch
+const sameCode = (a: string, b: string) => {
+  let diff = a.length ^ b.length;
+  for (let i = 0; i < Math.max(a.length, b.length); i++) diff |= (a.charCodeAt(i) || 0) ^ (b.charCodeAt(i) || 0);
+  return diff === 0;
+};
+
+export default async function handler(req: Request) {
+  try {
+    if (req.method !== 'POST') {
+      return json({ error: "Method not allowed" }, 405);
+    }
+
+    const attempt = checkRateLimit(`admin-access:${getClientIp(req)}`, ATTEMPTS_PER_MINUTE);
+    if (!attempt.allowed) {
+      throw new ProxyError(429, 'RATE_LIMITED', `Too many attempts. Please wait ${attempt.retryAfterSeconds}s.`, { retryAfterSeconds: attempt.retryAfterSeconds });
+    }
+
+    let uid: string;
+    try {
+      uid = (await requireUser(req)).uid;
+    } catch (e: any) {
+      throw new ProxyError(401, 'UNAUTHENTICATED', e.message || "Please log in again.");
+    }
+
+    const expected = process.env.ADMIN_ACCESS_CODE;
+    if (!expected) throw new ProxyError(503, 'FORBIDDEN', "Server Configuration Error: ADMIN_ACCESS_CODE is not set.");
+
+    const body = await req.json().catch(() => ({}));
+    if (typeof body?.code !== 'string' || !sameCode(body.code, expected)) {
+      throw new ProxyError(403, 'FORBIDDEN', "Invalid admin access code.");
+    }
+
+    await setRoleClaim(uid, 'ADMIN');
+    return json({ role: 'ADMIN' });
+
+  } catch (err: any) {
+    return errorResponse(err);
+  }
+}
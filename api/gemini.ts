@@ -0,0 +1,157 @@
+import { GoogleGenerativeAI, Content } from "@google/generative-ai";
+import { authorizeAiCall, assertModelAllowed, releaseDailyUsage, usageSummary, errorResponse, ProxyError, AiCaller } from "./_lib/aiAccess";
+import { getKeyPool, callWithKeyRotation, UsageType } from "./_lib/keyPool";
+import { recordAiUsage } from "./_lib/aiLedger";
+import { storeGeneration } from "./_lib/aiCache";
+
+export const config = {
+  runtime: 'edge',
+};
+
+const DEFAULT_GEMINI_MODEL = "gemini-1.5-flash";
+
+const json = (body: any, status: number = 200) => new Response(JSON.stringify(body), {
+  status,
+  headers: { "Content-Type": "application/json" }
+});
+
+// Gemini has no "system" role: system messages become the systemInstruction
+const toGeminiPayload = (messages: { role: string; content: string }[]) => {
+  const systemInstruction = messages
+    .filter(m => m.role === 'system')
+    .map(m => m.content)
+    .join("\n\n");
+
+  const contents: Content[] = messages
+    .filter(m => m.role !== 'system')
+    .map(m => ({
+      role: m.role === 'assistant' ? 'model' : 'user',
+      parts: [{ text: m.content }]
+    }));
+
+  return { systemInstruction, contents };
+};
+
+// Gemini usageMetadata in the OpenAI `usage` shape (client display and the spend ledger)
+const toTokenUsage = (meta: any) => meta ? {
+  prompt_tokens: meta.promptTokenCount || 0,
+  completion_tokens: meta.candidatesTokenCount || 0,
+  total_tokens: meta.totalTokenCount || 0
+} : undefined;
+
+// Re-emits Gemini chunks in the OpenAI chunk format so the client parses both proxies the same way.
+// A failure after the first byte is sent as an `error` event; the client keeps what it already received.
+// `onEnd` runs once the stream finishes or fails, with the usage and text sent so far (spend ledger, cache)
+const toSseStream = (
+  chunks: AsyncIterable<{ text: () => string; usageMetadata?: any }>,
+  onEnd: (usage: any, text: string, complete: boolean) => Promise<void>
+) => {
+  const encoder = new TextEncoder();
+  const send = (controller: ReadableStreamDefaultController, data: any) =>
+    controller.enqueue(encoder.encode(`data: ${typeof data === 'string' ? data : JSON.stringify(data)}\n\n`));
+
+  return new ReadableStream({
+    async start(controller) {
+      let usageMetadata: any;
+      let text = "";
+      try {
+        for await (const chunk of chunks) {
+          const content = chunk.text();
+          if (content) {
+            text += content;
+            send(controller, { choices: [{ index: 0, delta: { content } }] });
+          }
+          if (chunk.usageMetadata) usageMetadata = chunk.usageMetadata; // Cumulative, the last one wins
+        }
+        send(controller, { choices: [{ index: 0, delta: {}, finish_reason: 'stop' }], usage: toTokenUsage(usageMetadata) });
+        send(controller, "[DONE]");
+        await onEnd(toTokenUsage(usageMetadata), text, true);
+      } catch (e: any) {
+        send(controller, { error: e?.message || "Gemini stream failed" });
+        await onEnd(toTokenUsage(usageMetadata), text, false);
+      }
+      controller.close();
+    }
+  });
+};
+
+export default async function handler(req: Request) {
+  let caller: AiCaller | null = null;
+  let failedCall: (() => Promise<void>) | null = null; // Ledger entry for an upstream failure
+  try {
+    if (req.method !== 'POST') {
+      return json({ error: "Method not allowed" }, 405);
+    }
+
+    // 1. Verified identity, rate limits and daily quota (401 / 403 / 429); the call is counted here
+    const access = await authorizeAiCall(req);
+    caller = access.caller;
+    const { settings } = access;
+
+    let body;
+    try {
+      body = await req.json();
+    } catch (e) {
+      throw new ProxyError(400, 'BAD_REQUEST', "Invalid JSON body");
+    }
+
+    const { messages } = body;
+    if (!Array.isArray(messages) || messages.length === 0) {
+      throw new ProxyError(400, 'BAD_REQUEST', "messages must be a non-empty array");
+    }
+    const modelToUse = body.model || DEFAULT_GEMINI_MODEL;
+    assertModelAllowed(modelToUse, settings);
+    const usageType: UsageType = caller.isAdmin && body.usageType === 'PILOT' ? 'PILOT' : 'STUDENT';
+
+    // 2. Keys (env GEMINI_API_KEYS + admin_secure/apiKeys.geminiKeys), quarantined ones skipped
+    const { keys, total } = await getKeyPool('GEMINI', 'GEMINI_API_KEYS', 'geminiKeys');
+    if (keys.length === 0) {
+      throw new ProxyError(503, 'NO_KEYS', total === 0 ? "Server Configuration Error: No Gemini keys configured." : `All ${total} Gemini keys are quarantined (invalid or rate limited).`);
+    }
+
+    // 3. Call Gemini with rotation
+    const { systemInstruction, contents } = toGeminiPayload(messages);
+    const getModel = (key: string) => new GoogleGenerativeAI(key).getGenerativeModel({
+      model: modelToUse,
+      ...(systemInstruction ? { systemInstruction } : {})
+    });
+
+    const startedAt = Date.now();
+    const ledgerCall = { provider: 'GEMINI' as const, model: modelToUse, messages };
+    const ledgerCaller = caller;
+    failedCall = () => recordAiUsage(ledgerCaller, usageType, body.ledger, { ...ledgerCall, text: "", latencyMs: Date.now() - startedAt, failed: true });
+
+    if (body.stream === true) {
+      const { result: streamResult, keyId } = await callWithKeyRotation('GEMINI', keys, usageType, async (key) => {
+        return getModel(key).generateContentStream({ contents });
+      });
+      const onEnd = async (usage: any, text: string, complete: boolean) => {
+        await recordAiUsage(ledgerCaller, usageType, body.ledger, { ...ledgerCall, keyId, usage, text, latencyMs: Date.now() - startedAt, failed: !complete && !text });
+        if (complete) await storeGeneration(body.cache, { ...ledgerCall, text }, settings);
+      };
+      return new Response(toSseStream(streamResult.stream, onEnd), {
+        status: 200,
+        headers: {
+          "Content-Type": "text/event-stream",
+          "Cache-Control": "no-cache, no-transform",
+          "X-Ai-Key-Id": keyId
+        }
+      });
+    }
+
+    const { result, keyId } = await callWithKeyRotation('GEMINI', keys, usageType, async (key) => {
+      const response = await getModel(key).generateContent({ contents });
+      return { text: response.response.text() || "", tokens: toTokenUsage(response.response.usageMetadata) };
+    });
+
+    await recordAiUsage(caller, usageType, body.ledger, { ...ledgerCall, keyId, usage: result.tokens, text: result.text, latencyMs: Date.now() - startedAt });
+    await storeGeneration(body.cache, { ...ledgerCall, text: result.text }, settings);
+
+    return json({ text: result.text, tokens: result.tokens, model: modelToUse, keyId, usage: usageSummary(caller) });
+
+  } catch (err: any) {
+    if (caller) await releaseDailyUsage(caller);
+    if (failedCall) await failedCall();
+    return errorResponse(err);
+  }
+}
@@ -1,93 +1,162 @@
+import { authorizeAiCall, assertModelAllowed, releaseDailyUsage, usageSummary, errorResponse, ProxyError, AiCaller } from "./_lib/aiAccess";
+import { getKeyPool, callWithKeyRotation } from "./_lib/keyPool";
+import { recordAiUsage } from "./_lib/aiLedger";
+import { storeGeneration } from "./_lib/aiCache";
+import { openGroq, callGroq, DEFAULT_GROQ_MODEL } from "./_lib/groq";
+
 export const config = {
   runtime: 'edge',
 };
 
-const GROQ_ENDPOINT = "https://api.groq.com/openai/v1/chat/completions";
+const MAX_TOKENS = 4096;
+
+// Passes Groq's SSE bytes through untouched while collecting the text and the final usage for the spend ledger.
+// `complete` means a finish_reason arrived and no tool calls were streamed (safe to cache).
+const meterStream = (body: ReadableStream<Uint8Array>, onEnd: (usage: any, text: string, complete: boolean) => Promise<void>) => {
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let text = "";
+  let usage: any;
+  let finished = false;
+  let toolCalls = false;
+  const readLine = (line: string) => {
+    const data = line.startsWith("data:") ? line.slice(5).trim() : "";
+    if (!data || data === "[DONE]") return;
+    try {
+      const chunk = JSON.parse(data);
+      usage = chunk.usage || chunk.x_groq?.usage || usage; // Groq reports usage on the last chunk under x_groq
+      const choice = chunk.choices?.[0];
+      text += choice?.delta?.content || "";
+      if (choice?.delta?.tool_calls) toolCalls = true;
+      if (choice?.finish_reason) finished = true;
+    } catch (e) {
+      // Not a JSON chunk: the client deals with it, the ledger falls back to an estimate
+    }
+  };
+
+  return body.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      controller.enqueue(chunk);
+      buffer += decoder.decode(chunk, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() || "";
+      lines.forEach(readLine);
+    },
+    async flush() {
+      if (buffer) readLine(buffer);
+      await onEnd(usage, text, finished && !toolCalls);
+    }
+  }));
+};
 
 export default async function handler(req: Request) {
+  let caller: AiCaller | null = null;
+  let failedCall: (() => Promise<void>) | null = null; // Ledger entry for an upstream failure
   try {
     if (req.method !== 'POST') {
-      return new Response(JSON.stringify({ error: "Method not allowed" }), { 
+      return new Response(JSON.stringify({ error: "Method not allowed" }), {
         status: 405,
         headers: { "Content-Type": "application/json" }
       });
     }
 
+    // 1. Verified identity, rate limits and daily quota (401 / 403 / 429); the call is counted here
+    const access = await authorizeAiCall(req);
+    caller = access.caller;
+    const { settings } = access;
+
     let body;
     try {
-        body = await req.json();
+      body = await req.json();
     } catch (e) {
-        return new Response(JSON.stringify({ error: "Invalid JSON body" }), { status: 400 });
+      throw new ProxyError(400, 'BAD_REQUEST', "Invalid JSON body");
     }
 
-    const { messages, model, tools, tool_choice, key } = body;
-
-    // Validate model on server side as well
-    let modelToUse = model;
-    if (!modelToUse || modelToUse.includes("gemini")) {
-        modelToUse = "llama3-8b-8192";
+    const { messages, tools, tool_choice, key } = body;
+    if (!Array.isArray(messages) || messages.length === 0) {
+      throw new ProxyError(400, 'BAD_REQUEST', "messages must be a non-empty array");
     }
 
-    // 1. Determine API Key
-    let apiKey = key;
-    if (!apiKey) {
-        // Fallback to ENV
-        const keysRaw = process.env.GROQ_API_KEYS;
-        if (keysRaw) {
-            const keys = keysRaw.split(",").map(k => k.trim()).filter(Boolean);
-            if (keys.length > 0) {
-                apiKey = keys[Math.floor(Math.random() * keys.length)];
-            }
-        }
-    }
+    // 2. Model allowlist (no silent rewrites)
+    const modelToUse = body.model || DEFAULT_GROQ_MODEL;
+    assertModelAllowed(modelToUse, settings);
 
-    if (!apiKey) {
-        return new Response(JSON.stringify({ error: "Server Configuration Error: No valid GROQ keys found (ENV or Body)." }), { 
-            status: 500,
-            headers: { "Content-Type": "application/json" }
-        });
+    // Tool calling drives admin actions, so only admins may send tools
+    if (tools && !caller.isAdmin) {
+      throw new ProxyError(403, 'TOOLS_NOT_ALLOWED', "Tool calls are restricted to admins.");
+    }
+    // Caller-supplied keys are only accepted for the admin "Test Keys" check
+    if (key && !caller.isAdmin) {
+      throw new ProxyError(403, 'FORBIDDEN', "Custom API keys are not accepted.");
     }
 
-    // 2. Call Groq
     const payload: any = {
-      model: modelToUse || "llama3-8b-8192",
+      model: modelToUse,
       messages,
       temperature: 0.7,
-      max_tokens: 4096
+      max_tokens: Math.min(Number(body.max_tokens) || MAX_TOKENS, MAX_TOKENS)
     };
-
     if (tools) payload.tools = tools;
     if (tool_choice) payload.tool_choice = tool_choice;
+    const stream = body.stream === true && !key;
+    if (stream) payload.stream = true;
 
-    const groqRes = await fetch(GROQ_ENDPOINT, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "Authorization": `Bearer ${apiKey}`
-      },
-      body: JSON.stringify(payload)
-    });
+    if (key) {
+      // Key tests pass Groq's own status through (401 = invalid key, 429 = rate limited)
+      try {
+        const data = await callGroq(key, payload);
+        return new Response(JSON.stringify(data), { status: 200, headers: { "Content-Type": "application/json" } });
+      } catch (e: any) {
+        throw new ProxyError(e?.status || 502, 'UPSTREAM', e?.message || "Groq API Error");
+      }
+    }
+
+    // 3. Keys (env GROQ_API_KEYS + admin_secure/apiKeys.keys), quarantined ones skipped
+    const { keys, total } = await getKeyPool('GROQ', 'GROQ_API_KEYS', 'keys');
+    if (keys.length === 0) {
+      throw new ProxyError(503, 'NO_KEYS', total === 0 ? "Server Configuration Error: No Groq keys configured." : `All ${total} Groq keys are quarantined (invalid or rate limited).`);
+    }
 
-    // Check if the response is ok
-    if (!groqRes.ok) {
-        const errorText = await groqRes.text();
-        return new Response(JSON.stringify({ error: "Groq API Error", detail: errorText }), { 
-            status: groqRes.status,
-            headers: { "Content-Type": "application/json" }
-        });
+    // 4. Call Groq with rotation
+    const usageType = caller.isAdmin && body.usageType === 'PILOT' ? 'PILOT' : 'STUDENT';
+    const startedAt = Date.now();
+    const ledgerCall = { provider: 'GROQ' as const, model: modelToUse, messages };
+    const ledgerCaller = caller;
+    failedCall = () => recordAiUsage(ledgerCaller, usageType, body.ledger, { ...ledgerCall, text: "", latencyMs: Date.now() - startedAt, failed: true });
+
+    if (stream) {
+      // Groq's SSE body (OpenAI chunk format) is passed through untouched
+      const { result: upstream, keyId } = await callWithKeyRotation('GROQ', keys, usageType, (apiKey) => openGroq(apiKey, payload));
+      const onEnd = async (usage: any, text: string, complete: boolean) => {
+        await recordAiUsage(ledgerCaller, usageType, body.ledger, { ...ledgerCall, keyId, usage, text, latencyMs: Date.now() - startedAt });
+        if (complete && !tools) await storeGeneration(body.cache, { ...ledgerCall, text }, settings);
+      };
+      return new Response(meterStream(upstream.body!, onEnd), {
+        status: 200,
+        headers: {
+          "Content-Type": "text/event-stream",
+          "Cache-Control": "no-cache, no-transform",
+          "X-Ai-Key-Id": keyId
+        }
+      });
     }
 
-    // Forward the response
-    const data = await groqRes.json();
-    return new Response(JSON.stringify(data), {
+    const { result, keyId } = await callWithKeyRotation('GROQ', keys, usageType, (apiKey) => callGroq(apiKey, payload));
+    const message = result.choices?.[0]?.message;
+    await recordAiUsage(caller, usageType, body.ledger, {
+      ...ledgerCall, keyId, usage: result.usage, latencyMs: Date.now() - startedAt,
+      text: (message?.content || "") + (message?.tool_calls ? JSON.stringify(message.tool_calls) : "")
+    });
+    if (!tools && !message?.tool_calls) await storeGeneration(body.cache, { ...ledgerCall, text: message?.content || "" }, settings);
+    // Groq's own token counts move to `tokens`; `usage` is the caller's daily quota summary
+    return new Response(JSON.stringify({ ...result, keyId, tokens: result.usage, usage: usageSummary(caller) }), {
       status: 200,
       headers: { "Content-Type": "application/json" }
     });
 
   } catch (err: any) {
-    return new Response(JSON.stringify({ error: "Server Internal Error", detail: err.message }), { 
-        status: 500,
-        headers: { "Content-Type": "application/json" }
-    });
+    if (caller) await releaseDailyUsage(caller);
+    if (failedCall) await failedCall();
+    return errorResponse(err);
   }
 }
@@ -0,0 +1,57 @@
+import { requireUser } from "./_lib/auth";
+import { getDocument, commitWrites } from "./_lib/firestore";
+import { checkRateLimit, getClientIp } from "./_lib/rateLimit";
+import { ProxyError, errorResponse } from "./_lib/aiAccess";
+
+export const config = {
+  runtime: 'edge',
+};
+
+// Maps the caller's auth uid to an app User.id (auth_links/{uid}, read by the AI proxies).
+// Legacy logins sign in anonymously, so the account is proven by the email on the ID token or by its password.
+const ATTEMPTS_PER_MINUTE = 10;
+
+const json = (body: any, status: number = 200) => new Response(JSON.stringify(body), {
+  status,
+  headers: { "Content-Type": "application/json" }
+});
+
+export default async function handler(req: Request) {
+  try {
+    if (req.method !== 'POST') {
+      return json({ error: "Method not allowed" }, 405);
+    }
+
+    const attempt = checkRateLimit(`link-session:${getClientIp(req)}`, ATTEMPTS_PER_MINUTE);
+    if (!attempt.allowed) {
+      throw new ProxyError(429, 'RATE_LIMITED', `Too many attempts. Please wait ${attempt.retryAfterSeconds}s.`, { retryAfterSeconds: attempt.retryAfterSeconds });
+    }
+
+    let user;
+    try {
+      user = await requireUser(req);
+    } catch (e: any) {
+      throw new ProxyError(401, 'UNAUTHENTICATED', e.message || "Please log in again.");
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const userId = body?.userId;
+    if (typeof userId !== 'string' || !userId || userId.includes('/')) {
+      throw new ProxyError(400, 'BAD_REQUEST', "userId is required");
+    }
+    if (userId === user.uid) return json({ userId });
+
+    const profile = await getDocument(`users/${userId}`);
+    const emailMatches = !!user.email && profile?.email === user.email;
+    const passwordMatches = typeof body.password === 'string' && !!profile?.password && profile.password === body.password;
+    if (!profile || profile.isArchived || !(emailMatches || passwordMatches)) {
+      throw new ProxyError(403, 'FORBIDDEN', "This session cannot be linked to that account.");
+    }
+
+    await commitWrites([{ path: `auth_links/${user.uid}`, merge: { userId, linkedAt: new Date().toISOString() } }]);
+    return json({ userId });
+
+  } catch (err: any) {
+    return errorResponse(err);
+  }
+}
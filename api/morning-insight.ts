@@ -0,0 +1,132 @@
+import { loadPublicSettings, ProxyError, errorResponse, AiCaller } from "./_lib/aiAccess";
+import { getDocument, listDocuments, commitWrites } from "./_lib/firestore";
+import { getKeyPool, callWithKeyRotation } from "./_lib/keyPool";
+import { callGroq, DEFAULT_GROQ_MODEL } from "./_lib/groq";
+import { recordAiUsage } from "./_lib/aiLedger";
+import { MorningInsightSchema } from "../services/aiSchemas";
+import {
+  Segment, MAX_DAILY_ATTEMPTS, getMorningInsightConfig, toDateKey, getInsightHour, getMorningInsightId,
+  collectInsightSegments, buildMorningInsightPrompt, buildMorningInsightRecord
+} from "../services/morningInsightData";
+
+export const config = {
+  runtime: 'edge',
+};
+
+// Daily Morning Insight schedule, run by Vercel Cron (vercel.json) so it does not need an open admin tab.
+// Each run after the configured hour generates the segments that have no insight yet and attempts left,
+// then marks the day done in morning_insight_runs/{date} so later runs stop listing users.
+// Segments left over when the time budget runs out are picked up by the next run.
+
+const TIME_BUDGET_MS = 20 * 1000; // Edge functions must start responding within 25s
+const MAX_TOKENS = 1024;
+
+// Spend ledger identity for calls made by the schedule itself
+const SCHEDULE_CALLER: AiCaller = {
+  user: { uid: 'morning-insight-cron', isAnonymous: false, role: 'ADMIN' },
+  userId: 'SYSTEM',
+  role: 'ADMIN',
+  isAdmin: true,
+  dailyLimit: null,
+  usedToday: 0
+};
+
+const json = (body: any, status: number = 200) => new Response(JSON.stringify(body), {
+  status,
+  headers: { "Content-Type": "application/json" }
+});
+
+// Vercel Cron sends `Authorization: Bearer <CRON_SECRET>`; without the env var the route stays closed
+const isCronRequest = (req: Request) => {
+  const secret = process.env.CRON_SECRET;
+  return !!secret && req.headers.get('authorization') === `Bearer ${secret}`;
+};
+
+const generateInsight = async (segment: Segment, date: string, settings: Record<string, any>) => {
+  const { keys, total } = await getKeyPool('GROQ', 'GROQ_API_KEYS', 'keys');
+  if (keys.length === 0) throw new Error(total === 0 ? "No Groq keys configured." : `All ${total} Groq keys are quarantined.`);
+
+  const model = settings.aiProviderRouting?.ANALYSIS?.models?.GROQ || DEFAULT_GROQ_MODEL;
+  const messages = [{ role: 'user', content: buildMorningInsightPrompt(segment) }];
+  const payload = { model, messages, temperature: 0.7, max_tokens: MAX_TOKENS, response_format: { type: 'json_object' } };
+  const ledger = { task: 'ANALYSIS' };
+  const startedAt = Date.now();
+
+  let called;
+  try {
+    called = await callWithKeyRotation('GROQ', keys, 'PILOT', (apiKey) => callGroq(apiKey, payload));
+  } catch (e) {
+    await recordAiUsage(SCHEDULE_CALLER, 'PILOT', ledger, { provider: 'GROQ', model, messages, text: "", latencyMs: Date.now() - startedAt, failed: true });
+    throw e;
+  }
+  const text = called.result.choices?.[0]?.message?.content || "";
+  await recordAiUsage(SCHEDULE_CALLER, 'PILOT', ledger, {
+    provider: 'GROQ', model, keyId: called.keyId, usage: called.result.usage, messages, text, latencyMs: Date.now() - startedAt
+  });
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text.replace(/```json/g, '').replace(/```/g, '').trim());
+  } catch (e: any) {
+    throw new Error(`Invalid JSON: ${e.message}`);
+  }
+  const insight = MorningInsightSchema.safeParse(parsed);
+  if (!insight.success) {
+    throw new Error(`Invalid insight: ${insight.error.issues.slice(0, 3).map(i => `${i.path.join('.') || '(root)'}: ${i.message}`).join('; ')}`);
+  }
+  return buildMorningInsightRecord(insight.data, segment, date);
+};
+
+export default async function handler(req: Request) {
+  try {
+    if (!isCronRequest(req)) {
+      throw new ProxyError(401, 'UNAUTHENTICATED', "Cron secret required.");
+    }
+
+    const settings = await loadPublicSettings();
+    const insightConfig = getMorningInsightConfig(settings);
+    const now = new Date();
+    if (!insightConfig.enabled || getInsightHour(now) < insightConfig.hour) return json({ status: 'NOT_DUE' });
+
+    const date = toDateKey(now);
+    if ((await getDocument(`morning_insight_runs/${date}`))?.complete) return json({ status: 'DONE', date });
+
+    const users = await listDocuments('users', 300, ['id', 'board', 'classLevel', 'mcqHistory']);
+    const startedAt = Date.now();
+    let generated = 0;
+    let pending = 0; // Segments to retry on a later run (failed with attempts left, or out of time)
+
+    for (const segment of collectInsightSegments(users, now)) {
+      if (segment.results.length < insightConfig.minResults) continue;
+      const id = getMorningInsightId(date, segment.board, segment.classLevel);
+      if (await getDocument(`morning_insights/${id}`)) continue;
+      const failures = (await getDocument(`morning_insight_failures/${id}`))?.attempts || 0;
+      if (failures >= MAX_DAILY_ATTEMPTS) continue;
+      if (Date.now() - startedAt > TIME_BUDGET_MS) {
+        pending++;
+        continue;
+      }
+
+      try {
+        const record = await generateInsight(segment, date, settings);
+        await commitWrites([{ path: `morning_insights/${id}`, merge: record }]);
+        generated++;
+      } catch (e: any) {
+        console.error(`Morning Insight failed for ${id}:`, e);
+        await commitWrites([{
+          path: `morning_insight_failures/${id}`,
+          merge: { id, lastError: String(e?.message || e).slice(0, 500), lastAttemptAt: new Date().toISOString() },
+          increments: { attempts: 1 }
+        }]);
+        if (failures + 1 < MAX_DAILY_ATTEMPTS) pending++;
+      }
+    }
+
+    if (pending === 0) {
+      await commitWrites([{ path: `morning_insight_runs/${date}`, merge: { date, complete: true, completedAt: new Date().toISOString() } }]);
+    }
+    return json({ status: pending === 0 ? 'DONE' : 'PARTIAL', date, generated, pending });
+  } catch (err: any) {
+    return errorResponse(err);
+  }
+}
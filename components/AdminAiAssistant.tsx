@@ -1,8 +1,11 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Terminal, Send, Cpu, ShieldCheck, X, Loader2, RefreshCw, Users, CheckCircle, Gift } from 'lucide-react';
+import { Terminal, Send, Cpu, ShieldCheck, X, Loader2, RefreshCw, Users, CheckCircle, Gift, Square, History, Undo2, AlertTriangle } from 'lucide-react';
 import { processAdminCommand, AdminAiResponse } from '../services/adminAi';
+import { executeAdminPlan, undoAdminAction, AdminUndoConflictError } from '../services/adminActions';
+import { getAdminActionHistory } from '../firebase';
 import { speakText } from '../utils/textToSpeech';
-import { User, SystemSettings } from '../types';
+import { User, SystemSettings, AdminActionPlan, AdminActionRecord, AdminActionDiff, AdminActionTarget } from '../types';
+import { StreamingMarkdown } from './StreamingMarkdown';
 
 interface Props {
   onClose: () => void;
@@ -16,14 +19,44 @@ interface Message {
   text: string;
   type?: AdminAiResponse['type'];
   data?: any;
+  status?: 'STREAMING' | 'STOPPED' | 'INTERRUPTED';
 }
 
+type PlanStatus = { state: 'RUNNING' | 'DONE' | 'CANCELLED' | 'FAILED'; note?: string };
+
+const MAX_TARGETS_SHOWN = 10;
+
+const OPERATION_STYLES: Record<AdminActionTarget['operation'], string> = {
+  CREATE: 'bg-green-900 text-green-300',
+  UPDATE: 'bg-indigo-900 text-indigo-300',
+  DELETE: 'bg-red-900 text-red-300'
+};
+
+const formatValue = (value: any) => {
+  if (value === undefined || value === null) return '(not set)';
+  if (Array.isArray(value)) return `[${value.length} item(s)]`;
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > 80 ? `${text.slice(0, 80)}…` : text;
+};
+
+// Array fields (inbox, subscriptionHistory, weeklyTests) show the entries that were added
+const getAddedItems = (diff: AdminActionDiff) => {
+  if (!Array.isArray(diff.after)) return [];
+  const before = new Set((Array.isArray(diff.before) ? diff.before : []).map(item => JSON.stringify(item)));
+  return diff.after.filter(item => !before.has(JSON.stringify(item)));
+};
+
 export const AdminAiAssistant: React.FC<Props> = ({ onClose, users, settings, onUpdateSettings }) => {
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [messages, setMessages] = useState<Message[]>([]);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const hasGreeted = useRef(false);
+  const abortRef = useRef<AbortController | null>(null);
+  const [planStatus, setPlanStatus] = useState<Record<string, PlanStatus>>({});
+  const [showHistory, setShowHistory] = useState(false);
+  const [history, setHistory] = useState<AdminActionRecord[]>([]);
+  const [undoingId, setUndoingId] = useState<string | null>(null);
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
@@ -31,6 +64,16 @@ export const AdminAiAssistant: React.FC<Props> = ({ onClose, users, settings, on
 
   useEffect(scrollToBottom, [messages, isLoading]);
 
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const updateLastAiMessage = (update: (msg: Message) => Message) => {
+    setMessages(prev => {
+      const next = [...prev];
+      next[next.length - 1] = update(next[next.length - 1]);
+      return next;
+    });
+  };
+
   // GREETING ON MOUNT
   useEffect(() => {
       if (!hasGreeted.current) {
@@ -45,40 +88,177 @@ export const AdminAiAssistant: React.FC<Props> = ({ onClose, users, settings, on
     if (!input.trim() || isLoading) return;
 
     const userMsg = input;
-    setMessages(prev => [...prev, { role: 'USER', text: userMsg }]);
+    setMessages(prev => [...prev, { role: 'USER', text: userMsg }, { role: 'AI', text: '', type: 'TEXT', status: 'STREAMING' }]);
     setInput('');
     setIsLoading(true);
+    const controller = new AbortController();
+    abortRef.current = controller;
 
     try {
         const response = await processAdminCommand(userMsg, { 
             users, 
             settings, 
             setSettings: onUpdateSettings 
+        }, {
+            signal: controller.signal,
+            onDelta: (delta) => updateLastAiMessage(m => ({ ...m, text: m.text + delta }))
         });
 
-        setMessages(prev => [...prev, { 
+        const status: Message['status'] = response.finishReason === 'ABORTED' ? 'STOPPED' : response.finishReason === 'INTERRUPTED' ? 'INTERRUPTED' : undefined;
+        updateLastAiMessage(() => ({ 
             role: 'AI', 
             text: response.message, 
             type: response.type, 
-            data: response.data 
-        }]);
+            data: response.data,
+            status
+        }));
         
-        speakText(response.message);
+        // Only read out answers that finished
+        if (!status) speakText(response.message);
 
     } catch (error: any) {
-        setMessages(prev => [...prev, { role: 'AI', text: "Error: " + error.message, type: 'TEXT' }]);
+        updateLastAiMessage(() => ({ role: 'AI', text: "Error: " + error.message, type: 'TEXT' }));
         speakText("I encountered an error.");
     } finally {
+        abortRef.current = null;
         setIsLoading(false);
     }
   };
 
+  const loadHistory = async () => setHistory(await getAdminActionHistory());
+
+  useEffect(() => { if (showHistory) loadHistory(); }, [showHistory]);
+
+  const handleConfirmPlan = async (plan: AdminActionPlan) => {
+    setPlanStatus(prev => ({ ...prev, [plan.id]: { state: 'RUNNING' } }));
+    try {
+      await executeAdminPlan(plan);
+      setPlanStatus(prev => ({ ...prev, [plan.id]: { state: 'DONE' } }));
+      speakText("Done Sir.");
+      if (showHistory) loadHistory();
+    } catch (error: any) {
+      setPlanStatus(prev => ({ ...prev, [plan.id]: { state: 'FAILED', note: error.message } }));
+    }
+  };
+
+  const handleUndo = async (record: AdminActionRecord) => {
+    if (!confirm(`Undo "${record.summary}"?`)) return;
+    setUndoingId(record.id);
+    try {
+      await undoAdminAction(record);
+    } catch (error: any) {
+      if (error instanceof AdminUndoConflictError && confirm(`${error.message}.\nUndo anyway and overwrite those later changes?`)) {
+        await undoAdminAction(record, true).catch(e => alert(`Undo failed: ${e.message}`));
+      } else if (!(error instanceof AdminUndoConflictError)) {
+        alert(`Undo failed: ${error.message}`);
+      }
+    }
+    setUndoingId(null);
+    loadHistory();
+  };
+
+  const renderDiff = (d: AdminActionDiff) => (
+    <div key={`${d.targetId}-${d.path}`} className="text-[11px] font-mono bg-slate-900/60 rounded p-1.5">
+      <p className="text-indigo-300 font-bold">{d.path}</p>
+      <p><span className="text-red-400">- {formatValue(d.before)}</span></p>
+      <p><span className="text-green-400">+ {formatValue(d.after)}</span></p>
+      {getAddedItems(d).slice(0, 2).map((item, i) => (
+        <p key={i} className="text-green-300/80 pl-2">new: {formatValue(item)}</p>
+      ))}
+    </div>
+  );
+
+  // Field diffs grouped under each record; long segment actions show the first few records only
+  const renderTargets = (targets: AdminActionTarget[], diffs: AdminActionDiff[]) => (
+    <div className="space-y-2">
+      {targets.slice(0, MAX_TARGETS_SHOWN).map(t => (
+        <div key={t.id}>
+          <p className="text-[10px] font-bold text-slate-300 mb-1">
+            <span className={`px-1.5 py-0.5 rounded mr-1 ${OPERATION_STYLES[t.operation]}`}>{t.operation}</span>
+            {t.kind === 'USER' ? 'User' : t.kind === 'SETTINGS' ? 'Settings' : 'Record'}: {t.label}
+          </p>
+          {t.operation === 'DELETE' && <p className="text-xs text-red-300">The entire record is removed. Undo restores it from the saved copy.</p>}
+          {t.operation === 'UPDATE' && (
+            <div className="space-y-1">
+              {diffs.filter(d => d.targetId === t.id).map(renderDiff)}
+              {!diffs.some(d => d.targetId === t.id) && <p className="text-xs text-slate-400 italic">No fields would change.</p>}
+            </div>
+          )}
+        </div>
+      ))}
+      {targets.length > MAX_TARGETS_SHOWN && <p className="text-[10px] text-slate-400">+ {targets.length - MAX_TARGETS_SHOWN} more record(s) with the same change</p>}
+    </div>
+  );
+
+  const renderPlan = (plan: AdminActionPlan) => {
+    const status = planStatus[plan.id];
+    const deletes = plan.targets.some(t => t.operation === 'DELETE');
+    return (
+      <div key={plan.id} className={`rounded-lg p-3 border ${deletes ? 'bg-red-900/20 border-red-800' : 'bg-slate-800 border-slate-700'}`}>
+        <p className="text-sm font-bold text-white mb-1 flex items-center gap-2">
+          {deletes && <AlertTriangle size={14} className="text-red-400" />} {plan.summary}
+        </p>
+        <p className="text-[10px] text-slate-400 mb-2">{plan.tool} • {plan.targets.length} record(s)</p>
+        <div className="max-h-64 overflow-y-auto mb-2">{renderTargets(plan.targets, plan.diffs)}</div>
+
+        {!status && (
+          <div className="flex gap-2">
+            <button onClick={() => handleConfirmPlan(plan)} className="flex-1 bg-green-600 hover:bg-green-700 text-white text-xs font-bold py-1.5 rounded-lg">Confirm</button>
+            <button onClick={() => setPlanStatus(prev => ({ ...prev, [plan.id]: { state: 'CANCELLED' } }))} className="flex-1 bg-slate-700 hover:bg-slate-600 text-slate-200 text-xs font-bold py-1.5 rounded-lg">Cancel</button>
+          </div>
+        )}
+        {status?.state === 'RUNNING' && <p className="text-xs text-indigo-300 flex items-center gap-1"><Loader2 size={12} className="animate-spin" /> Executing...</p>}
+        {status?.state === 'DONE' && <p className="text-xs text-green-400 font-bold flex items-center gap-1"><CheckCircle size={12} /> Executed. Undo it from History.</p>}
+        {status?.state === 'CANCELLED' && <p className="text-xs text-slate-500 font-bold">Cancelled. Nothing was changed.</p>}
+        {status?.state === 'FAILED' && <p className="text-xs text-red-400 font-bold">Not executed: {status.note}</p>}
+      </div>
+    );
+  };
+
+  const renderHistory = () => (
+    <div className="space-y-3">
+      <div className="flex justify-between items-center">
+        <p className="text-xs font-bold text-slate-400 uppercase">Action History</p>
+        <button onClick={loadHistory} className="text-slate-400 hover:text-white" title="Refresh"><RefreshCw size={14} /></button>
+      </div>
+      {history.length === 0 && <p className="text-sm text-slate-500 italic">No confirmed actions yet.</p>}
+      {history.map(record => (
+        <div key={record.id} className={`rounded-lg p-3 border border-slate-700 ${record.undoneAt ? 'bg-slate-900 opacity-60' : 'bg-slate-800'}`}>
+          <div className="flex justify-between items-start gap-2 mb-1">
+            <div>
+              <p className="text-sm font-bold text-white">{record.summary}</p>
+              <p className="text-[10px] text-slate-400">{new Date(record.executedAt).toLocaleString()} • {record.tool}</p>
+            </div>
+            {record.undoneAt ? (
+              <span className="text-[10px] font-bold text-slate-500 uppercase shrink-0">Undone {new Date(record.undoneAt).toLocaleString()}</span>
+            ) : (
+              <button
+                onClick={() => handleUndo(record)}
+                disabled={undoingId === record.id}
+                className="shrink-0 flex items-center gap-1 bg-amber-600 hover:bg-amber-700 text-white text-xs font-bold px-2 py-1 rounded-lg disabled:opacity-50"
+              >
+                {undoingId === record.id ? <Loader2 size={12} className="animate-spin" /> : <Undo2 size={12} />} Undo
+              </button>
+            )}
+          </div>
+          <div className="max-h-32 overflow-y-auto">{renderTargets(record.targets, record.diffs)}</div>
+        </div>
+      ))}
+    </div>
+  );
+
   const renderContent = (msg: Message) => {
       if (msg.role === 'USER') return <p className="whitespace-pre-wrap font-sans">{msg.text}</p>;
 
       return (
           <div className="space-y-3 font-sans">
-              <p>{msg.text}</p>
+              <StreamingMarkdown
+                  text={msg.text}
+                  isStreaming={msg.status === 'STREAMING'}
+                  className="prose prose-invert prose-sm max-w-none prose-p:my-1"
+              />
+              {msg.status === 'STOPPED' && <p className="text-[10px] font-bold uppercase text-slate-500">Stopped</p>}
+              {msg.status === 'INTERRUPTED' && <p className="text-[10px] font-bold text-orange-400">Connection dropped - reply may be incomplete. No actions were run.</p>}
               
               {/* LIST USERS */}
               {msg.type === 'LIST_USERS' && msg.data && Array.isArray(msg.data) && (
@@ -118,6 +298,53 @@ export const AdminAiAssistant: React.FC<Props> = ({ onClose, users, settings, on
                   </div>
               )}
 
+              {/* MCQ ANALYTICS */}
+              {msg.type === 'MCQ_ANALYTICS' && msg.data && Array.isArray(msg.data) && (
+                  <div className="bg-slate-800 rounded-lg p-2 max-h-60 overflow-y-auto">
+                      <table className="w-full text-xs text-left text-slate-300">
+                          <thead>
+                              <tr className="border-b border-slate-700">
+                                  <th className="p-1">Group</th>
+                                  <th className="p-1">Attempts</th>
+                                  <th className="p-1">Students</th>
+                                  <th className="p-1">Avg %</th>
+                                  <th className="p-1">Sec/Q</th>
+                              </tr>
+                          </thead>
+                          <tbody>
+                              {msg.data.map((row: any) => (
+                                  <tr key={row.key} className="border-b border-slate-700/50">
+                                      <td className="p-1">{row.key}</td>
+                                      <td className="p-1">{row.attempts}</td>
+                                      <td className="p-1">{row.students}</td>
+                                      <td className={`p-1 font-bold ${row.avgScorePercent < 40 ? 'text-red-400' : row.avgScorePercent < 70 ? 'text-yellow-400' : 'text-green-400'}`}>{row.avgScorePercent}%</td>
+                                      <td className="p-1 text-slate-500">{row.avgSecondsPerQuestion}</td>
+                                  </tr>
+                              ))}
+                          </tbody>
+                      </table>
+                  </div>
+              )}
+
+              {/* PENDING REQUESTS */}
+              {msg.type === 'LIST_REQUESTS' && msg.data && Array.isArray(msg.data) && (
+                  <div className="bg-slate-800 rounded-lg p-2 max-h-40 overflow-y-auto space-y-1">
+                      {msg.data.map((r: any) => (
+                          <div key={`${r.kind}-${r.id}`} className="text-xs text-slate-300 flex justify-between gap-2 border-b border-slate-700/50 pb-1">
+                              <span><span className="font-bold text-indigo-300">{r.kind}</span> {r.userName || r.name} {r.kind === 'PAYMENT' ? `• ₹${r.amount} • ${r.packageName} • txn ${r.txnId}` : `• ${r.mobile}`}</span>
+                              <span className="font-mono text-slate-500 shrink-0">{r.id}</span>
+                          </div>
+                      ))}
+                  </div>
+              )}
+
+              {/* ACTION PLANS (dry run, waiting for the admin) */}
+              {msg.type === 'ACTION_PLAN' && Array.isArray(msg.data) && (
+                  <div className="space-y-2">
+                      {msg.data.map((plan: AdminActionPlan) => renderPlan(plan))}
+                  </div>
+              )}
+
               {/* ACTION CONFIRMATION */}
               {msg.type === 'ACTION_CONFIRMATION' && (
                   <div className="flex items-center gap-2 text-green-400 text-sm font-bold bg-green-900/20 p-2 rounded-lg border border-green-800">
@@ -144,14 +371,28 @@ export const AdminAiAssistant: React.FC<Props> = ({ onClose, users, settings, on
                         </p>
                     </div>
                 </div>
-                <button onClick={onClose} className="bg-slate-800 p-2 rounded-full text-slate-400 hover:text-white hover:bg-slate-700 transition-all">
-                    <X size={20} />
-                </button>
+                <div className="flex items-center gap-2">
+                    <button 
+                        onClick={() => setShowHistory(!showHistory)} 
+                        title="Action History"
+                        className={`p-2 rounded-full transition-all ${showHistory ? 'bg-indigo-600 text-white' : 'bg-slate-800 text-slate-400 hover:text-white hover:bg-slate-700'}`}
+                    >
+                        <History size={20} />
+                    </button>
+                    <button onClick={onClose} className="bg-slate-800 p-2 rounded-full text-slate-400 hover:text-white hover:bg-slate-700 transition-all">
+                        <X size={20} />
+                    </button>
+                </div>
             </div>
 
             {/* Chat Body */}
+            {showHistory ? (
+            <div className="flex-1 overflow-y-auto p-6 custom-scrollbar bg-slate-900/50">
+                {renderHistory()}
+            </div>
+            ) : (
             <div className="flex-1 overflow-y-auto p-6 space-y-6 custom-scrollbar bg-slate-900/50">
-                {messages.map((msg, idx) => (
+                {messages.filter(msg => msg.status !== 'STREAMING' || msg.text).map((msg, idx) => (
                     <div key={idx} className={`flex gap-4 ${msg.role === 'AI' ? 'text-slate-200' : 'text-white flex-row-reverse'}`}>
                         <div className={`w-10 h-10 rounded-full flex items-center justify-center shrink-0 shadow-lg ${msg.role === 'AI' ? 'bg-indigo-600 text-white' : 'bg-slate-700 text-slate-300'}`}>
                             {msg.role === 'AI' ? <Cpu size={20} /> : <ShieldCheck size={20} />}
@@ -166,7 +407,7 @@ export const AdminAiAssistant: React.FC<Props> = ({ onClose, users, settings, on
                     </div>
                 ))}
                 
-                {isLoading && (
+                {isLoading && !messages[messages.length - 1]?.text && (
                     <div className="flex gap-4 text-slate-400">
                         <div className="w-10 h-10 rounded-full bg-indigo-900/50 flex items-center justify-center shrink-0">
                             <Loader2 size={20} className="animate-spin text-indigo-400" />
@@ -178,6 +419,7 @@ export const AdminAiAssistant: React.FC<Props> = ({ onClose, users, settings, on
                 )}
                 <div ref={messagesEndRef} />
             </div>
+            )}
 
             {/* Input Area */}
             <div className="p-4 bg-[#1e293b] border-t border-slate-700">
@@ -192,16 +434,26 @@ export const AdminAiAssistant: React.FC<Props> = ({ onClose, users, settings, on
                         placeholder="Type a command (e.g., 'Scan users', 'Create weekly test')..."
                         autoFocus
                     />
-                    <button 
-                        onClick={handleSend}
-                        disabled={isLoading || !input.trim()}
-                        className="absolute right-2 p-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed shadow-lg"
-                    >
-                        <Send size={20} />
-                    </button>
+                    {isLoading ? (
+                        <button 
+                            onClick={() => abortRef.current?.abort()}
+                            title="Stop"
+                            className="absolute right-2 p-2 bg-red-600 hover:bg-red-700 text-white rounded-lg transition-colors shadow-lg"
+                        >
+                            <Square size={20} />
+                        </button>
+                    ) : (
+                        <button 
+                            onClick={handleSend}
+                            disabled={!input.trim()}
+                            className="absolute right-2 p-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed shadow-lg"
+                        >
+                            <Send size={20} />
+                        </button>
+                    )}
                 </div>
                 <div className="flex gap-2 mt-3 overflow-x-auto pb-1 scrollbar-hide">
-                    {['Scan Users', 'Create Weekly Test', 'Set Daily Challenge', 'Send Prize'].map(cmd => (
+                    {['Scan Users', 'Create Weekly Test', 'Pending Requests', 'Weakest Chapters This Week', 'Create Gift Codes', 'Send Prize'].map(cmd => (
                         <button 
                             key={cmd}
                             onClick={() => { setInput(cmd); }} 
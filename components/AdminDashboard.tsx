@@ -1,12 +1,19 @@
 
 import React, { useEffect, useState, useRef } from 'react';
-import { User, ViewState, SystemSettings, Subject, Chapter, MCQItem, RecoveryRequest, ActivityLogEntry, LeaderboardEntry, RecycleBinItem, Stream, Board, ClassLevel, GiftCode, SubscriptionPlan, CreditPackage, WatermarkConfig, SpinReward, HtmlModule, PremiumNoteSlot, ContentInfoConfig, ContentInfoItem, SubscriptionHistoryEntry, UniversalAnalysisLog } from '../types';
+import { User, ViewState, SystemSettings, Subject, Chapter, MCQItem, TestPaperBlueprintItem, AutoPilotJob, QuestionDifficulty, QuestionBankFilters, Language, RecoveryRequest, ActivityLogEntry, LeaderboardEntry, RecycleBinItem, Stream, Board, ClassLevel, GiftCode, SubscriptionPlan, CreditPackage, WatermarkConfig, SpinReward, HtmlModule, PremiumNoteSlot, ContentInfoConfig, ContentInfoItem, SubscriptionHistoryEntry, UniversalAnalysisLog, AiProviderId, PromptTemplate, MarkingScheme, TestSection } from '../types';
 import { Users, Search, Trash2, Save, X, Eye, EyeOff, Shield, Megaphone, CheckCircle, ListChecks, Database, FileText, Monitor, Sparkles, Banknote, BrainCircuit, AlertOctagon, ArrowLeft, Key, Bell, ShieldCheck, Lock, Globe, Layers, Zap, PenTool, RefreshCw, RotateCcw, Plus, LogOut, Download, Upload, CreditCard, Ticket, Video, Image as ImageIcon, Type, Link, FileJson, Activity, AlertTriangle, Gift, Book, Mail, Edit3, MessageSquare, ShoppingBag, Cloud, Rocket, Code2, Layers as LayersIcon, Wifi, WifiOff, Copy, Crown, Gamepad2, Calendar, BookOpen, Image, HelpCircle, Youtube, Play, Star, Trophy, Palette, Settings, Headphones, Layout, Bot } from 'lucide-react';
 import { getSubjectsList, DEFAULT_SUBJECTS, DEFAULT_APP_FEATURES, DEFAULT_CONTENT_INFO_CONFIG, ADMIN_PERMISSIONS, APP_VERSION } from '../constants';
-import { fetchChapters, fetchLessonContent } from '../services/groq';
+import { fetchChapters, fetchLessonContent, generateTestPaper } from '../services/aiContent';
+import { AI_TASK_TYPES, listAiProviders, getTaskRoute } from '../services/aiClient';
+import { getAiRecordings, exportAiRecordings, importAiRecordings, clearAiRecordings } from '../services/providers/mock';
 import { getAvailableVoices } from '../utils/textToSpeech';
-import { runAutoPilot, runCommandMode } from '../services/autoPilot';
-import { saveChapterData, bulkSaveLinks, checkFirebaseConnection, saveSystemSettings, subscribeToUsers, rtdb, saveUserToLive, db, getChapterData, saveCustomSyllabus, deleteCustomSyllabus, subscribeToUniversalAnalysis, saveAiInteraction, saveSecureKeys, getSecureKeys, subscribeToApiUsage, subscribeToDrafts } from '../firebase'; // IMPORT FIREBASE
+import { indexChapterContent, rebuildSubjectIndex } from '../services/tutorRetrieval';
+import { getAiCacheConfig } from '../services/aiCache';
+import { getMorningInsightConfig } from '../services/morningInsight';
+import { migrateLocalQuestionBank, fetchRandomQuestionsFromBank, isNearDuplicate } from '../services/questionBank';
+import { parseSheetRow, getQuestionKind, formatCorrectAnswer } from '../services/questionTypes';
+import { runAutoPilot, runCommandMode, runHindiTranslationCommand, runAutoPilotWorker, stopAutoPilotWorker, cancelAutoPilotJobs, retryAutoPilotJobs, clearFinishedAutoPilotJobs, summarizeAutoPilotJobs, isAutoPilotWorkerActive } from '../services/autoPilot';
+import { saveChapterData, bulkSaveLinks, checkFirebaseConnection, saveSystemSettings, subscribeToUsers, rtdb, saveUserToLive, saveAiEntitlement, saveAdminRole, db, getChapterData, saveCustomSyllabus, deleteCustomSyllabus, subscribeToUniversalAnalysis, saveAiInteraction, saveSecureKeys, getSecureKeys, migratePublicKeyMaterial, purgeLegacyKeyCopies, stripKeyMaterial, subscribeToApiUsage, subscribeToDrafts, subscribeToAiFailures, subscribeToAutoPilotJobs, setContentAuthor, getAuthToken } from '../firebase'; // IMPORT FIREBASE
 import { ref, set, onValue, update, push, get } from "firebase/database";
 import { doc, deleteDoc } from "firebase/firestore";
 import { SimpleRichTextEditor } from './SimpleRichTextEditor';
@@ -16,6 +23,18 @@ import { CustomAlert } from './CustomDialogs';
 import { AdminAiAssistant } from './AdminAiAssistant';
 import { UniversalChat } from './UniversalChat';
 import { ChallengeCreator20 } from './admin/ChallengeCreator20';
+import { MarkingSchemeEditor } from './admin/MarkingSchemeEditor';
+import { DraftReviewQueue } from './admin/DraftReviewQueue';
+import { ContentHistoryPanel } from './admin/ContentHistoryPanel';
+import { PromptTemplateLibrary } from './admin/PromptTemplateLibrary';
+import { KeyHealthPanel } from './admin/KeyHealthPanel';
+import { AiCachePanel } from './admin/AiCachePanel';
+import { AiSpendPanel } from './admin/AiSpendPanel';
+import { HindiGlossaryEditor } from './admin/HindiGlossaryEditor';
+import { MorningInsightPanel } from './admin/MorningInsightPanel';
+import { QuestionBankConsole } from './admin/QuestionBankConsole';
+import { ItemAnalysisPanel } from './admin/ItemAnalysisPanel';
+import { BankTagFilters } from './admin/BankTagFilters';
 // @ts-ignore
 import JSZip from 'jszip';
 import { Document, Page, pdfjs } from 'react-pdf';
@@ -81,6 +100,8 @@ type AdminTab =
   | 'CONFIG_POPUP_THREE_TIER'
   | 'CONFIG_CHALLENGE'
   | 'CHALLENGE_CREATOR_20'
+  | 'QUESTION_BANK'
+  | 'ITEM_ANALYSIS'
   | 'APP_MODES'
   | 'AI_STUDIO'
   | 'AI_NOTES_MANAGER'
@@ -168,6 +189,11 @@ export const AdminDashboard: React.FC<Props> = ({ onNavigate, settings, onUpdate
       if (stored) setCurrentUser(JSON.parse(stored));
   }, []);
 
+  // Content saves from this panel are attributed to the logged-in admin in version history
+  useEffect(() => {
+      setContentAuthor(currentUser ? { id: currentUser.id, name: currentUser.name } : null);
+  }, [currentUser]);
+
   // --- PERMISSION HELPER ---
   const hasPermission = (perm: string) => {
       if (!currentUser) return false;
@@ -190,30 +216,45 @@ export const AdminDashboard: React.FC<Props> = ({ onNavigate, settings, onUpdate
   const [newSecureKey, setNewSecureKey] = useState('');
   
   // --- LOAD SECURE KEYS ---
+  // Keys are held in memory for editing only; they are persisted to admin_secure/apiKeys and
+  // stripped from settings, so they never reach RTDB or localStorage.
   useEffect(() => {
       const loadKeys = async () => {
           if (currentUser?.role === 'ADMIN') {
-              // 1. Try Global Secure Keys from RTDB (Primary & Persistent)
+              let store = await getSecureKeys();
+              // Keys left in the public settings by older builds; they stay there if this fails
               try {
-                  const snap = await get(ref(rtdb, 'secure_keys/list'));
-                  if (snap.exists()) {
-                      const data = snap.val();
-                      if (Array.isArray(data)) {
-                          setLocalSettings(prev => ({...prev, groqApiKeys: data}));
-                          return;
-                      }
-                  }
-              } catch(e) { console.error("RTDB Key Load Error", e); }
+                  store = (await migratePublicKeyMaterial()) || store;
+              } catch(e) { console.error("Settings key migration failed, will retry next session", e); }
+              let groqKeys = store.keys;
+
+              // One-time migration from the old RTDB recovery path
+              if (groqKeys.length === 0) {
+                  try {
+                      const snap = await get(ref(rtdb, 'secure_keys/list'));
+                      if (snap.exists() && Array.isArray(snap.val())) groqKeys = snap.val();
+                  } catch(e) { console.error("RTDB Key Load Error", e); }
+              }
 
-              // 2. Fallback to Firestore (Legacy)
-              getSecureKeys().then(keys => {
-                  if (keys && keys.length > 0) setLocalSettings(prev => ({...prev, groqApiKeys: keys}));
-              });
+              setLocalSettings(prev => ({
+                  ...prev,
+                  groqApiKeys: groqKeys,
+                  apiKeys: store.geminiKeys,
+                  deletedGroqKeys: store.deletedKeys
+              }));
           }
       };
       loadKeys();
   }, [currentUser]);
 
+  // One-time upload of a question bank / Challenge 2.0 list an older build kept in this browser
+  useEffect(() => {
+      if (currentUser?.role !== 'ADMIN') return;
+      migrateLocalQuestionBank().then(({ questions, challenges }) => {
+          if (questions || challenges) console.log(`Migrated ${questions} bank question(s) and ${challenges} challenge(s) to Firestore.`);
+      });
+  }, [currentUser]);
+
   // --- AI AUTO-PILOT STATE ---
   const [isAutoPilotRunning, setIsAutoPilotRunning] = useState(false);
   const [liveFeed, setLiveFeed] = useState<string[]>([]);
@@ -234,6 +275,46 @@ export const AdminDashboard: React.FC<Props> = ({ onNavigate, settings, onUpdate
       }
   }, [activeTab]);
 
+  // --- AUTO-PILOT JOB QUEUE ---
+  const [autoPilotJobs, setAutoPilotJobs] = useState<AutoPilotJob[]>([]);
+  const [isQueueWorkerRunning, setIsQueueWorkerRunning] = useState(false);
+
+  useEffect(() => {
+      if (activeTab === 'AI_STUDIO') {
+          const unsub = subscribeToAutoPilotJobs(setAutoPilotJobs);
+          return () => unsub();
+      }
+  }, [activeTab]);
+
+  const handleResumeQueue = async () => {
+      if (isAutoPilotWorkerActive()) {
+          alert("Auto-Pilot worker is already running in this tab.");
+          return;
+      }
+      setIsQueueWorkerRunning(true);
+      const { done, failed } = await runAutoPilotWorker(localSettings, (msg) => setLiveFeed(prev => [msg, ...prev].slice(0, 50)), { concurrency: 3, waitForRetries: true });
+      setIsQueueWorkerRunning(false);
+      setLiveFeed(prev => [`🏁 Queue drained (${done} done, ${failed} failed).`, ...prev].slice(0, 50));
+  };
+
+  const handleRetryAutoPilotJobs = async (ids: string[]) => {
+      try {
+          await retryAutoPilotJobs(ids);
+      } catch (e: any) {
+          alert("Could not requeue the jobs: " + (e?.message || e));
+      }
+  };
+
+  // --- AI OUTPUT FAILURES (Schema validation) ---
+  const [aiFailures, setAiFailures] = useState<any[]>([]);
+
+  useEffect(() => {
+      if (activeTab === 'CONFIG_AI') {
+          const unsub = subscribeToAiFailures(setAiFailures);
+          return () => unsub();
+      }
+  }, [activeTab]);
+
   const testKeys = async () => {
       setIsTestingKeys(true);
       const statuses: Record<number, string> = {};
@@ -246,10 +327,13 @@ export const AdminDashboard: React.FC<Props> = ({ onNavigate, settings, onUpdate
               continue;
           }
           try {
+              // Caller-supplied keys are only accepted from admins, so the proxy needs our ID token
+              const token = await getAuthToken();
               const response = await fetch("/api/groq", {
                   method: "POST",
                   headers: { 
-                      "Content-Type": "application/json" 
+                      "Content-Type": "application/json",
+                      "Authorization": `Bearer ${token}`
                   },
                   body: JSON.stringify({
                       key: key,
@@ -487,6 +571,7 @@ export const AdminDashboard: React.FC<Props> = ({ onNavigate, settings, onUpdate
   const [selSubject, setSelSubject] = useState<Subject | null>(null);
   const [selChapters, setSelChapters] = useState<Chapter[]>([]);
   const [isLoadingChapters, setIsLoadingChapters] = useState(false);
+  const [tutorIndexProgress, setTutorIndexProgress] = useState<number | null>(null); // Chapters done while rebuilding the AI Tutor index
   
   // --- UNIVERSAL ANALYSIS STATE ---
   const [analysisLogs, setAnalysisLogs] = useState<UniversalAnalysisLog[]>([]);
@@ -753,6 +838,8 @@ export const AdminDashboard: React.FC<Props> = ({ onNavigate, settings, onUpdate
           
           // Log Universal Update
           const chapterTitle = selChapters.find(c => c.id === editingChapterId)?.title || 'Chapter';
+          // Keep the AI Tutor's retrieval index in step with the published notes / MCQs
+          indexChapterContent({ contentKey: key, board: selBoard, classLevel: selClass, stream: selStream, subjectName: selSubject.name, chapterId: editingChapterId, chapterTitle }, newData);
           const updateMsg = {
               id: `update-${Date.now()}`,
               text: `New Content Available: ${selSubject.name} - ${chapterTitle}`,
@@ -841,6 +928,57 @@ export const AdminDashboard: React.FC<Props> = ({ onNavigate, settings, onUpdate
   const [testSelectedSubjects, setTestSelectedSubjects] = useState<string[]>([]);
   const [testSelectedChapters, setTestSelectedChapters] = useState<string[]>([]);
   const [testClassLevel, setTestClassLevel] = useState<ClassLevel>('10');
+  const [testMarkingScheme, setTestMarkingScheme] = useState<MarkingScheme | undefined>(undefined);
+  const [testSections, setTestSections] = useState<TestSection[]>([]);
+
+  // --- TEST PAPER BLUEPRINT ---
+  const [testBlueprintItems, setTestBlueprintItems] = useState<TestPaperBlueprintItem[]>([]);
+  const [testDifficultyMix, setTestDifficultyMix] = useState<Record<QuestionDifficulty, number>>({ EASY: 30, MEDIUM: 50, HARD: 20 });
+  const [testLanguage, setTestLanguage] = useState<Language>('English');
+  const [testBoard, setTestBoard] = useState<Board>((localSettings.allowedBoards?.[0] || 'CBSE') as Board);
+  const [testStream, setTestStream] = useState<Stream>('Science');
+  const [isGeneratingPaper, setIsGeneratingPaper] = useState(false);
+  const [paperStatus, setPaperStatus] = useState('');
+
+  // --- DRAW FROM QUESTION BANK (by tags) ---
+  const [testBankFilters, setTestBankFilters] = useState<QuestionBankFilters>({});
+  const [testBankCount, setTestBankCount] = useState(10);
+
+  const handleDrawFromBank = async () => {
+      const drawn = await fetchRandomQuestionsFromBank(testClassLevel, testBankCount, testBankFilters);
+      const fresh = drawn.filter(q => !isNearDuplicate(q, editingTestMcqs));
+      if (fresh.length === 0) {
+          alert("No new questions in the bank match these tags.");
+          return;
+      }
+      setEditingTestMcqs(prev => [...prev, ...fresh]);
+      alert(`✅ Added ${fresh.length} question(s) from the bank${fresh.length < testBankCount ? ` (only ${fresh.length} new matches)` : ''}.`);
+  };
+
+  const handleGenerateTestPaper = async () => {
+      if (testBlueprintItems.length === 0) {
+          alert("Select specific chapters first to build the blueprint.");
+          return;
+      }
+      setIsGeneratingPaper(true);
+      try {
+          const paper = await generateTestPaper({
+              board: testBoard,
+              classLevel: testClassLevel,
+              stream: testStream,
+              items: testBlueprintItems,
+              difficultyMix: testDifficultyMix,
+              language: testLanguage
+          }, setPaperStatus);
+          setEditingTestMcqs(prev => [...prev, ...paper.questions]);
+          alert(`✅ Paper Generated: ${paper.questions.length} Questions\n\nQuestion Bank: ${paper.sourceCounts.bank}\nChapter MCQs: ${paper.sourceCounts.chapter}\nAI Generated: ${paper.sourceCounts.ai}${paper.shortfall > 0 ? `\n\n⚠️ ${paper.shortfall} questions could not be filled.` : ''}`);
+      } catch (e: any) {
+          alert("Paper generation failed: " + e.message);
+      } finally {
+          setIsGeneratingPaper(false);
+          setPaperStatus('');
+      }
+  };
 
   // --- WEEKLY TEST SAVE HANDLER (NEW) ---
   const handleSaveWeeklyTest = () => {
@@ -862,7 +1000,9 @@ export const AdminDashboard: React.FC<Props> = ({ onNavigate, settings, onUpdate
           durationMinutes: testDuration,
           selectedSubjects: testSelectedSubjects,
           selectedChapters: testSelectedChapters,
-          autoSubmitEnabled: true
+          autoSubmitEnabled: true,
+          ...(testMarkingScheme ? { markingScheme: testMarkingScheme } : {}),
+          ...(testSections.length ? { sections: testSections } : {})
       };
 
       const updatedTests = [...(localSettings.weeklyTests || []), newTest];
@@ -877,6 +1017,9 @@ export const AdminDashboard: React.FC<Props> = ({ onNavigate, settings, onUpdate
       setEditingTestMcqs([]);
       setTestSelectedSubjects([]);
       setTestSelectedChapters([]);
+      setTestBlueprintItems([]);
+      setTestMarkingScheme(undefined);
+      setTestSections([]);
       alert("✅ Weekly Test Created Successfully!");
   };
 
@@ -1003,7 +1146,7 @@ export const AdminDashboard: React.FC<Props> = ({ onNavigate, settings, onUpdate
   const handleRunAutoPilotOnce = async () => {
       if (isAutoPilotRunning || isAutoPilotForceRunning) return;
       setIsAutoPilotForceRunning(true);
-      await runAutoPilot(localSettings, (msg) => setLiveFeed(prev => [msg, ...prev].slice(0, 50)), true, 5, []);
+      await runAutoPilot(localSettings, (msg) => setLiveFeed(prev => [msg, ...prev].slice(0, 50)), true, 5);
       setIsAutoPilotForceRunning(false);
   };
 
@@ -1012,7 +1155,7 @@ export const AdminDashboard: React.FC<Props> = ({ onNavigate, settings, onUpdate
       if (localSettings.isAutoPilotEnabled) {
           const runWrapper = async () => {
               setIsAutoPilotRunning(true);
-              await runAutoPilot(localSettings, (msg) => setLiveFeed(prev => [msg, ...prev].slice(0, 50)), false, 5, []);
+              await runAutoPilot(localSettings, (msg) => setLiveFeed(prev => [msg, ...prev].slice(0, 50)), false, 5);
               setIsAutoPilotRunning(false);
           };
 
@@ -1355,21 +1498,22 @@ export const AdminDashboard: React.FC<Props> = ({ onNavigate, settings, onUpdate
 
   const handleSaveSettings = () => {
       if (onUpdateSettings) {
-          const settingsToSave = { ...localSettings };
-          delete settingsToSave.apiKeys; // REMOVE KEYS FROM PUBLIC
+          const settingsToSave = stripKeyMaterial(localSettings); // REMOVE KEYS FROM PUBLIC
           
-          onUpdateSettings(localSettings);
+          onUpdateSettings(settingsToSave);
           localStorage.setItem('nst_system_settings', JSON.stringify(settingsToSave));
           
           // SYNC TO FIREBASE
           if (isFirebaseConnected) {
              saveSystemSettings(settingsToSave);
-             // saveSecureKeys(secureKeys); // Legacy
-             
-             // SAVE TO GLOBAL RTDB (Secure Recovery Path)
-             set(ref(rtdb, 'secure_keys/list'), localSettings.groqApiKeys || [])
-                .then(() => console.log("✅ Keys secured in Global Recovery Path"))
-                .catch(e => console.error("Key Backup Error:", e));
+
+             // Keys go to the admin-only store read by the api/ proxies (recycle bin entries expire after 90 days)
+             const ninetyDaysMs = 90 * 24 * 60 * 60 * 1000;
+             saveSecureKeys({
+                 keys: (localSettings.groqApiKeys || []).map(k => k.trim()).filter(Boolean),
+                 geminiKeys: (localSettings.apiKeys || []).map(k => String(k).trim()).filter(Boolean),
+                 deletedKeys: (localSettings.deletedGroqKeys || []).filter(k => Date.now() - k.deletedAt <= ninetyDaysMs)
+             }).then(() => purgeLegacyKeyCopies());
           }
           
           logActivity("SETTINGS_UPDATE", "Updated system settings");
@@ -1377,6 +1521,18 @@ export const AdminDashboard: React.FC<Props> = ({ onNavigate, settings, onUpdate
       }
   };
 
+  const handleSavePromptTemplates = (templates: PromptTemplate[]) => {
+      const updated = { ...localSettings, promptTemplates: templates };
+      setLocalSettings(updated);
+      if (onUpdateSettings) {
+          const settingsToSave = stripKeyMaterial(updated);
+          onUpdateSettings(settingsToSave);
+          localStorage.setItem('nst_system_settings', JSON.stringify(settingsToSave));
+          if (isFirebaseConnected) saveSystemSettings(settingsToSave);
+          logActivity("PROMPT_TEMPLATES_UPDATE", "Updated prompt template library");
+      }
+  };
+
   const toggleSetting = (key: keyof SystemSettings) => {
       const newVal = !localSettings[key];
       const updated = { ...localSettings, [key]: newVal };
@@ -1664,9 +1820,10 @@ export const AdminDashboard: React.FC<Props> = ({ onNavigate, settings, onUpdate
       setUsers(updatedList);
       localStorage.setItem('nst_users', JSON.stringify(updatedList));
 
-      // Cloud Sync
+      // Cloud Sync (the entitlement is what the AI proxies check for the plan's daily limit)
       if (isFirebaseConnected) {
           await saveUserToLive(updatedUser);
+          await saveAiEntitlement(updatedUser);
       }
 
       setEditingUser(null);
@@ -1828,6 +1985,19 @@ export const AdminDashboard: React.FC<Props> = ({ onNavigate, settings, onUpdate
       setIsLoadingChapters(false);
   };
 
+  const handleRebuildTutorIndex = async () => {
+      if (!selSubject) return;
+      setTutorIndexProgress(0);
+      try {
+          const result = await rebuildSubjectIndex(selBoard, selClass, selStream, selSubject, selChapters, (done) => setTutorIndexProgress(done));
+          alert(`✅ AI Tutor index rebuilt: ${result.chapters} chapters, ${result.chunks} passages.`);
+      } catch (e: any) {
+          alert("Index rebuild failed: " + e.message);
+      } finally {
+          setTutorIndexProgress(null);
+      }
+  };
+
   const loadChapterContent = async (chId: string) => {
       setEditingChapterId(chId); 
       setIsContentLoading(true); // Lock inputs
@@ -2008,26 +2178,13 @@ export const AdminDashboard: React.FC<Props> = ({ onNavigate, settings, onUpdate
 
                       cols = cols.map(c => c.trim());
 
-                      // Flexible Column Check (Min: Q + 4 Opts + Ans = 6)
-                      if (cols.length < 6) {
+                      // Classic rows (Q + 4 Opts + Ans) or a kind tag first: MULTI / NUMERIC / AR / MATCH / CASE
+                      const parsed = parseSheetRow(cols);
+                      if (!parsed) {
                           // Skip invalid rows gracefully in bulk mode, or log error
                           console.warn(`Row ${idx + 1} invalid. Found ${cols.length} columns.`);
-                          return null; 
-                      }
-
-                      // Parse Answer (1-4 or A-D)
-                      let ansIdx = parseInt(cols[5]) - 1;
-                      if (isNaN(ansIdx)) {
-                          const map: any = { 'A': 0, 'B': 1, 'C': 2, 'D': 3, 'a': 0, 'b': 1, 'c': 2, 'd': 3 };
-                          if (map[cols[5]] !== undefined) ansIdx = map[cols[5]];
                       }
-
-                      return {
-                          question: cols[0],
-                          options: [cols[1], cols[2], cols[3], cols[4]],
-                          correctAnswer: (ansIdx >= 0 && ansIdx <= 3) ? ansIdx : 0, // Default to A if invalid
-                          explanation: cols[6] || ''
-                      };
+                      return parsed;
                   }).filter(q => q !== null) as MCQItem[];
               } 
               // MODE B: Vertical Block Format (Flexible for Long Explanation)
@@ -2130,8 +2287,11 @@ export const AdminDashboard: React.FC<Props> = ({ onNavigate, settings, onUpdate
       setUsers(updatedList);
       localStorage.setItem('nst_users', JSON.stringify(updatedList));
       
-      // Update Cloud
-      if (isFirebaseConnected) await saveUserToLive(updatedUser);
+      // Update Cloud (admin_roles is what the AI proxies check)
+      if (isFirebaseConnected) {
+          await saveUserToLive(updatedUser);
+          await saveAdminRole(updatedUser);
+      }
       
       alert(`✅ ${user.name} promoted to Sub-Admin!`);
       setNewSubAdminId('');
@@ -2154,7 +2314,10 @@ export const AdminDashboard: React.FC<Props> = ({ onNavigate, settings, onUpdate
       setUsers(updatedList);
       localStorage.setItem('nst_users', JSON.stringify(updatedList));
       
-      if (isFirebaseConnected) await saveUserToLive(updatedUser);
+      if (isFirebaseConnected) {
+          await saveUserToLive(updatedUser);
+          await saveAdminRole(updatedUser);
+      }
       
       alert(`ℹ️ ${user.name} is now a Student.`);
   };
@@ -2521,6 +2684,27 @@ export const AdminDashboard: React.FC<Props> = ({ onNavigate, settings, onUpdate
                                        {isAiGenerating ? <RefreshCw size={18} className="animate-spin" /> : <Rocket size={18} />}
                                        EXECUTE COMMAND
                                    </button>
+
+                                   <button 
+                                       onClick={async () => {
+                                           if (!pilotSubject) {
+                                               alert("Please select a subject first!");
+                                               return;
+                                           }
+                                           setIsAiGenerating(true);
+                                           await runHindiTranslationCommand(localSettings, (msg) => setLiveFeed(prev => [msg, ...prev].slice(0, 50)), {
+                                               board: pilotBoard,
+                                               classLevel: pilotClass,
+                                               stream: ['11','12'].includes(pilotClass) ? pilotStream : null,
+                                               subject: pilotSubject
+                                           });
+                                           setIsAiGenerating(false);
+                                       }}
+                                       disabled={isAutoPilotRunning || isAutoPilotForceRunning || isAiGenerating}
+                                       className="w-full py-3 bg-slate-800 hover:bg-slate-700 border border-slate-700 text-slate-200 rounded-xl font-bold flex items-center justify-center gap-2 transition-all disabled:opacity-50 disabled:cursor-not-allowed mt-2 text-xs"
+                                   >
+                                       <Globe size={16} /> TRANSLATE MISSING HINDI (Drafts)
+                                   </button>
                                </div>
                            </div>
 
@@ -2676,6 +2860,8 @@ export const AdminDashboard: React.FC<Props> = ({ onNavigate, settings, onUpdate
                           <DashboardCard icon={Sparkles} label="3 Tier Popup" onClick={() => setActiveTab('CONFIG_POPUP_THREE_TIER')} color="blue" className="ring-2 ring-blue-400 animate-pulse" />
                           <DashboardCard icon={Trophy} label="Challenge Config" onClick={() => setActiveTab('CONFIG_CHALLENGE')} color="red" />
                           <DashboardCard icon={Rocket} label="Challenge 2.0" onClick={() => setActiveTab('CHALLENGE_CREATOR_20')} color="violet" />
+                          <DashboardCard icon={Database} label="Question Bank" onClick={() => setActiveTab('QUESTION_BANK')} color="indigo" />
+                          <DashboardCard icon={Activity} label="Item Analysis" onClick={() => setActiveTab('ITEM_ANALYSIS')} color="teal" />
                           <DashboardCard icon={Video} label="Universal Playlist" onClick={() => setActiveTab('UNIVERSAL_PLAYLIST')} color="rose" />
                           <DashboardCard icon={Activity} label="Universal Analysis" onClick={() => setActiveTab('UNIVERSAL_ANALYSIS')} color="cyan" />
                           <DashboardCard icon={BrainCircuit} label="AI Q&A Logs" onClick={() => setActiveTab('UNIVERSAL_AI_QA')} color="violet" />
@@ -3108,6 +3294,20 @@ export const AdminDashboard: React.FC<Props> = ({ onNavigate, settings, onUpdate
                       </div>
                   </div>
 
+                  {/* GEMINI KEY MANAGEMENT (Server-side proxy) */}
+                  <div className="bg-white p-4 rounded-xl border border-slate-200">
+                      <h4 className="font-bold text-slate-800 mb-1 flex items-center gap-2">
+                          <Key size={18} /> Gemini API Keys
+                      </h4>
+                      <p className="text-xs text-slate-500 mb-3">Used only by the /api/gemini proxy. Stored in the admin-only key store together with any GEMINI_API_KEYS set on the server; students never receive them.</p>
+                      <textarea
+                          placeholder="Paste Gemini API Keys (One per line)"
+                          value={(localSettings.apiKeys || []).join('\n')}
+                          onChange={(e) => setLocalSettings({...localSettings, apiKeys: e.target.value.split('\n')})}
+                          className="w-full p-3 border rounded-xl h-24 text-xs font-mono"
+                      />
+                  </div>
+
                   {/* AI USAGE SPLIT (80/20) */}
                   <div className="bg-white p-6 rounded-2xl border border-slate-200">
                       <div className="flex justify-between items-center mb-4">
@@ -3136,6 +3336,152 @@ export const AdminDashboard: React.FC<Props> = ({ onNavigate, settings, onUpdate
                       </p>
                   </div>
 
+                  {/* AI PROVIDER ROUTING (Primary + Fallback Chain per Task) */}
+                  <div className="bg-white p-6 rounded-2xl border border-slate-200">
+                      <h4 className="font-bold text-slate-800 mb-1 flex items-center gap-2">
+                          <Layers size={18} className="text-violet-500" /> AI Provider Routing
+                      </h4>
+                      <p className="text-[10px] text-slate-500 mb-4">
+                          Tap providers in the order they should be tried. The first one is primary, the rest are fallbacks.
+                      </p>
+                      <div className="space-y-3">
+                          {AI_TASK_TYPES.map(task => {
+                              const route = getTaskRoute(task, localSettings);
+                              const toggleProvider = (id: AiProviderId) => {
+                                  const next = route.providers.includes(id) ? route.providers.filter(p => p !== id) : [...route.providers, id];
+                                  const routing = { ...(localSettings.aiProviderRouting || {}) };
+                                  if (next.length === 0) delete routing[task];
+                                  else routing[task] = { ...route, providers: next };
+                                  setLocalSettings({ ...localSettings, aiProviderRouting: routing });
+                              };
+                              return (
+                                  <div key={task} className="flex items-center justify-between gap-2 bg-slate-50 p-3 rounded-xl border border-slate-100">
+                                      <span className="text-xs font-black text-slate-700 w-24">{task}</span>
+                                      <div className="flex gap-2 flex-wrap justify-end">
+                                          {listAiProviders().map(provider => {
+                                              const position = route.providers.indexOf(provider.id);
+                                              return (
+                                                  <button
+                                                      key={provider.id}
+                                                      onClick={() => toggleProvider(provider.id)}
+                                                      className={`px-3 py-1.5 rounded-lg text-[10px] font-bold border transition-all ${position === 0 ? 'bg-violet-600 text-white border-violet-600' : position > 0 ? 'bg-violet-100 text-violet-700 border-violet-200' : 'bg-white text-slate-400 border-slate-200'}`}
+                                                  >
+                                                      {position >= 0 ? `${position + 1}. ` : ''}{provider.label}
+                                                  </button>
+                                              );
+                                          })}
+                                      </div>
+                                  </div>
+                              );
+                          })}
+                      </div>
+                  </div>
+
+                  {/* OFFLINE MOCK / RECORD / REPLAY */}
+                  <div className="bg-slate-50 p-6 rounded-2xl border border-slate-200">
+                      <h4 className="font-bold text-slate-800 mb-1 flex items-center gap-2">
+                          <Database size={18} className="text-slate-500" /> AI Mock Mode (Dev & Testing)
+                      </h4>
+                      <p className="text-[10px] text-slate-500 mb-4">
+                          Mock serves fixture responses without keys or network. Record captures real responses; Replay serves them back.
+                      </p>
+                      <select
+                          value={localSettings.aiMockMode || 'OFF'}
+                          onChange={e => setLocalSettings({...localSettings, aiMockMode: e.target.value as SystemSettings['aiMockMode']})}
+                          className="w-full p-3 border rounded-xl font-bold text-slate-700 mb-3"
+                      >
+                          <option value="OFF">Off (Live Providers)</option>
+                          <option value="MOCK">Mock (Fixtures Only)</option>
+                          <option value="RECORD">Record (Live + Capture)</option>
+                          <option value="REPLAY">Replay (Captured Responses)</option>
+                      </select>
+                      <div className="flex gap-2 items-center">
+                          <span className="text-[10px] font-bold text-slate-500 flex-1">
+                              {Object.keys(getAiRecordings()).length} Recorded Responses
+                          </span>
+                          <button
+                              onClick={() => {
+                                  const blob = new Blob([exportAiRecordings()], { type: 'application/json' });
+                                  const url = URL.createObjectURL(blob);
+                                  const a = document.createElement('a');
+                                  a.href = url;
+                                  a.download = `ai_recordings_${Date.now()}.json`;
+                                  a.click();
+                                  URL.revokeObjectURL(url);
+                              }}
+                              className="bg-white border border-slate-200 text-slate-700 px-3 py-1.5 rounded-lg text-xs font-bold"
+                          >
+                              Export
+                          </button>
+                          <label className="bg-white border border-slate-200 text-slate-700 px-3 py-1.5 rounded-lg text-xs font-bold cursor-pointer">
+                              Import
+                              <input
+                                  type="file"
+                                  accept="application/json"
+                                  className="hidden"
+                                  onChange={async e => {
+                                      const file = e.target.files?.[0];
+                                      if (!file) return;
+                                      try {
+                                          const count = importAiRecordings(await file.text());
+                                          alert(`Imported ${count} recordings!`);
+                                      } catch (err) {
+                                          alert("Invalid recordings file.");
+                                      }
+                                      e.target.value = '';
+                                  }}
+                              />
+                          </label>
+                          <button
+                              onClick={() => {
+                                  if (!confirm("Delete all recorded AI responses?")) return;
+                                  clearAiRecordings();
+                                  alert("Recordings cleared.");
+                              }}
+                              className="bg-red-50 border border-red-200 text-red-600 px-3 py-1.5 rounded-lg text-xs font-bold"
+                          >
+                              Clear
+                          </button>
+                      </div>
+                  </div>
+
+                  {/* API KEY HEALTH */}
+                  <KeyHealthPanel configuredKeys={[...(localSettings.groqApiKeys || []), ...(localSettings.apiKeys || [])]} />
+
+                  {/* AI GENERATION CACHE */}
+                  <AiCachePanel
+                      config={getAiCacheConfig(localSettings)}
+                      onConfigChange={(aiCacheConfig) => setLocalSettings({ ...localSettings, aiCacheConfig })}
+                  />
+
+                  {/* AI SPEND LEDGER */}
+                  <AiSpendPanel users={users} />
+
+                  {/* AI OUTPUT FAILURES */}
+                  <div className="bg-white p-4 rounded-xl border border-slate-200">
+                      <h4 className="font-bold text-slate-800 mb-1 flex items-center gap-2">
+                          <AlertTriangle size={18} className="text-orange-500" /> Invalid AI Output ({aiFailures.length})
+                      </h4>
+                      <p className="text-xs text-slate-500 mb-3">Responses that still failed schema validation after automatic repair attempts. Nothing from these was saved.</p>
+                      {aiFailures.length === 0 ? (
+                          <p className="text-xs text-slate-400 italic">No failures recorded.</p>
+                      ) : (
+                          <div className="space-y-2 max-h-64 overflow-y-auto">
+                              {aiFailures.map(f => (
+                                  <details key={f.id} className="bg-orange-50 border border-orange-100 rounded-lg p-2">
+                                      <summary className="text-xs font-bold text-slate-700 cursor-pointer">
+                                          {f.task} • {f.context?.chapter || f.context?.feature || f.context?.subject || 'General'} • {new Date(f.timestamp).toLocaleString()}
+                                      </summary>
+                                      <ul className="text-[10px] text-red-600 mt-2 list-disc pl-4">
+                                          {(f.issues || []).map((issue: string, i: number) => <li key={i}>{issue}</li>)}
+                                      </ul>
+                                      <pre className="text-[10px] bg-white border rounded p-2 mt-2 whitespace-pre-wrap max-h-32 overflow-y-auto">{f.rawOutput}</pre>
+                                  </details>
+                              ))}
+                          </div>
+                      )}
+                  </div>
+
                   {/* AI NAME */}
                   <div className="bg-white p-4 rounded-xl border border-slate-200">
                       <label className="text-xs font-bold text-slate-500 uppercase block mb-2">AI Assistant Name</label>
@@ -3193,6 +3539,50 @@ export const AdminDashboard: React.FC<Props> = ({ onNavigate, settings, onUpdate
                       </div>
                   </div>
 
+                  {/* PROXY PROTECTION (enforced by /api/groq + /api/gemini) */}
+                  <div className="bg-slate-50 p-6 rounded-2xl border border-slate-200">
+                      <h4 className="font-bold text-slate-800 mb-1 flex items-center gap-2">
+                          <Shield size={18} className="text-red-500" /> Proxy Protection
+                      </h4>
+                      <p className="text-xs text-slate-500 mb-4">Students must be signed in; the daily limits above are enforced on the server. Admins are exempt from rate limits.</p>
+                      <div className="grid grid-cols-2 gap-4 mb-4">
+                          <div>
+                              <label className="text-[10px] font-bold text-slate-500 uppercase block mb-1">Requests / Min per User</label>
+                              <input 
+                                  type="number" 
+                                  value={localSettings.aiRateLimits?.perUserPerMinute ?? 20} 
+                                  onChange={(e) => setLocalSettings({
+                                      ...localSettings, 
+                                      aiRateLimits: { ...(localSettings.aiRateLimits || {perUserPerMinute:20, perIpPerMinute:60}), perUserPerMinute: Number(e.target.value) }
+                                  })}
+                                  className="w-full p-2 border rounded-lg font-bold text-center"
+                              />
+                          </div>
+                          <div>
+                              <label className="text-[10px] font-bold text-slate-500 uppercase block mb-1">Requests / Min per IP</label>
+                              <input 
+                                  type="number" 
+                                  value={localSettings.aiRateLimits?.perIpPerMinute ?? 60} 
+                                  onChange={(e) => setLocalSettings({
+                                      ...localSettings, 
+                                      aiRateLimits: { ...(localSettings.aiRateLimits || {perUserPerMinute:20, perIpPerMinute:60}), perIpPerMinute: Number(e.target.value) }
+                                  })}
+                                  className="w-full p-2 border rounded-lg font-bold text-center"
+                              />
+                          </div>
+                      </div>
+                      <label className="text-[10px] font-bold text-slate-500 uppercase block mb-1">Allowed Models (One per line, empty = defaults)</label>
+                      <textarea 
+                          value={(localSettings.aiAllowedModels || []).join('\n')}
+                          onChange={(e) => setLocalSettings({
+                              ...localSettings,
+                              aiAllowedModels: e.target.value.split('\n')
+                          })}
+                          placeholder={"llama-3.1-8b-instant\ngemini-1.5-flash"}
+                          className="w-full p-2 border rounded-lg text-xs font-mono h-24"
+                      />
+                  </div>
+
                   {/* AI PROMPTS */}
                   <div className="space-y-4">
                       <div className="bg-white p-4 rounded-xl border border-slate-200">
@@ -3730,9 +4120,15 @@ export const AdminDashboard: React.FC<Props> = ({ onNavigate, settings, onUpdate
                                             localStorage.removeItem(`nst_custom_chapters_${baseKey}-English`);
                                             localStorage.removeItem(`nst_custom_chapters_${baseKey}-Hindi`);
                                             
-                                            const fresh = await fetchChapters(selBoard, selClass, selStream, selSubject, 'English');
-                                            setSelChapters(fresh);
-                                            alert("✅ Reset Complete!");
+                                            try {
+                                                const fresh = await fetchChapters(selBoard, selClass, selStream, selSubject, 'English');
+                                                setSelChapters(fresh);
+                                                alert("✅ Reset Complete!");
+                                            } catch (e: any) {
+                                                console.error(e);
+                                                setSelChapters([]);
+                                                alert("Syllabus reset, but the default chapters could not be loaded: " + (e?.message || e));
+                                            }
                                        }
                                    }}
                                    className="bg-white border border-red-200 text-red-600 px-4 py-2 rounded-lg font-bold text-xs hover:bg-red-50 flex items-center gap-2"
@@ -3877,13 +4273,25 @@ export const AdminDashboard: React.FC<Props> = ({ onNavigate, settings, onUpdate
                       <div className="space-y-3">
                           <input type="text" placeholder="Test Name" value={testName} onChange={e => setTestName(e.target.value)} className="w-full p-3 border border-orange-200 rounded-xl font-bold text-lg" />
                           <textarea placeholder="Test Description" value={testDesc} onChange={e => setTestDesc(e.target.value)} className="w-full p-3 border border-orange-200 rounded-xl h-20" />
-                          <div className="grid grid-cols-3 gap-3">
+                          <div className="grid grid-cols-3 md:grid-cols-5 gap-3">
+                              <div>
+                                  <label className="text-xs font-bold text-orange-600 uppercase block mb-1">Board</label>
+                                  <select value={testBoard} onChange={e => setTestBoard(e.target.value as Board)} className="w-full p-2 border border-orange-200 rounded-lg font-bold">
+                                      {(localSettings.allowedBoards || ['CBSE', 'BSEB']).map(b => <option key={b} value={b}>{b}</option>)}
+                                  </select>
+                              </div>
                               <div>
                                   <label className="text-xs font-bold text-orange-600 uppercase block mb-1">Class</label>
                                   <select value={testClassLevel} onChange={e => setTestClassLevel(e.target.value as ClassLevel)} className="w-full p-2 border border-orange-200 rounded-lg font-bold">
                                       {['6','7','8','9','10','11','12'].map(c => <option key={c} value={c}>Class {c}</option>)}
                                   </select>
                               </div>
+                              <div>
+                                  <label className="text-xs font-bold text-orange-600 uppercase block mb-1">Stream</label>
+                                  <select value={testStream} onChange={e => setTestStream(e.target.value as Stream)} disabled={!['11', '12'].includes(testClassLevel)} className="w-full p-2 border border-orange-200 rounded-lg font-bold disabled:opacity-50">
+                                      {['Science', 'Commerce', 'Arts'].map(s => <option key={s} value={s}>{s}</option>)}
+                                  </select>
+                              </div>
                               <div>
                                   <label className="text-xs font-bold text-orange-600 uppercase block mb-1">Duration (mins)</label>
                                   <input type="number" value={testDuration} onChange={e => setTestDuration(Number(e.target.value))} className="w-full p-2 border border-orange-200 rounded-lg font-bold" min="30" max="300" />
@@ -3899,7 +4307,7 @@ export const AdminDashboard: React.FC<Props> = ({ onNavigate, settings, onUpdate
                       <div className="border-t border-orange-200 pt-4">
                           <p className="font-bold text-orange-700 mb-3">📚 Select Content (Multi-Subject)</p>
                           <div className="grid grid-cols-2 md:grid-cols-3 gap-2 mb-4">
-                              {getSubjectsList(testClassLevel, null).map(s => {
+                              {getSubjectsList(testClassLevel, ['11', '12'].includes(testClassLevel) ? testStream : null).map(s => {
                                   const isSel = testSelectedSubjects.includes(s.id);
                                   return (
                                       <div key={s.id} className={`p-2 rounded-lg border flex flex-col ${isSel ? 'bg-orange-50 border-orange-300' : 'bg-white border-slate-200'}`}>
@@ -3914,15 +4322,29 @@ export const AdminDashboard: React.FC<Props> = ({ onNavigate, settings, onUpdate
                                           {isSel && (
                                               <button 
                                                   onClick={async () => {
-                                                      const ch = await fetchChapters(localSettings.allowedBoards?.[0] || 'CBSE', testClassLevel, 'Science', s, 'English');
+                                                      let ch: Chapter[];
+                                                      try {
+                                                          ch = await fetchChapters(testBoard, testClassLevel, testStream, s, 'English');
+                                                      } catch (e: any) {
+                                                          console.error(e);
+                                                          alert(`Could not load chapters for ${s.name}: ` + (e?.message || e));
+                                                          return;
+                                                      }
                                                       // This is a simplified way to just "show" chapters for selection. 
                                                       // In a real app, we'd store these chapters in a map keyed by subjectId.
                                                       // For this prototype, we'll prompt the user or use a simple modal (simulated).
                                                       const selectedChs = window.prompt(`Enter Chapter IDs for ${s.name} (comma separated) or leave blank for ALL:\n\nAvailable:\n${ch.map((c,i) => `${i+1}. ${c.title}`).join('\n')}`);
                                                       if (selectedChs) {
                                                           const indexes = selectedChs.split(',').map(x => parseInt(x.trim()) - 1);
-                                                          const ids = indexes.map(i => ch[i]?.id).filter(Boolean);
+                                                          const picked = indexes.map(i => ch[i]).filter(Boolean);
+                                                          const ids = picked.map(c => c.id);
                                                           setTestSelectedChapters(prev => [...prev, ...ids]);
+                                                          setTestBlueprintItems(prev => [
+                                                              ...prev,
+                                                              ...picked
+                                                                  .filter(c => !prev.some(p => p.subject.id === s.id && p.chapter.id === c.id))
+                                                                  .map(c => ({ subject: s, chapter: c, count: 5 }))
+                                                          ]);
                                                           alert(`Added ${ids.length} chapters from ${s.name}`);
                                                       }
                                                   }}
@@ -3938,6 +4360,82 @@ export const AdminDashboard: React.FC<Props> = ({ onNavigate, settings, onUpdate
                           {testSelectedChapters.length > 0 && <p className="text-xs text-green-600 font-bold mb-2">✅ {testSelectedChapters.length} specific chapters selected across subjects.</p>}
                       </div>
 
+                      {/* Paper Blueprint (Bank + Chapter MCQs first, AI fills gaps) */}
+                      {testBlueprintItems.length > 0 && (
+                          <div className="border-t border-orange-200 pt-4">
+                              <p className="font-bold text-orange-700 mb-1">🧩 Paper Blueprint</p>
+                              <p className="text-[10px] text-slate-500 mb-3">Questions are taken from the Question Bank and saved chapter MCQs first. AI only generates what is missing. Near-duplicates are removed.</p>
+                              <div className="space-y-2 mb-3 max-h-[30vh] overflow-y-auto">
+                                  {testBlueprintItems.map((item, idx) => (
+                                      <div key={`${item.subject.id}-${item.chapter.id}`} className="flex items-center gap-2 bg-white p-2 rounded-lg border border-orange-100">
+                                          <div className="flex-1 min-w-0">
+                                              <p className="text-xs font-bold text-slate-800 truncate">{item.chapter.title}</p>
+                                              <p className="text-[10px] text-slate-400">{item.subject.name}</p>
+                                          </div>
+                                          <input
+                                              type="number"
+                                              min="1"
+                                              value={item.count}
+                                              onChange={e => setTestBlueprintItems(testBlueprintItems.map((x, i) => i === idx ? { ...x, count: Math.max(1, Number(e.target.value)) } : x))}
+                                              className="w-16 p-1 border border-orange-200 rounded text-xs font-bold text-center"
+                                          />
+                                          <button onClick={() => setTestBlueprintItems(testBlueprintItems.filter((_, i) => i !== idx))} className="text-red-500 hover:text-red-700"><Trash2 size={14} /></button>
+                                      </div>
+                                  ))}
+                              </div>
+                              <div className="grid grid-cols-4 gap-2 mb-3">
+                                  {(['EASY', 'MEDIUM', 'HARD'] as QuestionDifficulty[]).map(d => (
+                                      <div key={d}>
+                                          <label className="text-[10px] font-bold text-orange-600 uppercase block mb-1">{d} %</label>
+                                          <input
+                                              type="number"
+                                              min="0"
+                                              max="100"
+                                              value={testDifficultyMix[d]}
+                                              onChange={e => setTestDifficultyMix({ ...testDifficultyMix, [d]: Number(e.target.value) })}
+                                              className="w-full p-2 border border-orange-200 rounded-lg font-bold text-xs"
+                                          />
+                                      </div>
+                                  ))}
+                                  <div>
+                                      <label className="text-[10px] font-bold text-orange-600 uppercase block mb-1">Language</label>
+                                      <select value={testLanguage} onChange={e => setTestLanguage(e.target.value as Language)} className="w-full p-2 border border-orange-200 rounded-lg font-bold text-xs">
+                                          <option value="English">English</option>
+                                          <option value="Hindi">Hindi</option>
+                                      </select>
+                                  </div>
+                              </div>
+                              <button
+                                  onClick={handleGenerateTestPaper}
+                                  disabled={isGeneratingPaper}
+                                  className="w-full bg-orange-600 hover:bg-orange-700 text-white py-2 rounded-lg font-bold text-sm flex items-center justify-center gap-2 shadow disabled:opacity-50"
+                              >
+                                  {isGeneratingPaper ? <RefreshCw size={14} className="animate-spin" /> : <Sparkles size={14} />}
+                                  {isGeneratingPaper ? (paperStatus || 'Building Paper...') : `Generate Paper (${testBlueprintItems.reduce((sum, i) => sum + i.count, 0)} Questions)`}
+                              </button>
+                          </div>
+                      )}
+
+                      {/* Draw from Question Bank by tags */}
+                      <div className="border-t border-orange-200 pt-4">
+                          <p className="font-bold text-orange-700 mb-1">🏷️ Draw from Question Bank</p>
+                          <p className="text-[10px] text-slate-500 mb-3">Random questions for Class {testClassLevel} matching the tags below. Questions already in the test are skipped.</p>
+                          <BankTagFilters classLevel={testClassLevel} filters={testBankFilters} onChange={setTestBankFilters} />
+                          <div className="flex gap-2 mt-3">
+                              <input
+                                  type="number"
+                                  min="1"
+                                  max="100"
+                                  value={testBankCount}
+                                  onChange={e => setTestBankCount(Math.max(1, Number(e.target.value)))}
+                                  className="w-20 p-2 border border-orange-200 rounded-lg text-xs font-bold text-center"
+                              />
+                              <button onClick={handleDrawFromBank} className="flex-1 bg-white border border-orange-300 text-orange-700 hover:bg-orange-100 py-2 rounded-lg font-bold text-sm flex items-center justify-center gap-2">
+                                  <Database size={14} /> Add from Bank
+                              </button>
+                          </div>
+                      </div>
+
                       {/* Questions Section */}
                       <div className="border-t border-orange-200 pt-4">
                           {/* GOOGLE SHEETS IMPORT FOR WEEKLY TEST */}
@@ -3955,6 +4453,9 @@ export const AdminDashboard: React.FC<Props> = ({ onNavigate, settings, onUpdate
                               <div className="bg-white/50 p-2 rounded-lg text-[10px] text-slate-600 mb-2 border border-orange-100 font-mono">
                                   <strong>Supported Formats:</strong><br/>
                                   1. Copy from Excel (7 Columns): Q | Opt A | Opt B | Opt C | Opt D | Ans(1-4) | Exp<br/>
+                                  &nbsp;&nbsp;&nbsp;Multiple correct: Ans as "1,3" or "A,C". Other kinds start with a tag column:<br/>
+                                  &nbsp;&nbsp;&nbsp;NUMERIC | Q | Ans | Tolerance | Unit | Exp &nbsp;•&nbsp; AR | Assertion | Reason | Ans(1-4) | Exp<br/>
+                                  &nbsp;&nbsp;&nbsp;MATCH | Q | a; b; c | x; y; z | Ans(2,1,3) | Exp &nbsp;•&nbsp; CASE | Q | Passage | (Q | 4 Opts | Ans) per part | Exp<br/>
                                   2. Vertical List: Q \n 4 Options \n Answer \n Explanation (Multi-line). <br/>
                                   *Note: For multi-line explanation, ensure next Question starts with "1.", "2." etc.
                               </div>
@@ -3996,12 +4497,19 @@ Capital of India?       Mumbai  Delhi   Kolkata Chennai 2       Delhi is the cap
                                           <button onClick={() => removeMcq(true, idx)} className="text-red-500 hover:text-red-700"><Trash2 size={14} /></button>
                                       </div>
                                       <p className="text-sm font-medium text-slate-700 truncate">{q.question}</p>
-                                      <p className="text-xs text-slate-500 mt-1">A) {q.options[q.correctAnswer]}</p>
+                                      <p className="text-xs text-slate-500 mt-1">A) {getQuestionKind(q) === 'SINGLE' ? q.options[q.correctAnswer] : formatCorrectAnswer(q)}</p>
                                   </div>
                               ))}
                           </div>
                       </div>
 
+                      <MarkingSchemeEditor
+                          scheme={testMarkingScheme}
+                          sections={testSections}
+                          questions={editingTestMcqs}
+                          onChange={(scheme, sections) => { setTestMarkingScheme(scheme); setTestSections(sections); }}
+                      />
+
                       {/* Save Button */}
                       <button onClick={handleSaveWeeklyTest} className="w-full bg-gradient-to-r from-orange-500 to-red-600 text-white font-black py-4 rounded-xl shadow-lg hover:shadow-xl text-lg">
                           ✅ Create Weekly Test ({editingTestMcqs.length} Questions)
@@ -4030,6 +4538,17 @@ Capital of India?       Mumbai  Delhi   Kolkata Chennai 2       Delhi is the cap
               {/* LIST VIEW (for PDF/VIDEO/MCQ/IMAGE) */}
               {selSubject && !editingChapterId && activeTab !== 'CONTENT_TEST' && (
                   <div className="grid gap-2 max-h-[60vh] overflow-y-auto">
+                      <div className="flex justify-between items-center bg-indigo-50 p-3 rounded-xl border border-indigo-100">
+                          <span className="text-xs text-indigo-800 font-bold">AI Tutor answers from these chapters' notes & MCQs.</span>
+                          <button
+                              onClick={handleRebuildTutorIndex}
+                              disabled={tutorIndexProgress !== null || selChapters.length === 0}
+                              className="px-3 py-2 bg-indigo-600 text-white font-bold rounded-lg text-xs hover:bg-indigo-700 disabled:opacity-50 flex items-center gap-1"
+                          >
+                              <RefreshCw size={12} className={tutorIndexProgress !== null ? 'animate-spin' : ''} />
+                              {tutorIndexProgress !== null ? `Indexing ${tutorIndexProgress}/${selChapters.length}` : 'Rebuild AI Tutor Index'}
+                          </button>
+                      </div>
                       {selChapters.map((ch) => (
                           <div key={ch.id} className="flex justify-between items-center bg-slate-50 p-3 rounded-xl border border-slate-200">
                               <span className="font-bold text-slate-700 text-sm">{ch.title}</span>
@@ -4051,6 +4570,14 @@ Capital of India?       Mumbai  Delhi   Kolkata Chennai 2       Delhi is the cap
                           </div>
                           <button onClick={() => setEditingChapterId(null)} className="text-xs font-bold text-slate-400 hover:text-slate-600">Close Editor</button>
                       </div>
+
+                      {/* VERSION HISTORY */}
+                      <div className="mb-4">
+                          <ContentHistoryPanel
+                              contentKey={`nst_content_${selBoard}_${selClass}${(selClass === '11' || selClass === '12') && selStream ? `-${selStream}` : ''}_${selSubject?.name}_${editingChapterId}`}
+                              onRestored={(data) => applyContentData(data)}
+                          />
+                      </div>
                       
                       {isContentLoading ? (
                           <div className="flex items-center justify-center h-40">
@@ -4818,6 +5345,9 @@ Capital of India?       Mumbai  Delhi   Kolkata Chennai 2       Delhi is the cap
                                   <div className="bg-slate-50 p-2 rounded-lg text-[10px] text-slate-600 mb-2 border border-slate-200 font-mono">
                                       <strong>Supported Formats:</strong><br/>
                                       1. Copy from Excel (7 Columns): Q | Opt A | Opt B | Opt C | Opt D | Ans(1-4) | Exp<br/>
+                                      &nbsp;&nbsp;&nbsp;Multiple correct: Ans as "1,3" or "A,C". Other kinds start with a tag column:<br/>
+                                      &nbsp;&nbsp;&nbsp;NUMERIC | Q | Ans | Tolerance | Unit | Exp &nbsp;•&nbsp; AR | Assertion | Reason | Ans(1-4) | Exp<br/>
+                                      &nbsp;&nbsp;&nbsp;MATCH | Q | a; b; c | x; y; z | Ans(2,1,3) | Exp &nbsp;•&nbsp; CASE | Q | Passage | (Q | 4 Opts | Ans) per part | Exp<br/>
                                       2. Vertical List: Q \n 4 Options \n Answer \n Explanation (Multi-line). <br/>
                                       *Note: For multi-line explanation, ensure next Question starts with "1.", "2." etc.
                                   </div>
@@ -6590,6 +7120,14 @@ Capital of India?       Mumbai  Delhi   Kolkata Chennai 2       Delhi is the cap
           <ChallengeCreator20 onBack={() => setActiveTab('DASHBOARD')} language={localSettings.aiModel?.includes('Hindi') ? 'Hindi' : 'English'} />
       )}
 
+      {activeTab === 'QUESTION_BANK' && (
+          <QuestionBankConsole onBack={() => setActiveTab('DASHBOARD')} board={(localSettings.allowedBoards?.[0] || 'CBSE') as Board} />
+      )}
+
+      {activeTab === 'ITEM_ANALYSIS' && (
+          <ItemAnalysisPanel onBack={() => setActiveTab('DASHBOARD')} users={users} weeklyTests={localSettings.weeklyTests || []} />
+      )}
+
       {activeTab === 'APP_MODES' && (
           <div className="bg-white p-6 rounded-3xl shadow-sm border border-slate-200 animate-in slide-in-from-right space-y-6">
               <div className="flex items-center gap-4 mb-6 border-b pb-4">
@@ -6982,135 +7520,19 @@ Capital of India?       Mumbai  Delhi   Kolkata Chennai 2       Delhi is the cap
                           </div>
                       </div>
 
-                      <div className="bg-slate-50 p-6 rounded-2xl border border-slate-200">
-                          <h4 className="font-bold text-slate-800 mb-4 flex items-center gap-2"><PenTool size={20} /> Prompt Engineering</h4>
-                          <p className="text-xs text-slate-500 mb-4">Use placeholders: <code>{`{board}, {class}, {subject}, {chapter}, {language}`}</code></p>
-                          
-                          <div className="space-y-4">
-                              <div>
-                                  <label className="text-xs font-bold text-slate-500 uppercase mb-1 block">Normal Notes Prompt</label>
-                                  <textarea 
-                                      value={localSettings.aiPromptNotes || ''} 
-                                      onChange={e => setLocalSettings({...localSettings, aiPromptNotes: e.target.value})} 
-                                      className="w-full p-3 border rounded-xl h-24 text-xs"
-                                      placeholder="Default: Write detailed study notes for {board} Class {class}..."
-                                  />
-                              </div>
-                              <div>
-                                  <label className="text-xs font-bold text-slate-500 uppercase mb-1 block">Premium Notes Prompt</label>
-                                  <textarea 
-                                      value={localSettings.aiPromptNotesPremium || ''} 
-                                      onChange={e => setLocalSettings({...localSettings, aiPromptNotesPremium: e.target.value})} 
-                                      className="w-full p-3 border rounded-xl h-24 text-xs bg-amber-50 border-amber-200"
-                                      placeholder="Default: Write Premium notes with deep insights for..."
-                                  />
-                              </div>
-                              <div>
-                                  <label className="text-xs font-bold text-slate-500 uppercase mb-1 block">MCQ Prompt</label>
-                                  <textarea 
-                                      value={localSettings.aiPromptMCQ || ''} 
-                                      onChange={e => setLocalSettings({...localSettings, aiPromptMCQ: e.target.value})} 
-                                      className="w-full p-3 border rounded-xl h-24 text-xs bg-blue-50 border-blue-200"
-                                      placeholder="Default: Create {count} MCQs for {subject}..."
-                                  />
-                              </div>
-
-                              <div className="h-px bg-slate-200 my-4"></div>
-                              <h5 className="font-bold text-slate-800 mb-2">CBSE Board Prompts</h5>
-
-                              <div>
-                                  <label className="text-xs font-bold text-blue-600 uppercase mb-1 block">CBSE Notes Prompt</label>
-                                  <textarea 
-                                      value={localSettings.aiPromptNotesCBSE || ''} 
-                                      onChange={e => setLocalSettings({...localSettings, aiPromptNotesCBSE: e.target.value})} 
-                                      className="w-full p-3 border rounded-xl h-24 text-xs border-blue-200 bg-blue-50"
-                                      placeholder="Prompt for CBSE Notes (English)..."
-                                  />
-                              </div>
-                              <div>
-                                  <label className="text-xs font-bold text-blue-600 uppercase mb-1 block">CBSE Premium Prompt</label>
-                                  <textarea 
-                                      value={localSettings.aiPromptNotesPremiumCBSE || ''} 
-                                      onChange={e => setLocalSettings({...localSettings, aiPromptNotesPremiumCBSE: e.target.value})} 
-                                      className="w-full p-3 border rounded-xl h-24 text-xs border-blue-200 bg-blue-50"
-                                      placeholder="Prompt for CBSE Premium Notes..."
-                                  />
-                              </div>
-                              <div>
-                                  <label className="text-xs font-bold text-blue-600 uppercase mb-1 block">CBSE MCQ Prompt</label>
-                                  <textarea 
-                                      value={localSettings.aiPromptMCQCBSE || ''} 
-                                      onChange={e => setLocalSettings({...localSettings, aiPromptMCQCBSE: e.target.value})} 
-                                      className="w-full p-3 border rounded-xl h-24 text-xs border-blue-200 bg-blue-50"
-                                      placeholder="Prompt for CBSE MCQs..."
-                                  />
-                              </div>
-
-                              <div className="h-px bg-slate-200 my-4"></div>
-                              <h5 className="font-bold text-slate-800 mb-2">Competition Mode Prompts</h5>
-
-                              <div>
-                                  <label className="text-xs font-bold text-purple-600 uppercase mb-1 block">Comp. Notes Prompt</label>
-                                  <textarea 
-                                      value={localSettings.aiPromptNotesCompetition || ''} 
-                                      onChange={e => setLocalSettings({...localSettings, aiPromptNotesCompetition: e.target.value})} 
-                                      className="w-full p-3 border rounded-xl h-24 text-xs border-purple-200 bg-purple-50"
-                                      placeholder="Prompt for Competition Mode Notes..."
-                                  />
-                              </div>
-                              <div>
-                                  <label className="text-xs font-bold text-purple-600 uppercase mb-1 block">Comp. Premium Prompt</label>
-                                  <textarea 
-                                      value={localSettings.aiPromptNotesPremiumCompetition || ''} 
-                                      onChange={e => setLocalSettings({...localSettings, aiPromptNotesPremiumCompetition: e.target.value})} 
-                                      className="w-full p-3 border rounded-xl h-24 text-xs border-purple-200 bg-purple-50"
-                                      placeholder="Prompt for Competition Mode Premium Notes..."
-                                  />
-                              </div>
-                              <div>
-                                  <label className="text-xs font-bold text-purple-600 uppercase mb-1 block">Comp. MCQ Prompt</label>
-                                  <textarea 
-                                      value={localSettings.aiPromptMCQCompetition || ''} 
-                                      onChange={e => setLocalSettings({...localSettings, aiPromptMCQCompetition: e.target.value})} 
-                                      className="w-full p-3 border rounded-xl h-24 text-xs border-purple-200 bg-purple-50"
-                                      placeholder="Prompt for Competition Mode MCQs..."
-                                  />
-                              </div>
-
-                              <div className="h-px bg-slate-200 my-4"></div>
-                              <h5 className="font-bold text-slate-800 mb-2">CBSE Competition Prompts</h5>
-
-                              <div>
-                                  <label className="text-xs font-bold text-indigo-600 uppercase mb-1 block">CBSE Comp. Notes</label>
-                                  <textarea 
-                                      value={localSettings.aiPromptNotesCompetitionCBSE || ''} 
-                                      onChange={e => setLocalSettings({...localSettings, aiPromptNotesCompetitionCBSE: e.target.value})} 
-                                      className="w-full p-3 border rounded-xl h-24 text-xs border-indigo-200 bg-indigo-50"
-                                      placeholder="Prompt for CBSE Competition Notes..."
-                                  />
-                              </div>
-                              <div>
-                                  <label className="text-xs font-bold text-indigo-600 uppercase mb-1 block">CBSE Comp. Premium</label>
-                                  <textarea 
-                                      value={localSettings.aiPromptNotesPremiumCompetitionCBSE || ''} 
-                                      onChange={e => setLocalSettings({...localSettings, aiPromptNotesPremiumCompetitionCBSE: e.target.value})} 
-                                      className="w-full p-3 border rounded-xl h-24 text-xs border-indigo-200 bg-indigo-50"
-                                      placeholder="Prompt for CBSE Competition Premium Notes..."
-                                  />
-                              </div>
-                              <div>
-                                  <label className="text-xs font-bold text-indigo-600 uppercase mb-1 block">CBSE Comp. MCQ</label>
-                                  <textarea 
-                                      value={localSettings.aiPromptMCQCompetitionCBSE || ''} 
-                                      onChange={e => setLocalSettings({...localSettings, aiPromptMCQCompetitionCBSE: e.target.value})} 
-                                      className="w-full p-3 border rounded-xl h-24 text-xs border-indigo-200 bg-indigo-50"
-                                      placeholder="Prompt for CBSE Competition MCQs..."
-                                  />
-                              </div>
-                          </div>
-                          
-                          <button onClick={handleSaveSettings} className="mt-4 w-full py-3 bg-slate-800 text-white font-bold rounded-xl hover:bg-slate-900">Save Prompts</button>
-                      </div>
+                      <PromptTemplateLibrary
+                          settings={localSettings}
+                          authorName={currentUser?.name || 'Admin'}
+                          previewContext={(() => {
+                              const ch = selChapters.find(c => c.id === editingChapterId);
+                              if (!ch || !selSubject) return null;
+                              return {
+                                  board: selBoard, classLevel: selClass, stream: selStream, subjectName: selSubject.name,
+                                  chapterTitle: ch.title, syllabusMode, language: selBoard === 'BSEB' ? 'Hindi' : 'English'
+                              };
+                          })()}
+                          onSave={handleSavePromptTemplates}
+                      />
                   </div>
 
                   {/* RIGHT: GENERATOR */}
@@ -7193,37 +7615,9 @@ Capital of India?       Mumbai  Delhi   Kolkata Chennai 2       Delhi is the cap
                                               // Determine Language based on Board
                                               const genLanguage = selBoard === 'BSEB' ? 'Hindi' : 'English';
                                               
-                                              // RESOLVE CUSTOM PROMPT BASED ON CONTEXT
-                                              let customPrompt = "";
-                                              const isComp = syllabusMode === 'COMPETITION';
-                                              
-                                              if (selBoard === 'CBSE') {
-                                                  if (isComp) {
-                                                      if (aiGenType === 'NOTES_SIMPLE') customPrompt = localSettings.aiPromptNotesCompetitionCBSE || "";
-                                                      else if (aiGenType === 'NOTES_PREMIUM') customPrompt = localSettings.aiPromptNotesPremiumCompetitionCBSE || "";
-                                                      else if (aiGenType === 'MCQ_SIMPLE') customPrompt = localSettings.aiPromptMCQCompetitionCBSE || "";
-                                                  } else {
-                                                      // Standard CBSE (Uses Default/Generic Keys)
-                                                      if (aiGenType === 'NOTES_SIMPLE') customPrompt = localSettings.aiPromptNotes || "";
-                                                      else if (aiGenType === 'NOTES_PREMIUM') customPrompt = localSettings.aiPromptNotesPremium || "";
-                                                      else if (aiGenType === 'MCQ_SIMPLE') customPrompt = localSettings.aiPromptMCQ || "";
-                                                  }
-                                              } else {
-                                                  // BSEB
-                                                  if (isComp) {
-                                                      if (aiGenType === 'NOTES_SIMPLE') customPrompt = localSettings.aiPromptNotesCompetition || "";
-                                                      else if (aiGenType === 'NOTES_PREMIUM') customPrompt = localSettings.aiPromptNotesPremiumCompetition || "";
-                                                      else if (aiGenType === 'MCQ_SIMPLE') customPrompt = localSettings.aiPromptMCQCompetition || "";
-                                                  } else {
-                                                      // Standard BSEB
-                                                      if (aiGenType === 'NOTES_SIMPLE') customPrompt = localSettings.aiPromptNotesBSEB || "";
-                                                      else if (aiGenType === 'NOTES_PREMIUM') customPrompt = localSettings.aiPromptNotesPremiumBSEB || "";
-                                                      else if (aiGenType === 'MCQ_SIMPLE') customPrompt = localSettings.aiPromptMCQBSEB || "";
-                                                  }
-                                              }
-
+                                              // Prompt comes from the template library inside fetchLessonContent
                                               const content = await fetchLessonContent(
-                                                  selBoard, selClass, selStream, selSubject, ch, genLanguage, aiGenType, 0, true, 15, customPrompt, true, syllabusMode, true, true
+                                                  selBoard, selClass, selStream, selSubject, ch, genLanguage, aiGenType, 0, true, 15, "", true, syllabusMode, true, true
                                               );
                                               setAiPreview(content);
                                           } catch(e) {
@@ -7371,6 +7765,101 @@ Capital of India?       Mumbai  Delhi   Kolkata Chennai 2       Delhi is the cap
                       </div>
                   </div>
               </div>
+
+              {/* AUTO-PILOT JOB QUEUE */}
+              <div className="mt-8 bg-slate-50 p-6 rounded-2xl border border-slate-200">
+                  <div className="flex flex-wrap justify-between items-center gap-2 mb-4">
+                      <h4 className="font-bold text-slate-800 flex items-center gap-2"><Layers size={20} /> Auto-Pilot Job Queue</h4>
+                      <div className="flex flex-wrap gap-2">
+                          <button
+                              onClick={handleResumeQueue}
+                              disabled={isQueueWorkerRunning}
+                              className="bg-green-600 text-white px-3 py-1.5 rounded-lg text-xs font-bold flex items-center gap-1 disabled:opacity-50"
+                          >
+                              {isQueueWorkerRunning ? <RefreshCw size={12} className="animate-spin" /> : <Play size={12} />} Resume Queue
+                          </button>
+                          <button
+                              onClick={() => { stopAutoPilotWorker(); setLiveFeed(prev => ["⏸️ Pause requested. Running jobs will finish first.", ...prev].slice(0, 50)); }}
+                              className="bg-white border border-slate-300 text-slate-700 px-3 py-1.5 rounded-lg text-xs font-bold"
+                          >
+                              Pause
+                          </button>
+                          <button
+                              onClick={async () => {
+                                  if (!confirm("Cancel all queued Auto-Pilot jobs?")) return;
+                                  try {
+                                      const count = await cancelAutoPilotJobs();
+                                      alert(`Cancelled ${count} queued jobs.`);
+                                  } catch (e: any) {
+                                      alert("Could not cancel the queued jobs: " + (e?.message || e));
+                                  }
+                              }}
+                              className="bg-red-50 border border-red-200 text-red-600 px-3 py-1.5 rounded-lg text-xs font-bold"
+                          >
+                              Cancel Queued
+                          </button>
+                          <button
+                              onClick={async () => {
+                                  const count = await clearFinishedAutoPilotJobs();
+                                  alert(`Removed ${count} finished jobs.`);
+                              }}
+                              className="bg-white border border-slate-300 text-slate-500 px-3 py-1.5 rounded-lg text-xs font-bold flex items-center gap-1"
+                          >
+                              <Trash2 size={12} /> Clear Finished
+                          </button>
+                      </div>
+                  </div>
+
+                  {autoPilotJobs.length === 0 ? (
+                      <p className="text-xs text-slate-400 italic">No jobs yet. Auto-Pilot and Command Center runs queue one job per chapter here.</p>
+                  ) : (
+                      <div className="space-y-2 max-h-80 overflow-y-auto">
+                          {summarizeAutoPilotJobs(autoPilotJobs).map(group => {
+                              const percent = Math.round((group.done / group.total) * 100);
+                              return (
+                                  <div key={group.groupKey} className="bg-white p-3 rounded-xl border border-slate-200">
+                                      <div className="flex justify-between items-center mb-1">
+                                          <p className="text-xs font-bold text-slate-800">{group.board} • Class {group.classLevel}{group.stream ? ` (${group.stream})` : ''} • {group.subjectName}</p>
+                                          <p className="text-xs font-black text-slate-600">{group.done}/{group.total}</p>
+                                      </div>
+                                      <div className="w-full h-2 bg-slate-100 rounded-full overflow-hidden mb-1">
+                                          <div className="h-full bg-green-500" style={{ width: `${percent}%` }}></div>
+                                      </div>
+                                      <p className="text-[10px] text-slate-500">
+                                          {group.running > 0 && <span className="text-blue-600 font-bold mr-2">{group.running} running</span>}
+                                          {group.queued > 0 && <span className="mr-2">{group.queued} queued</span>}
+                                          {group.failed > 0 && <span className="text-red-600 font-bold mr-2">{group.failed} failed</span>}
+                                          {group.cancelled > 0 && <span className="text-slate-400">{group.cancelled} cancelled</span>}
+                                      </p>
+                                  </div>
+                              );
+                          })}
+
+                          {autoPilotJobs.filter(j => j.status === 'FAILED' || j.status === 'CANCELLED').length > 0 && (
+                              <div className="bg-red-50 p-3 rounded-xl border border-red-100">
+                                  <div className="flex justify-between items-center mb-2">
+                                      <p className="text-xs font-bold text-red-700">Failed / Cancelled Jobs</p>
+                                      <button
+                                          onClick={() => handleRetryAutoPilotJobs(autoPilotJobs.filter(j => j.status === 'FAILED' || j.status === 'CANCELLED').map(j => j.id))}
+                                          className="text-[10px] bg-red-600 text-white px-2 py-1 rounded font-bold"
+                                      >
+                                          Retry All
+                                      </button>
+                                  </div>
+                                  {autoPilotJobs.filter(j => j.status === 'FAILED' || j.status === 'CANCELLED').map(job => (
+                                      <div key={job.id} className="flex justify-between items-start gap-2 py-1 border-t border-red-100 first:border-0">
+                                          <div className="min-w-0">
+                                              <p className="text-[11px] font-bold text-slate-700 truncate">{job.chapter.title} <span className="text-slate-400 font-normal">({job.kind} • {job.subject.name}, {job.status}, {job.attempts} attempts)</span></p>
+                                              {job.error && <p className="text-[10px] text-red-500 truncate">{job.error}</p>}
+                                          </div>
+                                          <button onClick={() => handleRetryAutoPilotJobs([job.id])} className="text-[10px] text-blue-600 font-bold shrink-0">Retry</button>
+                                      </div>
+                                  ))}
+                              </div>
+                          )}
+                      </div>
+                  )}
+              </div>
           </div>
       )}
 
@@ -7583,7 +8072,7 @@ Capital of India?       Mumbai  Delhi   Kolkata Chennai 2       Delhi is the cap
                                                               try {
                                                                   setIsSyncingNotes(true);
                                                                   
-                                                                  const { translateToHindi } = await import('../services/groq');
+                                                                  const { translateToHindi } = await import('../services/aiContent');
                                                                   const hindiContent = await translateToHindi(contentToTranslate, false);
                                                                   
                                                                   const newData = { 
@@ -9002,6 +9491,12 @@ Capital of India?       Mumbai  Delhi   Kolkata Chennai 2       Delhi is the cap
                   <button onClick={() => setActiveTab('DASHBOARD')} className="bg-slate-100 p-2 rounded-full hover:bg-slate-200"><ArrowLeft size={20} /></button>
                   <h3 className="text-xl font-black text-slate-800">Universal Analysis Logs</h3>
               </div>
+              <MorningInsightPanel
+                  config={getMorningInsightConfig(localSettings)}
+                  onConfigChange={(morningInsightConfig) => setLocalSettings({ ...localSettings, morningInsightConfig })}
+                  onSave={handleSaveSettings}
+                  users={users}
+              />
               <div className="overflow-x-auto">
                   <table className="w-full text-left text-sm">
                       <thead className="bg-slate-50 text-slate-500 uppercase text-xs">
@@ -9590,7 +10085,7 @@ Capital of India?       Mumbai  Delhi   Kolkata Chennai 2       Delhi is the cap
                       <div>
                           <label className="text-xs font-bold text-slate-400 uppercase mb-2 block">Target Content</label>
                           <div className="flex gap-2">
-                              {['NOTES', 'MCQ'].map(t => (
+                              {['NOTES', 'MCQ', 'TRANSLATE_HI'].map(t => (
                                   <button
                                       key={t}
                                       onClick={() => {
@@ -9603,12 +10098,37 @@ Capital of India?       Mumbai  Delhi   Kolkata Chennai 2       Delhi is the cap
                                       }}
                                       className={`px-4 py-2 rounded-xl text-xs font-bold border-2 transition-all flex items-center gap-2 ${localSettings.autoPilotConfig?.contentTypes?.includes(t as any) ? 'border-blue-600 bg-blue-600 text-white' : 'border-slate-200 bg-white text-slate-500'}`}
                                   >
-                                      {t === 'NOTES' ? <FileText size={14} /> : <CheckCircle size={14} />}
-                                      {t}
+                                      {t === 'NOTES' ? <FileText size={14} /> : t === 'MCQ' ? <CheckCircle size={14} /> : <Globe size={14} />}
+                                      {t === 'TRANSLATE_HI' ? 'HINDI' : t}
                                   </button>
                               ))}
                           </div>
+                          {localSettings.autoPilotConfig?.contentTypes?.includes('MCQ') && (
+                              <div className="mt-3 flex items-center gap-2">
+                                  <label className="text-xs font-bold text-slate-500">MCQs per Chapter</label>
+                                  <input
+                                      type="number"
+                                      min="20"
+                                      max="100"
+                                      value={localSettings.autoPilotConfig?.mcqCount || 20}
+                                      onChange={e => setLocalSettings({
+                                          ...localSettings,
+                                          autoPilotConfig: { ...localSettings.autoPilotConfig!, mcqCount: Number(e.target.value) }
+                                      })}
+                                      className="w-20 p-2 border rounded-lg text-xs font-bold"
+                                  />
+                                  <span className="text-[10px] text-slate-400">English + Hindi sets are validated and added to the Question Bank.</span>
+                              </div>
+                          )}
+                          {localSettings.autoPilotConfig?.contentTypes?.includes('TRANSLATE_HI') && (
+                              <p className="mt-3 text-[10px] text-slate-400">HINDI translates existing English notes and MCQs that have no Hindi version. Results always go to the Draft Review queue.</p>
+                          )}
                       </div>
+
+                      <HindiGlossaryEditor
+                          glossary={localSettings.hindiGlossary || {}}
+                          onChange={(hindiGlossary) => setLocalSettings({ ...localSettings, hindiGlossary })}
+                      />
                       
                       <div className="flex justify-end gap-2">
                           <button onClick={handleSaveSettings} className="bg-purple-600 text-white px-6 py-3 rounded-xl font-bold shadow-lg hover:bg-purple-700 flex items-center gap-2">
@@ -9678,15 +10198,17 @@ Capital of India?       Mumbai  Delhi   Kolkata Chennai 2       Delhi is the cap
                           <div>
                               <p className="text-xs font-bold text-slate-400 uppercase mb-2">Key Utilization (Live)</p>
                               <div className="grid grid-cols-5 gap-2">
-                                  {(localSettings.groqApiKeys || []).map((_, idx) => {
-                                      const usage = apiStats[`key_${idx}`] || 0;
+                                  {/* Usage is keyed by key fingerprint ('server' = keys picked by the proxy) */}
+                                  {Object.keys(apiStats).filter(k => k.startsWith('key_')).map((field) => {
+                                      const keyId = field.slice(4);
+                                      const usage = apiStats[field] || 0;
                                       const limit = localSettings.aiDailyLimitPerKey || 1500;
                                       const percent = Math.min((usage / limit) * 100, 100);
                                       const color = percent > 90 ? 'bg-red-500' : percent > 50 ? 'bg-yellow-500' : 'bg-green-500';
                                       
                                       return (
-                                          <div key={idx} className="bg-slate-50 p-2 rounded border border-slate-100 text-center" title={`Key ${idx+1}: ${usage}/${limit}`}>
-                                              <p className="text-[9px] font-bold text-slate-500">K{idx+1}</p>
+                                          <div key={field} className="bg-slate-50 p-2 rounded border border-slate-100 text-center" title={`Key ${keyId}: ${usage}/${limit}`}>
+                                              <p className="text-[9px] font-bold text-slate-500 font-mono truncate">{keyId.slice(0, 6)}</p>
                                               <div className="w-full bg-slate-200 h-1.5 rounded-full mt-1 overflow-hidden">
                                                   <div className={`${color} h-full transition-all`} style={{ width: `${percent}%` }}></div>
                                               </div>
@@ -9701,11 +10223,15 @@ Capital of India?       Mumbai  Delhi   Kolkata Chennai 2       Delhi is the cap
                   )}
               </div>
 
-              {/* APPROVAL QUEUE */}
+              {/* REVIEW QUEUE (content_drafts) */}
+              <DraftReviewQueue reviewer={currentUser} />
+
+              {/* LEGACY APPROVAL QUEUE (isDraft flag on published chapters, written before the review queue existed) */}
+              {drafts.length > 0 && (
               <div className="bg-white p-6 rounded-3xl border border-slate-200 mb-8">
                   <div className="flex items-center justify-between mb-4">
                       <h4 className="font-bold text-slate-800 flex items-center gap-2">
-                          <ListChecks size={20} className="text-orange-600"/> Approval Queue 
+                          <ListChecks size={20} className="text-orange-600"/> Legacy Drafts 
                           {drafts.length > 0 && <span className="bg-orange-100 text-orange-600 px-2 py-0.5 rounded-full text-xs font-bold">{drafts.length}</span>}
                       </h4>
                       {drafts.length > 0 && (
@@ -9755,6 +10281,7 @@ Capital of India?       Mumbai  Delhi   Kolkata Chennai 2       Delhi is the cap
                       </div>
                   )}
               </div>
+              )}
               
               {/* COMPETITION MODE TOGGLE (Existing Feature) */}
               <div className="bg-white p-6 rounded-3xl border border-slate-200">
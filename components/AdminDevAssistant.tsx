@@ -1,7 +1,7 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Terminal, Send, Cpu, Bug, Code2, ShieldCheck, X, Loader2 } from 'lucide-react';
-import { generateDevCode } from '../services/groq';
-import ReactMarkdown from 'react-markdown';
+import { Terminal, Send, Cpu, Bug, Code2, ShieldCheck, X, Loader2, Square } from 'lucide-react';
+import { streamDevCode } from '../services/aiContent';
+import { StreamingMarkdown } from './StreamingMarkdown';
 
 interface Props {
   onClose: () => void;
@@ -10,6 +10,7 @@ interface Props {
 interface Message {
   role: 'AI' | 'USER';
   text: string;
+  status?: 'STREAMING' | 'STOPPED' | 'INTERRUPTED';
 }
 
 export const AdminDevAssistant: React.FC<Props> = ({ onClose }) => {
@@ -19,6 +20,7 @@ export const AdminDevAssistant: React.FC<Props> = ({ onClose }) => {
     { role: 'AI', text: "NST AI Developer v2.5 Online.\nConnected to Gemini Pro.\n\nI can generate React code, fix bugs, or write new features for you. What do you need?" }
   ]);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
@@ -26,19 +28,40 @@ export const AdminDevAssistant: React.FC<Props> = ({ onClose }) => {
 
   useEffect(scrollToBottom, [messages, isLoading]);
 
+  // Abort the in-flight answer if the console is closed mid-stream
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const updateLastAiMessage = (update: (msg: Message) => Message) => {
+    setMessages(prev => {
+      const next = [...prev];
+      next[next.length - 1] = update(next[next.length - 1]);
+      return next;
+    });
+  };
+
   const handleSend = async () => {
     if (!input.trim() || isLoading) return;
 
     const userMsg = input;
-    setMessages(prev => [...prev, { role: 'USER', text: userMsg }]);
+    setMessages(prev => [...prev, { role: 'USER', text: userMsg }, { role: 'AI', text: '', status: 'STREAMING' }]);
     setInput('');
     setIsLoading(true);
+    const controller = new AbortController();
+    abortRef.current = controller;
 
-    // Call Real Gemini API
-    const codeResponse = await generateDevCode(userMsg);
-
-    setMessages(prev => [...prev, { role: 'AI', text: codeResponse }]);
-    setIsLoading(false);
+    try {
+      const response = await streamDevCode(userMsg, {
+        signal: controller.signal,
+        onDelta: (delta) => updateLastAiMessage(m => ({ ...m, text: m.text + delta }))
+      });
+      const status: Message['status'] = response.finishReason === 'ABORTED' ? 'STOPPED' : response.finishReason === 'INTERRUPTED' ? 'INTERRUPTED' : undefined;
+      updateLastAiMessage(m => ({ ...m, text: response.text, status }));
+    } catch (error: any) {
+      updateLastAiMessage(m => ({ ...m, text: `Error: ${error.message}`, status: undefined }));
+    } finally {
+      abortRef.current = null;
+      setIsLoading(false);
+    }
   };
 
   return (
@@ -63,16 +86,22 @@ export const AdminDevAssistant: React.FC<Props> = ({ onClose }) => {
 
             {/* Terminal Body */}
             <div className="flex-1 overflow-y-auto p-6 space-y-6 custom-scrollbar">
-                {messages.map((msg, idx) => (
+                {messages.filter(msg => msg.status !== 'STREAMING' || msg.text).map((msg, idx) => (
                     <div key={idx} className={`flex gap-4 ${msg.role === 'AI' ? 'text-slate-300' : 'text-blue-300 flex-row-reverse'}`}>
                         <div className={`w-8 h-8 rounded flex items-center justify-center shrink-0 mt-1 ${msg.role === 'AI' ? 'bg-green-900/30 text-green-400' : 'bg-blue-900/30 text-blue-400'}`}>
                             {msg.role === 'AI' ? <Code2 size={16} /> : <ShieldCheck size={16} />}
                         </div>
                         <div className={`max-w-[85%] ${msg.role === 'AI' ? 'bg-[#1e1e1e] p-4 rounded-xl border border-slate-700' : 'bg-blue-900/20 p-3 rounded-lg border border-blue-900/50'}`}>
                            {msg.role === 'AI' ? (
-                               <div className="prose prose-invert prose-pre:bg-[#0d1117] prose-pre:border prose-pre:border-slate-700 max-w-none text-sm">
-                                   <ReactMarkdown>{msg.text}</ReactMarkdown>
-                               </div>
+                               <>
+                                   <StreamingMarkdown
+                                       text={msg.text}
+                                       isStreaming={msg.status === 'STREAMING'}
+                                       className="prose prose-invert prose-pre:bg-[#0d1117] prose-pre:border prose-pre:border-slate-700 max-w-none text-sm"
+                                   />
+                                   {msg.status === 'STOPPED' && <p className="text-xs text-yellow-500 mt-2">[stopped]</p>}
+                                   {msg.status === 'INTERRUPTED' && <p className="text-xs text-red-400 mt-2">[connection dropped - output may be incomplete]</p>}
+                               </>
                            ) : (
                                <p className="whitespace-pre-wrap">{msg.text}</p>
                            )}
@@ -80,7 +109,7 @@ export const AdminDevAssistant: React.FC<Props> = ({ onClose }) => {
                     </div>
                 ))}
                 
-                {isLoading && (
+                {isLoading && !messages[messages.length - 1]?.text && (
                     <div className="flex gap-4 text-slate-300">
                         <div className="w-8 h-8 rounded flex items-center justify-center shrink-0 bg-green-900/30 text-green-400">
                             <Loader2 size={16} className="animate-spin" />
@@ -108,13 +137,23 @@ export const AdminDevAssistant: React.FC<Props> = ({ onClose }) => {
                         autoFocus
                     />
                 </div>
-                <button 
-                    onClick={handleSend}
-                    disabled={isLoading || !input.trim()}
-                    className="bg-green-600 hover:bg-green-700 text-white px-6 rounded-lg font-bold transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-                >
-                    <Send size={18} />
-                </button>
+                {isLoading ? (
+                    <button 
+                        onClick={() => abortRef.current?.abort()}
+                        title="Stop generating"
+                        className="bg-red-600 hover:bg-red-700 text-white px-6 rounded-lg font-bold transition-colors"
+                    >
+                        <Square size={18} />
+                    </button>
+                ) : (
+                    <button 
+                        onClick={handleSend}
+                        disabled={!input.trim()}
+                        className="bg-green-600 hover:bg-green-700 text-white px-6 rounded-lg font-bold transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        <Send size={18} />
+                    </button>
+                )}
             </div>
         </div>
     </div>
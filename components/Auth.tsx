@@ -1,7 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { User, Board, ClassLevel, Stream, SystemSettings, RecoveryRequest } from '../types';
 import { ADMIN_EMAIL } from '../constants';
-import { saveUserToLive, auth, getUserByEmail } from '../firebase';
+import { saveUserToLive, saveAiEntitlement, linkAuthSession, requestAdminAccess, auth, getUserByEmail } from '../firebase';
 import { createUserWithEmailAndPassword, signInWithEmailAndPassword, setPersistence, browserLocalPersistence, signInAnonymously } from 'firebase/auth';
 import { UserPlus, LogIn, Lock, User as UserIcon, Phone, Mail, ShieldCheck, ArrowRight, School, GraduationCap, Layers, KeyRound, Copy, Check, AlertTriangle, XCircle, MessageCircle, Send, RefreshCcw, ShieldAlert, HelpCircle } from 'lucide-react';
 import { LoginGuide } from './LoginGuide';
@@ -121,6 +121,7 @@ export const Auth: React.FC<Props> = ({ onLogin, logActivity }) => {
           const firestoreUser = { ...newUser };
           delete firestoreUser.password; 
           await saveUserToLive(firestoreUser);
+          await saveAiEntitlement(newUser);
 
           logActivity("SIGNUP", `New Student Registered: ${newUser.classLevel} - ${newUser.board}`, newUser);
           
@@ -174,6 +175,7 @@ export const Auth: React.FC<Props> = ({ onLogin, logActivity }) => {
                                 await signInAnonymously(auth);
                             }
                         } catch (e) { try { await signInAnonymously(auth); } catch(e2) {} }
+                        await linkAuthSession(legacyUser.id, pass);
                         logActivity("LOGIN", "Student Logged In (Legacy)", legacyUser);
                         onLogin(legacyUser);
                         return;
@@ -211,6 +213,7 @@ export const Auth: React.FC<Props> = ({ onLogin, logActivity }) => {
             }
 
             if (appUser.isArchived) { setError('Account Deleted.'); return; }
+            if (appUser.id !== firebaseUser.uid) await linkAuthSession(appUser.id);
             logActivity("LOGIN", "Student Logged In (Firebase)", appUser);
             onLogin(appUser);
 
@@ -265,6 +268,8 @@ export const Auth: React.FC<Props> = ({ onLogin, logActivity }) => {
                 try {
                     await setPersistence(auth, browserLocalPersistence);
                     const cred = await signInAnonymously(auth);
+                    // The AI proxies only treat this session as admin once the server grants the role claim
+                    if (!(await requestAdminAccess(adminAuthCode))) console.warn("Admin role claim not granted: AI admin tools will run with student limits.");
                     let adminUser: any = await getUserByEmail(formData.email);
                     if (adminUser && adminUser.role === 'ADMIN') {
                         adminUser = { ...adminUser, id: cred.user.uid, lastLoginDate: new Date().toISOString(), isPremium: true, subscriptionTier: 'LIFETIME', subscriptionLevel: 'ULTRA' };
@@ -10,6 +10,7 @@ interface Props {
 
 export const Leaderboard: React.FC<Props> = ({ user, settings }) => {
     const [entries, setEntries] = useState<LeaderboardEntry[]>([]);
+    const [testFilter, setTestFilter] = useState('ALL');
 
     useEffect(() => {
         const stored = localStorage.getItem('nst_leaderboard');
@@ -17,9 +18,7 @@ export const Leaderboard: React.FC<Props> = ({ user, settings }) => {
             try {
                 const data: LeaderboardEntry[] = JSON.parse(stored);
                 if (Array.isArray(data)) {
-                    // Sort by Score DESC, then Date DESC
-                    const sorted = data.sort((a, b) => b.score - a.score || new Date(b.date).getTime() - new Date(a.date).getTime());
-                    setEntries(sorted);
+                    setEntries(data);
                 }
             } catch (e) {
                 console.error("Failed to load leaderboard", e);
@@ -29,11 +28,26 @@ export const Leaderboard: React.FC<Props> = ({ user, settings }) => {
         }
     }, []);
 
+    // Tests have different marking schemes: one test ranks by marks, all tests together by percent of max marks
+    const percentOf = (e: LeaderboardEntry) => e.total > 0 ? e.score / e.total : 0;
+    const tests = Array.from(new Map(entries.filter(e => e.testId).map(e => [e.testId!, e.topic])).entries());
+    const visible = entries
+        .filter(e => testFilter === 'ALL' || e.testId === testFilter)
+        .sort((a, b) => (testFilter === 'ALL' ? percentOf(b) - percentOf(a) : b.score - a.score) || new Date(b.date).getTime() - new Date(a.date).getTime());
+
     return (
         <div className="animate-in fade-in slide-in-from-bottom-4">
-            <h3 className="text-2xl font-black text-slate-800 mb-6 flex items-center gap-3">
-                <Trophy className="text-yellow-500" /> Challenge Leaderboard
-            </h3>
+            <div className="flex items-center justify-between gap-3 mb-6">
+                <h3 className="text-2xl font-black text-slate-800 flex items-center gap-3">
+                    <Trophy className="text-yellow-500" /> Challenge Leaderboard
+                </h3>
+                {tests.length > 0 && (
+                    <select value={testFilter} onChange={e => setTestFilter(e.target.value)} className="p-2 border border-slate-200 rounded-lg text-xs font-bold bg-white max-w-[50%]">
+                        <option value="ALL">All Tests</option>
+                        {tests.map(([id, name]) => <option key={id} value={id}>{name}</option>)}
+                    </select>
+                )}
+            </div>
             
             <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
                 <div className="overflow-x-auto">
@@ -47,10 +61,10 @@ export const Leaderboard: React.FC<Props> = ({ user, settings }) => {
                             </tr>
                         </thead>
                         <tbody className="divide-y divide-slate-100">
-                            {entries.length === 0 && (
+                            {visible.length === 0 && (
                                 <tr><td colSpan={4} className="p-8 text-center text-slate-400">No records yet. Be the first!</td></tr>
                             )}
-                            {entries.map((entry, idx) => (
+                            {visible.map((entry, idx) => (
                                 <tr key={entry.id} className={idx < 3 ? 'bg-yellow-50/30' : ''}>
                                     <td className="p-4 font-bold text-slate-600">
                                         {idx === 0 && <Medal size={20} className="text-yellow-500" />}
@@ -64,8 +78,17 @@ export const Leaderboard: React.FC<Props> = ({ user, settings }) => {
                                         </div>
                                         {entry.userName}
                                     </td>
-                                    <td className="p-4 text-sm text-slate-500">{entry.topic}</td>
-                                    <td className="p-4 text-right font-black text-blue-600">{entry.score} pts</td>
+                                    <td className="p-4 text-sm text-slate-500">
+                                        {entry.topic}
+                                        {testFilter !== 'ALL' && entry.sectionScores && entry.sectionScores.length > 1 && (
+                                            <span className="block text-[10px] text-slate-400">
+                                                {entry.sectionScores.map(sec => `${sec.name}: ${sec.marks}/${sec.maxMarks}`).join(' • ')}
+                                            </span>
+                                        )}
+                                    </td>
+                                    <td className="p-4 text-right font-black text-blue-600">
+                                        {entry.score}{entry.total ? <span className="text-xs text-slate-400 font-bold"> / {entry.total}</span> : ' pts'}
+                                    </td>
                                 </tr>
                             ))}
                         </tbody>
@@ -1,13 +1,15 @@
 
 import React, { useState, useEffect, useRef } from 'react';
 import ReactMarkdown from 'react-markdown';
-import { LessonContent, Subject, ClassLevel, Chapter, MCQItem, ContentType, User, SystemSettings } from '../types';
+import { LessonContent, Subject, ClassLevel, Chapter, MCQItem, ContentType, User, SystemSettings, QuestionResponse } from '../types';
 import { ArrowLeft, Clock, AlertTriangle, ExternalLink, CheckCircle, XCircle, Trophy, BookOpen, Play, Lock, ChevronRight, ChevronLeft, Save, X, Maximize, Volume2, Square, Zap, StopCircle, Globe } from 'lucide-react';
 import { CustomConfirm, CustomAlert } from './CustomDialogs';
 import { CustomPlayer } from './CustomPlayer';
 import remarkMath from 'remark-math';
 import rehypeKatex from 'rehype-katex';
 import { decodeHtml } from '../utils/htmlDecoder';
+import { QuestionResponseInput } from './QuestionResponseInput';
+import { getQuestionKind, isResponseCorrect, QUESTION_KIND_LABELS } from '../services/questionTypes';
 
 interface Props {
   content: LessonContent | null;
@@ -16,7 +18,7 @@ interface Props {
   chapter: Chapter;
   loading: boolean;
   onBack: () => void;
-  onMCQComplete?: (count: number, answers: Record<number, number>, usedData: MCQItem[], timeTaken: number) => void; 
+  onMCQComplete?: (count: number, answers: Record<number, QuestionResponse>, usedData: MCQItem[], timeTaken: number, questionTimes?: Record<number, number>) => void; 
   user?: User; // Optional for non-MCQ views
   onUpdateUser?: (user: User) => void;
   settings?: SystemSettings; // New Prop for Pricing
@@ -34,7 +36,7 @@ export const LessonView: React.FC<Props> = ({
   onUpdateUser,
   settings
 }) => {
-  const [mcqState, setMcqState] = useState<Record<number, number | null>>({});
+  const [mcqState, setMcqState] = useState<Record<number, QuestionResponse | null>>({});
   const [showResults, setShowResults] = useState(false); // Used to trigger Analysis Mode
   const [localMcqData, setLocalMcqData] = useState<MCQItem[]>([]);
   const [showResumePrompt, setShowResumePrompt] = useState(false);
@@ -418,6 +420,10 @@ export const LessonView: React.FC<Props> = ({
   if ((content.type === 'MCQ_ANALYSIS' || content.type === 'MCQ_SIMPLE') && content.mcqData) {
       const BATCH_SIZE = 10;
       const [batchIndex, setBatchIndex] = useState(0);
+      // Seconds per question (question index -> time), for item analysis. A question's time runs
+      // from the page opening or the previous answer on the page, since a page shows 10 at once.
+      const questionTimesRef = useRef<Record<number, number>>({});
+      const answerClockRef = useRef(Date.now());
 
       // --- INITIALIZATION & RESUME LOGIC ---
       useEffect(() => {
@@ -474,6 +480,8 @@ export const LessonView: React.FC<Props> = ({
           localStorage.removeItem(key);
           setMcqState({});
           setBatchIndex(0);
+          questionTimesRef.current = {};
+          answerClockRef.current = Date.now();
           setLocalMcqData([...(content.mcqData || [])].sort(() => Math.random() - 0.5));
           setShowResumePrompt(false);
           setAnalysisUnlocked(false);
@@ -490,6 +498,8 @@ export const LessonView: React.FC<Props> = ({
                   setLocalMcqData(shuffled);
                   setMcqState({});
                   setBatchIndex(0);
+                  questionTimesRef.current = {};
+                  answerClockRef.current = Date.now();
                   setShowResults(false);
                   setAnalysisUnlocked(false);
                   const key = `nst_mcq_progress_${chapter.id}`;
@@ -505,7 +515,7 @@ export const LessonView: React.FC<Props> = ({
 
       const score = Object.keys(mcqState).reduce((acc, key) => {
           const qIdx = parseInt(key);
-          return acc + (mcqState[qIdx] === displayData[qIdx].correctAnswer ? 1 : 0);
+          return acc + (isResponseCorrect(displayData[qIdx], mcqState[qIdx]) ? 1 : 0);
       }, 0);
 
       const currentCorrect = score;
@@ -535,7 +545,7 @@ export const LessonView: React.FC<Props> = ({
         setAnalysisUnlocked(false);
         
         if (onMCQComplete) {
-            onMCQComplete(score, mcqState as Record<number, number>, displayData, sessionTime);
+            onMCQComplete(score, mcqState as Record<number, QuestionResponse>, displayData, sessionTime, questionTimesRef.current);
         }
 
         // EXTRA SYNC FOR HISTORY (Ensuring it saves even if parent is busy)
@@ -560,7 +570,16 @@ export const LessonView: React.FC<Props> = ({
         });
     };
 
+      const handleAnswer = (idx: number, response: QuestionResponse) => {
+          if (questionTimesRef.current[idx] === undefined) {
+              questionTimesRef.current[idx] = Math.round((Date.now() - answerClockRef.current) / 1000);
+              answerClockRef.current = Date.now();
+          }
+          setMcqState(prev => ({ ...prev, [idx]: response }));
+      };
+
       const handleNextPage = () => {
+          answerClockRef.current = Date.now();
           setBatchIndex(prev => prev + 1);
           const container = document.querySelector('.mcq-container');
           if(container) container.scrollTop = 0;
@@ -568,6 +587,7 @@ export const LessonView: React.FC<Props> = ({
 
       const handlePrevPage = () => {
           if (batchIndex > 0) {
+              answerClockRef.current = Date.now();
               setBatchIndex(prev => prev - 1);
               const container = document.querySelector('.mcq-container');
               if(container) container.scrollTop = 0;
@@ -667,7 +687,10 @@ export const LessonView: React.FC<Props> = ({
                                <div className="flex justify-between items-start mb-4 gap-3">
                                    <h4 className="font-bold text-slate-800 flex gap-3 leading-relaxed flex-1">
                                        <span className="bg-blue-100 text-blue-700 w-6 h-6 rounded-full flex items-center justify-center text-xs shrink-0 font-bold mt-0.5">{idx + 1}</span>
-                                       {q.question}
+                                       <span className="flex-1">
+                                           {q.question}
+                                           {getQuestionKind(q) !== 'SINGLE' && <span className="block text-[10px] font-bold text-indigo-500 uppercase mt-1">{QUESTION_KIND_LABELS[getQuestionKind(q)]}</span>}
+                                       </span>
                                    </h4>
                                    <button 
                                       onClick={(e) => { e.stopPropagation(); handleSpeak(q.question); }} 
@@ -676,6 +699,15 @@ export const LessonView: React.FC<Props> = ({
                                       {isSpeaking && currentTextRef.current === q.question ? <StopCircle size={18} /> : <Volume2 size={18} />}
                                    </button>
                                </div>
+                               {getQuestionKind(q) !== 'SINGLE' ? (
+                                   <QuestionResponseInput
+                                       item={q}
+                                       response={isAnswered ? userAnswer : undefined}
+                                       onChange={r => handleAnswer(idx, r)}
+                                       locked={isAnswered || showResults}
+                                       reveal={showResults && analysisUnlocked}
+                                   />
+                               ) : (
                                <div className="space-y-2">
                                    {q.options.map((opt, oIdx) => {
                                        let btnClass = "w-full text-left p-3 rounded-xl border transition-all text-sm font-medium relative overflow-hidden ";
@@ -703,7 +735,7 @@ export const LessonView: React.FC<Props> = ({
                                            <button 
                                                key={oIdx}
                                                disabled={isAnswered || showResults} 
-                                               onClick={() => setMcqState(prev => ({ ...prev, [idx]: oIdx }))}
+                                               onClick={() => handleAnswer(idx, oIdx)}
                                                className={btnClass}
                                            >
                                                <span className="relative z-10 flex justify-between items-center">
@@ -715,6 +747,7 @@ export const LessonView: React.FC<Props> = ({
                                        );
                                    })}
                                </div>
+                               )}
                                
                                {showResults && analysisUnlocked && q.explanation && (
                                    <div className="mt-4 p-4 bg-blue-50 border border-blue-100 rounded-xl animate-in fade-in slide-in-from-top-2">
@@ -1,12 +1,14 @@
 import React, { useState, useEffect } from 'react';
-import { MCQResult, User, SystemSettings } from '../types';
+import { MCQResult, User, SystemSettings, OmrEntry, QuestionResponse } from '../types';
 import { X, Share2, ChevronLeft, ChevronRight, Download, FileSearch, Grid, CheckCircle, XCircle, Clock, Award, BrainCircuit, Play, StopCircle, BookOpen, Target, Zap, BarChart3, ListChecks, FileText, LayoutTemplate, TrendingUp } from 'lucide-react';
 import html2canvas from 'html2canvas';
-import { generateUltraAnalysis } from '../services/groq';
+import { generateUltraAnalysis } from '../services/aiContent';
 import { saveUniversalAnalysis, saveUserToLive, saveAiInteraction } from '../firebase';
 import ReactMarkdown from 'react-markdown';
 import { speakText, stopSpeech, getCategorizedVoices } from '../utils/textToSpeech';
 import { CustomConfirm } from './CustomDialogs'; // Import CustomConfirm
+import { formatResponse, getOmrResponse, isOmrCorrect, QUESTION_KIND_LABELS } from '../services/questionTypes';
+import { getMarksPercent } from '../services/markingSchemes';
 
 interface Props {
   result: MCQResult;
@@ -41,7 +43,11 @@ export const MarksheetCard: React.FC<Props> = ({ result, user, settings, onClose
 
   const ITEMS_PER_PAGE = 50;
 
-  const percentage = Math.round((result.score / result.totalQuestions) * 100);
+  // Results under a marking scheme show marks; older results show the correct-answer count
+  const hasMarks = (result.maxMarks || 0) > 0;
+  const shownScore = hasMarks ? (result.marks ?? 0) : result.score;
+  const shownTotal = hasMarks ? result.maxMarks! : result.totalQuestions;
+  const percentage = hasMarks ? getMarksPercent(shownScore, shownTotal) : Math.round((result.score / result.totalQuestions) * 100);
   
   const omrData = result.omrData || [];
   const hasOMR = omrData.length > 0;
@@ -117,7 +123,7 @@ export const MarksheetCard: React.FC<Props> = ({ result, user, settings, onClose
 
   const handleShare = async () => {
       const appLink = settings?.officialAppUrl || "https://play.google.com/store/apps/details?id=com.nsta.app"; 
-      const text = `*${settings?.appName || 'IDEAL INSPIRATION CLASSES'} RESULT*\n\nName: ${user.name}\nScore: ${result.score}/${result.totalQuestions}\nAccuracy: ${percentage}%\nCorrect: ${result.correctCount}\nWrong: ${result.wrongCount}\nTime: ${formatTime(result.totalTimeSeconds)}\nDate: ${new Date(result.date).toLocaleDateString()}\n\nदेखिये मेरा NSTA रिजल्ट! आप भी टेस्ट दें...\nDownload App: ${appLink}`;
+      const text = `*${settings?.appName || 'IDEAL INSPIRATION CLASSES'} RESULT*\n\nName: ${user.name}\nScore: ${shownScore}/${shownTotal}\nAccuracy: ${percentage}%\nCorrect: ${result.correctCount}\nWrong: ${result.wrongCount}\nTime: ${formatTime(result.totalTimeSeconds)}\nDate: ${new Date(result.date).toLocaleDateString()}\n\nदेखिये मेरा NSTA रिजल्ट! आप भी टेस्ट दें...\nDownload App: ${appLink}`;
       if (navigator.share) {
           try { await navigator.share({ title: 'Result', text }); } catch(e) {}
       } else {
@@ -153,10 +159,10 @@ export const MarksheetCard: React.FC<Props> = ({ result, user, settings, onClose
       
       try {
           // Prepare Data
-          const userAnswers: Record<number, number> = {};
+          const userAnswers: Record<number, QuestionResponse> = {};
           if (result.omrData) {
               result.omrData.forEach(d => {
-                  userAnswers[d.qIndex] = d.selected;
+                  userAnswers[d.qIndex] = getOmrResponse(d);
               });
           }
 
@@ -169,7 +175,7 @@ export const MarksheetCard: React.FC<Props> = ({ result, user, settings, onClose
               subject: result.subjectName,
               chapter: result.chapterTitle,
               classLevel: result.classLevel || '10'
-          }, settings);
+          }, settings, skipCost ? 0 : cost);
 
           setUltraAnalysisResult(analysisText);
 
@@ -223,6 +229,24 @@ export const MarksheetCard: React.FC<Props> = ({ result, user, settings, onClose
       }
   };
 
+  // Kinds without a single option (multi-correct, numeric, match, case based) show the answer as text
+  const renderKindRow = (entry: OmrEntry) => {
+      const item = questions?.[entry.qIndex] || { kind: entry.kind, question: '', options: [], correctAnswer: -2, explanation: '' };
+      const answered = entry.selected !== -1;
+      const isCorrect = isOmrCorrect(entry);
+      const partial = !isCorrect && (entry.credit || 0) > 0;
+      const colorClass = !answered ? "border-slate-300 text-slate-400 bg-white" : isCorrect ? "bg-green-600 border-green-600 text-white" : partial ? "bg-amber-500 border-amber-500 text-white" : "bg-red-500 border-red-500 text-white";
+      return (
+          <div key={entry.qIndex} className="flex items-center gap-3 mb-2">
+              <span className="w-6 text-[10px] font-bold text-slate-500 text-right">{entry.qIndex + 1}</span>
+              <div className={`h-6 px-2 rounded-full border flex items-center gap-1 text-[9px] font-bold max-w-[9rem] ${colorClass}`} title={QUESTION_KIND_LABELS[entry.kind!]}>
+                  <span className="truncate">{answered ? formatResponse(item, entry.response) : QUESTION_KIND_LABELS[entry.kind!]}</span>
+                  {partial && <span className="shrink-0">{Math.round((entry.credit || 0) * 100)}%</span>}
+              </div>
+          </div>
+      );
+  };
+
   const renderOMRRow = (qIndex: number, selected: number, correct: number) => {
       const options = [0, 1, 2, 3];
       return (
@@ -298,7 +322,7 @@ export const MarksheetCard: React.FC<Props> = ({ result, user, settings, onClose
                 <Grid size={18} /> OMR Response Sheet
             </h3>
             <div className="grid grid-cols-2 sm:grid-cols-4 gap-x-4 gap-y-2">
-                {currentData.map((data) => renderOMRRow(data.qIndex, data.selected, data.correct))}
+                {currentData.map((data) => data.correct === -2 ? renderKindRow(data) : renderOMRRow(data.qIndex, data.selected, data.correct))}
             </div>
             {hasOMR && totalPages > 1 && !isDownloadingAll && (
                 <div className="flex justify-center items-center gap-4 mt-4 pt-3 border-t border-slate-100">
@@ -366,8 +390,8 @@ export const MarksheetCard: React.FC<Props> = ({ result, user, settings, onClose
                         />
                     </svg>
                     <div className="absolute inset-0 flex flex-col items-center justify-center">
-                        <span className="text-4xl font-black text-slate-800">{result.score}</span>
-                        <span className="text-sm font-bold text-slate-400">/{result.totalQuestions}</span>
+                        <span className="text-4xl font-black text-slate-800">{shownScore}</span>
+                        <span className="text-sm font-bold text-slate-400">/{shownTotal}</span>
                     </div>
                 </div>
 
@@ -385,10 +409,54 @@ export const MarksheetCard: React.FC<Props> = ({ result, user, settings, onClose
                         <p className="text-[10px] font-bold text-blue-600 uppercase">Time</p>
                     </div>
                 </div>
+
+                {result.passed !== undefined && (
+                    <p className={`mt-4 px-4 py-1 rounded-full text-xs font-black uppercase ${result.passed ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'}`}>
+                        {result.passed ? 'Passed' : 'Not Passed'}
+                    </p>
+                )}
+                {renderSectionBreakdown()}
             </div>
         </div>
   );
 
+  // Section-wise marks (weekly tests / challenges with a marking scheme)
+  const renderSectionBreakdown = () => {
+      const sections = result.sectionScores || [];
+      if (sections.length === 0 || (sections.length === 1 && !hasMarks)) return null;
+      return (
+          <div className="w-full mt-6 text-left">
+              <p className="text-[10px] font-bold text-slate-400 uppercase mb-2 flex items-center gap-1"><ListChecks size={12} /> Section-wise Score</p>
+              <div className="overflow-x-auto">
+                  <table className="w-full text-xs">
+                      <thead className="text-[10px] text-slate-400 uppercase">
+                          <tr>
+                              <th className="py-1 text-left">Section</th>
+                              <th className="py-1 text-right">Marks</th>
+                              <th className="py-1 text-right">✓</th>
+                              <th className="py-1 text-right">✗</th>
+                              <th className="py-1 text-right">Skip</th>
+                              <th className="py-1 text-right">Time</th>
+                          </tr>
+                      </thead>
+                      <tbody className="divide-y divide-slate-100">
+                          {sections.map(sec => (
+                              <tr key={sec.sectionId}>
+                                  <td className="py-1.5 font-bold text-slate-700">{sec.name}</td>
+                                  <td className={`py-1.5 text-right font-black ${sec.marks < 0 ? 'text-red-600' : 'text-slate-800'}`}>{sec.marks} / {sec.maxMarks}</td>
+                                  <td className="py-1.5 text-right text-green-700">{sec.correct}{sec.partial > 0 && <span className="text-amber-600"> +{sec.partial} partial</span>}</td>
+                                  <td className="py-1.5 text-right text-red-600">{sec.wrong}</td>
+                                  <td className="py-1.5 text-right text-slate-500">{sec.unanswered}</td>
+                                  <td className="py-1.5 text-right text-slate-500">{sec.timeSeconds ? formatTime(sec.timeSeconds) : '–'}</td>
+                              </tr>
+                          ))}
+                      </tbody>
+                  </table>
+              </div>
+          </div>
+      );
+  };
+
   // Render Analysis Content
   const renderAnalysisContent = () => {
     if (!ultraAnalysisResult) return null;
@@ -675,7 +743,7 @@ export const MarksheetCard: React.FC<Props> = ({ result, user, settings, onClose
               </div>
               <div className="mt-4 bg-slate-900 text-white p-6 text-center rounded-xl">
                   <p className="text-sm font-bold opacity-60 uppercase mb-1">Total Score</p>
-                  <p className="text-5xl font-black">{result.score} <span className="text-lg opacity-50">/ {result.totalQuestions}</span></p>
+                  <p className="text-5xl font-black">{shownScore} <span className="text-lg opacity-50">/ {shownTotal}</span></p>
                   <p className="text-sm font-bold mt-2 text-yellow-400">{percentage}% Accuracy</p>
               </div>
           </div>
@@ -732,7 +800,7 @@ export const MarksheetCard: React.FC<Props> = ({ result, user, settings, onClose
           <div className="flex items-center gap-4 mb-8">
               <div className="flex-1 bg-slate-100 p-6 rounded-lg text-center">
                   <p className="text-xs font-bold text-slate-500 uppercase">Total Marks</p>
-                  <p className="text-3xl font-black text-slate-900">{result.score}</p>
+                  <p className="text-3xl font-black text-slate-900">{shownScore}</p>
               </div>
               <div className="flex-1 bg-slate-900 text-white p-6 rounded-lg text-center">
                   <p className="text-xs font-bold opacity-60 uppercase">Percentage</p>
@@ -1,12 +1,13 @@
 
 import React, { useState, useEffect } from 'react';
-import { Chapter, User, Subject, SystemSettings, MCQResult, PerformanceTag } from '../types';
+import { Chapter, User, Subject, SystemSettings, MCQResult, PerformanceTag, QuestionResponse } from '../types';
 import { CheckCircle, Lock, ArrowLeft, Crown, PlayCircle, HelpCircle, Trophy, Clock, BrainCircuit } from 'lucide-react';
 import { CustomAlert, CustomConfirm } from './CustomDialogs';
-import { getChapterData, saveUserToLive, saveUserHistory, savePublicActivity } from '../firebase';
+import { getChapterData, saveUserToLive, saveAiEntitlement, saveUserHistory, savePublicActivity } from '../firebase';
 import { LessonView } from './LessonView'; 
 import { MarksheetCard } from './MarksheetCard';
 import { AiInterstitial } from './AiInterstitial';
+import { buildOmrEntry, getOmrResponse, isResponseCorrect } from '../services/questionTypes';
 
 // we might need to invoke that or replicate the logic.
 // The user wants "Free Practice" and "Premium Test".
@@ -183,7 +184,7 @@ export const McqView: React.FC<Props> = ({
       setLoading(false);
   };
 
-  const handleMCQComplete = (score: number, answers: Record<number, number>, usedData: any[], timeTaken: number) => {
+  const handleMCQComplete = (score: number, answers: Record<number, QuestionResponse>, usedData: any[], timeTaken: number, questionTimes: Record<number, number> = {}) => {
       // 1. FILTER & REMAP DATA (Strict Requirement: Only show attempted questions)
       const answeredIndices = Object.keys(answers).map(Number).sort((a,b) => a - b);
       
@@ -191,7 +192,7 @@ export const McqView: React.FC<Props> = ({
       const submittedQuestions = answeredIndices.map(idx => usedData[idx]);
       
       // Remap answers to the new indices (0, 1, 2...)
-      const remappedAnswers: Record<number, number> = {};
+      const remappedAnswers: Record<number, QuestionResponse> = {};
       answeredIndices.forEach((oldIdx, newIdx) => {
           remappedAnswers[newIdx] = answers[oldIdx];
       });
@@ -205,18 +206,13 @@ export const McqView: React.FC<Props> = ({
       else if (averageTime <= 45) performanceTag = 'BAD';
 
       // Build OMR Data (Using remapped indices and submittedQuestions)
-      const omrData = submittedQuestions.map((q, idx) => ({
-          qIndex: idx,
-          selected: remappedAnswers[idx] !== undefined ? remappedAnswers[idx] : -1,
-          correct: q.correctAnswer
-      }));
+      const omrData = submittedQuestions.map((q, idx) => buildOmrEntry(q, idx, remappedAnswers[idx]));
 
       // Build Wrong Questions List (Strictly Incorrect Attempts)
       const wrongQuestions = submittedQuestions
         .map((q, idx) => {
-            const selected = remappedAnswers[idx] !== undefined ? remappedAnswers[idx] : -1;
-            // Filter: Must be attempted (not -1) AND wrong
-            if (selected !== -1 && selected !== q.correctAnswer) {
+            // Every submitted question was attempted, so only correctness matters
+            if (!isResponseCorrect(q, remappedAnswers[idx])) {
                 return {
                     question: q.question,
                     qIndex: idx
@@ -248,6 +244,7 @@ export const McqView: React.FC<Props> = ({
           score: score,
           totalTimeSeconds: timeTaken,
           averageTimePerQuestion: averageTime,
+          questionTimes: answeredIndices.map(oldIdx => questionTimes[oldIdx] ?? 0),
           performanceTag: perfLabel as any,
           classLevel: classLevel,
           omrData: omrData,
@@ -282,6 +279,7 @@ export const McqView: React.FC<Props> = ({
                       grantedByAdmin: true,
                       isPremium: true
                   };
+                  saveAiEntitlement(updatedUser);
                   setAlertConfig({isOpen: true, title: "Reward Unlocked!", message: `🏆 ${bestRule.label}\n\nYou earned free subscription!`});
               }
           }
@@ -402,7 +400,7 @@ export const McqView: React.FC<Props> = ({
                   type: 'MCQ_ANALYSIS',
                   mcqData: completedMcqData,
                   userAnswers: resultData?.omrData?.reduce((acc: any, curr) => {
-                      acc[curr.qIndex] = curr.selected;
+                      acc[curr.qIndex] = getOmrResponse(curr);
                       return acc;
                   }, {})
               };
@@ -0,0 +1,194 @@
+import React, { useEffect, useState } from 'react';
+import { MCQItem, QuestionResponse } from '../types';
+import { toQuestion, gradeResponse, formatCorrectAnswer, isResponseAnswered } from '../services/questionTypes';
+import { CheckCircle, XCircle, Square, CheckSquare } from 'lucide-react';
+
+interface Props {
+  item: MCQItem;
+  response?: QuestionResponse;
+  onChange: (response: QuestionResponse) => void;
+  locked?: boolean; // Answer can no longer change (practice after answering, review)
+  reveal?: boolean; // Mark right / wrong and show the key
+}
+
+const letter = (i: number) => String.fromCharCode(65 + i);
+
+// Answer controls for every kind except SINGLE, which the test screens still render themselves.
+// ASSERTION_REASON answers on click like an MCQ; the other kinds edit a draft and commit it with "Save Answer".
+export const QuestionResponseInput: React.FC<Props> = ({ item, response, onChange, locked, reveal }) => {
+  const q = toQuestion(item);
+  const [draft, setDraft] = useState<QuestionResponse | undefined>(response);
+
+  useEffect(() => { setDraft(response); }, [JSON.stringify(response)]);
+
+  const list = Array.isArray(draft) ? draft : [];
+  const isSaved = JSON.stringify(draft) === JSON.stringify(response);
+  const graded = reveal ? gradeResponse(item, response) : null;
+
+  const optionClass = (selected: boolean, isKey: boolean) => {
+    let cls = "w-full text-left p-3 rounded-xl border transition-all text-sm font-medium flex items-center justify-between gap-2 ";
+    if (reveal) {
+      if (isKey) cls += "bg-green-100 border-green-300 text-green-800";
+      else if (selected) cls += "bg-red-100 border-red-300 text-red-800";
+      else cls += "bg-slate-50 border-slate-100 opacity-60";
+    } else if (selected) {
+      cls += "bg-blue-50 border-blue-500 text-blue-700 ring-1 ring-blue-500";
+    } else {
+      cls += locked ? "bg-slate-50 border-slate-100 opacity-60" : "bg-white border-slate-200 hover:bg-slate-50 text-slate-700";
+    }
+    return cls;
+  };
+
+  const renderOption = (text: string, idx: number, selected: boolean, isKey: boolean, onClick: () => void, checkbox = false) => (
+    <button key={idx} disabled={locked} onClick={onClick} className={optionClass(selected, isKey)}>
+      <span className="flex items-center gap-2">
+        {checkbox && (selected ? <CheckSquare size={16} /> : <Square size={16} />)}
+        <span className="font-bold text-xs">{letter(idx)}.</span> {text}
+      </span>
+      {reveal && isKey && <CheckCircle size={16} className="text-green-600 shrink-0" />}
+      {reveal && selected && !isKey && <XCircle size={16} className="text-red-500 shrink-0" />}
+    </button>
+  );
+
+  const saveBar = !locked && q.kind !== 'ASSERTION_REASON' && (
+    <div className="flex items-center justify-end gap-3 mt-3">
+      {isSaved && isResponseAnswered(item, response) && <span className="text-[10px] font-bold text-green-600 flex items-center gap-1"><CheckCircle size={12} /> Saved</span>}
+      <button
+        disabled={isSaved || draft === undefined || !isResponseAnswered(item, draft)}
+        onClick={() => onChange(draft!)}
+        className="px-4 py-2 bg-blue-600 text-white text-xs font-bold rounded-lg disabled:opacity-40"
+      >
+        Save Answer
+      </button>
+    </div>
+  );
+
+  let body: React.ReactNode = null;
+  switch (q.kind) {
+    case 'ASSERTION_REASON':
+      body = (
+        <>
+          <div className="p-3 bg-slate-50 border border-slate-200 rounded-xl text-sm text-slate-700 space-y-2 mb-3">
+            <p><span className="font-bold">Assertion (A):</span> {q.assertion}</p>
+            <p><span className="font-bold">Reason (R):</span> {q.reason}</p>
+          </div>
+          <div className="space-y-2">
+            {q.options.map((opt, i) => renderOption(opt, i, response === i, !!reveal && i === q.correctAnswer, () => onChange(i)))}
+          </div>
+        </>
+      );
+      break;
+
+    case 'MULTI':
+      body = (
+        <>
+          <p className="text-[10px] font-bold text-slate-400 uppercase mb-2">Select all correct options</p>
+          <div className="space-y-2">
+            {q.options.map((opt, i) => renderOption(
+              opt, i, list.includes(i), !!reveal && q.correctAnswers.includes(i),
+              () => setDraft(list.includes(i) ? list.filter(x => x !== i) : [...list, i].sort((a, b) => a - b)),
+              true
+            ))}
+          </div>
+        </>
+      );
+      break;
+
+    case 'NUMERIC':
+      body = (
+        <div className="flex items-center gap-2">
+          <input
+            type="text"
+            inputMode="decimal"
+            disabled={locked}
+            value={typeof draft === 'string' ? draft : ''}
+            onChange={e => setDraft(e.target.value.replace(/[^0-9.,\-]/g, ''))}
+            placeholder="Type your answer"
+            className={`flex-1 p-3 border rounded-xl text-sm font-mono ${reveal ? (graded?.isCorrect ? 'border-green-300 bg-green-50' : 'border-red-300 bg-red-50') : 'border-slate-200'}`}
+          />
+          {q.answer.unit && <span className="text-sm font-bold text-slate-500">{q.answer.unit}</span>}
+        </div>
+      );
+      break;
+
+    case 'MATCH':
+      body = (
+        <>
+          <div className="grid grid-cols-2 gap-3 mb-3 text-sm">
+            <div className="space-y-1">
+              <p className="text-[10px] font-bold text-slate-400 uppercase">Column I</p>
+              {q.left.map((l, i) => <p key={i} className="p-2 bg-slate-50 rounded-lg"><b>{i + 1}.</b> {l}</p>)}
+            </div>
+            <div className="space-y-1">
+              <p className="text-[10px] font-bold text-slate-400 uppercase">Column II</p>
+              {q.right.map((r, i) => <p key={i} className="p-2 bg-slate-50 rounded-lg"><b>{letter(i)}.</b> {r}</p>)}
+            </div>
+          </div>
+          <div className="space-y-2">
+            {q.left.map((_, i) => {
+              const picked = list[i] ?? -1;
+              const pairClass = reveal ? (picked === q.answer[i] ? 'border-green-300 bg-green-50' : 'border-red-300 bg-red-50') : 'border-slate-200 bg-white';
+              return (
+                <div key={i} className="flex items-center gap-2 text-sm">
+                  <span className="w-8 font-bold text-slate-600">{i + 1} →</span>
+                  <select
+                    disabled={locked}
+                    value={picked}
+                    onChange={e => {
+                      const next = q.left.map((__, j) => list[j] ?? -1);
+                      next[i] = Number(e.target.value);
+                      setDraft(next);
+                    }}
+                    className={`flex-1 p-2 border rounded-lg text-sm ${pairClass}`}
+                  >
+                    <option value={-1}>Choose...</option>
+                    {q.right.map((r, j) => <option key={j} value={j}>{letter(j)}. {r}</option>)}
+                  </select>
+                  {reveal && picked !== q.answer[i] && <span className="text-[10px] font-bold text-green-700">{letter(q.answer[i])}</span>}
+                </div>
+              );
+            })}
+          </div>
+        </>
+      );
+      break;
+
+    case 'CASE_BASED':
+      body = (
+        <>
+          <div className="p-3 bg-slate-50 border border-slate-200 rounded-xl text-sm text-slate-700 leading-relaxed mb-4 whitespace-pre-line">{q.passage}</div>
+          <div className="space-y-4">
+            {q.subQuestions.map((sub, s) => (
+              <div key={s}>
+                <p className="text-sm font-bold text-slate-700 mb-2">({s + 1}) {sub.question}</p>
+                <div className="space-y-2">
+                  {sub.options.map((opt, i) => renderOption(opt, i, list[s] === i, !!reveal && i === sub.correctAnswer, () => {
+                    const next = q.subQuestions.map((__, j) => list[j] ?? -1);
+                    next[s] = i;
+                    setDraft(next);
+                  }))}
+                </div>
+              </div>
+            ))}
+          </div>
+        </>
+      );
+      break;
+
+    default:
+      return null;
+  }
+
+  return (
+    <div>
+      {body}
+      {saveBar}
+      {reveal && q.kind !== 'ASSERTION_REASON' && (
+        <p className={`mt-3 text-xs font-bold ${graded?.isCorrect ? 'text-green-700' : 'text-slate-600'}`}>
+          Correct answer: {formatCorrectAnswer(item)}
+          {graded && graded.credit > 0 && !graded.isCorrect && <span className="ml-2 text-amber-600">({Math.round(graded.credit * 100)}% correct)</span>}
+        </p>
+      )}
+    </div>
+  );
+};
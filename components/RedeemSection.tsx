@@ -3,7 +3,7 @@ import { Gift, ArrowRight, AlertCircle, CheckCircle } from 'lucide-react';
 import { User, SystemSettings, SubscriptionHistoryEntry } from '../types';
 import { ref, get, update } from "firebase/database";
 import { doc, getDoc, updateDoc } from "firebase/firestore";
-import { rtdb, db, saveUserToLive } from "../firebase";
+import { rtdb, db, saveUserToLive, saveAiEntitlement } from "../firebase";
 
 interface Props {
   user: User;
@@ -158,6 +158,7 @@ export const RedeemSection: React.FC<Props> = ({ user, onSuccess }) => {
         }
         localStorage.setItem('nst_current_user', JSON.stringify(updatedUser));
         await saveUserToLive(updatedUser); 
+        if (updatedUser.isPremium) await saveAiEntitlement(updatedUser);
 
         setStatus('SUCCESS');
         setMsg(successMessage);
@@ -2,6 +2,7 @@ import React, { useState, useMemo } from 'react';
 import { User, SystemSettings, SpinReward } from '../types';
 import { Trophy, Zap, Star, Lock } from 'lucide-react';
 import { CustomAlert } from './CustomDialogs';
+import { saveAiEntitlement } from '../firebase';
 
 interface Props {
   user: User;
@@ -146,6 +147,7 @@ export const SpinWheel: React.FC<Props> = ({ user, onUpdateUser, settings }) =>
           updatedUser.subscriptionEndDate = new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString();
           updatedUser.isPremium = true;
           updatedUser.grantedByAdmin = true; // Won in game
+          saveAiEntitlement(updatedUser);
       }
 
       onUpdateUser(updatedUser);
@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
-import { User, CreditPackage, SystemSettings } from '../types';
+import { User, CreditPackage, SystemSettings, PaymentRequest } from '../types';
+import { savePaymentRequest } from '../firebase';
 import { Crown, Sparkles, Check, X, Zap, MessageSquare, Lock } from 'lucide-react';
 
 interface Props {
@@ -40,6 +41,8 @@ export const Store: React.FC<Props> = ({ user, settings }) => {
   // NEW: Support Modal State
   const [showSupportModal, setShowSupportModal] = useState(false);
   const [purchaseItem, setPurchaseItem] = useState<any>(null); // Plan or CreditPackage
+  const [txnId, setTxnId] = useState('');
+  const [isSubmittingPayment, setIsSubmittingPayment] = useState(false);
 
   // Special Discount Event Logic
   const event = settings?.specialDiscountEvent;
@@ -125,9 +128,36 @@ export const Store: React.FC<Props> = ({ user, settings }) => {
 
   const initiatePurchase = (item: any) => {
       setPurchaseItem(item);
+      setTxnId('');
       setShowSupportModal(true);
   };
 
+  // Coin packages: after paying, the student submits the UTR and an admin approves it (coins are credited then)
+  const handleSubmitPayment = async () => {
+      if (!purchaseItem || !txnId.trim()) return;
+      setIsSubmittingPayment(true);
+      const request: PaymentRequest = {
+          id: `pay-${Date.now()}-${Math.random().toString(36).substr(2, 5)}`,
+          userId: user.id,
+          userName: user.name,
+          packageId: purchaseItem.id,
+          packageName: purchaseItem.name,
+          amount: purchaseItem.price,
+          credits: purchaseItem.credits,
+          txnId: txnId.trim(),
+          status: 'PENDING',
+          timestamp: new Date().toISOString()
+      };
+      const saved = await savePaymentRequest(request);
+      setIsSubmittingPayment(false);
+      if (!saved) {
+          alert("Could not submit your payment. Please try again or send the transaction ID on WhatsApp.");
+          return;
+      }
+      alert("✅ Payment submitted. Your coins will be added once the admin verifies it.");
+      setShowSupportModal(false);
+  };
+
   if (settings?.isPaymentEnabled === false) {
     return (
       <div className="animate-in fade-in zoom-in duration-300 pb-10">
@@ -252,6 +282,27 @@ export const Store: React.FC<Props> = ({ user, settings }) => {
                           );
                       })}
                   </div>
+                  {purchaseItem && purchaseItem.duration === undefined && (
+                      <div className="px-4 pb-4 space-y-2">
+                          <p className="text-[10px] text-slate-400 font-bold uppercase">Already paid? Enter the Transaction ID / UTR</p>
+                          <div className="flex gap-2">
+                              <input
+                                  type="text"
+                                  value={txnId}
+                                  onChange={e => setTxnId(e.target.value)}
+                                  placeholder="e.g. 412345678901"
+                                  className="flex-1 min-w-0 p-2 rounded-lg bg-slate-800 border border-slate-700 text-slate-200 text-sm font-mono"
+                              />
+                              <button
+                                  onClick={handleSubmitPayment}
+                                  disabled={!txnId.trim() || isSubmittingPayment}
+                                  className="bg-cyan-600 hover:bg-cyan-500 text-white px-4 rounded-lg text-sm font-bold disabled:opacity-50"
+                              >
+                                  {isSubmittingPayment ? '...' : 'Submit'}
+                              </button>
+                          </div>
+                      </div>
+                  )}
                   <div className="p-4 bg-slate-800 border-t border-slate-700 text-center">
                       <button onClick={() => setShowSupportModal(false)} className="text-slate-400 font-bold text-sm hover:text-white">Cancel</button>
                   </div>
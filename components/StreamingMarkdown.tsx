@@ -0,0 +1,71 @@
+import React, { memo } from 'react';
+import ReactMarkdown from 'react-markdown';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+
+interface Props {
+  text: string;
+  isStreaming?: boolean;
+  className?: string;
+}
+
+// --- STREAM-SAFE MARKDOWN ---
+// While tokens arrive the text often ends mid-formula or mid-code-fence. Unfinished math is held back
+// (KaTeX would flash a red parse error) and an open fence is closed so the code renders as code.
+
+const FENCE = /^\s*```/;
+
+const trimOpenMath = (text: string) => {
+  const display = text.split('$$').length - 1;
+  if (display % 2 === 1) return text.slice(0, text.lastIndexOf('$$'));
+
+  // Inline $...$ never spans paragraphs, so only the last paragraph matters
+  const paraStart = text.lastIndexOf('\n\n') + 1;
+  const tail = text.slice(paraStart).replace(/\$\$/g, '').replace(/\\\$/g, '');
+  if ((tail.split('$').length - 1) % 2 === 1) return text.slice(0, text.lastIndexOf('$'));
+  return text;
+};
+
+export const prepareStreamingMarkdown = (text: string): string => {
+  const fences = text.split('\n').filter(line => FENCE.test(line)).length;
+  if (fences % 2 === 1) return `${text}\n\`\`\``;
+  return trimOpenMath(text);
+};
+
+// Splits on blank lines outside code fences and $$ blocks, so finished blocks keep their rendered
+// output while only the last one re-parses on each token.
+export const splitMarkdownBlocks = (text: string): string[] => {
+  const blocks: string[] = [];
+  let current: string[] = [];
+  let inFence = false;
+  let inMath = false;
+
+  text.split('\n').forEach(line => {
+    if (FENCE.test(line)) inFence = !inFence;
+    else if (!inFence && (line.split('$$').length - 1) % 2 === 1) inMath = !inMath;
+
+    if (!line.trim() && !inFence && !inMath) {
+      if (current.length) blocks.push(current.join('\n'));
+      current = [];
+    } else {
+      current.push(line);
+    }
+  });
+  if (current.length) blocks.push(current.join('\n'));
+  return blocks;
+};
+
+const MarkdownBlock = memo(({ text }: { text: string }) => (
+  <ReactMarkdown remarkPlugins={[remarkMath]} rehypePlugins={[rehypeKatex]}>{text}</ReactMarkdown>
+));
+
+export const StreamingMarkdown: React.FC<Props> = ({ text, isStreaming, className }) => {
+  const blocks = splitMarkdownBlocks(isStreaming ? prepareStreamingMarkdown(text) : text);
+
+  return (
+    <div className={className}>
+      {blocks.map((block, i) => <MarkdownBlock key={i} text={block} />)}
+      {isStreaming && <span className="inline-block w-1.5 h-4 ml-0.5 align-middle bg-current opacity-60 animate-pulse" />}
+    </div>
+  );
+};
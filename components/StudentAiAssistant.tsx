@@ -1,28 +1,37 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Bot, Send, X, Loader2, Sparkles, User as UserIcon, Settings, Save } from 'lucide-react';
-import { generateCustomNotes } from '../services/groq';
+import { Bot, Send, X, Loader2, Sparkles, User as UserIcon, Settings, Save, Square, RotateCcw, BookOpen } from 'lucide-react';
+import { streamCustomNotes } from '../services/aiContent';
 import { saveAiInteraction, saveUserToLive } from '../firebase';
-import { User, SystemSettings } from '../types';
+import { User, SystemSettings, Subject, Chapter } from '../types';
 import { SpeakButton } from './SpeakButton';
+import { isUserFacingAiError } from '../services/providers/proxyError';
+import { StreamingMarkdown } from './StreamingMarkdown';
+import { retrieveTutorPassages, buildGroundedTutorPrompt, getCitedPassages, TutorPassage, TutorScope } from '../services/tutorRetrieval';
 
 interface Props {
     user: User;
     settings?: SystemSettings;
     isOpen: boolean;
     onClose: () => void;
+    focusSubject?: Subject | null; // What the student has open; its notes rank first
+    focusChapter?: Chapter | null;
 }
 
 interface Message {
     role: 'AI' | 'USER';
     text: string;
     timestamp: number;
+    status?: 'STREAMING' | 'STOPPED' | 'INTERRUPTED'; // AI replies only; undefined = complete
+    question?: string; // Kept on INTERRUPTED replies so the student can retry
+    sources?: TutorPassage[]; // Chapter sections the answer cited
 }
 
-export const StudentAiAssistant: React.FC<Props> = ({ user, settings, isOpen, onClose }) => {
+export const StudentAiAssistant: React.FC<Props> = ({ user, settings, isOpen, onClose, focusSubject, focusChapter }) => {
     const [input, setInput] = useState('');
     const [isLoading, setIsLoading] = useState(false);
     const [messages, setMessages] = useState<Message[]>([]);
     const messagesEndRef = useRef<HTMLDivElement>(null);
+    const abortRef = useRef<AbortController | null>(null);
     
     // Custom Instruction State
     const [showSettings, setShowSettings] = useState(false);
@@ -34,8 +43,23 @@ export const StudentAiAssistant: React.FC<Props> = ({ user, settings, isOpen, on
 
     useEffect(scrollToBottom, [messages, isLoading, isOpen]);
 
-    const handleSend = async () => {
-        if (!input.trim() || isLoading) return;
+    // Closing the tutor stops any answer still streaming
+    useEffect(() => {
+        if (!isOpen) abortRef.current?.abort();
+    }, [isOpen]);
+
+    const updateLastAiMessage = (update: (msg: Message) => Message) => {
+        setMessages(prev => {
+            const next = [...prev];
+            const last = next[next.length - 1];
+            if (last?.role === 'AI') next[next.length - 1] = update(last);
+            return next;
+        });
+    };
+
+    const handleSend = async (retryQuestion?: string) => {
+        const question = retryQuestion || input;
+        if (!question.trim() || isLoading) return;
 
         // 1. CHECK GLOBAL ENABLE
         if (settings?.isAiEnabled === false) {
@@ -70,12 +94,14 @@ export const StudentAiAssistant: React.FC<Props> = ({ user, settings, isOpen, on
             return;
         }
 
-        const userMsg = input;
+        const userMsg = question;
         const newMsg: Message = { role: 'USER', text: userMsg, timestamp: Date.now() };
         
-        setMessages(prev => [...prev, newMsg]);
-        setInput('');
+        setMessages(prev => [...prev, newMsg, { role: 'AI', text: '', timestamp: Date.now(), status: 'STREAMING' }]);
+        if (!retryQuestion) setInput('');
         setIsLoading(true);
+        const controller = new AbortController();
+        abortRef.current = controller;
 
         try {
             // Update Usage Immediately (Optimistic)
@@ -86,16 +112,32 @@ export const StudentAiAssistant: React.FC<Props> = ({ user, settings, isOpen, on
             };
             saveUserToLive(updatedUser); // Fire and forget
 
-            // Use Groq API via generateCustomNotes as a proxy for chat
+            // Routed through the AI client (CHAT task) via streamCustomNotes
             let systemPrompt = "You are a helpful AI Tutor. Answer the student's question clearly and concisely. If it's a concept, explain it simply.";
             if (customInstruction.trim()) {
                 systemPrompt += `\n\nUser Custom Instruction: ${customInstruction}`;
             }
 
-            const responseText = await generateCustomNotes(userMsg, systemPrompt, settings?.aiModel);
+            // Ground the answer in our stored notes for the student's own board + class
+            const scope: TutorScope = { board: user.board || 'CBSE', classLevel: user.classLevel || '10', stream: user.stream || null };
+            let passages: TutorPassage[] = [];
+            try {
+                passages = await retrieveTutorPassages(userMsg, scope, { subjectName: focusSubject?.name, chapterTitle: focusChapter?.title });
+            } catch (e) {
+                console.warn("Tutor retrieval failed, answering without notes:", e);
+            }
+            systemPrompt = buildGroundedTutorPrompt(systemPrompt, scope, passages);
+
+            const response = await streamCustomNotes(userMsg, systemPrompt, {
+                signal: controller.signal,
+                onDelta: (delta) => updateLastAiMessage(m => ({ ...m, text: m.text + delta }))
+            }, settings?.aiModel);
 
-            const aiMsg: Message = { role: 'AI', text: responseText, timestamp: Date.now() };
-            setMessages(prev => [...prev, aiMsg]);
+            const responseText = response.text;
+            const status: Message['status'] = response.finishReason === 'ABORTED' ? 'STOPPED' : response.finishReason === 'INTERRUPTED' ? 'INTERRUPTED' : undefined;
+            const sources = getCitedPassages(responseText, passages);
+            updateLastAiMessage(m => ({ ...m, text: responseText, status, question: status === 'INTERRUPTED' ? userMsg : undefined, sources }));
+            if (!responseText) return;
 
             // Save Interaction
             saveAiInteraction({
@@ -109,12 +151,19 @@ export const StudentAiAssistant: React.FC<Props> = ({ user, settings, isOpen, on
             });
 
         } catch (error: any) {
-            setMessages(prev => [...prev, { role: 'AI', text: "I'm having trouble connecting right now. Please try again.", timestamp: Date.now() }]);
+            // Login / quota / rate-limit rejections from the proxy are shown as-is
+            const text = isUserFacingAiError(error)
+                ? `⚠️ ${error.message}`
+                : "I'm having trouble connecting right now. Please try again.";
+            updateLastAiMessage(m => ({ ...m, text, status: undefined }));
         } finally {
+            abortRef.current = null;
             setIsLoading(false);
         }
     };
 
+    const handleStop = () => abortRef.current?.abort();
+
     const handleSaveInstruction = () => {
         localStorage.setItem('nst_ai_custom_instruction', customInstruction);
         setShowSettings(false);
@@ -184,8 +233,45 @@ export const StudentAiAssistant: React.FC<Props> = ({ user, settings, isOpen, on
                                 {msg.role === 'AI' ? <Bot size={16} /> : <UserIcon size={16} />}
                             </div>
                             <div className={`max-w-[80%] p-3 rounded-2xl text-sm shadow-sm relative group ${msg.role === 'AI' ? 'bg-white border border-slate-100 rounded-tl-none' : 'bg-indigo-600 text-white rounded-tr-none'}`}>
-                                <p className="whitespace-pre-wrap">{msg.text}</p>
-                                {msg.role === 'AI' && (
+                                {msg.role === 'AI' ? (
+                                    msg.status === 'STREAMING' && !msg.text ? (
+                                        <span className="text-xs text-slate-400 flex items-center gap-2"><Loader2 size={14} className="animate-spin" /> Thinking...</span>
+                                    ) : (
+                                        <StreamingMarkdown
+                                            text={msg.text}
+                                            isStreaming={msg.status === 'STREAMING'}
+                                            className="prose prose-sm prose-slate max-w-none prose-p:my-1 prose-headings:my-2"
+                                        />
+                                    )
+                                ) : (
+                                    <p className="whitespace-pre-wrap">{msg.text}</p>
+                                )}
+                                {msg.sources && msg.sources.length > 0 && (
+                                    <div className="mt-2 pt-2 border-t border-slate-100 space-y-1">
+                                        {msg.sources.map(src => (
+                                            <p key={src.label} className="text-[10px] text-slate-500 flex items-start gap-1">
+                                                <BookOpen size={10} className="mt-0.5 shrink-0 text-indigo-400" />
+                                                <span><b className="text-indigo-600">[{src.label}]</b> {src.chapterTitle} › {src.section}</span>
+                                            </p>
+                                        ))}
+                                    </div>
+                                )}
+                                {msg.status === 'STOPPED' && (
+                                    <p className="text-[10px] text-slate-400 mt-2 font-bold uppercase">Stopped</p>
+                                )}
+                                {msg.status === 'INTERRUPTED' && (
+                                    <div className="mt-2 pt-2 border-t border-slate-100 flex items-center justify-between gap-2">
+                                        <span className="text-[10px] text-orange-500 font-bold">Connection dropped - answer may be incomplete.</span>
+                                        <button
+                                            onClick={() => handleSend(msg.question)}
+                                            disabled={isLoading}
+                                            className="text-[10px] font-bold text-indigo-600 flex items-center gap-1 disabled:opacity-50"
+                                        >
+                                            <RotateCcw size={12} /> Retry
+                                        </button>
+                                    </div>
+                                )}
+                                {msg.role === 'AI' && msg.status !== 'STREAMING' && (
                                     <div className="absolute -bottom-3 -right-2 opacity-0 group-hover:opacity-100 transition-opacity bg-white rounded-full shadow border border-slate-200">
                                         <SpeakButton text={msg.text} iconSize={14} className="p-1.5" />
                                     </div>
@@ -194,16 +280,6 @@ export const StudentAiAssistant: React.FC<Props> = ({ user, settings, isOpen, on
                         </div>
                     ))}
 
-                    {isLoading && (
-                        <div className="flex gap-3">
-                            <div className="w-8 h-8 rounded-full bg-indigo-100 flex items-center justify-center text-indigo-600">
-                                <Loader2 size={16} className="animate-spin" />
-                            </div>
-                            <div className="bg-white border border-slate-100 p-3 rounded-2xl rounded-tl-none text-xs text-slate-400">
-                                Thinking...
-                            </div>
-                        </div>
-                    )}
                     <div ref={messagesEndRef} />
                 </div>
 
@@ -217,13 +293,23 @@ export const StudentAiAssistant: React.FC<Props> = ({ user, settings, isOpen, on
                         placeholder="Type your question..." 
                         className="flex-1 bg-slate-100 border-none rounded-xl px-4 py-3 text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
                     />
-                    <button 
-                        onClick={handleSend}
-                        disabled={!input.trim() || isLoading}
-                        className="bg-indigo-600 hover:bg-indigo-700 text-white p-3 rounded-xl transition-all disabled:opacity-50 disabled:scale-95 shadow-lg"
-                    >
-                        <Send size={20} />
-                    </button>
+                    {isLoading ? (
+                        <button 
+                            onClick={handleStop}
+                            title="Stop generating"
+                            className="bg-slate-800 hover:bg-slate-900 text-white p-3 rounded-xl transition-all shadow-lg"
+                        >
+                            <Square size={20} />
+                        </button>
+                    ) : (
+                        <button 
+                            onClick={() => handleSend()}
+                            disabled={!input.trim()}
+                            className="bg-indigo-600 hover:bg-indigo-700 text-white p-3 rounded-xl transition-all disabled:opacity-50 disabled:scale-95 shadow-lg"
+                        >
+                            <Send size={20} />
+                        </button>
+                    )}
                 </div>
             </div>
         </div>
@@ -1,13 +1,13 @@
 
 import React, { useState, useEffect } from 'react';
-import { User, Subject, StudentTab, SystemSettings, CreditPackage, WeeklyTest, Chapter, MCQItem, Challenge20 } from '../types';
-import { updateUserStatus, db, saveUserToLive, getChapterData, rtdb, saveAiInteraction } from '../firebase';
+import { User, Subject, StudentTab, SystemSettings, CreditPackage, WeeklyTest, Chapter, MCQItem, Challenge20, Board } from '../types';
+import { updateUserStatus, db, saveUserToLive, saveAiEntitlement, getChapterData, rtdb, saveAiInteraction } from '../firebase';
 import { doc, onSnapshot } from 'firebase/firestore';
 import { ref, query, limitToLast, onValue } from 'firebase/database';
 import { getSubjectsList, DEFAULT_APP_FEATURES, ALL_APP_FEATURES } from '../constants';
 import { getActiveChallenges } from '../services/questionBank';
 import { generateDailyChallengeQuestions } from '../utils/challengeGenerator';
-import { generateMorningInsight } from '../services/morningInsight';
+import { getTodaysMorningInsight } from '../services/morningInsight';
 import { RedeemSection } from './RedeemSection';
 import { PrizeList } from './PrizeList';
 import { Store } from './Store';
@@ -22,7 +22,7 @@ import { MiniPlayer } from './MiniPlayer'; // Imported for Audio Flow
 import { HistoryPage } from './HistoryPage';
 import { Leaderboard } from './Leaderboard';
 import { SpinWheel } from './SpinWheel';
-import { fetchChapters, generateCustomNotes } from '../services/groq'; // Needed for Video Flow
+import { fetchChapters, generateCustomNotes } from '../services/aiContent'; // Needed for Video Flow
 import { FileText, CheckSquare } from 'lucide-react'; // Icons
 import { LoadingOverlay } from './LoadingOverlay';
 import { CreditConfirmationModal } from './CreditConfirmationModal';
@@ -218,10 +218,12 @@ export const StudentDashboard: React.FC<Props> = ({ user, dailyStudySeconds, onS
           classLevel: challenge.classLevel,
           questions: safeQuestions,
           totalQuestions: safeQuestions.length,
-          passingScore: Math.ceil(safeQuestions.length * 0.5), // 50% Passing Default
+          passingScore: 50, // 50% Passing Default
           createdAt: challenge.createdAt,
           durationMinutes: challenge.durationMinutes || (challenge.type === 'DAILY_CHALLENGE' ? 15 : 60),
-          autoSubmitEnabled: true
+          autoSubmitEnabled: true,
+          markingScheme: challenge.markingScheme,
+          sections: challenge.sections
       };
       
       if (onStartWeeklyTest) onStartWeeklyTest(mappedTest);
@@ -240,62 +242,18 @@ export const StudentDashboard: React.FC<Props> = ({ user, dailyStudySeconds, onS
   const [showDiscountBanner, setShowDiscountBanner] = useState(false);
   const [morningBanner, setMorningBanner] = useState<any>(null); // NEW: Morning Banner
 
-  // --- MORNING INSIGHT LOADER & AUTO-GENERATOR ---
+  // --- MORNING INSIGHT LOADER ---
+  // Generated per board + class on the admin schedule; students only read their own segment's banner
   useEffect(() => {
-      const loadMorningInsight = async () => {
-          const now = new Date();
-          // Check if time is past 10 AM (Hour 10)
-          if (now.getHours() >= 10) {
-              const today = now.toDateString();
-              const savedBanner = localStorage.getItem('nst_morning_banner');
-              
-              if (savedBanner) {
-                  const parsed = JSON.parse(savedBanner);
-                  if (parsed.date === today) {
-                      setMorningBanner(parsed);
-                      return;
-                  }
-              }
-
-              // IF MISSING: Auto-Generate (Client-side automation)
-              // We allow any user to trigger this to ensure it happens
-              // Logic: Fetch logs -> Generate -> Save -> Display
-              // We check a 'generating' flag to prevent double hits
-              const isGen = localStorage.getItem(`nst_insight_gen_${today}`);
-              if (!isGen) {
-                  localStorage.setItem(`nst_insight_gen_${today}`, 'true'); // Lock
-                  try {
-                      console.log("Generating Morning Insight...");
-                      // Mock Logs if Universal Logs unavailable locally
-                      const logs = JSON.parse(localStorage.getItem('nst_universal_analysis_logs') || '[]');
-                      
-                      if (logs.length === 0) {
-                          // Skip generation if no data
-                          console.log("No logs for insight.");
-                          return;
-                      }
-
-                      await generateMorningInsight(
-                          logs, 
-                          settings, 
-                          (banner) => {
-                              localStorage.setItem('nst_morning_banner', JSON.stringify(banner));
-                              setMorningBanner(banner);
-                              // Sync to Firebase if Admin
-                              if (user.role === 'ADMIN') {
-                                  // Implementation details for firebase sync omitted for safety
-                              }
-                          }
-                      );
-                  } catch (e) {
-                      console.error("Insight Gen Failed", e);
-                      localStorage.removeItem(`nst_insight_gen_${today}`); // Unlock
-                  }
-              }
-          }
-      };
-      loadMorningInsight();
-  }, [user.role, settings]);
+      if (!user.classLevel) return;
+      let cancelled = false;
+      getTodaysMorningInsight((user.board || 'CBSE') as Board, user.classLevel)
+          .then(insight => {
+              if (cancelled) return;
+              setMorningBanner(insight);
+          });
+      return () => { cancelled = true; };
+  }, [user.board, user.classLevel]);
 
   // --- DAILY/WEEKLY CHALLENGE AUTO-GENERATOR ---
   useEffect(() => {
@@ -363,7 +321,7 @@ export const StudentDashboard: React.FC<Props> = ({ user, dailyStudySeconds, onS
               classLevel: user.classLevel || '10',
               questions: challenge.questions,
               totalQuestions: challenge.questions.length,
-              passingScore: Math.ceil(challenge.questions.length * 0.5),
+              passingScore: 50,
               createdAt: new Date().toISOString(),
               durationMinutes: challenge.durationMinutes,
               autoSubmitEnabled: true
@@ -647,6 +605,7 @@ export const StudentDashboard: React.FC<Props> = ({ user, dailyStudySeconds, onS
       }
       
       handleUserUpdate(updatedUser);
+      if (updatedUser.isPremium !== user.isPremium || updatedUser.subscriptionEndDate !== user.subscriptionEndDate) saveAiEntitlement(updatedUser);
       showAlert(successMsg, 'SUCCESS', 'Rewards Claimed');
   };
 
@@ -693,6 +652,7 @@ export const StudentDashboard: React.FC<Props> = ({ user, dailyStudySeconds, onS
               localStorage.setItem('nst_current_user', JSON.stringify(updatedUser));
               localStorage.setItem(`first_day_ultra_${user.id}`, 'true');
               
+              saveAiEntitlement(updatedUser);
               onRedeemSuccess(updatedUser);
               showAlert("🎉 FIRST DAY BONUS: You unlocked 1 Hour Free ULTRA Subscription!", 'SUCCESS');
           }
@@ -2244,7 +2204,7 @@ export const StudentDashboard: React.FC<Props> = ({ user, dailyStudySeconds, onS
         {showMonthlyReport && <MonthlyMarksheet user={user} settings={settings} onClose={() => setShowMonthlyReport(false)} />}
         {showReferralPopup && <ReferralPopup user={user} onClose={() => setShowReferralPopup(false)} onUpdateUser={handleUserUpdate} />}
 
-        <StudentAiAssistant user={user} settings={settings} isOpen={showAiTutor} onClose={() => setShowAiTutor(false)} />
+        <StudentAiAssistant user={user} settings={settings} isOpen={showAiTutor} onClose={() => setShowAiTutor(false)} focusSubject={selectedSubject} focusChapter={selectedChapter} />
     </div>
   );
 };
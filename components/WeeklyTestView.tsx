@@ -1,17 +1,20 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { WeeklyTest, MCQItem } from '../types';
-import { Clock, AlertTriangle, CheckCircle, Trophy, ArrowLeft } from 'lucide-react';
+import { WeeklyTest, MCQItem, QuestionResponse } from '../types';
+import { Clock, AlertTriangle, CheckCircle, Trophy, ArrowLeft, ChevronRight } from 'lucide-react';
 import { CustomAlert, CustomConfirm } from './CustomDialogs';
+import { QuestionResponseInput } from './QuestionResponseInput';
+import { getQuestionKind, isResponseAnswered, isResponseCorrect, QUESTION_KIND_LABELS } from '../services/questionTypes';
+import { getSectionRanges, hasTimedSections, describeMarkingScheme } from '../services/markingSchemes';
 
 interface Props {
   test: WeeklyTest;
-  onComplete: (score: number, total: number, answers: Record<number, number>) => void;
+  onComplete: (score: number, total: number, answers: Record<number, QuestionResponse>, questionTimes?: Record<number, number>) => void;
   onExit: () => void;
 }
 
 export const WeeklyTestView: React.FC<Props> = ({ test, onComplete, onExit }) => {
-  const [answers, setAnswers] = useState<Record<number, number>>({});
+  const [answers, setAnswers] = useState<Record<number, QuestionResponse>>({});
   const [timeLeft, setTimeLeft] = useState<number>(0);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [alertConfig, setAlertConfig] = useState<{isOpen: boolean, message: string}>({isOpen: false, message: ''});
@@ -19,8 +22,31 @@ export const WeeklyTestView: React.FC<Props> = ({ test, onComplete, onExit }) =>
       isOpen: false, message: '', onConfirm: () => {}
   });
   const [postAlertAction, setPostAlertAction] = useState<() => void>(() => {});
+  // Seconds per question for item analysis: time since the previous answer (or the start)
+  const questionTimesRef = useRef<Record<number, number>>({});
+  const answerClockRef = useRef(Date.now());
 
   const safeQuestions = Array.isArray(test.questions) ? test.questions : [];
+  // Read by the timers, which outlive the render that started them
+  const answersRef = useRef(answers);
+  answersRef.current = answers;
+
+  // Sections: free tabs, or one after another with their own countdown when any section has a time limit
+  const sectionRanges = getSectionRanges(test);
+  const timedSections = hasTimedSections(test);
+  const SECTION_KEY = `weekly_test_section_${test.id}`;
+  const [activeSection, setActiveSection] = useState<number>(() => {
+    if (!timedSections) return 0;
+    try {
+      const saved = JSON.parse(localStorage.getItem(SECTION_KEY) || 'null');
+      return saved && saved.index < sectionRanges.length ? saved.index : 0;
+    } catch (e) {
+      return 0;
+    }
+  });
+  const [sectionTimeLeft, setSectionTimeLeft] = useState<number | null>(null);
+  const currentRange = sectionRanges[activeSection] || sectionRanges[0];
+  const isLastSection = activeSection >= sectionRanges.length - 1;
 
   // Initialize Timer
   useEffect(() => {
@@ -53,29 +79,78 @@ export const WeeklyTestView: React.FC<Props> = ({ test, onComplete, onExit }) =>
     return () => clearInterval(timer);
   }, [test.id, test.durationMinutes]);
 
+  // Section countdown (timed sections only); the start time survives a reload like the test timer
+  useEffect(() => {
+    const minutes = timedSections ? currentRange?.section.durationMinutes : 0;
+    if (!minutes) {
+      setSectionTimeLeft(null);
+      return;
+    }
+    let saved: { index: number; startedAt: number } | null = null;
+    try { saved = JSON.parse(localStorage.getItem(SECTION_KEY) || 'null'); } catch (e) {}
+    if (!saved || saved.index !== activeSection) {
+      saved = { index: activeSection, startedAt: Date.now() };
+      localStorage.setItem(SECTION_KEY, JSON.stringify(saved));
+    }
+    const startedAt = saved.startedAt;
+
+    const tick = () => {
+      const remaining = Math.max(0, minutes * 60 - Math.floor((Date.now() - startedAt) / 1000));
+      setSectionTimeLeft(remaining);
+      if (remaining === 0) {
+        clearInterval(timer);
+        finishSection(true);
+      }
+    };
+    const timer = setInterval(tick, 1000);
+    tick();
+    return () => clearInterval(timer);
+  }, [activeSection, timedSections]);
+
   const handleSubmit = (auto: boolean = false) => {
     if (isSubmitting) return;
     setIsSubmitting(true);
     
-    // Calculate Score
+    // Calculate Score (correct answers; marks under the test's scheme are worked out on completion)
+    const finalAnswers = answersRef.current;
     let score = 0;
     safeQuestions.forEach((q, idx) => {
-      if (answers[idx] === q.correctAnswer) {
+      if (isResponseCorrect(q, finalAnswers[idx])) {
         score++;
       }
     });
     
     // Clear local storage for this test
     localStorage.removeItem(`weekly_test_start_${test.id}`);
+    localStorage.removeItem(SECTION_KEY);
     
     if (auto) {
-        setPostAlertAction(() => () => onComplete(score, safeQuestions.length, answers));
+        setPostAlertAction(() => () => onComplete(score, safeQuestions.length, finalAnswers, questionTimesRef.current));
         setAlertConfig({isOpen: true, message: "Time is up! Your test has been submitted automatically."});
     } else {
-        onComplete(score, safeQuestions.length, answers);
+        onComplete(score, safeQuestions.length, finalAnswers, questionTimesRef.current);
     }
   };
 
+  // Timed sections can't be reopened, so leaving one moves on for good
+  const finishSection = (timeUp: boolean) => {
+    if (isLastSection) {
+      handleSubmit(timeUp);
+      return;
+    }
+    answerClockRef.current = Date.now();
+    setActiveSection(prev => prev + 1);
+    if (timeUp) setAlertConfig({isOpen: true, message: `Time is up for ${currentRange.section.name}. Moving to the next section.`});
+  };
+
+  const handleAnswer = (idx: number, response: QuestionResponse) => {
+    if (questionTimesRef.current[idx] === undefined) {
+      questionTimesRef.current[idx] = Math.round((Date.now() - answerClockRef.current) / 1000);
+      answerClockRef.current = Date.now();
+    }
+    setAnswers(prev => ({ ...prev, [idx]: response }));
+  };
+
   const formatTime = (seconds: number) => {
     const h = Math.floor(seconds / 3600);
     const m = Math.floor((seconds % 3600) / 60);
@@ -107,14 +182,42 @@ export const WeeklyTestView: React.FC<Props> = ({ test, onComplete, onExit }) =>
         <div>
           <h2 className="font-bold text-slate-800">{test.name}</h2>
           <p className="text-xs text-slate-500">Total Questions: {safeQuestions.length}</p>
+          {test.markingScheme && <p className="text-[10px] font-bold text-slate-500">Marking: {describeMarkingScheme(test.markingScheme)}</p>}
         </div>
         
-        <div className={`flex items-center gap-2 font-mono font-bold text-lg px-4 py-2 rounded-lg ${timeLeft < 300 ? 'bg-red-100 text-red-600 animate-pulse' : 'bg-blue-50 text-blue-600'}`}>
-          <Clock size={20} />
-          {formatTime(timeLeft)}
+        <div className="flex flex-col items-end gap-1">
+          <div className={`flex items-center gap-2 font-mono font-bold text-lg px-4 py-2 rounded-lg ${timeLeft < 300 ? 'bg-red-100 text-red-600 animate-pulse' : 'bg-blue-50 text-blue-600'}`}>
+            <Clock size={20} />
+            {formatTime(timeLeft)}
+          </div>
+          {sectionTimeLeft !== null && (
+            <span className={`text-[10px] font-bold font-mono px-2 py-0.5 rounded ${sectionTimeLeft < 60 ? 'bg-red-100 text-red-600' : 'bg-slate-100 text-slate-600'}`}>
+              Section: {formatTime(sectionTimeLeft)}
+            </span>
+          )}
         </div>
       </div>
 
+      {/* Sections */}
+      {sectionRanges.length > 1 && (
+        <div className="bg-white border-b border-slate-200 px-4 py-2 flex gap-2 overflow-x-auto">
+          {sectionRanges.map((range, sIdx) => {
+            const answered = safeQuestions.slice(range.start, range.end).filter((q, i) => isResponseAnswered(q, answers[range.start + i])).length;
+            const isActive = sIdx === activeSection;
+            return (
+              <button
+                key={range.section.id}
+                disabled={timedSections && !isActive}
+                onClick={() => setActiveSection(sIdx)}
+                className={`shrink-0 px-3 py-1.5 rounded-lg text-xs font-bold border ${isActive ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-slate-600 border-slate-200 disabled:opacity-40'}`}
+              >
+                {range.section.name} <span className="opacity-70">({answered}/{range.end - range.start})</span>
+              </button>
+            );
+          })}
+        </div>
+      )}
+
       {/* Warning Banner */}
       <div className="bg-amber-50 text-amber-800 text-xs px-4 py-2 flex items-center justify-center gap-2 border-b border-amber-100">
         <AlertTriangle size={14} />
@@ -128,17 +231,25 @@ export const WeeklyTestView: React.FC<Props> = ({ test, onComplete, onExit }) =>
                <p className="text-slate-500">No questions found in this test.</p>
            </div>
         ) : (
-          safeQuestions.map((q, idx) => (
+          safeQuestions.slice(currentRange.start, currentRange.end).map((q, localIdx) => {
+            const idx = currentRange.start + localIdx;
+            return (
             <div key={idx} className="bg-white p-5 rounded-xl border border-slate-200 shadow-sm">
               <h4 className="font-bold text-slate-800 mb-4 flex gap-3">
                 <span className="bg-slate-100 text-slate-600 w-6 h-6 rounded-full flex items-center justify-center text-xs shrink-0 font-bold mt-0.5">{idx + 1}</span>
-                {q.question}
+                <span className="flex-1">
+                  {q.question}
+                  {getQuestionKind(q) !== 'SINGLE' && <span className="block text-[10px] font-bold text-indigo-500 uppercase mt-1">{QUESTION_KIND_LABELS[getQuestionKind(q)]}</span>}
+                </span>
               </h4>
+              {getQuestionKind(q) !== 'SINGLE' ? (
+                <QuestionResponseInput item={q} response={answers[idx]} onChange={r => handleAnswer(idx, r)} />
+              ) : (
               <div className="space-y-2">
                 {q.options && q.options.map((opt, oIdx) => (
                   <button
                     key={oIdx}
-                    onClick={() => setAnswers(prev => ({ ...prev, [idx]: oIdx }))}
+                    onClick={() => handleAnswer(idx, oIdx)}
                     className={`w-full text-left p-3 rounded-lg border transition-all text-sm font-medium flex items-center justify-between
                       ${answers[idx] === oIdx 
                         ? 'bg-blue-50 border-blue-500 text-blue-700 ring-1 ring-blue-500' 
@@ -149,16 +260,32 @@ export const WeeklyTestView: React.FC<Props> = ({ test, onComplete, onExit }) =>
                   </button>
                 ))}
               </div>
+              )}
             </div>
-          ))
+            );
+          })
         )}
       </div>
 
       {/* Footer */}
       <div className="p-4 bg-white border-t border-slate-200 sticky bottom-0 z-10 flex justify-between items-center shadow-[0_-4px_6px_-1px_rgba(0,0,0,0.05)]">
         <div className="text-xs text-slate-500 font-medium">
-          {Object.keys(answers).length} of {safeQuestions.length} Answered
+          {safeQuestions.filter((q, idx) => isResponseAnswered(q, answers[idx])).length} of {safeQuestions.length} Answered
         </div>
+        {timedSections && !isLastSection ? (
+          <button
+            onClick={() => {
+                setConfirmConfig({
+                    isOpen: true,
+                    message: `Finish ${currentRange.section.name}? You can't come back to this section.`,
+                    onConfirm: () => finishSection(false)
+                });
+            }}
+            className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-3 px-8 rounded-xl shadow-lg transition-all active:scale-95 flex items-center gap-2"
+          >
+            Next Section <ChevronRight size={18} />
+          </button>
+        ) : (
         <button
           onClick={() => {
               setConfirmConfig({
@@ -171,6 +298,7 @@ export const WeeklyTestView: React.FC<Props> = ({ test, onComplete, onExit }) =>
         >
           <Trophy size={18} /> Submit Test
         </button>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,142 @@
+import React, { useEffect, useState } from 'react';
+import { AiCacheConfig, AiCacheEntry } from '../../types';
+import { listAiCacheEntries, getAiCacheStats } from '../../firebase';
+import { purgeChapterCache } from '../../services/aiCache';
+import { Database, RefreshCw, Trash2 } from 'lucide-react';
+
+interface Props {
+  config: AiCacheConfig;
+  onConfigChange: (config: AiCacheConfig) => void; // Saved together with the rest of the settings
+}
+
+interface ChapterGroup {
+  tag: string;
+  label: string;
+  count: number;
+  sizeBytes: number;
+}
+
+const UNTAGGED = '__untagged__';
+
+// Hit rate of the shared generation cache, plus per-chapter purge after content edits
+export const AiCachePanel: React.FC<Props> = ({ config, onConfigChange }) => {
+  const [stats, setStats] = useState<any[]>([]);
+  const [entries, setEntries] = useState<Omit<AiCacheEntry, 'text'>[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [purging, setPurging] = useState<string | null>(null);
+
+  const load = async () => {
+    setIsLoading(true);
+    const [s, e] = await Promise.all([getAiCacheStats(7), listAiCacheEntries()]);
+    setStats(s);
+    setEntries(e);
+    setIsLoading(false);
+  };
+
+  useEffect(() => { load(); }, []);
+
+  const hits = stats.reduce((sum, d) => sum + (d.hits || 0), 0);
+  const misses = stats.reduce((sum, d) => sum + (d.misses || 0), 0);
+  const hitRate = hits + misses ? Math.round((hits / (hits + misses)) * 100) : 0;
+
+  const groups = Object.values(entries.reduce((acc, e) => {
+    const tag = e.tag || UNTAGGED;
+    const group = acc[tag] || { tag, label: e.tagLabel || (e.tag ? e.tag : 'Custom notes / untagged'), count: 0, sizeBytes: 0 };
+    acc[tag] = { ...group, count: group.count + 1, sizeBytes: group.sizeBytes + (e.sizeBytes || 0) };
+    return acc;
+  }, {} as Record<string, ChapterGroup>)).sort((a, b) => b.count - a.count);
+
+  const handlePurge = async (group: ChapterGroup) => {
+    if (group.tag === UNTAGGED) return;
+    if (!confirm(`Delete ${group.count} cached generation(s) for "${group.label}"? Students will get fresh AI output next time.`)) return;
+    setPurging(group.tag);
+    const removed = await purgeChapterCache(group.tag);
+    setPurging(null);
+    setEntries(prev => prev.filter(e => e.tag !== group.tag));
+    alert(`Purged ${removed} cached generation(s).`);
+  };
+
+  return (
+    <div className="bg-white p-4 rounded-xl border border-slate-200">
+      <div className="flex justify-between items-center mb-1">
+        <h4 className="font-bold text-slate-800 flex items-center gap-2">
+          <Database size={18} className="text-indigo-600" /> AI Generation Cache
+        </h4>
+        <button onClick={load} disabled={isLoading} className="text-slate-400 hover:text-slate-700 disabled:opacity-50" title="Refresh">
+          <RefreshCw size={14} className={isLoading ? 'animate-spin' : ''} />
+        </button>
+      </div>
+      <p className="text-xs text-slate-500 mb-3">Identical notes, MCQ and translation requests are served from Firestore. Hits cost no API call and no usage quota.</p>
+
+      <div className="grid grid-cols-3 gap-2 mb-3">
+        <div className="p-2 rounded-lg text-center bg-green-100 text-green-700">
+          <p className="text-lg font-black">{hits}</p>
+          <p className="text-[10px] font-bold uppercase">Hits (7d)</p>
+        </div>
+        <div className="p-2 rounded-lg text-center bg-slate-100 text-slate-700">
+          <p className="text-lg font-black">{misses}</p>
+          <p className="text-[10px] font-bold uppercase">Misses (7d)</p>
+        </div>
+        <div className="p-2 rounded-lg text-center bg-indigo-100 text-indigo-700">
+          <p className="text-lg font-black">{hitRate}%</p>
+          <p className="text-[10px] font-bold uppercase">Hit Rate</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2 mb-3 items-end">
+        <label className="flex items-center gap-2 text-xs font-bold text-slate-600 p-2">
+          <input
+            type="checkbox"
+            checked={config.enabled}
+            onChange={(e) => onConfigChange({ ...config, enabled: e.target.checked })}
+          />
+          Enabled
+        </label>
+        <div>
+          <label className="text-[10px] font-bold text-slate-500 uppercase block mb-1">TTL (Hours)</label>
+          <input
+            type="number"
+            min={1}
+            value={config.ttlHours}
+            onChange={(e) => onConfigChange({ ...config, ttlHours: Number(e.target.value) })}
+            className="w-full p-2 border rounded-lg text-xs font-bold text-center"
+          />
+        </div>
+        <div>
+          <label className="text-[10px] font-bold text-slate-500 uppercase block mb-1">Max Entry (KB)</label>
+          <input
+            type="number"
+            min={1}
+            value={config.maxEntryKB}
+            onChange={(e) => onConfigChange({ ...config, maxEntryKB: Number(e.target.value) })}
+            className="w-full p-2 border rounded-lg text-xs font-bold text-center"
+          />
+        </div>
+      </div>
+
+      {groups.length === 0 ? (
+        <p className="text-xs text-slate-400 italic">Cache is empty.</p>
+      ) : (
+        <div className="space-y-2 max-h-72 overflow-y-auto">
+          {groups.map(g => (
+            <div key={g.tag} className="p-2 rounded-lg border border-slate-100 bg-slate-50 text-xs flex justify-between items-center gap-2">
+              <div className="min-w-0">
+                <p className="font-bold text-slate-700 truncate">{g.label}</p>
+                <p className="text-[10px] text-slate-400">{g.count} entries • {(g.sizeBytes / 1024).toFixed(1)} KB</p>
+              </div>
+              {g.tag !== UNTAGGED && (
+                <button
+                  onClick={() => handlePurge(g)}
+                  disabled={purging === g.tag}
+                  className="shrink-0 bg-red-50 border border-red-200 text-red-600 px-2 py-1 rounded-lg text-[10px] font-bold flex items-center gap-1 disabled:opacity-50"
+                >
+                  <Trash2 size={12} /> {purging === g.tag ? 'Purging...' : 'Purge'}
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
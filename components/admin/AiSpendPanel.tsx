@@ -0,0 +1,110 @@
+import React, { useEffect, useState } from 'react';
+import { AiUsageRecord, User } from '../../types';
+import { getAiUsageRecords } from '../../firebase';
+import { rollupAiUsage } from '../../services/aiLedger';
+import { Coins, RefreshCw } from 'lucide-react';
+
+interface Props {
+  users: User[]; // For names in the top spenders list
+}
+
+const daysAgo = (n: number) => new Date(Date.now() - n * 86400000).toISOString().split('T')[0];
+
+// Who and what consumed AI: per-feature totals and the top spenders for a date range
+export const AiSpendPanel: React.FC<Props> = ({ users }) => {
+  const [fromDate, setFromDate] = useState(daysAgo(6));
+  const [toDate, setToDate] = useState(daysAgo(0));
+  const [records, setRecords] = useState<AiUsageRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [sortBy, setSortBy] = useState<'tokens' | 'credits' | 'calls'>('tokens');
+
+  const load = async () => {
+    setIsLoading(true);
+    setRecords(await getAiUsageRecords(fromDate, toDate));
+    setIsLoading(false);
+  };
+
+  useEffect(() => { load(); }, [fromDate, toDate]);
+
+  const byFeature = rollupAiUsage(records, 'feature');
+  const topSpenders = rollupAiUsage(records, 'userId').sort((a, b) => b[sortBy] - a[sortBy]).slice(0, 15);
+  const userName = (id: string) => users.find(u => u.id === id)?.name || (id === 'anonymous' ? 'Signed out' : id.slice(0, 8));
+  const totals = byFeature.reduce((acc, f) => ({ calls: acc.calls + f.calls, tokens: acc.tokens + f.tokens, credits: acc.credits + f.credits }), { calls: 0, tokens: 0, credits: 0 });
+  const estimated = records.filter(r => r.tokensEstimated).length;
+
+  return (
+    <div className="bg-white p-4 rounded-xl border border-slate-200">
+      <div className="flex justify-between items-center mb-1">
+        <h4 className="font-bold text-slate-800 flex items-center gap-2">
+          <Coins size={18} className="text-amber-500" /> AI Spend Ledger
+        </h4>
+        <button onClick={load} disabled={isLoading} className="text-slate-400 hover:text-slate-700 disabled:opacity-50" title="Refresh">
+          <RefreshCw size={14} className={isLoading ? 'animate-spin' : ''} />
+        </button>
+      </div>
+      <p className="text-xs text-slate-500 mb-3">Every AI call with its user, feature, model, tokens, latency and coins charged.</p>
+
+      <div className="flex gap-2 mb-3">
+        <input type="date" value={fromDate} max={toDate} onChange={e => setFromDate(e.target.value)} className="flex-1 p-2 border rounded-lg text-xs" />
+        <input type="date" value={toDate} min={fromDate} onChange={e => setToDate(e.target.value)} className="flex-1 p-2 border rounded-lg text-xs" />
+      </div>
+
+      <div className="grid grid-cols-3 gap-2 mb-3">
+        <div className="p-2 rounded-lg text-center bg-slate-100 text-slate-700">
+          <p className="text-lg font-black">{totals.calls}</p>
+          <p className="text-[10px] font-bold uppercase">Calls</p>
+        </div>
+        <div className="p-2 rounded-lg text-center bg-blue-100 text-blue-700">
+          <p className="text-lg font-black">{totals.tokens.toLocaleString()}</p>
+          <p className="text-[10px] font-bold uppercase">Tokens</p>
+        </div>
+        <div className="p-2 rounded-lg text-center bg-amber-100 text-amber-700">
+          <p className="text-lg font-black">{totals.credits}</p>
+          <p className="text-[10px] font-bold uppercase">Coins Charged</p>
+        </div>
+      </div>
+      {estimated > 0 && <p className="text-[10px] text-slate-400 italic mb-2">{estimated} call(s) without provider token counts are estimated.</p>}
+
+      <p className="text-[10px] font-bold text-slate-500 uppercase mb-1">By Feature</p>
+      <div className="overflow-x-auto mb-4">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-left text-slate-400">
+              <th className="py-1">Feature</th><th>Calls</th><th>Failed</th><th>Tokens</th><th>Coins</th><th>Avg ms</th>
+            </tr>
+          </thead>
+          <tbody>
+            {byFeature.map(f => (
+              <tr key={f.key} className="border-t border-slate-100">
+                <td className="py-1 font-bold text-slate-700">{f.key}</td>
+                <td>{f.calls}</td>
+                <td className="text-red-600">{f.failedCalls}</td>
+                <td>{f.tokens.toLocaleString()}</td>
+                <td>{f.credits}</td>
+                <td>{f.avgLatencyMs}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {byFeature.length === 0 && <p className="text-xs text-slate-400 italic py-2">No AI calls in this range.</p>}
+      </div>
+
+      <div className="flex justify-between items-center mb-1">
+        <p className="text-[10px] font-bold text-slate-500 uppercase">Top Spenders</p>
+        <select value={sortBy} onChange={e => setSortBy(e.target.value as any)} className="text-[10px] border rounded p-1">
+          <option value="tokens">By Tokens</option>
+          <option value="credits">By Coins</option>
+          <option value="calls">By Calls</option>
+        </select>
+      </div>
+      <div className="space-y-1 max-h-64 overflow-y-auto">
+        {topSpenders.map((u, i) => (
+          <div key={u.key} className="p-2 rounded-lg border border-slate-100 bg-slate-50 text-xs flex justify-between items-center gap-2">
+            <span className="font-bold text-slate-700 truncate">{i + 1}. {userName(u.key)}</span>
+            <span className="text-[10px] text-slate-500 shrink-0">{u.calls} calls • {u.tokens.toLocaleString()} tok • {u.credits} coins</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,78 @@
+import React from 'react';
+import { BloomLevel, ClassLevel, QuestionBankFilters, QuestionDifficulty } from '../../types';
+import { BLOOM_LEVELS } from '../../services/questionBank';
+import { getSubjectsList } from '../../constants';
+
+interface Props {
+  classLevel: ClassLevel;
+  filters: QuestionBankFilters;
+  onChange: (filters: QuestionBankFilters) => void;
+  chapters?: { id: string; title: string }[]; // When given, chapters are picked from the list
+  showSearch?: boolean;
+  showSource?: boolean;
+}
+
+// Tag filters shared by the question bank console and the builders that draw questions from the bank
+export const BankTagFilters: React.FC<Props> = ({ classLevel, filters, onChange, chapters = [], showSearch, showSource }) => {
+  // Empty inputs clear the filter instead of matching ""
+  const setFilter = (key: keyof QuestionBankFilters, value: string) => onChange({ ...filters, [key]: value || undefined });
+  const selectClass = "w-full p-2 border border-slate-200 rounded-lg text-xs bg-white";
+  const labelClass = "text-[10px] font-bold text-slate-500 uppercase block mb-1";
+
+  return (
+    <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+      {showSearch && (
+        <div className="col-span-2 md:col-span-4">
+          <label className={labelClass}>Search (whole words)</label>
+          <input value={filters.search || ''} onChange={e => setFilter('search', e.target.value)} placeholder="e.g. photosynthesis chlorophyll" className="w-full p-2 border border-slate-200 rounded-lg text-xs" />
+        </div>
+      )}
+      <div>
+        <label className={labelClass}>Subject</label>
+        <select value={filters.subject || ''} onChange={e => onChange({ ...filters, subject: e.target.value || undefined, chapterId: undefined, topic: undefined })} className={selectClass}>
+          <option value="">Any Subject</option>
+          {getSubjectsList(classLevel, 'Science').map(s => <option key={s.id} value={s.name}>{s.name}</option>)}
+        </select>
+      </div>
+      <div>
+        <label className={labelClass}>Chapter / Topic</label>
+        {chapters.length > 0 ? (
+          <select value={filters.chapterId || ''} onChange={e => setFilter('chapterId', e.target.value)} className={selectClass}>
+            <option value="">Any Chapter</option>
+            {chapters.map(c => <option key={c.id} value={c.id}>{c.title}</option>)}
+          </select>
+        ) : (
+          <input value={typeof filters.topic === 'string' ? filters.topic : ''} onChange={e => setFilter('topic', e.target.value)} placeholder="Exact topic" className="w-full p-2 border border-slate-200 rounded-lg text-xs" />
+        )}
+      </div>
+      <div>
+        <label className={labelClass}>Difficulty</label>
+        <select value={filters.difficulty || ''} onChange={e => setFilter('difficulty', e.target.value as QuestionDifficulty)} className={selectClass}>
+          <option value="">Any</option>
+          <option value="EASY">Easy</option>
+          <option value="MEDIUM">Medium</option>
+          <option value="HARD">Hard</option>
+          <option value="UNTAGGED">Untagged</option>
+        </select>
+      </div>
+      <div>
+        <label className={labelClass}>Bloom Level</label>
+        <select value={filters.bloomLevel || ''} onChange={e => setFilter('bloomLevel', e.target.value as BloomLevel)} className={selectClass}>
+          <option value="">Any</option>
+          {BLOOM_LEVELS.map(b => <option key={b} value={b}>{b}</option>)}
+          <option value="UNTAGGED">Untagged</option>
+        </select>
+      </div>
+      {showSource && (
+        <div>
+          <label className={labelClass}>Source</label>
+          <select value={filters.source || ''} onChange={e => setFilter('source', e.target.value)} className={selectClass}>
+            <option value="">Any</option>
+            <option value="AI">AI</option>
+            <option value="MANUAL">Manual</option>
+          </select>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,9 +1,12 @@
 
 import React, { useState } from 'react';
-import { Challenge20, ClassLevel, MCQItem, Subject } from '../../types';
-import { fetchLessonContent } from '../../services/groq';
+import { Challenge20, ClassLevel, MCQItem, MarkingScheme, QuestionBankFilters, Subject, TestSection } from '../../types';
+import { fetchLessonContent } from '../../services/aiContent';
 import { saveChallenge20, saveQuestionsToBank, fetchRandomQuestionsFromBank } from '../../services/questionBank';
+import { parseSheetRow, getQuestionKind, formatCorrectAnswer, QUESTION_KIND_LABELS } from '../../services/questionTypes';
 import { DEFAULT_SUBJECTS, getSubjectsList } from '../../constants';
+import { BankTagFilters } from './BankTagFilters';
+import { MarkingSchemeEditor } from './MarkingSchemeEditor';
 import { Sparkles, Trophy, Calendar, Save, RefreshCw, Plus, Layers, Trash2 } from 'lucide-react';
 
 interface Props {
@@ -25,6 +28,7 @@ export const ChallengeCreator20: React.FC<Props> = ({ onBack, language }) => {
   
   // Auto Mode State
   const [autoCount, setAutoCount] = useState(20);
+  const [autoFilters, setAutoFilters] = useState<QuestionBankFilters>({});
 
   // Import Mode State
   const [importText, setImportText] = useState('');
@@ -34,6 +38,8 @@ export const ChallengeCreator20: React.FC<Props> = ({ onBack, language }) => {
   const [loading, setLoading] = useState(false);
   const [step, setStep] = useState<'CONFIG' | 'PREVIEW'>('CONFIG');
   const [durationMinutes, setDurationMinutes] = useState(type === 'DAILY_CHALLENGE' ? 15 : 60);
+  const [markingScheme, setMarkingScheme] = useState<MarkingScheme | undefined>(undefined);
+  const [sections, setSections] = useState<TestSection[]>([]);
 
   const handleGenerateAI = async (append: boolean = false) => {
     if (!subject || !topic) {
@@ -96,20 +102,7 @@ export const ChallengeCreator20: React.FC<Props> = ({ onBack, language }) => {
                       if (cols.length < 3 && row.includes(',')) cols = row.split(',');
                       cols = cols.map(c => c.trim());
 
-                      if (cols.length < 6) return null;
-
-                      let ansIdx = parseInt(cols[5]) - 1;
-                      if (isNaN(ansIdx)) {
-                          const map: any = { 'A': 0, 'B': 1, 'C': 2, 'D': 3, 'a': 0, 'b': 1, 'c': 2, 'd': 3 };
-                          if (map[cols[5]] !== undefined) ansIdx = map[cols[5]];
-                      }
-
-                      return {
-                          question: cols[0],
-                          options: [cols[1], cols[2], cols[3], cols[4]],
-                          correctAnswer: (ansIdx >= 0 && ansIdx <= 3) ? ansIdx : 0,
-                          explanation: cols[6] || ''
-                      };
+                      return parseSheetRow(cols);
                   }).filter(q => q !== null) as MCQItem[];
               } 
               else {
@@ -162,9 +155,9 @@ export const ChallengeCreator20: React.FC<Props> = ({ onBack, language }) => {
   const handlePreviewAuto = async () => {
       setLoading(true);
       try {
-          const fetched = await fetchRandomQuestionsFromBank(classLevel, autoCount);
+          const fetched = await fetchRandomQuestionsFromBank(classLevel, autoCount, autoFilters);
           if (fetched.length === 0) {
-              alert("No questions in bank for this class yet! Use AI Mode first to populate the bank.");
+              alert("No questions in bank match these tags for this class yet! Use AI Mode first to populate the bank.");
           } else {
               setQuestions(fetched);
               setStep('PREVIEW');
@@ -195,7 +188,9 @@ export const ChallengeCreator20: React.FC<Props> = ({ onBack, language }) => {
           classLevel,
           isAutoGenerated: mode === 'AUTO',
           isActive: true,
-          durationMinutes: durationMinutes
+          durationMinutes: durationMinutes,
+          ...(markingScheme ? { markingScheme } : {}),
+          ...(sections.length ? { sections } : {})
       };
 
       // 1. Save Challenge
@@ -203,7 +198,7 @@ export const ChallengeCreator20: React.FC<Props> = ({ onBack, language }) => {
       
       // 2. If AI Mode, Save to Bank
       if (success && mode === 'AI' && subject) {
-          await saveQuestionsToBank(questions, subject.name, classLevel, 'AI');
+          await saveQuestionsToBank(questions, subject.name, classLevel, 'AI', topic);
       }
 
       setLoading(false);
@@ -272,7 +267,7 @@ export const ChallengeCreator20: React.FC<Props> = ({ onBack, language }) => {
                           {['6','7','8','9','10','11','12','COMPETITION'].map(c => (
                               <button 
                                 key={c} 
-                                onClick={() => setClassLevel(c as ClassLevel)}
+                                onClick={() => { setClassLevel(c as ClassLevel); setAutoFilters({}); }}
                                 className={`px-3 py-2 rounded-lg text-xs font-bold border ${classLevel === c ? 'bg-slate-800 text-white border-slate-800' : 'bg-white border-slate-200 text-slate-500'}`}
                               >
                                 {c}
@@ -320,6 +315,7 @@ export const ChallengeCreator20: React.FC<Props> = ({ onBack, language }) => {
                    <div className="bg-green-50 p-6 rounded-2xl border border-green-100 space-y-4 animate-in fade-in">
                         <h4 className="font-bold text-green-900 flex items-center gap-2">Google Sheets Import</h4>
                         <p className="text-xs text-green-700">Paste columns: <strong>Question | A | B | C | D | Answer(1-4) | Explanation</strong></p>
+                        <p className="text-[10px] text-green-700">Answer "1,3" makes a multiple-correct question. Rows may start with a kind tag: <strong>NUMERIC</strong> | Q | Ans | Tolerance | Unit, <strong>AR</strong> | Assertion | Reason | Ans, <strong>MATCH</strong> | Q | a; b | x; y | Ans(2,1), <strong>CASE</strong> | Q | Passage | (Q | 4 Opts | Ans) per part.</p>
                         <textarea 
                             value={importText}
                             onChange={e => setImportText(e.target.value)}
@@ -390,8 +386,9 @@ export const ChallengeCreator20: React.FC<Props> = ({ onBack, language }) => {
                    <div className="bg-orange-50 p-6 rounded-2xl border border-orange-100 space-y-4 animate-in fade-in">
                        <h4 className="font-bold text-orange-900 flex items-center gap-2"><Layers size={18} /> Auto Mix Configuration</h4>
                        <p className="text-xs text-orange-700">
-                           This will randomly select questions from the <strong>Question Bank</strong> for Class {classLevel}.
+                           This will randomly select questions from the <strong>Question Bank</strong> for Class {classLevel} matching the tags below (leave a tag on "Any" to ignore it).
                        </p>
+                       <BankTagFilters classLevel={classLevel} filters={autoFilters} onChange={setAutoFilters} />
                        <div>
                            <label className="text-xs font-bold text-orange-700 uppercase">Total Questions</label>
                            <input 
@@ -452,15 +449,27 @@ export const ChallengeCreator20: React.FC<Props> = ({ onBack, language }) => {
                            </div>
                            <div className="grid grid-cols-2 gap-2">
                                {q.options.map((opt, oIdx) => (
-                                   <div key={oIdx} className={`p-2 rounded-lg text-xs border ${oIdx === q.correctAnswer ? 'bg-green-50 border-green-200 text-green-700 font-bold' : 'bg-slate-50 border-slate-100 text-slate-500'}`}>
+                                   <div key={oIdx} className={`p-2 rounded-lg text-xs border ${(q.correctAnswers || [q.correctAnswer]).includes(oIdx) ? 'bg-green-50 border-green-200 text-green-700 font-bold' : 'bg-slate-50 border-slate-100 text-slate-500'}`}>
                                        {opt}
                                    </div>
                                ))}
                            </div>
+                           {getQuestionKind(q) !== 'SINGLE' && (
+                               <p className="text-[10px] text-slate-500 mt-2">
+                                   <span className="font-bold text-indigo-600 uppercase">{QUESTION_KIND_LABELS[getQuestionKind(q)]}</span> • Answer: <span className="font-bold text-green-700">{formatCorrectAnswer(q)}</span>
+                               </p>
+                           )}
                        </div>
                    ))}
                </div>
 
+               <MarkingSchemeEditor
+                  scheme={markingScheme}
+                  sections={sections}
+                  questions={questions}
+                  onChange={(nextScheme, nextSections) => { setMarkingScheme(nextScheme); setSections(nextSections); }}
+               />
+
                <button 
                   onClick={handlePublish} 
                   disabled={loading}
@@ -0,0 +1,135 @@
+import React, { useEffect, useState } from 'react';
+import { ContentVersion } from '../../types';
+import { getContentVersions, restoreContentVersion, getChapterData } from '../../firebase';
+import { FieldDiff } from './DiffView';
+import { History, RotateCcw, RefreshCw, X } from 'lucide-react';
+
+interface Props {
+  contentKey: string;
+  onRestored: (data: any) => void;
+}
+
+// Version history for one chapter document: browse snapshots, diff against current, restore
+export const ContentHistoryPanel: React.FC<Props> = ({ contentKey, onRestored }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [versions, setVersions] = useState<ContentVersion[]>([]);
+  const [current, setCurrent] = useState<any>(null);
+  const [selected, setSelected] = useState<ContentVersion | null>(null);
+  const [selectedField, setSelectedField] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [restoring, setRestoring] = useState(false);
+
+  const load = async () => {
+    setLoading(true);
+    const [list, latest] = await Promise.all([getContentVersions(contentKey), getChapterData(contentKey)]);
+    setVersions(list as ContentVersion[]);
+    setCurrent(latest || {});
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    setSelected(null);
+    setSelectedField(null);
+    if (isOpen) load();
+  }, [isOpen, contentKey]);
+
+  const changedFields = selected
+    ? Array.from(new Set([...Object.keys(selected.data || {}), ...Object.keys(current || {})]))
+        .filter(k => JSON.stringify(selected.data?.[k]) !== JSON.stringify(current?.[k]))
+    : [];
+
+  const handleRestore = async () => {
+    if (!selected) return;
+    if (!confirm(`Restore the version from ${new Date(selected.timestamp).toLocaleString()}?\n\nThe current content is kept in history, so this can be undone.`)) return;
+    setRestoring(true);
+    try {
+      const data = await restoreContentVersion(contentKey, selected.id);
+      onRestored(data);
+      await load();
+      setSelected(null);
+      alert("✅ Version Restored!");
+    } catch (e: any) {
+      alert("Restore failed: " + e.message);
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  if (!isOpen) {
+    return (
+      <button onClick={() => setIsOpen(true)} className="text-xs font-bold text-slate-600 bg-white border border-slate-200 px-3 py-1.5 rounded-lg flex items-center gap-1 hover:bg-slate-100">
+        <History size={14} /> Version History
+      </button>
+    );
+  }
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-2xl p-4 mb-4 shadow-sm">
+      <div className="flex justify-between items-center mb-3">
+        <h5 className="font-bold text-slate-800 text-sm flex items-center gap-2"><History size={16} /> Version History</h5>
+        <button onClick={() => setIsOpen(false)} className="text-slate-400 hover:text-slate-600"><X size={16} /></button>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-6"><RefreshCw size={16} className="animate-spin text-slate-400" /></div>
+      ) : versions.length === 0 ? (
+        <p className="text-xs text-slate-400 italic">No saved versions yet. History starts with the next save.</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-1 max-h-96 overflow-y-auto">
+            {versions.map((v, i) => (
+              <button
+                key={v.id}
+                onClick={() => { setSelected(v); setSelectedField(null); }}
+                className={`w-full text-left p-2 rounded-lg border text-xs ${selected?.id === v.id ? 'bg-blue-50 border-blue-300' : 'bg-slate-50 border-slate-100 hover:bg-slate-100'}`}
+              >
+                <p className="font-bold text-slate-700">{new Date(v.timestamp).toLocaleString()} {i === 0 && <span className="text-[9px] bg-green-100 text-green-700 px-1.5 rounded-full ml-1">LATEST</span>}</p>
+                <p className="text-[10px] text-slate-500">{v.authorName}</p>
+                <p className="text-[10px] text-slate-400 line-clamp-2">{v.summary}</p>
+              </button>
+            ))}
+          </div>
+
+          <div className="md:col-span-2">
+            {!selected ? (
+              <p className="text-xs text-slate-400 italic">Select a version to compare it with the current content.</p>
+            ) : (
+              <>
+                <div className="flex flex-wrap justify-between items-center gap-2 mb-2">
+                  <p className="text-xs text-slate-600">{changedFields.length} field(s) differ from current</p>
+                  <button
+                    onClick={handleRestore}
+                    disabled={restoring || changedFields.length === 0}
+                    className="bg-orange-600 text-white px-3 py-1.5 rounded-lg text-xs font-bold flex items-center gap-1 disabled:opacity-50"
+                  >
+                    {restoring ? <RefreshCw size={12} className="animate-spin" /> : <RotateCcw size={12} />} Restore This Version
+                  </button>
+                </div>
+                <div className="flex flex-wrap gap-1 mb-3">
+                  {changedFields.map(f => (
+                    <button
+                      key={f}
+                      onClick={() => setSelectedField(f)}
+                      className={`font-mono text-[10px] px-2 py-1 rounded border ${selectedField === f ? 'bg-slate-800 text-white border-slate-800' : 'bg-white text-slate-600 border-slate-200'}`}
+                    >
+                      {f}
+                    </button>
+                  ))}
+                </div>
+                {selectedField && (
+                  <>
+                    <div className="grid grid-cols-2 gap-2 mb-1 text-[10px] font-bold uppercase text-slate-400">
+                      <span>Current</span>
+                      <span>This Version</span>
+                    </div>
+                    <FieldDiff before={current?.[selectedField]} after={selected.data?.[selectedField]} />
+                  </>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,62 @@
+import React from 'react';
+import { MCQItem } from '../../types';
+import { diffText, diffMcqs, countChanges, DiffRowType } from '../../services/contentDiff';
+
+interface Props {
+  before: any;
+  after: any;
+}
+
+const ROW_STYLES: Record<DiffRowType, { left: string; right: string }> = {
+  same: { left: 'text-slate-500', right: 'text-slate-500' },
+  changed: { left: 'bg-red-50 text-red-700', right: 'bg-green-50 text-green-700' },
+  removed: { left: 'bg-red-50 text-red-700', right: 'bg-slate-50' },
+  added: { left: 'bg-slate-50', right: 'bg-green-50 text-green-700' }
+};
+
+const isMcqList = (value: any) => Array.isArray(value) && value.every(q => q && typeof q.question === 'string');
+
+const McqPreview: React.FC<{ q?: MCQItem }> = ({ q }) => {
+  if (!q) return <p className="text-[10px] text-slate-300 italic">—</p>;
+  return (
+    <div>
+      <p className="font-bold">{q.question}</p>
+      <ol className="list-[upper-alpha] pl-4">
+        {q.options.map((o, i) => <li key={i} className={i === q.correctAnswer ? 'font-bold text-green-700' : ''}>{o}</li>)}
+      </ol>
+      {q.explanation && <p className="text-[10px] text-slate-400 mt-1">{q.explanation}</p>}
+    </div>
+  );
+};
+
+// Side-by-side diff of one content field: MCQ lists per question, everything else line by line
+export const FieldDiff: React.FC<Props> = ({ before, after }) => {
+  if (isMcqList(before || []) && isMcqList(after || []) && (Array.isArray(before) || Array.isArray(after))) {
+    const rows = diffMcqs(before || [], after || []);
+    return (
+      <div className="space-y-2 max-h-96 overflow-y-auto">
+        {rows.filter(r => r.type !== 'same').map(r => (
+          <div key={r.index} className="grid grid-cols-2 gap-2 text-xs">
+            <div className={`p-2 rounded border ${ROW_STYLES[r.type].left}`}><McqPreview q={r.before} /></div>
+            <div className={`p-2 rounded border ${ROW_STYLES[r.type].right}`}><McqPreview q={r.after} /></div>
+          </div>
+        ))}
+        {countChanges(rows) === 0 && <p className="text-xs text-slate-400 italic">No differences.</p>}
+      </div>
+    );
+  }
+
+  const asText = (value: any) => value === undefined || value === null ? '' : typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+  const rows = diffText(asText(before), asText(after));
+  return (
+    <div className="max-h-96 overflow-y-auto border rounded-lg font-mono text-[10px]">
+      {rows.map((r, i) => (
+        <div key={i} className="grid grid-cols-2 border-b border-slate-100 last:border-0">
+          <div className={`px-2 py-0.5 whitespace-pre-wrap break-all border-r border-slate-100 ${ROW_STYLES[r.type].left}`}>{r.left ?? ''}</div>
+          <div className={`px-2 py-0.5 whitespace-pre-wrap break-all ${ROW_STYLES[r.type].right}`}>{r.right ?? ''}</div>
+        </div>
+      ))}
+      {rows.length === 0 && <p className="p-2 text-slate-400 italic">Both empty.</p>}
+    </div>
+  );
+};
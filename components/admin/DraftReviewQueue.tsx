@@ -0,0 +1,214 @@
+import React, { useEffect, useState } from 'react';
+import { ContentDraft, User } from '../../types';
+import { subscribeToContentDrafts, getChapterData } from '../../firebase';
+import { approveDraftField, rejectDraftField } from '../../services/draftReview';
+import { parseAiJson } from '../../services/aiValidation';
+import { McqListSchema } from '../../services/aiSchemas';
+import { FieldDiff } from './DiffView';
+import { ListChecks, CheckCircle, X, Edit3, ArrowLeft, History } from 'lucide-react';
+
+interface Props {
+  reviewer: User | null;
+}
+
+export const DraftReviewQueue: React.FC<Props> = ({ reviewer }) => {
+  const [drafts, setDrafts] = useState<ContentDraft[]>([]);
+  const [closedDrafts, setClosedDrafts] = useState<ContentDraft[]>([]);
+  const [selected, setSelected] = useState<ContentDraft | null>(null);
+  const [published, setPublished] = useState<any>(null);
+  const [edits, setEdits] = useState<Record<string, string>>({}); // field -> edited text (HTML or MCQ JSON)
+  const [editingField, setEditingField] = useState<string | null>(null);
+  const [busyField, setBusyField] = useState<string | null>(null);
+  const [showAudit, setShowAudit] = useState(false);
+
+  useEffect(() => {
+    const unsubPending = subscribeToContentDrafts('PENDING', setDrafts);
+    const unsubClosed = subscribeToContentDrafts('CLOSED', setClosedDrafts);
+    return () => { unsubPending(); unsubClosed(); };
+  }, []);
+
+  const openDraft = async (draft: ContentDraft) => {
+    setSelected(draft);
+    setEdits({});
+    setEditingField(null);
+    setPublished(await getChapterData(draft.contentKey) || {});
+  };
+
+  // Proposed value for a field, with the reviewer's inline edit applied
+  const getProposedValue = (field: string): { value: any; error?: string } => {
+    if (!selected) return { value: null };
+    const original = selected.fields[field];
+    if (edits[field] === undefined) return { value: original };
+    if (!Array.isArray(original)) return { value: edits[field] };
+    const parsed = parseAiJson(edits[field], McqListSchema);
+    return parsed.success ? { value: parsed.data } : { value: original, error: parsed.issues.join('; ') };
+  };
+
+  const handleDecision = async (field: string, approve: boolean) => {
+    if (!selected) return;
+    if (!reviewer) {
+      alert("Reviewer identity unavailable. Please log in again.");
+      return;
+    }
+    const { value, error } = getProposedValue(field);
+    if (approve && error) {
+      alert(`Edited MCQs are invalid:\n${error}`);
+      return;
+    }
+    setBusyField(field);
+    try {
+      const updated = approve
+        ? await approveDraftField(selected, field, value, reviewer)
+        : await rejectDraftField(selected, field, reviewer);
+      setSelected(updated.status === 'PENDING' ? updated : null);
+      if (approve) setPublished((prev: any) => ({ ...prev, [field]: value }));
+      setEditingField(null);
+    } catch (e: any) {
+      alert("Review action failed: " + e.message);
+    } finally {
+      setBusyField(null);
+    }
+  };
+
+  const renderFieldDiff = (field: string) => (
+    <FieldDiff before={published?.[field]} after={getProposedValue(field).value} />
+  );
+
+  // --- DETAIL VIEW ---
+  if (selected) {
+    return (
+      <div className="bg-white p-6 rounded-3xl border border-slate-200 mb-8">
+        <div className="flex items-center gap-3 mb-4">
+          <button onClick={() => setSelected(null)} className="bg-slate-100 p-2 rounded-full hover:bg-slate-200"><ArrowLeft size={16} /></button>
+          <div>
+            <h4 className="font-bold text-slate-800">{selected.chapterTitle}</h4>
+            <p className="text-[10px] text-slate-500 font-mono uppercase">{selected.kind} • {selected.board} • Class {selected.classLevel} • {selected.subjectName}</p>
+          </div>
+        </div>
+
+        <div className="space-y-6">
+          {Object.keys(selected.fields).map(field => {
+            const status = selected.fieldStatus[field];
+            const isArray = Array.isArray(selected.fields[field]);
+            return (
+              <div key={field} className="border border-slate-200 rounded-xl p-4">
+                <div className="flex flex-wrap justify-between items-center gap-2 mb-3">
+                  <p className="font-mono text-xs font-bold text-slate-700">{field}</p>
+                  {status === 'PENDING' ? (
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => {
+                          if (editingField === field) { setEditingField(null); return; }
+                          if (edits[field] === undefined) {
+                            const original = selected.fields[field];
+                            setEdits({ ...edits, [field]: isArray ? JSON.stringify(original, null, 2) : original });
+                          }
+                          setEditingField(field);
+                        }}
+                        className="px-3 py-1.5 bg-white border border-slate-300 text-slate-700 rounded-lg text-xs font-bold flex items-center gap-1"
+                      >
+                        <Edit3 size={12} /> {editingField === field ? 'Show Diff' : 'Edit'}
+                      </button>
+                      <button
+                        onClick={() => handleDecision(field, false)}
+                        disabled={busyField === field}
+                        className="px-3 py-1.5 bg-red-50 border border-red-200 text-red-600 rounded-lg text-xs font-bold flex items-center gap-1 disabled:opacity-50"
+                      >
+                        <X size={12} /> Reject
+                      </button>
+                      <button
+                        onClick={() => handleDecision(field, true)}
+                        disabled={busyField === field}
+                        className="px-3 py-1.5 bg-green-600 text-white rounded-lg text-xs font-bold flex items-center gap-1 shadow hover:bg-green-700 disabled:opacity-50"
+                      >
+                        <CheckCircle size={12} /> {edits[field] !== undefined ? 'Approve Edited' : 'Approve'}
+                      </button>
+                    </div>
+                  ) : (
+                    <span className={`text-[10px] font-bold px-2 py-0.5 rounded-full ${status === 'APPROVED' ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'}`}>{status}</span>
+                  )}
+                </div>
+
+                {editingField === field ? (
+                  <textarea
+                    value={edits[field] || ''}
+                    onChange={e => setEdits({ ...edits, [field]: e.target.value })}
+                    className="w-full h-72 p-3 border rounded-lg font-mono text-xs"
+                  />
+                ) : (
+                  <>
+                    <div className="grid grid-cols-2 gap-2 mb-1 text-[10px] font-bold uppercase text-slate-400">
+                      <span>Published</span>
+                      <span>Proposed{edits[field] !== undefined ? ' (Edited)' : ''}</span>
+                    </div>
+                    {renderFieldDiff(field)}
+                  </>
+                )}
+                {getProposedValue(field).error && <p className="text-[10px] text-red-600 mt-2">{getProposedValue(field).error}</p>}
+              </div>
+            );
+          })}
+        </div>
+
+        {selected.reviews?.length > 0 && (
+          <div className="mt-6 border-t pt-4">
+            <p className="text-xs font-bold text-slate-500 uppercase mb-2">Review Log</p>
+            {selected.reviews.map((r, i) => (
+              <p key={i} className="text-[10px] text-slate-600">{new Date(r.timestamp).toLocaleString()} • {r.reviewerName} {r.decision.toLowerCase()} <span className="font-mono">{r.field}</span>{r.edited ? ' (edited)' : ''}</p>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  // --- LIST VIEW ---
+  return (
+    <div className="bg-white p-6 rounded-3xl border border-slate-200 mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <h4 className="font-bold text-slate-800 flex items-center gap-2">
+          <ListChecks size={20} className="text-orange-600"/> Review Queue
+          {drafts.length > 0 && <span className="bg-orange-100 text-orange-600 px-2 py-0.5 rounded-full text-xs font-bold">{drafts.length}</span>}
+        </h4>
+        <button onClick={() => setShowAudit(!showAudit)} className="text-xs font-bold text-blue-600 hover:underline flex items-center gap-1">
+          <History size={12} /> {showAudit ? 'Hide' : 'Show'} Approval History
+        </button>
+      </div>
+
+      {drafts.length === 0 ? (
+        <p className="text-slate-400 text-sm text-center py-8 bg-slate-50 rounded-xl border border-dashed border-slate-200">No drafts awaiting review.</p>
+      ) : (
+        <div className="space-y-3 max-h-96 overflow-y-auto pr-2 custom-scrollbar">
+          {drafts.map(d => {
+            const pending = Object.values(d.fieldStatus).filter(s => s === 'PENDING').length;
+            return (
+              <div key={d.id} className="p-4 rounded-xl border border-slate-200 flex justify-between items-center bg-white shadow-sm">
+                <div>
+                  <p className="font-bold text-slate-800 text-sm">{d.chapterTitle}</p>
+                  <p className="text-[10px] text-slate-500 font-mono uppercase">{d.kind} • {d.subjectName} • Class {d.classLevel} • {pending} field(s) pending</p>
+                </div>
+                <button onClick={() => openDraft(d)} className="px-3 py-1.5 bg-slate-800 text-white rounded-lg text-xs font-bold shadow hover:bg-slate-900">
+                  Review
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {showAudit && (
+        <div className="mt-4 border-t pt-4 max-h-64 overflow-y-auto">
+          {closedDrafts.length === 0 && <p className="text-xs text-slate-400 italic">No completed reviews yet.</p>}
+          {[...closedDrafts].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt)).map(d => (
+            <div key={d.id} className="mb-3">
+              <p className="text-xs font-bold text-slate-700">{d.chapterTitle} <span className="text-slate-400 font-normal">({d.subjectName})</span></p>
+              {(d.reviews || []).map((r, i) => (
+                <p key={i} className="text-[10px] text-slate-500 pl-2">{new Date(r.timestamp).toLocaleString()} • {r.reviewerName} {r.decision.toLowerCase()} <span className="font-mono">{r.field}</span>{r.edited ? ' (edited)' : ''}</p>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,46 @@
+import React, { useEffect, useState } from 'react';
+import { HindiGlossaryTerm } from '../../types';
+import { DEFAULT_SUBJECTS } from '../../constants';
+import { parseGlossaryText, formatGlossaryText } from '../../services/hindiTranslation';
+import { Globe } from 'lucide-react';
+
+interface Props {
+  glossary: Record<string, HindiGlossaryTerm[]>;
+  onChange: (glossary: Record<string, HindiGlossaryTerm[]>) => void; // Saved with the Auto-Pilot configuration
+}
+
+const SUBJECT_NAMES = Object.values(DEFAULT_SUBJECTS).map(s => s.name);
+
+// Per-subject fixed Hindi terms used by the TRANSLATE_HI job
+export const HindiGlossaryEditor: React.FC<Props> = ({ glossary, onChange }) => {
+  const [subject, setSubject] = useState(SUBJECT_NAMES[0]);
+  const [draft, setDraft] = useState('');
+
+  // Textarea keeps the admin's raw text; parsed terms are pushed up on every edit
+  useEffect(() => { setDraft(formatGlossaryText(glossary[subject] || [])); }, [subject]);
+
+  const handleChange = (text: string) => {
+    setDraft(text);
+    onChange({ ...glossary, [subject]: parseGlossaryText(text) });
+  };
+
+  return (
+    <div>
+      <label className="text-xs font-bold text-slate-400 uppercase mb-2 flex items-center gap-2">
+        <Globe size={14} /> Hindi Glossary
+      </label>
+      <select value={subject} onChange={e => setSubject(e.target.value)} className="w-full p-2 border rounded-lg text-xs font-bold mb-2">
+        {SUBJECT_NAMES.map(name => (
+          <option key={name} value={name}>{name} ({(glossary[name] || []).length} terms)</option>
+        ))}
+      </select>
+      <textarea
+        value={draft}
+        onChange={e => handleChange(e.target.value)}
+        placeholder={"Photosynthesis = प्रकाश संश्लेषण\nForce = बल"}
+        className="w-full p-2 border rounded-lg text-xs font-mono h-32"
+      />
+      <p className="text-[10px] text-slate-400 mt-1">One "English = Hindi" pair per line. Applied to every chapter of the subject when translating.</p>
+    </div>
+  );
+};
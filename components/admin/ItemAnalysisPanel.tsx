@@ -0,0 +1,176 @@
+import React, { useEffect, useState } from 'react';
+import { ItemFlag, ItemStats, User, WeeklyTest } from '../../types';
+import { getItemStats } from '../../firebase';
+import { runItemAnalysis, MIN_ATTEMPTS } from '../../services/itemAnalysis';
+import { ArrowLeft, BarChart3, RefreshCw, AlertTriangle } from 'lucide-react';
+
+interface Props {
+  onBack: () => void;
+  users: User[];
+  weeklyTests: WeeklyTest[]; // Maps older test results (saved without question keys) to questions
+}
+
+const FLAG_LABELS: Record<ItemFlag, { label: string; className: string }> = {
+  KEY_SUSPECT: { label: 'Check Answer Key', className: 'bg-red-100 text-red-700' },
+  NEGATIVE_DISCRIMINATION: { label: 'Negative Discrimination', className: 'bg-orange-100 text-orange-700' },
+  LOW_DISCRIMINATION: { label: 'Low Discrimination', className: 'bg-yellow-100 text-yellow-700' }
+};
+
+const DIFFICULTY_STYLES: Record<string, string> = {
+  EASY: 'bg-green-100 text-green-700',
+  MEDIUM: 'bg-blue-100 text-blue-700',
+  HARD: 'bg-purple-100 text-purple-700'
+};
+
+type SortKey = 'attempts' | 'pValue' | 'discrimination';
+
+const stripHtml = (text: string) => (text || '').replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim();
+
+// Per-question statistics from real student answers: p-value, discrimination, distractors, time
+export const ItemAnalysisPanel: React.FC<Props> = ({ onBack, users, weeklyTests }) => {
+  const [stats, setStats] = useState<ItemStats[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [log, setLog] = useState<string[]>([]);
+  const [view, setView] = useState<'ALL' | 'FLAGGED' | ItemFlag>('FLAGGED');
+  const [difficulty, setDifficulty] = useState('ALL');
+  const [search, setSearch] = useState('');
+  const [sortBy, setSortBy] = useState<SortKey>('attempts');
+
+  useEffect(() => { getItemStats().then(setStats); }, []);
+
+  const handleRun = async () => {
+    setIsRunning(true);
+    setLog([]);
+    try {
+      const { stats: fresh, calibrated } = await runItemAnalysis(users, weeklyTests, msg => setLog(prev => [msg, ...prev]));
+      setStats(fresh);
+      setLog(prev => [`🏁 ${fresh.length} question(s) analysed, ${calibrated} bank item(s) re-labelled.`, ...prev]);
+    } catch (e: any) {
+      setLog(prev => [`❌ ${e.message}`, ...prev]);
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const query = search.trim().toLowerCase();
+  const visible = stats
+    .filter(s => view === 'ALL' || (view === 'FLAGGED' ? s.flags.length > 0 : s.flags.includes(view)))
+    .filter(s => difficulty === 'ALL' || (difficulty === 'UNLABELLED' ? !s.difficulty : s.difficulty === difficulty))
+    .filter(s => !query || (s.question || '').toLowerCase().includes(query) || s.sources.some(src => src.toLowerCase().includes(query)))
+    .sort((a, b) => sortBy === 'attempts' ? b.attempts - a.attempts : ((a[sortBy] ?? 99) - (b[sortBy] ?? 99)))
+    .slice(0, 200);
+
+  const countFlag = (flag: ItemFlag) => stats.filter(s => s.flags.includes(flag)).length;
+
+  return (
+    <div className="bg-white p-6 rounded-3xl shadow-sm border border-slate-200 animate-in slide-in-from-right space-y-6">
+      <div className="flex items-center gap-4 border-b pb-4">
+        <button onClick={onBack} className="bg-slate-100 p-2 rounded-full hover:bg-slate-200"><ArrowLeft size={20} /></button>
+        <div className="flex-1">
+          <h3 className="text-xl font-black text-slate-800 flex items-center gap-2"><BarChart3 size={20} className="text-teal-600" /> Item Analysis</h3>
+          <p className="text-xs text-slate-500">From the answers in every student's test history. Difficulty labels and discrimination need at least {MIN_ATTEMPTS} attempts.</p>
+        </div>
+        <button onClick={handleRun} disabled={isRunning} className="bg-teal-600 text-white px-4 py-2 rounded-xl text-xs font-bold flex items-center gap-2 disabled:opacity-50">
+          <RefreshCw size={14} className={isRunning ? 'animate-spin' : ''} /> {isRunning ? 'Analysing...' : 'Run Analysis'}
+        </button>
+      </div>
+
+      {log.length > 0 && (
+        <div className="bg-slate-50 rounded-lg border border-slate-200 p-2 max-h-24 overflow-y-auto">
+          {log.map((l, i) => <p key={i} className="text-[10px] font-mono text-slate-600">{l}</p>)}
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        <div className="bg-slate-50 p-3 rounded-xl border border-slate-200">
+          <p className="text-[10px] font-bold text-slate-500 uppercase">Questions</p>
+          <p className="text-xl font-black text-slate-800">{stats.length}</p>
+        </div>
+        <div className="bg-slate-50 p-3 rounded-xl border border-slate-200">
+          <p className="text-[10px] font-bold text-slate-500 uppercase">Labelled</p>
+          <p className="text-xl font-black text-slate-800">{stats.filter(s => s.difficulty).length}</p>
+        </div>
+        <div className="bg-red-50 p-3 rounded-xl border border-red-100">
+          <p className="text-[10px] font-bold text-red-500 uppercase">Check Answer Key</p>
+          <p className="text-xl font-black text-red-700">{countFlag('KEY_SUSPECT')}</p>
+        </div>
+        <div className="bg-orange-50 p-3 rounded-xl border border-orange-100">
+          <p className="text-[10px] font-bold text-orange-500 uppercase">Poor Discrimination</p>
+          <p className="text-xl font-black text-orange-700">{countFlag('NEGATIVE_DISCRIMINATION') + countFlag('LOW_DISCRIMINATION')}</p>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2 items-center">
+        <select value={view} onChange={e => setView(e.target.value as any)} className="p-2 border border-slate-200 rounded-lg text-xs bg-white">
+          <option value="FLAGGED">Flagged</option>
+          <option value="ALL">All Questions</option>
+          {(Object.keys(FLAG_LABELS) as ItemFlag[]).map(f => <option key={f} value={f}>{FLAG_LABELS[f].label}</option>)}
+        </select>
+        <select value={difficulty} onChange={e => setDifficulty(e.target.value)} className="p-2 border border-slate-200 rounded-lg text-xs bg-white">
+          <option value="ALL">Any Difficulty</option>
+          <option value="EASY">Easy</option>
+          <option value="MEDIUM">Medium</option>
+          <option value="HARD">Hard</option>
+          <option value="UNLABELLED">Too Few Attempts</option>
+        </select>
+        <select value={sortBy} onChange={e => setSortBy(e.target.value as SortKey)} className="p-2 border border-slate-200 rounded-lg text-xs bg-white">
+          <option value="attempts">Most Attempted</option>
+          <option value="pValue">Hardest First</option>
+          <option value="discrimination">Lowest Discrimination</option>
+        </select>
+        <input value={search} onChange={e => setSearch(e.target.value)} placeholder="Search question or chapter..." className="flex-1 min-w-[160px] p-2 border border-slate-200 rounded-lg text-xs" />
+      </div>
+
+      <div className="space-y-3 max-h-[60vh] overflow-y-auto">
+        {visible.length === 0 && <p className="text-xs text-slate-400 italic">{stats.length === 0 ? 'No statistics yet. Run the analysis.' : 'No questions match these filters.'}</p>}
+        {visible.map(s => {
+          const answered = s.attempts - s.skipped;
+          return (
+            <div key={s.questionKey} className={`p-4 rounded-xl border ${s.flags.includes('KEY_SUSPECT') ? 'border-red-200 bg-red-50/30' : 'border-slate-200 bg-white'}`}>
+              <div className="flex justify-between gap-3 mb-2">
+                <div className="min-w-0">
+                  <p className="text-sm text-slate-800 font-medium">{s.question ? stripHtml(s.question) : <span className="italic text-slate-400">Question text unavailable ({s.questionKey})</span>}</p>
+                  <p className="text-[10px] text-slate-400 mt-0.5">{s.sources.join(' • ')}</p>
+                </div>
+                <div className="flex flex-col items-end gap-1 shrink-0">
+                  {s.difficulty && <span className={`text-[10px] font-bold px-2 py-0.5 rounded ${DIFFICULTY_STYLES[s.difficulty]}`}>{s.difficulty}</span>}
+                  {s.flags.map(f => (
+                    <span key={f} className={`text-[10px] font-bold px-2 py-0.5 rounded flex items-center gap-1 ${FLAG_LABELS[f].className}`}>
+                      <AlertTriangle size={10} /> {FLAG_LABELS[f].label}
+                    </span>
+                  ))}
+                </div>
+              </div>
+
+              <div className="flex flex-wrap gap-4 text-[10px] text-slate-500 mb-2 font-mono">
+                <span>Attempts: <b className="text-slate-800">{s.attempts}</b></span>
+                <span>p: <b className="text-slate-800">{Math.round(s.pValue * 100)}%</b></span>
+                <span>D: <b className="text-slate-800">{s.discrimination ?? '—'}</b></span>
+                <span>Avg Time: <b className="text-slate-800">{s.avgTimeSeconds !== null ? `${s.avgTimeSeconds}s` : '—'}</b></span>
+                {s.skipped > 0 && <span>Skipped: <b className="text-slate-800">{s.skipped}</b></span>}
+              </div>
+
+              {/* Distractor frequencies; the key is green */}
+              <div className="space-y-1">
+                {s.optionCounts.map((count, i) => {
+                  const pct = answered > 0 ? Math.round((count / answered) * 100) : 0;
+                  const isKey = i === s.correctAnswer;
+                  return (
+                    <div key={i} className="flex items-center gap-2 text-[10px]">
+                      <span className={`w-5 font-bold ${isKey ? 'text-green-600' : 'text-slate-500'}`}>{String.fromCharCode(65 + i)}</span>
+                      <div className="flex-1 h-3 bg-slate-100 rounded overflow-hidden">
+                        <div className={`h-full ${isKey ? 'bg-green-500' : 'bg-slate-400'}`} style={{ width: `${pct}%` }} />
+                      </div>
+                      <span className="w-16 text-right font-mono text-slate-600">{count} ({pct}%)</span>
+                      {s.options?.[i] && <span className="w-1/3 truncate text-slate-500">{stripHtml(s.options[i])}</span>}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,99 @@
+import React, { useEffect, useState } from 'react';
+import { ApiKeyHealth, ApiKeyHealthStatus } from '../../types';
+import { subscribeToApiKeyHealth, resetApiKeyHealth } from '../../firebase';
+import { fingerprintApiKey, getKeyLabel, getKeyHealthStatus } from '../../services/keyHealth';
+import { Activity, RotateCcw } from 'lucide-react';
+
+interface Props {
+  configuredKeys: string[]; // Keys from settings, so unused keys still show up
+}
+
+const STATUS_STYLES: Record<ApiKeyHealthStatus, string> = {
+  HEALTHY: 'bg-green-100 text-green-700',
+  THROTTLED: 'bg-yellow-100 text-yellow-700',
+  DEAD: 'bg-red-100 text-red-700'
+};
+
+// Per-key health: which keys are dead, throttled or healthy, and why
+export const KeyHealthPanel: React.FC<Props> = ({ configuredKeys }) => {
+  const [records, setRecords] = useState<ApiKeyHealth[]>([]);
+  const [configured, setConfigured] = useState<{ fingerprint: string; label: string }[]>([]);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const unsub = subscribeToApiKeyHealth(setRecords);
+    const timer = setInterval(() => setNow(Date.now()), 5000); // Cooldown countdowns
+    return () => { unsub(); clearInterval(timer); };
+  }, []);
+
+  useEffect(() => {
+    const keys = Array.from(new Set(configuredKeys.filter(k => typeof k === 'string').map(k => k.trim()).filter(Boolean)));
+    Promise.all(keys.map(async k => ({ fingerprint: await fingerprintApiKey(k), label: getKeyLabel(k) }))).then(setConfigured);
+  }, [configuredKeys.join('|')]);
+
+  const byFingerprint = records.reduce((acc, r) => ({ ...acc, [r.fingerprint]: r }), {} as Record<string, ApiKeyHealth>);
+  const rows = [
+    ...records,
+    ...configured.filter(c => !byFingerprint[c.fingerprint]).map(c => ({ ...c, provider: undefined, successCount: 0, failureCount: 0, invalid: false } as unknown as ApiKeyHealth))
+  ];
+  const counts = rows.reduce((acc, r) => ({ ...acc, [getKeyHealthStatus(r, now)]: acc[getKeyHealthStatus(r, now)] + 1 }), { HEALTHY: 0, THROTTLED: 0, DEAD: 0 } as Record<ApiKeyHealthStatus, number>);
+  const isConfigured = (fingerprint: string) => configured.some(c => c.fingerprint === fingerprint);
+
+  const handleReinstate = async (r: ApiKeyHealth) => {
+    if (!confirm(`Put key ${r.label} back into rotation?`)) return;
+    await resetApiKeyHealth(r.fingerprint);
+  };
+
+  return (
+    <div className="bg-white p-4 rounded-xl border border-slate-200">
+      <h4 className="font-bold text-slate-800 mb-1 flex items-center gap-2">
+        <Activity size={18} className="text-blue-600" /> API Key Health
+      </h4>
+      <p className="text-xs text-slate-500 mb-3">Invalid keys are skipped until reinstated. Rate-limited keys rejoin rotation when their cooldown ends.</p>
+
+      <div className="grid grid-cols-3 gap-2 mb-3">
+        {(['HEALTHY', 'THROTTLED', 'DEAD'] as ApiKeyHealthStatus[]).map(s => (
+          <div key={s} className={`p-2 rounded-lg text-center ${STATUS_STYLES[s]}`}>
+            <p className="text-lg font-black">{counts[s]}</p>
+            <p className="text-[10px] font-bold uppercase">{s}</p>
+          </div>
+        ))}
+      </div>
+
+      {rows.length === 0 ? (
+        <p className="text-xs text-slate-400 italic">No key activity recorded yet.</p>
+      ) : (
+        <div className="space-y-2 max-h-72 overflow-y-auto">
+          {rows.map(r => {
+            const status = getKeyHealthStatus(r, now);
+            return (
+              <div key={r.fingerprint} className="p-2 rounded-lg border border-slate-100 bg-slate-50 text-xs">
+                <div className="flex justify-between items-center gap-2">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <span className={`text-[10px] font-bold px-2 py-0.5 rounded-full ${STATUS_STYLES[status]}`}>{status}</span>
+                    <span className="font-mono font-bold text-slate-700">{r.label}</span>
+                    <span className="text-[10px] text-slate-400 font-mono truncate">{r.provider || 'UNUSED'} • {r.fingerprint}</span>
+                    {!isConfigured(r.fingerprint) && <span className="text-[9px] text-slate-400 italic">not in settings</span>}
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <span className="text-[10px] text-green-700 font-bold">{r.successCount || 0} ok</span>
+                    <span className="text-[10px] text-red-600 font-bold">{r.failureCount || 0} fail</span>
+                    {status !== 'HEALTHY' && (
+                      <button onClick={() => handleReinstate(r)} className="text-[10px] font-bold text-blue-600 flex items-center gap-1 hover:underline"><RotateCcw size={10} /> Reinstate</button>
+                    )}
+                  </div>
+                </div>
+                {status === 'THROTTLED' && r.cooldownUntil && (
+                  <p className="text-[10px] text-yellow-700 mt-1">Cooling down for {Math.ceil((r.cooldownUntil - now) / 1000)}s</p>
+                )}
+                {r.lastError && (
+                  <p className="text-[10px] text-slate-500 mt-1 break-all">Last error{r.lastErrorAt ? ` (${new Date(r.lastErrorAt).toLocaleString()})` : ''}: {r.lastError}</p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
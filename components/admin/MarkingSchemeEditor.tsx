@@ -0,0 +1,111 @@
+import React from 'react';
+import { MarkingScheme, MCQItem, TestSection } from '../../types';
+import { MARKING_PRESETS, DEFAULT_MARKING_SCHEME, getSectionRanges, getQuestionMaxMarks, describeMarkingScheme } from '../../services/markingSchemes';
+import { Plus, Trash2, Scale } from 'lucide-react';
+
+interface Props {
+  scheme?: MarkingScheme;
+  sections: TestSection[];
+  questions: MCQItem[]; // For the question count check and the max marks preview
+  onChange: (scheme: MarkingScheme | undefined, sections: TestSection[]) => void;
+}
+
+const presetIdOf = (scheme?: MarkingScheme) => {
+  if (!scheme) return '';
+  const match = MARKING_PRESETS.find(p => JSON.stringify(p.scheme) === JSON.stringify(scheme));
+  return match ? match.id : 'CUSTOM';
+};
+
+// Marking scheme and sections, shared by the weekly test builder and the Challenge 2.0 creator
+export const MarkingSchemeEditor: React.FC<Props> = ({ scheme, sections, questions, onChange }) => {
+  const presetId = presetIdOf(scheme);
+  const current = scheme || DEFAULT_MARKING_SCHEME;
+  const assigned = sections.reduce((sum, s) => sum + (s.questionCount || 0), 0);
+  const ranges = getSectionRanges({ questions, markingScheme: scheme, sections });
+  const maxMarks = ranges.reduce((sum, r) => sum + questions.slice(r.start, r.end)
+    .reduce((t, q) => t + getQuestionMaxMarks(q, r.section.markingScheme || current), 0), 0);
+
+  const setScheme = (patch: Partial<MarkingScheme>) => onChange({ ...current, ...patch }, sections);
+  const setSection = (idx: number, patch: Partial<TestSection>) => onChange(scheme, sections.map((s, i) => i === idx ? { ...s, ...patch } : s));
+  const inputClass = "w-full p-2 border border-slate-200 rounded-lg text-xs";
+  const labelClass = "text-[10px] font-bold text-slate-500 uppercase block mb-1";
+
+  return (
+    <div className="bg-white p-4 rounded-xl border border-slate-200 space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="font-bold text-slate-700 text-sm flex items-center gap-2"><Scale size={16} /> Marking Scheme & Sections</p>
+        <span className="text-[10px] font-bold text-slate-500">Max Marks: {maxMarks}</span>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-2 items-end">
+        <div className="col-span-2">
+          <label className={labelClass}>Scheme</label>
+          <select
+            value={presetId}
+            onChange={e => {
+              const preset = MARKING_PRESETS.find(p => p.id === e.target.value);
+              if (e.target.value === '') onChange(undefined, sections);
+              else if (preset) onChange(preset.scheme, sections);
+              else onChange({ ...current }, sections);
+            }}
+            className={inputClass + " bg-white"}
+          >
+            <option value="">Default (+1 / 0)</option>
+            {MARKING_PRESETS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+            <option value="CUSTOM">Custom</option>
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>Correct</label>
+          <input type="number" value={current.correct} onChange={e => setScheme({ correct: Number(e.target.value) })} className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass}>Wrong</label>
+          <input type="number" value={current.incorrect} max={0} onChange={e => setScheme({ incorrect: -Math.abs(Number(e.target.value)) })} className={inputClass} />
+        </div>
+        <label className="flex items-center gap-2 text-xs font-bold text-slate-600 pb-2">
+          <input type="checkbox" checked={!!current.partialCredit} onChange={e => setScheme({ partialCredit: e.target.checked })} />
+          Partial credit
+        </label>
+      </div>
+      {scheme && <p className="text-[10px] text-slate-500">{describeMarkingScheme(scheme)}</p>}
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <p className={labelClass}>Sections (in question order)</p>
+          <button
+            onClick={() => onChange(scheme, [...sections, { id: `sec-${Date.now()}`, name: `Section ${String.fromCharCode(65 + sections.length)}`, questionCount: Math.max(0, questions.length - assigned) }])}
+            className="text-[10px] font-bold text-blue-600 flex items-center gap-1"
+          >
+            <Plus size={12} /> Add Section
+          </button>
+        </div>
+        {sections.map((section, idx) => (
+          <div key={section.id} className="grid grid-cols-12 gap-2 items-center">
+            <input value={section.name} onChange={e => setSection(idx, { name: e.target.value })} placeholder="Section name" className={inputClass + " col-span-4"} />
+            <input type="number" min={0} value={section.questionCount} onChange={e => setSection(idx, { questionCount: Math.max(0, Number(e.target.value)) })} title="Questions" className={inputClass + " col-span-2"} />
+            <input type="number" min={0} value={section.durationMinutes || ''} onChange={e => setSection(idx, { durationMinutes: Number(e.target.value) || undefined })} placeholder="Mins" title="Own time limit (minutes)" className={inputClass + " col-span-2"} />
+            <select
+              value={presetIdOf(section.markingScheme)}
+              onChange={e => setSection(idx, { markingScheme: MARKING_PRESETS.find(p => p.id === e.target.value)?.scheme })}
+              className={inputClass + " col-span-3 bg-white"}
+            >
+              <option value="">Test scheme</option>
+              {MARKING_PRESETS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+              {presetIdOf(section.markingScheme) === 'CUSTOM' && <option value="CUSTOM">Custom</option>}
+            </select>
+            <button onClick={() => onChange(scheme, sections.filter((_, i) => i !== idx))} className="col-span-1 text-slate-400 hover:text-red-500 flex justify-center"><Trash2 size={14} /></button>
+          </div>
+        ))}
+        {sections.length > 0 && (
+          <p className={`text-[10px] ${assigned > questions.length ? 'text-red-600 font-bold' : 'text-slate-500'}`}>
+            {assigned} of {questions.length} question(s) assigned
+            {assigned < questions.length && ` — the last ${questions.length - assigned} form "Other Questions"`}
+            {assigned > questions.length && ' — more than the test has; later sections will be cut short'}
+            {sections.some(s => s.durationMinutes) && '. Timed sections run one after another and lock when their time is up.'}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,96 @@
+import React, { useEffect, useState } from 'react';
+import { MorningInsightConfig, MorningInsightRecord, User } from '../../types';
+import { getMorningInsightArchive } from '../../firebase';
+import { runMorningInsights } from '../../services/morningInsight';
+import { Sparkles, RefreshCw, Save } from 'lucide-react';
+
+interface Props {
+  config: MorningInsightConfig;
+  onConfigChange: (config: MorningInsightConfig) => void;
+  onSave: () => void; // Persists settings (the schedule itself runs in AdminDashboard)
+  users: User[];
+}
+
+// Schedule, manual run and archive of the per-class Morning Insight banners
+export const MorningInsightPanel: React.FC<Props> = ({ config, onConfigChange, onSave, users }) => {
+  const [archive, setArchive] = useState<MorningInsightRecord[]>([]);
+  const [classFilter, setClassFilter] = useState('ALL');
+  const [isRunning, setIsRunning] = useState(false);
+  const [log, setLog] = useState<string[]>([]);
+
+  const loadArchive = async () => setArchive(await getMorningInsightArchive());
+
+  useEffect(() => { loadArchive(); }, []);
+
+  const handleRunNow = async () => {
+    if (!confirm("Generate today's insights for every class now? Existing insights for today are replaced.")) return;
+    setIsRunning(true);
+    setLog([]);
+    const count = await runMorningInsights({ morningInsightConfig: config }, users, msg => setLog(prev => [msg, ...prev]));
+    setLog(prev => [`🏁 ${count} insight(s) generated.`, ...prev]);
+    setIsRunning(false);
+    loadArchive();
+  };
+
+  const classes = Array.from(new Set(archive.map(i => i.classLevel)));
+  const visible = archive.filter(i => classFilter === 'ALL' || i.classLevel === classFilter);
+
+  return (
+    <div className="bg-orange-50 p-4 rounded-2xl border border-orange-200 mb-6">
+      <h4 className="font-bold text-slate-800 mb-1 flex items-center gap-2">
+        <Sparkles size={18} className="text-orange-600" /> Morning Insight
+      </h4>
+      <p className="text-xs text-slate-500 mb-3">One banner per board and class each day, built from the questions students got wrong in the last 24 hours. Generated on the server every 15 minutes after the scheduled hour (Indian time), no dashboard needed; a class that fails 3 times is skipped until the next day (Run still retries it).</p>
+
+      <div className="grid grid-cols-4 gap-2 items-end mb-3">
+        <label className="flex items-center gap-2 text-xs font-bold text-slate-600 p-2">
+          <input type="checkbox" checked={config.enabled} onChange={e => onConfigChange({ ...config, enabled: e.target.checked })} />
+          Daily Schedule
+        </label>
+        <div>
+          <label className="text-[10px] font-bold text-slate-500 uppercase block mb-1">After Hour (0-23, IST)</label>
+          <input type="number" min={0} max={23} value={config.hour} onChange={e => onConfigChange({ ...config, hour: Number(e.target.value) })} className="w-full p-2 border rounded-lg text-xs font-bold text-center" />
+        </div>
+        <div>
+          <label className="text-[10px] font-bold text-slate-500 uppercase block mb-1">Min Results</label>
+          <input type="number" min={1} value={config.minResults} onChange={e => onConfigChange({ ...config, minResults: Number(e.target.value) })} className="w-full p-2 border rounded-lg text-xs font-bold text-center" />
+        </div>
+        <div className="flex gap-2">
+          <button onClick={onSave} className="flex-1 bg-slate-800 text-white p-2 rounded-lg text-xs font-bold flex items-center justify-center gap-1">
+            <Save size={12} /> Save
+          </button>
+          <button onClick={handleRunNow} disabled={isRunning} className="flex-1 bg-orange-600 text-white p-2 rounded-lg text-xs font-bold flex items-center justify-center gap-1 disabled:opacity-50">
+            <RefreshCw size={12} className={isRunning ? 'animate-spin' : ''} /> Run
+          </button>
+        </div>
+      </div>
+
+      {log.length > 0 && (
+        <div className="bg-white rounded-lg border border-orange-100 p-2 mb-3 max-h-24 overflow-y-auto">
+          {log.map((l, i) => <p key={i} className="text-[10px] font-mono text-slate-600">{l}</p>)}
+        </div>
+      )}
+
+      <div className="flex justify-between items-center mb-2">
+        <p className="text-[10px] font-bold text-slate-500 uppercase">Archive ({visible.length})</p>
+        <select value={classFilter} onChange={e => setClassFilter(e.target.value)} className="text-[10px] border rounded p-1">
+          <option value="ALL">All Classes</option>
+          {classes.map(c => <option key={c} value={c}>Class {c}</option>)}
+        </select>
+      </div>
+      <div className="space-y-2 max-h-72 overflow-y-auto">
+        {visible.length === 0 && <p className="text-xs text-slate-400 italic">No insights generated yet.</p>}
+        {visible.map(i => (
+          <div key={i.id} className="bg-white p-3 rounded-lg border border-orange-100 text-xs">
+            <div className="flex justify-between items-center mb-1">
+              <span className="font-bold text-slate-800">{i.title}</span>
+              <span className="text-[10px] text-slate-400 font-mono">{i.date} • {i.board} • Class {i.classLevel} • {i.sampleSize} results</span>
+            </div>
+            <p className="text-slate-600"><span className="font-bold text-red-600">Trap:</span> {i.commonTrap}</p>
+            <p className="text-slate-600"><span className="font-bold text-green-600">Tip:</span> {i.proTip}</p>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
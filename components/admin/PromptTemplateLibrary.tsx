@@ -0,0 +1,291 @@
+import React, { useEffect, useState } from 'react';
+import { Board, ClassLevel, Language, PromptTemplate, PromptTemplateTask, PromptTemplateUsage, Stream, SystemSettings } from '../../types';
+import { subscribeToPromptTemplateUsage } from '../../firebase';
+import { processTemplate } from '../../services/aiContent';
+import {
+  PROMPT_TEMPLATE_TASKS, PROMPT_VARIABLES, getPromptTemplates, isLegacyTemplate, importLegacyPromptTemplates,
+  createPromptTemplate, updatePromptTemplate, restorePromptTemplateVersion, resolvePromptTemplate,
+  matchesPromptContext, findUnknownVariables
+} from '../../services/promptTemplates';
+import { FieldDiff } from './DiffView';
+import { PenTool, Plus, Save, Trash2, History, RotateCcw, Eye, ArrowLeft, AlertTriangle, Download } from 'lucide-react';
+
+export interface PromptPreviewContext {
+  board: Board;
+  classLevel: ClassLevel;
+  stream: Stream | null;
+  subjectName: string;
+  chapterTitle: string;
+  syllabusMode: 'SCHOOL' | 'COMPETITION';
+  language: Language;
+}
+
+interface Props {
+  settings: SystemSettings;
+  authorName: string;
+  previewContext: PromptPreviewContext | null; // Chapter currently selected in the generator
+  onSave: (templates: PromptTemplate[]) => void;
+}
+
+const TASK_LABELS: Record<PromptTemplateTask, string> = {
+  NOTES: 'Notes',
+  NOTES_PREMIUM: 'Premium Notes',
+  MCQ: 'MCQ'
+};
+
+const describeScope = (t: PromptTemplate) => {
+  const classes = t.classFrom !== undefined || t.classTo !== undefined ? `Class ${t.classFrom ?? 6}-${t.classTo ?? 12}` : 'All Classes';
+  return [t.board === 'ANY' ? 'All Boards' : t.board, t.syllabusMode === 'ANY' ? 'Any Mode' : t.syllabusMode, classes, t.language === 'ANY' ? 'Any Language' : t.language].join(' • ');
+};
+
+const parseClass = (value: string) => value === '' ? undefined : Math.max(6, Math.min(12, parseInt(value, 10)));
+
+// Admin editor for the prompt template registry: scoped templates, version history, preview, usage
+export const PromptTemplateLibrary: React.FC<Props> = ({ settings, authorName, previewContext, onSave }) => {
+  const templates = getPromptTemplates(settings);
+  const pendingLegacy = templates.filter(isLegacyTemplate).length;
+
+  const [usage, setUsage] = useState<Record<string, PromptTemplateUsage>>({});
+  const [editing, setEditing] = useState<PromptTemplate | null>(null);
+  const [versionNote, setVersionNote] = useState('');
+  const [compareVersion, setCompareVersion] = useState<number | null>(null);
+  const [sampleCount, setSampleCount] = useState('20');
+
+  useEffect(() => {
+    const unsub = subscribeToPromptTemplateUsage((list) => {
+      setUsage(list.reduce((acc, u) => ({ ...acc, [u.templateId]: u }), {}));
+    });
+    return () => unsub();
+  }, []);
+
+  const saveTemplates = (next: PromptTemplate[]) => onSave(next);
+
+  const handleImportLegacy = () => {
+    if (!confirm("Import the existing prompt fields into the template library?\n\nAfter import, edits are versioned and the old fields are no longer used.")) return;
+    saveTemplates(importLegacyPromptTemplates(settings));
+  };
+
+  const handleNew = () => {
+    setEditing(createPromptTemplate({ name: 'New Template', task: 'NOTES', board: 'ANY', syllabusMode: 'ANY', language: 'ANY', body: '', enabled: true }));
+    setVersionNote('');
+    setCompareVersion(null);
+  };
+
+  const handleSave = () => {
+    if (!editing) return;
+    if (!editing.body.trim()) { alert("Template body is empty."); return; }
+    const existing = (settings.promptTemplates || []).find(t => t.id === editing.id);
+    const saved = existing ? updatePromptTemplate(existing, editing, authorName, versionNote || undefined) : editing;
+    const next = existing
+      ? (settings.promptTemplates || []).map(t => t.id === saved.id ? saved : t)
+      : [...(settings.promptTemplates || []), saved];
+    saveTemplates(next);
+    setEditing(saved);
+    setVersionNote('');
+  };
+
+  const handleDelete = () => {
+    if (!editing || !confirm(`Delete template "${editing.name}"?`)) return;
+    saveTemplates((settings.promptTemplates || []).filter(t => t.id !== editing.id));
+    setEditing(null);
+  };
+
+  const handleRestore = (version: number) => {
+    if (!editing || !confirm(`Restore v${version}? The current body is kept in history.`)) return;
+    const restored = restorePromptTemplateVersion(editing, version, authorName);
+    saveTemplates((settings.promptTemplates || []).map(t => t.id === restored.id ? restored : t));
+    setEditing(restored);
+    setCompareVersion(null);
+  };
+
+  const toggleEnabled = (template: PromptTemplate) => {
+    saveTemplates((settings.promptTemplates || []).map(t => t.id === template.id ? { ...t, enabled: !t.enabled } : t));
+  };
+
+  const renderPreview = (template: PromptTemplate) => {
+    if (!previewContext) return '';
+    return processTemplate(template.body, {
+      board: previewContext.board,
+      class: previewContext.classLevel,
+      stream: previewContext.stream || '',
+      subject: previewContext.subjectName,
+      chapter: previewContext.chapterTitle,
+      language: previewContext.language,
+      count: sampleCount,
+      instruction: settings.aiInstruction ? `IMPORTANT INSTRUCTION: ${settings.aiInstruction}` : ''
+    });
+  };
+
+  // --- EDITOR ---
+  if (editing) {
+    const readOnly = isLegacyTemplate(editing);
+    const unknownVars = findUnknownVariables(editing.body);
+    const stats = usage[editing.id];
+    const compared = (editing.history || []).find(h => h.version === compareVersion);
+    const previewCtx = previewContext && { board: previewContext.board, classLevel: previewContext.classLevel, syllabusMode: previewContext.syllabusMode, language: previewContext.language };
+    const winner = previewCtx ? resolvePromptTemplate(editing.task, previewCtx, templates) : null;
+
+    return (
+      <div className="bg-slate-50 p-6 rounded-2xl border border-slate-200">
+        <div className="flex items-center gap-3 mb-4">
+          <button onClick={() => setEditing(null)} className="bg-white border border-slate-200 p-2 rounded-full hover:bg-slate-100"><ArrowLeft size={16} /></button>
+          <div className="flex-1">
+            <h4 className="font-bold text-slate-800">{editing.name}</h4>
+            <p className="text-[10px] text-slate-500 font-mono uppercase">v{editing.version} • {stats?.total || 0} uses{stats?.lastUsedAt ? ` • last ${new Date(stats.lastUsedAt).toLocaleString()}` : ''}</p>
+          </div>
+        </div>
+
+        {readOnly && (
+          <p className="text-xs bg-amber-50 border border-amber-200 text-amber-700 p-2 rounded-lg mb-3">Legacy prompt field. Import the legacy prompts to edit and version it.</p>
+        )}
+
+        <div className="grid grid-cols-2 gap-2 mb-3">
+          <input value={editing.name} disabled={readOnly} onChange={e => setEditing({ ...editing, name: e.target.value })} className="col-span-2 p-2 border rounded-lg text-sm font-bold" placeholder="Template name" />
+          <select value={editing.task} disabled={readOnly} onChange={e => setEditing({ ...editing, task: e.target.value as PromptTemplateTask })} className="p-2 border rounded-lg text-xs">
+            {PROMPT_TEMPLATE_TASKS.map(t => <option key={t} value={t}>{TASK_LABELS[t]}</option>)}
+          </select>
+          <select value={editing.board} disabled={readOnly} onChange={e => setEditing({ ...editing, board: e.target.value as PromptTemplate['board'] })} className="p-2 border rounded-lg text-xs">
+            <option value="ANY">All Boards</option>
+            <option value="CBSE">CBSE</option>
+            <option value="BSEB">BSEB</option>
+            <option value="COMPETITION">COMPETITION</option>
+          </select>
+          <select value={editing.syllabusMode} disabled={readOnly} onChange={e => setEditing({ ...editing, syllabusMode: e.target.value as PromptTemplate['syllabusMode'] })} className="p-2 border rounded-lg text-xs">
+            <option value="ANY">Any Syllabus Mode</option>
+            <option value="SCHOOL">School</option>
+            <option value="COMPETITION">Competition</option>
+          </select>
+          <select value={editing.language} disabled={readOnly} onChange={e => setEditing({ ...editing, language: e.target.value as PromptTemplate['language'] })} className="p-2 border rounded-lg text-xs">
+            <option value="ANY">Any Language</option>
+            <option value="English">English</option>
+            <option value="Hindi">Hindi</option>
+          </select>
+          <input type="number" min={6} max={12} disabled={readOnly} value={editing.classFrom ?? ''} onChange={e => setEditing({ ...editing, classFrom: parseClass(e.target.value) })} className="p-2 border rounded-lg text-xs" placeholder="Class from (any)" />
+          <input type="number" min={6} max={12} disabled={readOnly} value={editing.classTo ?? ''} onChange={e => setEditing({ ...editing, classTo: parseClass(e.target.value) })} className="p-2 border rounded-lg text-xs" placeholder="Class to (any)" />
+        </div>
+
+        <p className="text-[10px] text-slate-500 mb-1">Variables: <code>{PROMPT_VARIABLES.map(v => `{${v}}`).join(', ')}</code></p>
+        <textarea
+          value={editing.body}
+          disabled={readOnly}
+          onChange={e => setEditing({ ...editing, body: e.target.value })}
+          className="w-full p-3 border rounded-xl h-48 text-xs font-mono"
+          placeholder="Write detailed study notes for {board} Class {class} {subject}, Chapter: {chapter}..."
+        />
+        {unknownVars.length > 0 && (
+          <p className="text-[10px] text-red-600 flex items-center gap-1 mt-1"><AlertTriangle size={12} /> Unknown variables (left as-is): {unknownVars.map(v => `{${v}}`).join(', ')}</p>
+        )}
+
+        {!readOnly && (
+          <div className="flex flex-wrap gap-2 mt-3">
+            <input value={versionNote} onChange={e => setVersionNote(e.target.value)} className="flex-1 min-w-[140px] p-2 border rounded-lg text-xs" placeholder="Change note (optional)" />
+            <button onClick={handleSave} className="px-4 py-2 bg-slate-800 text-white rounded-lg text-xs font-bold flex items-center gap-1 hover:bg-slate-900"><Save size={12} /> Save Version</button>
+            {(settings.promptTemplates || []).some(t => t.id === editing.id) && (
+              <button onClick={handleDelete} className="px-3 py-2 bg-red-50 border border-red-200 text-red-600 rounded-lg text-xs font-bold flex items-center gap-1"><Trash2 size={12} /></button>
+            )}
+          </div>
+        )}
+
+        {/* PREVIEW */}
+        <div className="mt-5 border-t pt-4">
+          <p className="text-xs font-bold text-slate-500 uppercase mb-2 flex items-center gap-1"><Eye size={12} /> Preview</p>
+          {!previewContext ? (
+            <p className="text-xs text-slate-400 italic">Select a chapter in the Content Generator to preview the final prompt.</p>
+          ) : (
+            <>
+              <div className="flex flex-wrap items-center gap-2 text-[10px] mb-2">
+                <span className="font-mono text-slate-600">{previewContext.board} • Class {previewContext.classLevel} • {previewContext.subjectName} • {previewContext.chapterTitle} • {previewContext.syllabusMode}</span>
+                {editing.task === 'MCQ' && (
+                  <label className="flex items-center gap-1">{'{count}'} <input type="number" value={sampleCount} onChange={e => setSampleCount(e.target.value)} className="w-14 p-1 border rounded" /></label>
+                )}
+              </div>
+              {!matchesPromptContext(editing, previewCtx!) ? (
+                <p className="text-[10px] text-amber-700 mb-2">This template's scope does not cover the selected chapter.</p>
+              ) : winner && winner.id !== editing.id ? (
+                <p className="text-[10px] text-amber-700 mb-2">A more specific template wins for this chapter: <b>{winner.name}</b></p>
+              ) : (
+                <p className="text-[10px] text-green-700 mb-2">This template is used for the selected chapter.</p>
+              )}
+              <pre className="bg-white border rounded-lg p-3 text-[10px] whitespace-pre-wrap max-h-64 overflow-y-auto">{renderPreview(editing)}</pre>
+            </>
+          )}
+        </div>
+
+        {/* HISTORY */}
+        {(editing.history || []).length > 0 && (
+          <div className="mt-5 border-t pt-4">
+            <p className="text-xs font-bold text-slate-500 uppercase mb-2 flex items-center gap-1"><History size={12} /> Version History</p>
+            <div className="space-y-1 max-h-48 overflow-y-auto mb-2">
+              {editing.history.map(h => (
+                <div key={h.version} className={`flex justify-between items-center p-2 rounded-lg border text-[10px] ${compareVersion === h.version ? 'bg-blue-50 border-blue-300' : 'bg-white border-slate-100'}`}>
+                  <button onClick={() => setCompareVersion(compareVersion === h.version ? null : h.version)} className="text-left flex-1">
+                    <span className="font-bold text-slate-700">v{h.version}</span> • {new Date(h.createdAt).toLocaleString()} • replaced by {h.authorName}{h.note ? ` — ${h.note}` : ''}
+                    <span className="text-slate-400"> • {usage[editing.id]?.byVersion?.[`v${h.version}`] || 0} uses</span>
+                  </button>
+                  <button onClick={() => handleRestore(h.version)} className="text-orange-600 font-bold flex items-center gap-1 ml-2"><RotateCcw size={10} /> Restore</button>
+                </div>
+              ))}
+            </div>
+            {compared && (
+              <>
+                <div className="grid grid-cols-2 gap-2 mb-1 text-[10px] font-bold uppercase text-slate-400">
+                  <span>v{compared.version}</span>
+                  <span>Current (v{editing.version})</span>
+                </div>
+                <FieldDiff before={compared.body} after={editing.body} />
+              </>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  // --- LIST ---
+  return (
+    <div className="bg-slate-50 p-6 rounded-2xl border border-slate-200">
+      <div className="flex justify-between items-center mb-4">
+        <h4 className="font-bold text-slate-800 flex items-center gap-2"><PenTool size={20} /> Prompt Library</h4>
+        <div className="flex gap-2">
+          {pendingLegacy > 0 && (
+            <button onClick={handleImportLegacy} className="px-3 py-1.5 bg-amber-100 text-amber-700 rounded-lg text-xs font-bold flex items-center gap-1"><Download size={12} /> Import Legacy ({pendingLegacy})</button>
+          )}
+          <button onClick={handleNew} className="px-3 py-1.5 bg-slate-800 text-white rounded-lg text-xs font-bold flex items-center gap-1"><Plus size={12} /> New</button>
+        </div>
+      </div>
+      <p className="text-xs text-slate-500 mb-4">The most specific enabled template for the chapter's board, syllabus mode, class and language is used. Templates without a match fall back to the built-in prompt.</p>
+
+      {templates.length === 0 ? (
+        <p className="text-slate-400 text-sm text-center py-8 bg-white rounded-xl border border-dashed border-slate-200">No templates yet. Built-in prompts are in use.</p>
+      ) : (
+        <div className="space-y-4">
+          {PROMPT_TEMPLATE_TASKS.map(task => {
+            const list = templates.filter(t => t.task === task);
+            if (list.length === 0) return null;
+            return (
+              <div key={task}>
+                <p className="text-[10px] font-bold text-slate-400 uppercase mb-1">{TASK_LABELS[task]}</p>
+                <div className="space-y-2">
+                  {list.map(t => (
+                    <div key={t.id} className={`p-3 rounded-xl border bg-white flex justify-between items-center gap-2 ${t.enabled ? 'border-slate-200' : 'border-slate-100 opacity-60'}`}>
+                      <button onClick={() => { setEditing(t); setVersionNote(''); setCompareVersion(null); }} className="text-left flex-1 min-w-0">
+                        <p className="font-bold text-slate-800 text-sm truncate">{t.name} <span className="text-[10px] text-slate-400 font-mono">v{t.version}</span></p>
+                        <p className="text-[10px] text-slate-500">{describeScope(t)}</p>
+                      </button>
+                      <span className="text-[10px] font-bold text-slate-500 whitespace-nowrap">{usage[t.id]?.total || 0} uses</span>
+                      {!isLegacyTemplate(t) && (
+                        <button onClick={() => toggleEnabled(t)} className={`text-[10px] font-bold px-2 py-1 rounded-full ${t.enabled ? 'bg-green-100 text-green-700' : 'bg-slate-200 text-slate-500'}`}>
+                          {t.enabled ? 'ON' : 'OFF'}
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,311 @@
+import React, { useEffect, useState } from 'react';
+import { Board, BloomLevel, ClassLevel, QuestionBankFilters, QuestionBankItem, QuestionBankTags, QuestionDifficulty, QuestionDuplicateGroup } from '../../types';
+import { queryQuestionBank, loadBankItems, updateQuestionBankTags, deleteQuestionsFromBank, autoTagBankItems, findDuplicateGroups, mergeDuplicateGroup, getBankStats, BLOOM_LEVELS } from '../../services/questionBank';
+import { fetchChapters } from '../../services/aiContent';
+import { getSubjectsList } from '../../constants';
+import { BankTagFilters } from './BankTagFilters';
+import { ArrowLeft, Search, Tag, Trash2, Sparkles, Copy, RefreshCw, Database } from 'lucide-react';
+
+interface Props {
+  onBack: () => void;
+  board: Board; // Chapter lists are loaded for this board
+}
+
+const CLASSES: ClassLevel[] = ['6', '7', '8', '9', '10', '11', '12', 'COMPETITION'];
+const PAGE_SIZE = 50;
+const SCAN_LIMIT = 1500; // Duplicate scans are pairwise, so they are capped
+
+// '' keeps a tag as it is, CLEAR removes it
+const KEEP = '';
+const CLEAR = 'CLEAR';
+
+const stripHtml = (text: string) => (text || '').replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim();
+
+// Search, bulk tagging, AI auto-tagging and near-duplicate merging over the shared question bank
+export const QuestionBankConsole: React.FC<Props> = ({ onBack, board }) => {
+  const [classLevel, setClassLevel] = useState<ClassLevel>('10');
+  const [filters, setFilters] = useState<QuestionBankFilters>({});
+  const [items, setItems] = useState<QuestionBankItem[]>([]);
+  const [cursor, setCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [stats, setStats] = useState<{ total: number; byClass: Record<string, number> } | null>(null);
+  const [chapters, setChapters] = useState<{ id: string; title: string }[]>([]);
+
+  // Bulk edit
+  const [editChapter, setEditChapter] = useState(KEEP);
+  const [editTopic, setEditTopic] = useState(KEEP);
+  const [editDifficulty, setEditDifficulty] = useState(KEEP);
+  const [editBloom, setEditBloom] = useState(KEEP);
+
+  // Auto-tag
+  const [overwriteTags, setOverwriteTags] = useState(false);
+  const [isTagging, setIsTagging] = useState(false);
+  const [log, setLog] = useState<string[]>([]);
+
+  // Duplicates
+  const [threshold, setThreshold] = useState(0.85);
+  const [groups, setGroups] = useState<QuestionDuplicateGroup[] | null>(null);
+  const [isScanning, setIsScanning] = useState(false);
+
+  const criteria = { ...filters, classLevel };
+
+  const loadPage = async (reset: boolean) => {
+    setLoading(true);
+    const page = await queryQuestionBank(criteria, PAGE_SIZE, reset ? null : cursor);
+    setItems(prev => reset ? page.items : [...prev, ...page.items]);
+    setCursor(page.nextCursor);
+    if (reset) setSelected([]);
+    setLoading(false);
+  };
+
+  useEffect(() => { getBankStats().then(setStats); }, []);
+
+  useEffect(() => {
+    loadPage(true);
+    setGroups(null);
+  }, [classLevel, filters.subject, filters.chapterId, filters.topic, filters.difficulty, filters.bloomLevel, filters.source]);
+
+  // Chapter tags come from the syllabus of the selected subject
+  useEffect(() => {
+    const subject = getSubjectsList(classLevel, 'Science').find(s => s.name === filters.subject);
+    if (!subject) {
+      setChapters([]);
+      return;
+    }
+    fetchChapters(board, classLevel, 'Science', subject, 'English')
+      .then(list => setChapters(list.map(c => ({ id: c.id, title: c.title }))))
+      .catch(() => setChapters([]));
+  }, [board, classLevel, filters.subject]);
+
+  const selectedItems = items.filter(i => selected.includes(i.id));
+  const toggle = (id: string) => setSelected(prev => prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]);
+
+  const handleApplyTags = async () => {
+    const tags: QuestionBankTags = {};
+    if (editChapter === CLEAR) tags.chapterId = null;
+    else if (editChapter) {
+      tags.chapterId = editChapter;
+      tags.topic = chapters.find(c => c.id === editChapter)?.title || null;
+    }
+    if (editTopic.trim()) tags.topic = editTopic.trim();
+    if (editDifficulty) tags.difficulty = editDifficulty === CLEAR ? null : editDifficulty as QuestionDifficulty;
+    if (editBloom) tags.bloomLevel = editBloom === CLEAR ? null : editBloom as BloomLevel;
+    if (Object.keys(tags).length === 0) {
+      alert("Choose at least one tag to change.");
+      return;
+    }
+
+    setLoading(true);
+    const ok = await updateQuestionBankTags(selectedItems, tags);
+    setLoading(false);
+    if (!ok) {
+      alert("Failed to update tags.");
+      return;
+    }
+    setEditChapter(KEEP);
+    setEditTopic(KEEP);
+    setEditDifficulty(KEEP);
+    setEditBloom(KEEP);
+    loadPage(true);
+  };
+
+  const handleDelete = async () => {
+    if (!confirm(`Delete ${selectedItems.length} question(s) from the bank? This cannot be undone.`)) return;
+    setLoading(true);
+    await deleteQuestionsFromBank(selectedItems.map(i => i.id));
+    setLoading(false);
+    loadPage(true);
+  };
+
+  const handleAutoTag = async () => {
+    // Selected items, or every loaded item that is still missing a tag
+    const targets = selectedItems.length > 0 ? selectedItems : items.filter(i => overwriteTags || !i.difficulty || !i.bloomLevel || !i.chapterId);
+    if (targets.length === 0) {
+      alert("Nothing to tag on this page.");
+      return;
+    }
+    if (!confirm(`Auto-tag ${targets.length} question(s) with AI?${chapters.length === 0 ? '\n\nSelect a subject first to also tag chapters.' : ''}`)) return;
+
+    setIsTagging(true);
+    setLog([]);
+    const { tagged, failed } = await autoTagBankItems(targets, chapters, msg => setLog(prev => [msg, ...prev]), overwriteTags);
+    setLog(prev => [`🏁 ${tagged} tagged, ${failed} failed.`, ...prev]);
+    setIsTagging(false);
+    loadPage(true);
+  };
+
+  const handleScan = async () => {
+    setIsScanning(true);
+    // Search is ignored: duplicates are looked for across the whole class / subject
+    const scope = await loadBankItems({ classLevel, subject: filters.subject }, SCAN_LIMIT);
+    setGroups(findDuplicateGroups(scope, threshold));
+    setIsScanning(false);
+  };
+
+  const handleMerge = async (group: QuestionDuplicateGroup) => {
+    const ok = await mergeDuplicateGroup(group);
+    if (!ok) {
+      alert("Merge failed.");
+      return;
+    }
+    setGroups(prev => prev ? prev.filter(g => g.keep.id !== group.keep.id) : prev);
+  };
+
+  const handleMergeAll = async () => {
+    if (!groups || !confirm(`Merge all ${groups.length} group(s)? ${groups.reduce((sum, g) => sum + g.duplicates.length, 0)} question(s) will be deleted.`)) return;
+    setIsScanning(true);
+    for (const group of groups) await handleMerge(group);
+    setIsScanning(false);
+    loadPage(true);
+  };
+
+  const renderTags = (item: QuestionBankItem) => (
+    <div className="flex flex-wrap gap-1 mt-1">
+      <span className="text-[9px] bg-slate-100 text-slate-600 px-1.5 py-0.5 rounded">{item.subject}</span>
+      {item.topic && <span className="text-[9px] bg-blue-50 text-blue-700 px-1.5 py-0.5 rounded">{item.topic}</span>}
+      {item.difficulty && <span className="text-[9px] bg-orange-50 text-orange-700 px-1.5 py-0.5 rounded font-bold">{item.difficulty}</span>}
+      {item.bloomLevel && <span className="text-[9px] bg-violet-50 text-violet-700 px-1.5 py-0.5 rounded font-bold">{item.bloomLevel}</span>}
+      <span className="text-[9px] bg-slate-50 text-slate-400 px-1.5 py-0.5 rounded">{item.source}</span>
+    </div>
+  );
+
+  return (
+    <div className="bg-white p-6 rounded-3xl shadow-sm border border-slate-200 animate-in slide-in-from-right space-y-6">
+      <div className="flex items-center gap-4 border-b pb-4">
+        <button onClick={onBack} className="bg-slate-100 p-2 rounded-full hover:bg-slate-200"><ArrowLeft size={20} /></button>
+        <div className="flex-1">
+          <h3 className="text-xl font-black text-slate-800 flex items-center gap-2"><Database size={20} className="text-indigo-600" /> Question Bank</h3>
+          {stats && <p className="text-xs text-slate-500">{stats.total} questions • {Object.entries(stats.byClass).map(([c, n]) => `Class ${c}: ${n}`).join(' • ')}</p>}
+        </div>
+      </div>
+
+      {/* FILTERS */}
+      <div className="bg-slate-50 p-4 rounded-2xl border border-slate-200 space-y-3">
+        <div className="flex flex-wrap gap-2">
+          {CLASSES.map(c => (
+            <button key={c} onClick={() => { setClassLevel(c); setFilters({}); }} className={`px-3 py-1.5 rounded-lg text-xs font-bold border ${classLevel === c ? 'bg-slate-800 text-white border-slate-800' : 'bg-white border-slate-200 text-slate-500'}`}>
+              {c === 'COMPETITION' ? 'Competition' : `Class ${c}`}
+            </button>
+          ))}
+        </div>
+        <BankTagFilters classLevel={classLevel} filters={filters} onChange={setFilters} chapters={chapters} showSearch showSource />
+        <button onClick={() => loadPage(true)} disabled={loading} className="bg-indigo-600 text-white px-4 py-2 rounded-lg text-xs font-bold flex items-center gap-2 disabled:opacity-50">
+          <Search size={14} /> Search
+        </button>
+      </div>
+
+      {/* BULK EDIT */}
+      <div className="bg-blue-50 p-4 rounded-2xl border border-blue-100">
+        <p className="font-bold text-blue-900 text-sm mb-2 flex items-center gap-2"><Tag size={16} /> Bulk Tag Edit ({selectedItems.length} selected)</p>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-2 mb-3">
+          {chapters.length > 0 ? (
+            <select value={editChapter} onChange={e => setEditChapter(e.target.value)} className="p-2 border border-blue-200 rounded-lg text-xs bg-white">
+              <option value={KEEP}>Chapter: keep</option>
+              {chapters.map(c => <option key={c.id} value={c.id}>{c.title}</option>)}
+              <option value={CLEAR}>Chapter: clear</option>
+            </select>
+          ) : (
+            <p className="p-2 text-[10px] text-blue-700">Select a subject to tag chapters.</p>
+          )}
+          <input value={editTopic} onChange={e => setEditTopic(e.target.value)} placeholder="Topic: keep" className="p-2 border border-blue-200 rounded-lg text-xs" />
+          <select value={editDifficulty} onChange={e => setEditDifficulty(e.target.value)} className="p-2 border border-blue-200 rounded-lg text-xs bg-white">
+            <option value={KEEP}>Difficulty: keep</option>
+            <option value="EASY">Easy</option>
+            <option value="MEDIUM">Medium</option>
+            <option value="HARD">Hard</option>
+            <option value={CLEAR}>Difficulty: clear</option>
+          </select>
+          <select value={editBloom} onChange={e => setEditBloom(e.target.value)} className="p-2 border border-blue-200 rounded-lg text-xs bg-white">
+            <option value={KEEP}>Bloom: keep</option>
+            {BLOOM_LEVELS.map(b => <option key={b} value={b}>{b}</option>)}
+            <option value={CLEAR}>Bloom: clear</option>
+          </select>
+        </div>
+        <div className="flex flex-wrap gap-2 items-center">
+          <button onClick={handleApplyTags} disabled={selectedItems.length === 0 || loading} className="bg-blue-600 text-white px-4 py-2 rounded-lg text-xs font-bold disabled:opacity-50">Apply Tags</button>
+          <button onClick={handleDelete} disabled={selectedItems.length === 0 || loading} className="bg-red-50 text-red-600 border border-red-200 px-4 py-2 rounded-lg text-xs font-bold flex items-center gap-1 disabled:opacity-50">
+            <Trash2 size={12} /> Delete
+          </button>
+          <div className="flex-1" />
+          <label className="flex items-center gap-1 text-[10px] font-bold text-slate-600">
+            <input type="checkbox" checked={overwriteTags} onChange={e => setOverwriteTags(e.target.checked)} /> Overwrite existing tags
+          </label>
+          <button onClick={handleAutoTag} disabled={isTagging} className="bg-violet-600 text-white px-4 py-2 rounded-lg text-xs font-bold flex items-center gap-1 disabled:opacity-50">
+            {isTagging ? <RefreshCw size={12} className="animate-spin" /> : <Sparkles size={12} />} AI Auto-Tag {selectedItems.length > 0 ? 'Selected' : 'Untagged on Page'}
+          </button>
+        </div>
+        {log.length > 0 && (
+          <div className="bg-white rounded-lg border border-blue-100 p-2 mt-3 max-h-24 overflow-y-auto">
+            {log.map((l, i) => <p key={i} className="text-[10px] font-mono text-slate-600">{l}</p>)}
+          </div>
+        )}
+      </div>
+
+      {/* RESULTS */}
+      <div>
+        <div className="flex justify-between items-center mb-2">
+          <p className="text-xs font-bold text-slate-500 uppercase">Results ({items.length}{cursor ? '+' : ''})</p>
+          <button onClick={() => setSelected(selected.length === items.length ? [] : items.map(i => i.id))} className="text-[10px] font-bold text-indigo-600">
+            {selected.length === items.length && items.length > 0 ? 'Clear Selection' : 'Select All Loaded'}
+          </button>
+        </div>
+        <div className="space-y-2 max-h-[50vh] overflow-y-auto">
+          {!loading && items.length === 0 && <p className="text-xs text-slate-400 italic">No questions match these filters.</p>}
+          {items.map(item => (
+            <label key={item.id} className={`flex gap-3 p-3 rounded-xl border cursor-pointer ${selected.includes(item.id) ? 'bg-indigo-50 border-indigo-200' : 'bg-white border-slate-100'}`}>
+              <input type="checkbox" checked={selected.includes(item.id)} onChange={() => toggle(item.id)} className="mt-1" />
+              <div className="min-w-0">
+                <p className="text-xs text-slate-800 line-clamp-2">{stripHtml(item.question.question)}</p>
+                {renderTags(item)}
+              </div>
+            </label>
+          ))}
+        </div>
+        {cursor && (
+          <button onClick={() => loadPage(false)} disabled={loading} className="w-full mt-2 py-2 bg-slate-100 rounded-lg text-xs font-bold text-slate-600 disabled:opacity-50">
+            {loading ? 'Loading...' : 'Load More'}
+          </button>
+        )}
+      </div>
+
+      {/* DUPLICATES */}
+      <div className="bg-amber-50 p-4 rounded-2xl border border-amber-200">
+        <div className="flex flex-wrap items-center gap-2 mb-2">
+          <p className="font-bold text-amber-900 text-sm flex items-center gap-2 flex-1"><Copy size={16} /> Near-Duplicates</p>
+          <label className="text-[10px] font-bold text-amber-700">Similarity ≥</label>
+          <input type="number" min={0.5} max={1} step={0.05} value={threshold} onChange={e => setThreshold(Number(e.target.value))} className="w-16 p-1 border border-amber-200 rounded text-xs font-bold text-center" />
+          <button onClick={handleScan} disabled={isScanning} className="bg-amber-600 text-white px-3 py-1.5 rounded-lg text-xs font-bold flex items-center gap-1 disabled:opacity-50">
+            <RefreshCw size={12} className={isScanning ? 'animate-spin' : ''} /> Scan
+          </button>
+          {groups && groups.length > 0 && (
+            <button onClick={handleMergeAll} disabled={isScanning} className="bg-slate-800 text-white px-3 py-1.5 rounded-lg text-xs font-bold disabled:opacity-50">Merge All</button>
+          )}
+        </div>
+        <p className="text-[10px] text-amber-700 mb-3">Scans up to {SCAN_LIMIT} questions of Class {classLevel}{filters.subject ? ` ${filters.subject}` : ''}. Merging keeps the best-tagged copy, fills in tags it is missing and deletes the rest.</p>
+        {groups && groups.length === 0 && <p className="text-xs text-amber-800 italic">No near-duplicates found.</p>}
+        <div className="space-y-3 max-h-[40vh] overflow-y-auto">
+          {groups?.map(group => (
+            <div key={group.keep.id} className="bg-white p-3 rounded-xl border border-amber-100">
+              <div className="flex justify-between items-start gap-2">
+                <div className="min-w-0">
+                  <p className="text-[10px] font-bold text-green-600 uppercase">Keep</p>
+                  <p className="text-xs text-slate-800">{stripHtml(group.keep.question.question)}</p>
+                  {renderTags(group.keep)}
+                </div>
+                <button onClick={() => handleMerge(group)} className="bg-amber-100 text-amber-800 px-3 py-1 rounded-lg text-[10px] font-bold shrink-0">Merge</button>
+              </div>
+              {group.duplicates.map(d => (
+                <div key={d.item.id} className="mt-2 pl-3 border-l-2 border-red-200">
+                  <p className="text-[10px] font-bold text-red-500 uppercase">Remove • {Math.round(d.similarity * 100)}% similar</p>
+                  <p className="text-xs text-slate-600">{stripHtml(d.item.question.question)}</p>
+                  {renderTags(d.item)}
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
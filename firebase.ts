@@ -1,8 +1,9 @@
 import { initializeApp } from "firebase/app";
 import { getAnalytics } from "firebase/analytics";
-import { getFirestore, doc, setDoc, getDoc, collection, updateDoc, deleteDoc, onSnapshot, getDocs, query, where, limitToLast, orderBy, increment } from "firebase/firestore";
+import { getFirestore, doc, setDoc, getDoc, collection, updateDoc, deleteDoc, deleteField, onSnapshot, getDocs, query, where, limit, limitToLast, orderBy, increment, writeBatch, startAfter, documentId, getCountFromServer, QueryConstraint, runTransaction } from "firebase/firestore";
 import { getDatabase, ref, set, get, onValue, update, remove, query as rtdbQuery, limitToLast as rtdbLimitToLast, orderByChild as rtdbOrderByChild } from "firebase/database";
 import { getAuth, onAuthStateChanged } from "firebase/auth";
+import { ContentSaveMeta, TutorIndexEntry, AiCacheEntry, AiUsageRecord, MorningInsightRecord, AdminActionRecord, QuestionBankItem, QuestionBankFilters, QuestionBankPage, Challenge20, ItemStats, PaymentRequest, User } from "./types";
 
 // --- FIREBASE CONFIGURATION ---
 const firebaseConfig = {
@@ -126,9 +127,16 @@ export const getUserByEmail = async (email: string) => {
 };
 
 // 2. System Settings Sync
+// API keys live only in admin_secure/apiKeys (read server-side by the api/ proxies).
+// Settings are public, cached in localStorage and mirrored to RTDB, so key fields are always dropped.
+export const stripKeyMaterial = <T extends Record<string, any>>(settings: T): T => {
+  const { apiKeys, groqApiKeys, deletedGroqKeys, ...rest } = settings || ({} as any);
+  return rest as T;
+};
+
 export const saveSystemSettings = async (settings: any) => {
   try {
-    const sanitizedSettings = sanitizeForFirestore(settings);
+    const sanitizedSettings = sanitizeForFirestore(stripKeyMaterial(settings));
     await set(ref(rtdb, 'system_settings'), sanitizedSettings);
     await setDoc(doc(db, "config", "system_settings"), sanitizedSettings);
   } catch (error) {
@@ -140,12 +148,14 @@ export const subscribeToSettings = (callback: (settings: any) => void) => {
   // Listen to Firestore
   return onSnapshot(doc(db, "config", "system_settings"), (docSnap) => {
       if (docSnap.exists()) {
-          callback(docSnap.data());
+          callback(stripKeyMaterial(docSnap.data()));
       } else {
           // Fallback RTDB
            onValue(ref(rtdb, 'system_settings'), (snap) => {
                const data = snap.val();
-               if (data) callback(data);
+               if (data) {
+                   callback(stripKeyMaterial(data));
+               }
            }, { onlyOnce: true });
       }
   });
@@ -161,7 +171,9 @@ export const bulkSaveLinks = async (updates: Record<string, any>) => {
     // Firestore - We save each update as a document in 'content_data' collection
     // 'updates' is a map of key -> data
     const batchPromises = Object.entries(sanitizedUpdates).map(async ([key, data]) => {
+         const previous = await getDoc(doc(db, "content_data", key));
          await setDoc(doc(db, "content_data", key), data);
+         await saveContentVersion(key, previous.exists() ? previous.data() : null, data, { summary: 'Bulk upload' });
     });
     await Promise.all(batchPromises);
 
@@ -171,16 +183,106 @@ export const bulkSaveLinks = async (updates: Record<string, any>) => {
 };
 
 // 4. Chapter Data Sync (Individual)
-export const saveChapterData = async (key: string, data: any) => {
+export const saveChapterData = async (key: string, data: any, meta: ContentSaveMeta = {}) => {
   try {
     const sanitizedData = sanitizeForFirestore(data);
+    const previous = await getDoc(doc(db, "content_data", key));
     await set(ref(rtdb, `content_data/${key}`), sanitizedData);
     await setDoc(doc(db, "content_data", key), sanitizedData);
+    await saveContentVersion(key, previous.exists() ? previous.data() : null, sanitizedData, meta);
   } catch (error) {
     console.error("Error saving chapter data:", error);
   }
 };
 
+// 4b. Content Version History (content_versions/{key}/versions)
+const MAX_CONTENT_VERSIONS = 30;
+
+// Stamped on versions when a save doesn't name its author (set by the admin panel after login)
+let contentAuthor: { id: string; name: string } | null = null;
+export const setContentAuthor = (author: { id: string; name: string } | null) => {
+  contentAuthor = author;
+};
+
+const describeValue = (value: any) => {
+  if (Array.isArray(value)) return `${value.length} items`;
+  if (typeof value === 'string') return `${value.length} chars`;
+  return value === undefined ? 'empty' : JSON.stringify(value).slice(0, 30);
+};
+
+// Field-level summary, e.g. "manualMcqData (20 items → 25 items), schoolPremiumNotesHtml (0 chars → 5400 chars)"
+export const summarizeContentChange = (previous: any, next: any): string => {
+  const keys = Array.from(new Set([...Object.keys(previous || {}), ...Object.keys(next || {})]));
+  const changed = keys.filter(k => JSON.stringify(previous?.[k]) !== JSON.stringify(next?.[k]));
+  if (changed.length === 0) return 'No changes';
+  const parts = changed.slice(0, 6).map(k => `${k} (${describeValue(previous?.[k])} → ${describeValue(next?.[k])})`);
+  if (changed.length > 6) parts.push(`+${changed.length - 6} more`);
+  return parts.join(', ');
+};
+
+const saveContentVersion = async (key: string, previous: any, data: any, meta: ContentSaveMeta) => {
+  try {
+    if (previous && JSON.stringify(previous) === JSON.stringify(data)) return;
+
+    const versionsRef = collection(db, "content_versions", key, "versions");
+    const existing = await getDocs(query(versionsRef, orderBy("timestamp", "desc")));
+    const author = meta.author || contentAuthor || { id: 'UNKNOWN', name: 'Unknown' };
+    const now = Date.now();
+
+    // First versioned save: keep what was there before history existed
+    if (existing.empty && previous) {
+      await setDoc(doc(versionsRef, `v-${now - 1}`), {
+        id: `v-${now - 1}`,
+        contentKey: key,
+        data: previous,
+        authorId: 'UNKNOWN',
+        authorName: 'Before history',
+        summary: 'Baseline (content before version history was enabled)',
+        timestamp: new Date(now - 1).toISOString()
+      });
+    }
+
+    const autoSummary = summarizeContentChange(previous, data);
+    await setDoc(doc(versionsRef, `v-${now}`), sanitizeForFirestore({
+      id: `v-${now}`,
+      contentKey: key,
+      data,
+      authorId: author.id,
+      authorName: author.name,
+      summary: meta.summary ? `${meta.summary}: ${autoSummary}` : autoSummary,
+      timestamp: new Date(now).toISOString()
+    }));
+
+    // Prune oldest beyond the cap (existing is newest-first and excludes the two just written)
+    const keep = MAX_CONTENT_VERSIONS - (existing.empty && previous ? 2 : 1);
+    await Promise.all(existing.docs.slice(Math.max(0, keep)).map(d => deleteDoc(d.ref)));
+  } catch (e) {
+    console.error("Error saving content version:", e);
+  }
+};
+
+export const getContentVersions = async (key: string) => {
+  try {
+    const snapshot = await getDocs(query(collection(db, "content_versions", key, "versions"), orderBy("timestamp", "desc")));
+    return snapshot.docs.map(doc => doc.data());
+  } catch (e) {
+    console.error("Error fetching content versions:", e);
+    return [];
+  }
+};
+
+export const restoreContentVersion = async (key: string, versionId: string, meta: ContentSaveMeta = {}) => {
+  const docSnap = await getDoc(doc(db, "content_versions", key, "versions", versionId));
+  if (!docSnap.exists()) throw new Error("Version not found");
+  const version = docSnap.data();
+  await saveChapterData(key, version.data, {
+    ...meta,
+    summary: meta.summary || `Restored version from ${new Date(version.timestamp).toLocaleString()}`
+  });
+  localStorage.setItem(key, JSON.stringify(version.data));
+  return version.data;
+};
+
 export const getChapterData = async (key: string) => {
     try {
         // 1. Try Firestore First (More Authoritative)
@@ -396,35 +498,645 @@ export const subscribeToAllAiInteractions = (callback: (data: any[]) => void) =>
     });
 };
 
+// 8b. AI Output Failures (Schema validation gave up after repairs)
+export const saveAiFailure = async (data: any) => {
+    try {
+        const sanitized = sanitizeForFirestore(data);
+        await setDoc(doc(db, "ai_failures", data.id), sanitized);
+    } catch (e) { console.error("Error saving AI failure:", e); }
+};
+
+export const subscribeToAiFailures = (callback: (data: any[]) => void) => {
+    const q = query(collection(db, "ai_failures"), orderBy("timestamp", "desc"), limit(50));
+    return onSnapshot(q, (snapshot) => {
+        const items = snapshot.docs.map(doc => doc.data());
+        callback(items);
+    });
+};
+
+// 8c. Auto-Pilot Job Queue
+export const saveAutoPilotJob = async (job: any) => {
+    try {
+        const sanitized = sanitizeForFirestore(job);
+        await setDoc(doc(db, "autopilot_jobs", job.id), sanitized);
+    } catch (e) { console.error("Error saving auto-pilot job:", e); }
+};
+
+// Write errors propagate: a status or lease write that silently failed would leave the job RUNNING until its lease expired
+export const updateAutoPilotJob = async (id: string, updates: any) => {
+    try {
+        const sanitized = sanitizeForFirestore(updates);
+        await updateDoc(doc(db, "autopilot_jobs", id), sanitized);
+    } catch (e) {
+        console.error("Error updating auto-pilot job:", e);
+        throw e;
+    }
+};
+
+// Moves a claimable job (see canClaim) to RUNNING in a transaction, so two workers (admin tabs)
+// never run the same job. Returns null if the job is gone or not claimable; write errors propagate.
+export const claimAutoPilotJob = async (id: string, canClaim: (job: any) => boolean) => {
+    const jobRef = doc(db, "autopilot_jobs", id);
+    return runTransaction(db, async (tx) => {
+        const docSnap = await tx.get(jobRef);
+        if (!docSnap.exists() || !canClaim(docSnap.data())) return null;
+        const job = docSnap.data();
+        const claim = { status: 'RUNNING', attempts: (job.attempts || 0) + 1, updatedAt: new Date().toISOString() };
+        tx.update(jobRef, claim);
+        return { ...job, ...claim };
+    });
+};
+
+export const getAutoPilotJobs = async (statuses?: string[]) => {
+    try {
+        const q = statuses && statuses.length > 0
+            ? query(collection(db, "autopilot_jobs"), where("status", "in", statuses))
+            : query(collection(db, "autopilot_jobs"));
+        const snapshot = await getDocs(q);
+        return snapshot.docs.map(doc => doc.data());
+    } catch (e) {
+        console.error("Error fetching auto-pilot jobs:", e);
+        return [];
+    }
+};
+
+export const subscribeToAutoPilotJobs = (callback: (jobs: any[]) => void) => {
+    return onSnapshot(collection(db, "autopilot_jobs"), (snapshot) => {
+        const items = snapshot.docs.map(doc => doc.data());
+        callback(items);
+    });
+};
+
+export const deleteAutoPilotJobs = async (ids: string[]) => {
+    try {
+        await Promise.all(ids.map(id => deleteDoc(doc(db, "autopilot_jobs", id))));
+    } catch (e) { console.error("Error deleting auto-pilot jobs:", e); }
+};
+
+// 8d. Content Drafts (Review Queue). Kept out of content_data so students never load them.
+export const saveContentDraft = async (draft: any) => {
+    try {
+        const sanitized = sanitizeForFirestore(draft);
+        await setDoc(doc(db, "content_drafts", draft.id), sanitized);
+    } catch (e) { console.error("Error saving content draft:", e); }
+};
+
+export const updateContentDraft = async (id: string, updates: any) => {
+    try {
+        const sanitized = sanitizeForFirestore(updates);
+        await updateDoc(doc(db, "content_drafts", id), sanitized);
+    } catch (e) { console.error("Error updating content draft:", e); }
+};
+
+export const getContentDraft = async (id: string) => {
+    try {
+        const docSnap = await getDoc(doc(db, "content_drafts", id));
+        return docSnap.exists() ? docSnap.data() : null;
+    } catch (e) {
+        console.error("Error fetching content draft:", e);
+        return null;
+    }
+};
+
+export const getPendingContentDraftIds = async (): Promise<string[]> => {
+    try {
+        const snapshot = await getDocs(query(collection(db, "content_drafts"), where("status", "==", "PENDING")));
+        return snapshot.docs.map(doc => doc.id);
+    } catch (e) {
+        console.error("Error fetching content drafts:", e);
+        return [];
+    }
+};
+
+export const subscribeToContentDrafts = (status: 'PENDING' | 'CLOSED', callback: (drafts: any[]) => void) => {
+    const q = query(collection(db, "content_drafts"), where("status", "==", status));
+    return onSnapshot(q, (snapshot) => {
+        const items = snapshot.docs.map(doc => doc.data());
+        callback(items);
+    });
+};
+
+// 8e. Prompt Template Usage (templates themselves live in system settings)
+export const recordPromptTemplateUsage = async (templateId: string, version: number) => {
+    try {
+        await setDoc(doc(db, "prompt_template_usage", templateId), {
+            templateId,
+            total: increment(1),
+            lastUsedAt: new Date().toISOString(),
+            byVersion: { [`v${version}`]: increment(1) }
+        }, { merge: true });
+    } catch (e) { console.error("Error recording prompt template usage:", e); }
+};
+
+export const subscribeToPromptTemplateUsage = (callback: (usage: any[]) => void) => {
+    return onSnapshot(collection(db, "prompt_template_usage"), (snapshot) => {
+        callback(snapshot.docs.map(doc => doc.data()));
+    });
+};
+
+// 8f. API Key Health (written by the api/ proxies, see services/keyHealth.ts)
+export const resetApiKeyHealth = async (fingerprint: string) => {
+    try {
+        await updateDoc(doc(db, "api_key_health", fingerprint), {
+            invalid: false,
+            cooldownUntil: 0,
+            updatedAt: new Date().toISOString()
+        });
+    } catch (e) { console.error("Error resetting API key health:", e); }
+};
+
+export const subscribeToApiKeyHealth = (callback: (records: any[]) => void) => {
+    return onSnapshot(collection(db, "api_key_health"), (snapshot) => {
+        callback(snapshot.docs.map(doc => doc.data()));
+    });
+};
+
+// 8g. AI Tutor Retrieval Index (tutor_index/{contentKey}, built by services/tutorRetrieval.ts)
+export const saveTutorIndexEntry = async (entry: TutorIndexEntry) => {
+    try {
+        await setDoc(doc(db, "tutor_index", entry.contentKey), sanitizeForFirestore(entry));
+    } catch (error) {
+        console.error("Error saving tutor index:", error);
+    }
+};
+
+export const getTutorIndex = async (board: string, classLevel: string): Promise<TutorIndexEntry[]> => {
+    try {
+        const q = query(collection(db, "tutor_index"), where("board", "==", board), where("classLevel", "==", classLevel));
+        const snap = await getDocs(q);
+        return snap.docs.map(d => d.data() as TutorIndexEntry);
+    } catch (error) {
+        console.error("Error loading tutor index:", error);
+        return [];
+    }
+};
+
+// 8h. AI Generation Cache (ai_generation_cache/{hash}, see services/aiCache.ts). Entries are written by the AI proxies.
+export const getAiCacheEntry = async (hash: string): Promise<AiCacheEntry | null> => {
+    try {
+        const snap = await getDoc(doc(db, "ai_generation_cache", hash));
+        if (!snap.exists()) return null;
+        const data = snap.data();
+        // Timestamps come back as Firestore Timestamps
+        return { ...data, expiresAt: data.expiresAt?.toDate ? data.expiresAt.toDate() : new Date(data.expiresAt) } as AiCacheEntry;
+    } catch (error) {
+        console.error("Error reading AI cache:", error);
+        return null;
+    }
+};
+
+export const deleteAiCacheEntriesByTag = async (tag: string): Promise<number> => {
+    try {
+        const snap = await getDocs(query(collection(db, "ai_generation_cache"), where("tag", "==", tag)));
+        await Promise.all(snap.docs.map(d => deleteDoc(d.ref)));
+        return snap.size;
+    } catch (error) {
+        console.error("Error purging AI cache:", error);
+        return 0;
+    }
+};
+
+// Newest entries only (metadata for the admin list; text is dropped client-side)
+export const listAiCacheEntries = async (max: number = 500): Promise<Omit<AiCacheEntry, 'text'>[]> => {
+    try {
+        const snap = await getDocs(query(collection(db, "ai_generation_cache"), orderBy("createdAt", "desc"), limit(max)));
+        return snap.docs.map(d => {
+            const { text, ...meta } = d.data();
+            return meta as Omit<AiCacheEntry, 'text'>;
+        });
+    } catch (error) {
+        console.error("Error listing AI cache:", error);
+        return [];
+    }
+};
+
+export const recordAiCacheStat = async (outcome: 'hit' | 'miss', task: string) => {
+    try {
+        const date = new Date().toISOString().split('T')[0];
+        await setDoc(doc(db, "admin_stats", `ai_cache_${date}`), {
+            date,
+            [outcome === 'hit' ? 'hits' : 'misses']: increment(1),
+            [`${outcome}_${task}`]: increment(1)
+        }, { merge: true });
+    } catch (e) {
+        console.error("Error tracking AI cache stats:", e);
+    }
+};
+
+export const getAiCacheStats = async (days: number = 7): Promise<any[]> => {
+    try {
+        const dates = Array.from({ length: days }, (_, i) => new Date(Date.now() - i * 86400000).toISOString().split('T')[0]);
+        const snaps = await Promise.all(dates.map(d => getDoc(doc(db, "admin_stats", `ai_cache_${d}`))));
+        return snaps.map((snap, i) => snap.exists() ? snap.data() : { date: dates[i], hits: 0, misses: 0 });
+    } catch (e) {
+        console.error("Error loading AI cache stats:", e);
+        return [];
+    }
+};
+
+// 8i. AI Spend Ledger (ai_usage_ledger/{id}, written by the AI proxies in api/_lib/aiLedger.ts). Daily totals go to admin_stats/ai_spend_{date}.
+// Inclusive YYYY-MM-DD range, newest first
+export const getAiUsageRecords = async (fromDate: string, toDate: string, max: number = 5000): Promise<AiUsageRecord[]> => {
+    try {
+        const q = query(
+            collection(db, "ai_usage_ledger"),
+            where("date", ">=", fromDate),
+            where("date", "<=", toDate),
+            orderBy("date", "desc"),
+            limit(max)
+        );
+        const snap = await getDocs(q);
+        return snap.docs.map(d => d.data() as AiUsageRecord);
+    } catch (e) {
+        console.error("Error loading AI usage records:", e);
+        return [];
+    }
+};
+
+// 8j. Morning Insights (morning_insights/{date}_{board}_{classLevel}; older days are the archive)
+export const saveMorningInsight = async (insight: MorningInsightRecord) => {
+    try {
+        await setDoc(doc(db, "morning_insights", insight.id), sanitizeForFirestore(insight));
+    } catch (e) {
+        console.error("Error saving morning insight:", e);
+    }
+};
+
+export const getMorningInsight = async (id: string): Promise<MorningInsightRecord | null> => {
+    try {
+        const snap = await getDoc(doc(db, "morning_insights", id));
+        return snap.exists() ? (snap.data() as MorningInsightRecord) : null;
+    } catch (e) {
+        console.error("Error loading morning insight:", e);
+        return null;
+    }
+};
+
+// Failed attempts per segment and day (morning_insight_failures/{insightId}), so the schedule stops retrying
+export const recordMorningInsightFailure = async (id: string, error: string) => {
+    try {
+        await setDoc(doc(db, "morning_insight_failures", id), {
+            id,
+            attempts: increment(1),
+            lastError: error.slice(0, 500),
+            lastAttemptAt: new Date().toISOString()
+        }, { merge: true });
+    } catch (e) {
+        console.error("Error recording morning insight failure:", e);
+    }
+};
+
+export const getMorningInsightFailureCount = async (id: string): Promise<number> => {
+    try {
+        const snap = await getDoc(doc(db, "morning_insight_failures", id));
+        return snap.exists() ? (snap.data().attempts || 0) : 0;
+    } catch (e) {
+        console.error("Error loading morning insight failures:", e);
+        return 0;
+    }
+};
+
+export const getMorningInsightArchive = async (max: number = 100): Promise<MorningInsightRecord[]> => {
+    try {
+        const snap = await getDocs(query(collection(db, "morning_insights"), orderBy("date", "desc"), limit(max)));
+        return snap.docs.map(d => d.data() as MorningInsightRecord);
+    } catch (e) {
+        console.error("Error loading morning insight archive:", e);
+        return [];
+    }
+};
+
+// 8k. Admin AI Action History (admin_action_history/{id}; each record carries the inverse used by Undo)
+export const saveAdminActionRecord = async (record: AdminActionRecord) => {
+    try {
+        await setDoc(doc(db, "admin_action_history", record.id), sanitizeForFirestore(record));
+    } catch (e) {
+        console.error("Error saving admin action:", e);
+    }
+};
+
+export const markAdminActionUndone = async (id: string, undoneBy: string) => {
+    try {
+        await updateDoc(doc(db, "admin_action_history", id), { undoneAt: new Date().toISOString(), undoneBy });
+    } catch (e) {
+        console.error("Error marking admin action undone:", e);
+    }
+};
+
+export const getAdminActionHistory = async (max: number = 50): Promise<AdminActionRecord[]> => {
+    try {
+        const snap = await getDocs(query(collection(db, "admin_action_history"), orderBy("executedAt", "desc"), limit(max)));
+        return snap.docs.map(d => d.data() as AdminActionRecord);
+    } catch (e) {
+        console.error("Error loading admin action history:", e);
+        return [];
+    }
+};
+
+// 8l. Question Bank (question_bank/{id}). Pages are ordered by document id (ids start with a timestamp),
+// which equality filters can combine with without composite indexes.
+const toBankConstraints = (filters: QuestionBankFilters): QueryConstraint[] => {
+    const constraints: QueryConstraint[] = [];
+    if (filters.classLevel) constraints.push(where("classLevel", "==", filters.classLevel));
+    if (filters.subject) constraints.push(where("subject", "==", filters.subject));
+    if (filters.source) constraints.push(where("source", "==", filters.source));
+    if (filters.chapterId) constraints.push(where("chapterId", "==", filters.chapterId));
+    if (filters.questionKey) {
+        const keys = Array.isArray(filters.questionKey) ? filters.questionKey : [filters.questionKey];
+        constraints.push(keys.length === 1 ? where("questionKey", "==", keys[0]) : where("questionKey", "in", keys.slice(0, 10)));
+    }
+    if (filters.difficulty) constraints.push(where("difficulty", "==", filters.difficulty === 'UNTAGGED' ? null : filters.difficulty));
+    if (filters.bloomLevel) constraints.push(where("bloomLevel", "==", filters.bloomLevel === 'UNTAGGED' ? null : filters.bloomLevel));
+    if (filters.topic) {
+        const topics = (Array.isArray(filters.topic) ? filters.topic : [filters.topic]).map(t => t.trim().toLowerCase());
+        constraints.push(topics.length === 1 ? where("topicKey", "==", topics[0]) : where("topicKey", "in", topics.slice(0, 10)));
+    }
+    return constraints;
+};
+
+export const saveQuestionBankItems = async (items: QuestionBankItem[]): Promise<boolean> => {
+    try {
+        for (let i = 0; i < items.length; i += 400) {
+            const batch = writeBatch(db);
+            items.slice(i, i + 400).forEach(item => batch.set(doc(db, "question_bank", item.id), sanitizeForFirestore(item)));
+            await batch.commit();
+        }
+        return true;
+    } catch (e) {
+        console.error("Error saving question bank items:", e);
+        return false;
+    }
+};
+
+// filters.search is ignored here; the caller passes one normalized word as searchToken and checks the rest
+export const queryQuestionBankItems = async (filters: QuestionBankFilters, pageSize: number = 50, cursor?: string | null, searchToken?: string): Promise<QuestionBankPage> => {
+    try {
+        const constraints = [
+            ...toBankConstraints(filters),
+            ...(searchToken ? [where("searchTokens", "array-contains", searchToken)] : []),
+            orderBy(documentId()),
+            ...(cursor ? [startAfter(cursor)] : []),
+            limit(pageSize)
+        ];
+        const snap = await getDocs(query(collection(db, "question_bank"), ...constraints));
+        const items = snap.docs.map(d => d.data() as QuestionBankItem);
+        return { items, nextCursor: items.length === pageSize ? items[items.length - 1].id : null };
+    } catch (e) {
+        console.error("Error querying question bank:", e);
+        return { items: [], nextCursor: null };
+    }
+};
+
+export const countQuestionBankItems = async (filters: QuestionBankFilters = {}): Promise<number> => {
+    try {
+        const snap = await getCountFromServer(query(collection(db, "question_bank"), ...toBankConstraints(filters)));
+        return snap.data().count;
+    } catch (e) {
+        console.error("Error counting question bank items:", e);
+        return 0;
+    }
+};
+
+export const updateQuestionBankItems = async (updates: { id: string; fields: Partial<QuestionBankItem> }[]): Promise<boolean> => {
+    try {
+        for (let i = 0; i < updates.length; i += 400) {
+            const batch = writeBatch(db);
+            updates.slice(i, i + 400).forEach(u => batch.update(doc(db, "question_bank", u.id), sanitizeForFirestore(u.fields)));
+            await batch.commit();
+        }
+        return true;
+    } catch (e) {
+        console.error("Error updating question bank items:", e);
+        return false;
+    }
+};
+
+export const deleteQuestionBankItems = async (ids: string[]): Promise<boolean> => {
+    try {
+        for (let i = 0; i < ids.length; i += 400) {
+            const batch = writeBatch(db);
+            ids.slice(i, i + 400).forEach(id => batch.delete(doc(db, "question_bank", id)));
+            await batch.commit();
+        }
+        return true;
+    } catch (e) {
+        console.error("Error deleting question bank items:", e);
+        return false;
+    }
+};
+
+// 8m. Challenge 2.0 (challenges_20/{id}; students read the active ones for their class)
+export const saveChallenge20Doc = async (challenge: Challenge20): Promise<boolean> => {
+    try {
+        await setDoc(doc(db, "challenges_20", challenge.id), sanitizeForFirestore(challenge));
+        return true;
+    } catch (e) {
+        console.error("Error saving Challenge 2.0:", e);
+        return false;
+    }
+};
+
+export const getChallenges20 = async (classLevel?: string): Promise<Challenge20[]> => {
+    try {
+        const q = classLevel
+            ? query(collection(db, "challenges_20"), where("classLevel", "==", classLevel), where("isActive", "==", true))
+            : query(collection(db, "challenges_20"));
+        const snap = await getDocs(q);
+        return snap.docs.map(d => d.data() as Challenge20);
+    } catch (e) {
+        console.error("Error loading Challenge 2.0:", e);
+        return [];
+    }
+};
+
+export const deleteChallenge20Docs = async (ids: string[]) => {
+    try {
+        const batch = writeBatch(db);
+        ids.forEach(id => batch.delete(doc(db, "challenges_20", id)));
+        await batch.commit();
+    } catch (e) {
+        console.error("Error deleting Challenge 2.0:", e);
+    }
+};
+
+// 8n. Item Analysis (item_stats/{questionKey}; rebuilt in full by each admin run)
+export const saveItemStats = async (stats: ItemStats[]): Promise<boolean> => {
+    try {
+        for (let i = 0; i < stats.length; i += 400) {
+            const batch = writeBatch(db);
+            stats.slice(i, i + 400).forEach(s => batch.set(doc(db, "item_stats", s.questionKey), sanitizeForFirestore(s)));
+            await batch.commit();
+        }
+        return true;
+    } catch (e) {
+        console.error("Error saving item stats:", e);
+        return false;
+    }
+};
+
+export const getItemStats = async (max: number = 1000): Promise<ItemStats[]> => {
+    try {
+        const q = query(collection(db, "item_stats"), orderBy("attempts", "desc"), limit(max));
+        const snap = await getDocs(q);
+        return snap.docs.map(d => d.data() as ItemStats);
+    } catch (e) {
+        console.error("Error loading item stats:", e);
+        return [];
+    }
+};
+
+// 8o. Payment Requests (RTDB payment_requests/{id}; approved or rejected by the admin AI tools in services/actionRegistry.ts)
+export const savePaymentRequest = async (request: PaymentRequest): Promise<boolean> => {
+    try {
+        await set(ref(rtdb, `payment_requests/${request.id}`), request);
+        return true;
+    } catch (e) {
+        console.error("Error saving payment request:", e);
+        return false;
+    }
+};
+
 // 9. Secure Key Management
-export const saveSecureKeys = async (keys: string[]) => {
+// Firestore only, admin-only rules. Never mirrored to RTDB, settings or localStorage.
+export interface SecureKeyStore {
+    keys: string[]; // Groq
+    geminiKeys: string[];
+    deletedKeys: { key: string, deletedAt: number }[]; // Groq recycle bin
+}
+
+export const saveSecureKeys = async (store: Partial<SecureKeyStore>) => {
     try {
-        const sanitized = sanitizeForFirestore({ keys });
-        // Firestore only (Secure)
-        await setDoc(doc(db, "admin_secure", "apiKeys"), sanitized);
+        const sanitized = sanitizeForFirestore(store);
+        await setDoc(doc(db, "admin_secure", "apiKeys"), sanitized, { merge: true });
     } catch (e) { console.error("Error saving secure keys:", e); }
 };
 
-export const getSecureKeys = async () => {
+export const getSecureKeys = async (): Promise<SecureKeyStore> => {
     try {
         const docSnap = await getDoc(doc(db, "admin_secure", "apiKeys"));
-        if (docSnap.exists()) {
-            return docSnap.data().keys || [];
-        }
-        return [];
+        const data = docSnap.exists() ? docSnap.data() : {};
+        return { keys: data.keys || [], geminiKeys: data.geminiKeys || [], deletedKeys: data.deletedKeys || [] };
     } catch (e) {
         console.error("Error fetching secure keys:", e);
-        return [];
+        return { keys: [], geminiKeys: [], deletedKeys: [] };
+    }
+};
+
+const mergeKeyLists = (...lists: any[][]) => Array.from(new Set(lists.flatMap(l => l || []).filter(Boolean)));
+
+// Settings written by older builds still hold key fields in config/system_settings and its RTDB mirror.
+// An admin session moves them into admin_secure (merged with the keys already there), then deletes them
+// from both public copies. Clients only ever keep stripped settings; errors propagate so the next admin session retries.
+export const migratePublicKeyMaterial = async (): Promise<SecureKeyStore | null> => {
+    const [settingsSnap, mirrorSnap] = await Promise.all([
+        getDoc(doc(db, "config", "system_settings")),
+        get(ref(rtdb, 'system_settings'))
+    ]);
+    const sources = [settingsSnap.exists() ? settingsSnap.data() : {}, mirrorSnap.val() || {}];
+    const found = (field: string) => mergeKeyLists(...sources.map(s => s[field]));
+    if (!found('apiKeys').length && !found('groqApiKeys').length && !found('deletedGroqKeys').length) return null;
+
+    const secureSnap = await getDoc(doc(db, "admin_secure", "apiKeys"));
+    const data = secureSnap.exists() ? secureSnap.data() : {};
+    const store: SecureKeyStore = {
+        keys: mergeKeyLists(data.keys, found('groqApiKeys')),
+        geminiKeys: mergeKeyLists(data.geminiKeys, found('apiKeys')),
+        deletedKeys: data.deletedKeys?.length ? data.deletedKeys : found('deletedGroqKeys')
+    };
+    await setDoc(doc(db, "admin_secure", "apiKeys"), sanitizeForFirestore(store), { merge: true });
+
+    if (settingsSnap.exists()) {
+        await updateDoc(doc(db, "config", "system_settings"), { apiKeys: deleteField(), groqApiKeys: deleteField(), deletedGroqKeys: deleteField() });
+    }
+    if (mirrorSnap.exists()) {
+        await update(ref(rtdb, 'system_settings'), { apiKeys: null, groqApiKeys: null, deletedGroqKeys: null });
+    }
+    return store;
+};
+
+// One-time cleanup of key copies written by older builds (RTDB recovery path)
+export const purgeLegacyKeyCopies = async () => {
+    try {
+        await remove(ref(rtdb, 'secure_keys'));
+    } catch (e) { console.error("Error purging legacy key copies:", e); }
+};
+
+// AI plan as the api/ proxies see it (ai_entitlements/{userId}). Written by admin edits and by every flow
+// that grants premium (redeem codes, rewards, spin wheel, signup trial), so the proxies never read users/{id}.
+export const saveAiEntitlement = async (user: User) => {
+    try {
+        if (!user || !user.id) return;
+        await setDoc(doc(db, "ai_entitlements", user.id), sanitizeForFirestore({
+            isPremium: !!user.isPremium,
+            subscriptionLevel: user.subscriptionLevel || null,
+            subscriptionEndDate: user.subscriptionEndDate || null,
+            updatedAt: new Date().toISOString()
+        }));
+    } catch (e) { console.error("Error saving AI entitlement:", e); }
+};
+
+// Current user's Firebase ID token, sent to the api/ proxies for verification
+export const getAuthToken = async (): Promise<string | null> => {
+    try {
+        return auth.currentUser ? await auth.currentUser.getIdToken() : null;
+    } catch (e) {
+        console.error("Error getting auth token:", e);
+        return null;
+    }
+};
+
+// Sub-admins the api/ proxies treat as admins (admin_roles/{userId}); admin-only rules (role custom claim)
+export const saveAdminRole = async (user: User) => {
+    try {
+        if (!user || !user.id) return;
+        if (user.role === 'SUB_ADMIN') {
+            await setDoc(doc(db, "admin_roles", user.id), { role: 'SUB_ADMIN', updatedAt: new Date().toISOString() });
+        } else {
+            await deleteDoc(doc(db, "admin_roles", user.id));
+        }
+    } catch (e) { console.error("Error saving admin role:", e); }
+};
+
+const postToAccountApi = async (path: string, body: any) => {
+    const token = await getAuthToken();
+    if (!token) throw new Error("Not signed in");
+    const res = await fetch(path, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "Authorization": `Bearer ${token}` },
+        body: JSON.stringify(body)
+    });
+    if (!res.ok) throw new Error((await res.json().catch(() => null))?.error || `${path} failed: ${res.status}`);
+    return res.json();
+};
+
+// Legacy logins sign in anonymously (new uid per device): api/link-session.ts checks the account and maps
+// the uid to User.id, so AI limits, plan and spend follow the account
+export const linkAuthSession = async (userId: string, password?: string) => {
+    try {
+        await postToAccountApi("/api/link-session", { userId, password });
+    } catch (e) { console.error("Error linking session:", e); }
+};
+
+// Trades the admin access code for the ADMIN role claim (api/admin-access.ts) and refreshes the ID token
+export const requestAdminAccess = async (code: string): Promise<boolean> => {
+    try {
+        await postToAccountApi("/api/admin-access", { code });
+        await auth.currentUser?.getIdToken(true);
+        return true;
+    } catch (e) {
+        console.error("Error requesting admin access:", e);
+        return false;
     }
 };
 
-export const incrementApiUsage = async (keyIndex: number, type: 'PILOT' | 'STUDENT') => {
+// keyId is the key fingerprint (or 'server' for proxy-managed keys), so counts survive reordering
+export const incrementApiUsage = async (keyId: string, type: 'PILOT' | 'STUDENT') => {
     try {
         const date = new Date().toISOString().split('T')[0]; // YYYY-MM-DD
         const docRef = doc(db, "admin_stats", `api_usage_${date}`);
         
         const updates: any = {
-            [`key_${keyIndex}`]: increment(1),
+            [`key_${keyId}`]: increment(1),
             total: increment(1)
         };
         
@@ -1,36 +1,21 @@
+import { z } from "zod";
+import { db, rtdb, saveUserToLive, saveAiEntitlement, saveAdminRole, saveSystemSettings, sanitizeForFirestore } from '../firebase';
+import { ref, set, get, remove } from "firebase/database";
+import { doc, deleteDoc, getDocs, collection, query, limitToLast, orderBy } from "firebase/firestore";
+import {
+    User, SystemSettings, WeeklyTest, MCQItem, InboxMessage, SubscriptionHistoryEntry, GiftCode, PaymentRequest,
+    RecoveryRequest, FeaturedItem, Board, ClassLevel, Stream, Subject, Chapter, MCQResult, QuestionDifficulty
+} from '../types';
+import { DEFAULT_SUBJECTS, getSubjectsList } from '../constants';
+import { fetchChapters, generateTestPaper } from './aiContent';
+import { isNearDuplicate } from './questionBank';
+import { MARKING_PRESETS } from './markingSchemes';
 
-import { 
-    db, 
-    rtdb, 
-    saveUserToLive, 
-    saveSystemSettings, 
-    saveChapterData, 
-    saveUniversalAnalysis,
-    saveAiInteraction,
-    savePublicActivity,
-    getApiUsage,
-    subscribeToUsers
-} from '../firebase';
-import { 
-    ref, 
-    set, 
-    get, 
-    update, 
-    remove, 
-    push 
-} from "firebase/database";
-import { 
-    doc, 
-    deleteDoc, 
-    getDocs, 
-    collection,
-    query,
-    where,
-    limitToLast,
-    orderBy,
-    setDoc
-} from "firebase/firestore";
-import { User, SystemSettings, WeeklyTest, MCQItem, InboxMessage, SubscriptionHistoryEntry } from '../types';
+// --- ADMIN AI TOOL CATALOG ---
+// Each tool declares its arguments once as a zod schema. The JSON schema sent to the model (adminTools)
+// is generated from it and the same schema validates the model's arguments, so the two cannot drift.
+// Tools either `run` (read-only, executed straight away) or `plan` a change that is previewed and only
+// written after the admin confirms it (services/adminActions.ts).
 
 // --- HELPER: GET ALL USERS (ONCE) ---
 const getAllUsers = async (): Promise<User[]> => {
@@ -52,165 +37,747 @@ const getSettings = async (): Promise<SystemSettings | null> => {
     } catch (e) { return null; }
 };
 
-// --- ACTION IMPLEMENTATIONS ---
+const loadUser = async (userId: string): Promise<User> => {
+    const snapshot = await get(ref(rtdb, `users/${userId}`));
+    if (!snapshot.exists()) throw new Error(`User ${userId} not found`);
+    return snapshot.val();
+};
 
-const deleteUser = async (userId: string) => {
-    try {
-        await deleteDoc(doc(db, "users", userId));
-        await remove(ref(rtdb, `users/${userId}`));
-        return `User ${userId} deleted successfully from Firestore and RTDB.`;
-    } catch (e: any) {
-        throw new Error(`Failed to delete user ${userId}: ${e.message}`);
-    }
+const loadSettings = async (): Promise<SystemSettings> => {
+    const settings = await getSettings();
+    if (!settings) throw new Error("Settings not found");
+    return settings;
 };
 
-const updateUser = async (userId: string, updates: Partial<User>) => {
-    try {
-        const userRef = doc(db, "users", userId);
-        // We need to fetch current user to ensure we don't overwrite with partial data incorrectly if using saveUserToLive
-        // But saveUserToLive handles full object.
-        // Let's use getDoc first
-        const snapshot = await get(ref(rtdb, `users/${userId}`));
-        if (!snapshot.exists()) throw new Error("User not found");
-        
-        const currentUser = snapshot.val();
-        const updatedUser = { ...currentUser, ...updates };
-        
-        await saveUserToLive(updatedUser);
-        return `User ${userId} updated.`;
-    } catch (e: any) {
-        throw new Error(`Failed to update user: ${e.message}`);
+const loadRecord = async (path: string): Promise<any | null> => {
+    const snapshot = await get(ref(rtdb, path));
+    return snapshot.exists() ? snapshot.val() : null;
+};
+
+const userLabel = (user: User) => `${user.name || 'Unnamed'} (${user.displayId || user.id})`;
+
+const matchesText = (value: string | undefined, search: string) => (value || '').trim().toLowerCase() === search.trim().toLowerCase();
+
+// --- CHANGES ---
+// A tool's plan describes every record it would write, with the record before and after.
+// after null = the record is deleted, before null = the record is created.
+
+export type AdminRecordChange =
+    | { kind: 'USER'; userId: string; label: string; before: User; after: User | null }
+    | { kind: 'SETTINGS'; before: SystemSettings; after: SystemSettings }
+    | { kind: 'RECORD'; path: string; label: string; before: any | null; after: any | null }; // RTDB node (requests, redeem codes)
+
+export interface AdminChange {
+    summary: string;
+    changes: AdminRecordChange[];
+    // Generated values (questions, gift codes) the plan was built with. Passed back on execution so
+    // the admin gets exactly what was previewed instead of a second generation.
+    prepared?: Record<string, any>;
+}
+
+const userChange = (user: User, updates: Partial<User>): AdminRecordChange =>
+    ({ kind: 'USER', userId: user.id, label: userLabel(user), before: user, after: { ...user, ...updates, id: user.id } });
+
+const changeUser = async (userId: string, summary: string, makeUpdates: (user: User) => Partial<User>): Promise<AdminChange> => {
+    const user = await loadUser(userId);
+    return { summary: `${summary}: ${userLabel(user)}`, changes: [userChange(user, makeUpdates(user))] };
+};
+
+const changeSettings = async (summary: string, makeUpdates: (settings: SystemSettings) => Partial<SystemSettings>): Promise<AdminChange> => {
+    const settings = await loadSettings();
+    return { summary, changes: [{ kind: 'SETTINGS', before: settings, after: { ...settings, ...makeUpdates(settings) } }] };
+};
+
+export const applyChange = async (change: AdminChange) => {
+    for (const c of change.changes) {
+        if (c.kind === 'SETTINGS') {
+            await saveSystemSettings(c.after);
+        } else if (c.kind === 'USER') {
+            if (c.after === null) {
+                await deleteDoc(doc(db, "users", c.userId));
+                await remove(ref(rtdb, `users/${c.userId}`));
+            } else {
+                await saveUserToLive(c.after);
+                await saveAiEntitlement(c.after);
+                if (c.before?.role !== c.after.role) await saveAdminRole(c.after);
+            }
+        } else if (c.after === null) {
+            await remove(ref(rtdb, c.path));
+        } else {
+            await set(ref(rtdb, c.path), sanitizeForFirestore(c.after));
+        }
     }
 };
 
-const banUser = async (userId: string, reason: string) => {
-    return await updateUser(userId, { isLocked: true });
+// --- TOOL DEFINITION ---
+
+export type AdminToolView = 'LIST_USERS' | 'MCQ_ANALYTICS' | 'LIST_REQUESTS';
+
+export interface AdminToolResult {
+    message: string;
+    data?: any;
+    view?: AdminToolView; // How AdminAiAssistant renders `data`
+}
+
+export interface AdminTool<S extends z.ZodObject<any> = z.ZodObject<any>> {
+    name: string;
+    description: string;
+    args: S;
+    plan?: (args: z.infer<S>, prepared?: Record<string, any>) => Promise<AdminChange>;
+    run?: (args: z.infer<S>) => Promise<AdminToolResult>;
+}
+
+const defineTool = <S extends z.ZodObject<any>>(tool: AdminTool<S>): AdminTool<S> => tool;
+
+// --- SHARED SCHEMAS ---
+
+const BoardSchema = z.enum(['CBSE', 'BSEB', 'COMPETITION']);
+const ClassLevelSchema = z.enum(['6', '7', '8', '9', '10', '11', '12', 'COMPETITION']);
+const StreamSchema = z.enum(['Science', 'Commerce', 'Arts']);
+const PlanTierSchema = z.enum(['WEEKLY', 'MONTHLY', 'YEARLY', 'LIFETIME']);
+const PlanLevelSchema = z.enum(['BASIC', 'ULTRA']);
+const UserIdSchema = z.string().min(1).describe("The user's ID (Firebase UID)");
+
+const SegmentSchema = z.object({
+    board: BoardSchema.optional(),
+    classLevel: ClassLevelSchema.optional(),
+    stream: StreamSchema.optional(),
+    plan: z.enum(['ALL', 'PREMIUM', 'FREE']).optional().describe("Subscription status (default ALL)"),
+    inactiveDays: z.number().int().min(1).optional().describe("Only users not active for at least this many days"),
+    activeWithinDays: z.number().int().min(1).optional().describe("Only users active within this many days"),
+    minCredits: z.number().optional(),
+    maxCredits: z.number().optional()
+});
+
+type Segment = z.infer<typeof SegmentSchema>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const matchesSegment = (user: User, segment: Segment = {}) => {
+    const lastActive = user.lastActiveTime ? new Date(user.lastActiveTime).getTime() : 0;
+    if (user.role === 'ADMIN') return false;
+    if (segment.board && (user.board || 'CBSE') !== segment.board) return false;
+    if (segment.classLevel && user.classLevel !== segment.classLevel) return false;
+    if (segment.stream && user.stream !== segment.stream) return false;
+    if (segment.plan === 'PREMIUM' && !user.isPremium) return false;
+    if (segment.plan === 'FREE' && user.isPremium) return false;
+    if (segment.inactiveDays && lastActive > Date.now() - segment.inactiveDays * DAY_MS) return false;
+    if (segment.activeWithinDays && lastActive < Date.now() - segment.activeWithinDays * DAY_MS) return false;
+    if (segment.minCredits !== undefined && (user.credits || 0) < segment.minCredits) return false;
+    if (segment.maxCredits !== undefined && (user.credits || 0) > segment.maxCredits) return false;
+    return true;
 };
 
-const unbanUser = async (userId: string) => {
-    return await updateUser(userId, { isLocked: false });
+const describeSegment = (segment: Segment = {}) => {
+    const parts = Object.entries(segment).filter(([, v]) => v !== undefined).map(([k, v]) => `${k}=${v}`);
+    return parts.length ? parts.join(', ') : 'all students';
 };
 
-const grantSubscription = async (userId: string, plan: 'WEEKLY' | 'MONTHLY' | 'YEARLY' | 'LIFETIME', level: 'BASIC' | 'ULTRA') => {
-    const now = new Date();
-    let endDate: Date | null = new Date();
-    
-    if (plan === 'WEEKLY') endDate.setDate(now.getDate() + 7);
-    else if (plan === 'MONTHLY') endDate.setDate(now.getDate() + 30);
-    else if (plan === 'YEARLY') endDate.setDate(now.getDate() + 365);
-    else endDate = null;
-
-    const historyEntry: SubscriptionHistoryEntry = {
-        id: `grant-${Date.now()}`,
-        tier: plan,
-        level: level,
-        startDate: now.toISOString(),
-        endDate: endDate ? endDate.toISOString() : 'LIFETIME',
-        durationHours: 0,
-        price: 0,
-        originalPrice: 0,
-        isFree: true,
-        grantSource: 'ADMIN',
-        grantedBy: 'AI_AGENT'
-    };
+const summarizeUser = (u: User) => ({ id: u.id, name: u.name, displayId: u.displayId, email: u.email, role: u.role, credits: u.credits, tier: u.subscriptionTier, classLevel: u.classLevel, board: u.board });
 
-    // Fetch user to append history
-    const snapshot = await get(ref(rtdb, `users/${userId}`));
-    if (!snapshot.exists()) throw new Error("User not found");
-    const user = snapshot.val();
-    
-    const newHistory = [historyEntry, ...(user.subscriptionHistory || [])];
-
-    return await updateUser(userId, {
-        subscriptionTier: plan,
-        subscriptionLevel: level,
-        subscriptionEndDate: endDate ? endDate.toISOString() : undefined,
-        isPremium: true,
-        subscriptionHistory: newHistory,
-        grantedByAdmin: true
-    });
+// --- SYLLABUS LOOKUP ---
+
+const findSubject = (classLevel: ClassLevel, stream: Stream | null, name: string): Subject => {
+    const pool = [...getSubjectsList(classLevel, stream), ...Object.values(DEFAULT_SUBJECTS)];
+    const subject = pool.find(s => matchesText(s.name, name) || matchesText(s.id, name));
+    if (!subject) throw new Error(`Subject "${name}" not found for Class ${classLevel}`);
+    return subject;
 };
 
-const broadcastMessage = async (message: string, type: 'TEXT' | 'GIFT' = 'TEXT', giftValue?: number) => {
-    // This is heavy for all users. We might want to just set a global message in settings
-    // OR fetch all users and update their inbox.
-    // For safety, let's update system settings 'globalMessage' or similar if intended for banner.
-    // Or if intended for Inbox, we limit to batch processing.
-    // Let's assume the request implies "Send to everyone".
-    // We will use 'push' to a 'broadcasts' node if app supports it, but based on types, users have 'inbox'.
-    
-    // Better approach: Create a System Notice in settings
-    const settings = await getSettings();
-    if (settings) {
-        const newSettings = { ...settings, noticeText: message };
-        await saveSystemSettings(newSettings);
-        return "Broadcast banner updated successfully.";
+const findChapters = async (board: Board, classLevel: ClassLevel, stream: Stream | null, subject: Subject, titles: string[]): Promise<Chapter[]> => {
+    const chapters = await fetchChapters(board, classLevel, stream, subject, 'English');
+    const missing = titles.filter(t => !chapters.some(ch => matchesText(ch.title, t)));
+    if (missing.length) {
+        throw new Error(`Chapter(s) not found in ${subject.name}: ${missing.join(', ')}. Available: ${chapters.slice(0, 15).map(ch => ch.title).join('; ')}`);
     }
-    return "Failed to fetch settings.";
+    return chapters.filter(ch => titles.some(t => matchesText(ch.title, t)));
 };
 
-const sendInboxMessage = async (userId: string, text: string) => {
-    const snapshot = await get(ref(rtdb, `users/${userId}`));
-    if (!snapshot.exists()) throw new Error("User not found");
-    const user = snapshot.val();
-    
-    const newMsg: InboxMessage = {
-        id: `msg-${Date.now()}`,
-        text: text,
-        date: new Date().toISOString(),
-        read: false,
-        type: 'TEXT'
-    };
-    
-    const updatedInbox = [newMsg, ...(user.inbox || [])];
-    await updateUser(userId, { inbox: updatedInbox });
-    return `Message sent to ${user.name}.`;
+// --- TEST QUESTIONS ---
+
+const DEFAULT_DIFFICULTY_MIX: Record<QuestionDifficulty, number> = { EASY: 30, MEDIUM: 50, HARD: 20 };
+
+const shuffle = <T,>(list: T[]): T[] => [...list].sort(() => 0.5 - Math.random());
+
+// Bank and chapter questions first, AI only for the gap (generateTestPaper), spread evenly over the chapters
+const buildQuestions = async (
+    board: Board,
+    classLevel: ClassLevel,
+    stream: Stream | null,
+    subjectNames: string[],
+    chapterTitles: string[] | undefined,
+    count: number
+) => {
+    const pairs: { subject: Subject; chapter: Chapter }[] = [];
+    for (const name of subjectNames) {
+        const subject = findSubject(classLevel, stream, name);
+        const all = await fetchChapters(board, classLevel, stream, subject, 'English');
+        const selected = chapterTitles?.length ? all.filter(ch => chapterTitles.some(t => matchesText(ch.title, t))) : shuffle(all);
+        selected.forEach(chapter => pairs.push({ subject, chapter }));
+    }
+    if (!pairs.length) throw new Error(`None of the chapters (${(chapterTitles || []).join(', ')}) were found in ${subjectNames.join(', ')}`);
+
+    const items = pairs.map((pair, i) => ({ ...pair, count: Math.floor(count / pairs.length) + (i < count % pairs.length ? 1 : 0) }));
+    const paper = await generateTestPaper({ board, classLevel, stream, items, difficultyMix: DEFAULT_DIFFICULTY_MIX, language: 'English' });
+    return { ...paper, chapterIds: items.filter(i => i.count > 0).map(i => i.chapter.id) };
 };
 
-const createWeeklyTest = async (name: string, subject: string, questionCount: number) => {
-    // This requires generating questions using AI (Groq) or just creating a placeholder.
-    // The prompt says "createTest". We should probably just create the structure.
-    // Actual question generation might be handled by the caller or a separate tool.
-    // For now, let's create a test entry in settings.
-    
-    const settings = await getSettings();
-    if (!settings) throw new Error("Settings not found");
-    
-    const newTest: WeeklyTest = {
-        id: `test-${Date.now()}`,
-        name: name,
-        description: `Subject: ${subject}`,
-        isActive: true,
-        classLevel: '10', // Default
-        questions: [], // Empty for now, needs generation
-        totalQuestions: questionCount,
-        passingScore: 40,
-        createdAt: new Date().toISOString(),
-        durationMinutes: 60,
-        selectedSubjects: [subject]
-    };
-    
-    const updatedTests = [...(settings.weeklyTests || []), newTest];
-    await saveSystemSettings({ ...settings, weeklyTests: updatedTests });
-    return `Weekly Test "${name}" created (Empty Questions).`;
+const findTest = (settings: SystemSettings, test: string): WeeklyTest => {
+    const found = (settings.weeklyTests || []).find(t => t.id === test || matchesText(t.name, test));
+    if (!found) throw new Error(`Weekly test "${test}" not found`);
+    return found;
 };
 
-const scanUsers = async (filter: 'ALL' | 'PREMIUM' | 'FREE' | 'INACTIVE') => {
-    const users = await getAllUsers();
-    let result = users;
-    
-    if (filter === 'PREMIUM') result = users.filter(u => u.isPremium);
-    if (filter === 'FREE') result = users.filter(u => !u.isPremium);
-    if (filter === 'INACTIVE') {
-        const monthAgo = new Date();
-        monthAgo.setMonth(monthAgo.getMonth() - 1);
-        result = users.filter(u => !u.lastActiveTime || new Date(u.lastActiveTime) < monthAgo);
-    }
-    
-    return result.map(u => ({ id: u.id, name: u.name, email: u.email, role: u.role, credits: u.credits, tier: u.subscriptionTier }));
+const replaceTest = (settings: SystemSettings, updated: WeeklyTest) =>
+    ({ weeklyTests: (settings.weeklyTests || []).map(t => t.id === updated.id ? updated : t) });
+
+// --- GIFT CODES ---
+
+const generateCode = () => {
+    const codeChars = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // Exclude ambiguous chars like O, 0, I, 1
+    let code = '';
+    for (let j = 0; j < 12; j++) code += codeChars.charAt(Math.floor(Math.random() * codeChars.length));
+    return code;
 };
 
-const getRecentLogs = async (limit: number = 20) => {
+// --- MCQ ANALYTICS ---
+
+const toPercent = (r: MCQResult) => {
+    const total = r.totalQuestions || (r as any).total || 0;
+    return total ? (r.score / total) * 100 : 0;
+};
+
+const getResultKey = (r: MCQResult, user: User, groupBy: 'CHAPTER' | 'SUBJECT' | 'CLASS' | 'DAY') => {
+    if (groupBy === 'SUBJECT') return r.subjectName || 'Unknown';
+    if (groupBy === 'CLASS') return `Class ${r.classLevel || user.classLevel || '?'}`;
+    if (groupBy === 'DAY') return (r.date || '').split('T')[0];
+    return `${r.subjectName} • ${r.chapterTitle}`;
+};
+
+// --- TOOLS ---
+
+const deleteUser = defineTool({
+    name: "deleteUser",
+    description: "Delete a user permanently from the system.",
+    args: z.object({ userId: UserIdSchema }),
+    plan: async ({ userId }) => {
+        const user = await loadUser(userId);
+        return { summary: `Delete user ${userLabel(user)}`, changes: [{ kind: 'USER', userId, label: userLabel(user), before: user, after: null }] };
+    }
+});
+
+const updateUser = defineTool({
+    name: "updateUser",
+    description: "Update profile fields of one user. For coin top-ups prefer adjustCredits.",
+    args: z.object({
+        userId: UserIdSchema,
+        updates: z.object({
+            name: z.string(),
+            mobile: z.string(),
+            credits: z.number().int().min(0),
+            board: BoardSchema,
+            classLevel: ClassLevelSchema,
+            stream: StreamSchema,
+            isChatBanned: z.boolean(),
+            isGameBanned: z.boolean(),
+            isPasswordless: z.boolean()
+        }).partial().strict().describe("Only the fields to change")
+    }),
+    plan: ({ userId, updates }) => changeUser(userId, 'Update user', () => updates as Partial<User>)
+});
+
+const adjustCredits = defineTool({
+    name: "adjustCredits",
+    description: "Add coins to (positive amount) or remove coins from (negative amount) a user's balance.",
+    args: z.object({
+        userId: UserIdSchema,
+        amount: z.number().int().refine(n => n !== 0, "amount must not be 0").describe("Coins to add; negative to deduct"),
+        reason: z.string().optional().describe("Shown to the user in their inbox")
+    }),
+    plan: ({ userId, amount, reason }) =>
+        changeUser(userId, `${amount > 0 ? 'Add' : 'Deduct'} ${Math.abs(amount)} coins`, user => {
+            const updates: Partial<User> = { credits: Math.max(0, (user.credits || 0) + amount) };
+            if (reason) {
+                const note: InboxMessage = { id: `msg-${Date.now()}`, text: `${amount > 0 ? '+' : ''}${amount} coins: ${reason}`, date: new Date().toISOString(), read: false, type: 'TEXT' };
+                updates.inbox = [note, ...(user.inbox || [])];
+            }
+            return updates;
+        })
+});
+
+const banUser = defineTool({
+    name: "banUser",
+    description: "Lock/Ban a user account.",
+    args: z.object({ userId: UserIdSchema, reason: z.string().optional().describe("Reason for banning") }),
+    plan: ({ userId, reason }) => changeUser(userId, reason ? `Ban user (${reason})` : 'Ban user', () => ({ isLocked: true }))
+});
+
+const unbanUser = defineTool({
+    name: "unbanUser",
+    description: "Unlock/Unban a user account.",
+    args: z.object({ userId: UserIdSchema }),
+    plan: ({ userId }) => changeUser(userId, 'Unban user', () => ({ isLocked: false }))
+});
+
+const grantSubscription = defineTool({
+    name: "grantSubscription",
+    description: "Give a free premium subscription to a user.",
+    args: z.object({ userId: UserIdSchema, plan: PlanTierSchema, level: PlanLevelSchema }),
+    plan: ({ userId, plan, level }) =>
+        changeUser(userId, `Grant ${plan} ${level} subscription`, (user: any) => {
+            const now = new Date();
+            const days = { WEEKLY: 7, MONTHLY: 30, YEARLY: 365, LIFETIME: 0 }[plan];
+            const endDate = days ? new Date(now.getTime() + days * DAY_MS) : null;
+            const historyEntry: SubscriptionHistoryEntry = {
+                id: `grant-${Date.now()}`,
+                tier: plan,
+                level: level,
+                startDate: now.toISOString(),
+                endDate: endDate ? endDate.toISOString() : 'LIFETIME',
+                durationHours: 0,
+                price: 0,
+                originalPrice: 0,
+                isFree: true,
+                grantSource: 'ADMIN',
+                grantedBy: 'AI_AGENT'
+            };
+            return {
+                subscriptionTier: plan,
+                subscriptionLevel: level,
+                subscriptionEndDate: endDate ? endDate.toISOString() : undefined,
+                isPremium: true,
+                subscriptionHistory: [historyEntry, ...(user.subscriptionHistory || [])],
+                grantedByAdmin: true
+            } as Partial<User>;
+        })
+});
+
+const sendInboxMessage = defineTool({
+    name: "sendInboxMessage",
+    description: "Send a personal message to a specific user's inbox.",
+    args: z.object({ userId: UserIdSchema, text: z.string().min(1).describe("The message content") }),
+    plan: ({ userId, text }) =>
+        changeUser(userId, 'Send inbox message', user => {
+            const newMsg: InboxMessage = { id: `msg-${Date.now()}`, text, date: new Date().toISOString(), read: false, type: 'TEXT' };
+            return { inbox: [newMsg, ...(user.inbox || [])] };
+        })
+});
+
+const MAX_INBOX_RECIPIENTS = 100; // Keeps the plan reviewable and the undo record under Firestore's size limit
+
+const broadcastMessage = defineTool({
+    name: "broadcastMessage",
+    description: "Announce something to students: as the global banner, as an inbox message to a segment of users, or both.",
+    args: z.object({
+        message: z.string().min(1).describe("The message text"),
+        channel: z.enum(['BANNER', 'INBOX', 'BOTH']).default('BANNER').describe("BANNER = notice shown to everyone, INBOX = personal inbox message"),
+        segment: SegmentSchema.optional().describe("Inbox recipients (default all students)")
+    }),
+    plan: async ({ message, channel, segment }) => {
+        const changes: AdminRecordChange[] = [];
+        if (channel !== 'INBOX') {
+            const settings = await loadSettings();
+            changes.push({ kind: 'SETTINGS', before: settings, after: { ...settings, noticeText: message } });
+        }
+        let recipients = 0;
+        if (channel !== 'BANNER') {
+            const ids = (await getAllUsers()).filter(u => matchesSegment(u, segment)).map(u => u.id);
+            if (ids.length > MAX_INBOX_RECIPIENTS) throw new Error(`${ids.length} users match (${describeSegment(segment)}). Narrow the segment to ${MAX_INBOX_RECIPIENTS} or fewer.`);
+            for (const id of ids) {
+                const user = await loadUser(id).catch(() => null);
+                if (!user) continue;
+                const newMsg: InboxMessage = { id: `msg-${Date.now()}-${recipients}`, text: message, date: new Date().toISOString(), read: false, type: 'TEXT' };
+                changes.push(userChange(user, { inbox: [newMsg, ...(user.inbox || [])] }));
+                recipients++;
+            }
+        }
+        const parts = [channel !== 'INBOX' ? 'update the notice banner' : '', channel !== 'BANNER' ? `message ${recipients} user(s) (${describeSegment(segment)})` : ''];
+        return { summary: `Broadcast: ${parts.filter(Boolean).join(' and ')}`, changes };
+    }
+});
+
+const createWeeklyTest = defineTool({
+    name: "createWeeklyTest",
+    description: "Create a Weekly Test for a class. Questions are drawn from the question bank and chapter MCQs, and AI fills any gap.",
+    args: z.object({
+        name: z.string().min(1),
+        classLevel: ClassLevelSchema,
+        board: BoardSchema.default('CBSE'),
+        stream: StreamSchema.optional().describe("Class 11/12 only"),
+        subjects: z.array(z.string()).min(1).describe("Subject names, e.g. [\"Physics\"]"),
+        chapterTitles: z.array(z.string()).optional().describe("Limit to these chapters (default: spread over all chapters)"),
+        questionCount: z.number().int().min(1).max(200),
+        durationMinutes: z.number().int().min(5).default(60),
+        passingScore: z.number().min(0).max(100).default(40).describe("Percent of the maximum marks"),
+        markingPreset: z.enum(['SIMPLE', 'NEET', 'JEE_ADVANCED']).default('SIMPLE').describe("SIMPLE +1/0, NEET +4/-1, JEE_ADVANCED +3/-1 single, +4/-2 multi-correct with partial credit"),
+        generateQuestions: z.boolean().default(true).describe("false creates an empty test to fill later"),
+        isActive: z.boolean().default(false).describe("Publish to students immediately")
+    }),
+    plan: async (args, prepared) => {
+        const stream = args.stream || null;
+        const paper = prepared?.questions
+            ? { questions: prepared.questions as MCQItem[], chapterIds: prepared.chapterIds as string[], shortfall: 0 }
+            : args.generateQuestions
+                ? await buildQuestions(args.board, args.classLevel, stream, args.subjects, args.chapterTitles, args.questionCount)
+                : { questions: [] as MCQItem[], chapterIds: [] as string[], shortfall: 0 };
+
+        const change = await changeSettings(
+            `Create weekly test "${args.name}" for Class ${args.classLevel} with ${paper.questions.length} question(s)${paper.shortfall ? ` (${paper.shortfall} could not be filled)` : ''}`,
+            settings => {
+                const newTest: WeeklyTest = {
+                    id: `test-${Date.now()}`,
+                    name: args.name,
+                    description: `Subjects: ${args.subjects.join(', ')}`,
+                    isActive: args.isActive,
+                    classLevel: args.classLevel,
+                    questions: paper.questions,
+                    totalQuestions: args.questionCount,
+                    passingScore: args.passingScore,
+                    createdAt: new Date().toISOString(),
+                    durationMinutes: args.durationMinutes,
+                    selectedSubjects: args.subjects.map(name => findSubject(args.classLevel, stream, name).id),
+                    selectedChapters: paper.chapterIds,
+                    ...(args.markingPreset !== 'SIMPLE' ? { markingScheme: MARKING_PRESETS.find(p => p.id === args.markingPreset)!.scheme } : {})
+                };
+                return { weeklyTests: [...(settings.weeklyTests || []), newTest] };
+            }
+        );
+        return { ...change, prepared: { questions: paper.questions, chapterIds: paper.chapterIds } };
+    }
+});
+
+const addQuestionsToTest = defineTool({
+    name: "addQuestionsToTest",
+    description: "Generate questions for chapters of a subject and attach them to an existing Weekly Test.",
+    args: z.object({
+        test: z.string().min(1).describe("Test ID or exact test name"),
+        subject: z.string().min(1),
+        chapterTitles: z.array(z.string()).optional(),
+        count: z.number().int().min(1).max(100),
+        board: BoardSchema.default('CBSE'),
+        stream: StreamSchema.optional()
+    }),
+    plan: async (args, prepared) => {
+        const settings = await loadSettings();
+        const test = findTest(settings, args.test);
+        const stream = args.stream || null;
+        const subject = findSubject(test.classLevel, stream, args.subject);
+
+        let questions: MCQItem[] = prepared?.questions;
+        let chapterIds: string[] = prepared?.chapterIds || [];
+        if (!questions) {
+            const paper = await buildQuestions(args.board, test.classLevel, stream, [args.subject], args.chapterTitles, args.count);
+            questions = paper.questions.filter(q => !isNearDuplicate(q, test.questions || []));
+            chapterIds = paper.chapterIds;
+        }
+
+        const allQuestions = [...(test.questions || []), ...questions];
+        const updated: WeeklyTest = {
+            ...test,
+            questions: allQuestions,
+            totalQuestions: Math.max(test.totalQuestions || 0, allQuestions.length),
+            selectedSubjects: Array.from(new Set([...(test.selectedSubjects || []), subject.id])),
+            selectedChapters: Array.from(new Set([...(test.selectedChapters || []), ...chapterIds]))
+        };
+        return {
+            summary: `Add ${questions.length} ${subject.name} question(s) to "${test.name}"`,
+            changes: [{ kind: 'SETTINGS', before: settings, after: { ...settings, ...replaceTest(settings, updated) } }],
+            prepared: { questions, chapterIds }
+        };
+    }
+});
+
+const setTestActive = defineTool({
+    name: "setTestActive",
+    description: "Publish (isActive true) or unpublish a Weekly Test.",
+    args: z.object({ test: z.string().min(1).describe("Test ID or exact test name"), isActive: z.boolean() }),
+    plan: async ({ test, isActive }) => {
+        const settings = await loadSettings();
+        const found = findTest(settings, test);
+        return {
+            summary: `${isActive ? 'Publish' : 'Unpublish'} weekly test "${found.name}"`,
+            changes: [{ kind: 'SETTINGS', before: settings, after: { ...settings, ...replaceTest(settings, { ...found, isActive }) } }]
+        };
+    }
+});
+
+const createGiftCodes = defineTool({
+    name: "createGiftCodes",
+    description: "Generate redeemable gift codes for coins or a subscription.",
+    args: z.object({
+        count: z.number().int().min(1).max(50).default(1),
+        type: z.enum(['CREDITS', 'SUBSCRIPTION']),
+        amount: z.number().int().min(1).optional().describe("Coins per code (CREDITS)"),
+        subTier: z.enum(['WEEKLY', 'MONTHLY', '3_MONTHLY', 'YEARLY', 'LIFETIME']).optional().describe("SUBSCRIPTION only"),
+        subLevel: PlanLevelSchema.optional().describe("SUBSCRIPTION only"),
+        maxUses: z.number().int().min(1).default(1).describe("How many students can redeem each code")
+    }).refine(a => a.type === 'SUBSCRIPTION' || a.amount, { message: "amount is required for CREDITS codes", path: ['amount'] }),
+    plan: async (args, prepared) => {
+        const codes: string[] = prepared?.codes || Array.from({ length: args.count }, generateCode);
+        const changes: AdminRecordChange[] = codes.map((code, i) => {
+            const giftCode: GiftCode = {
+                id: `${Date.now()}${i}`,
+                code,
+                type: args.type,
+                ...(args.type === 'CREDITS' ? { amount: args.amount } : { subTier: args.subTier || 'WEEKLY', subLevel: args.subLevel || 'BASIC' }),
+                createdAt: new Date().toISOString(),
+                isRedeemed: false,
+                generatedBy: 'AI_AGENT',
+                maxUses: args.maxUses,
+                usedCount: 0,
+                redeemedBy: []
+            };
+            return { kind: 'RECORD', path: `redeem_codes/${code}`, label: `Gift code ${code}`, before: null, after: giftCode };
+        });
+        const value = args.type === 'CREDITS' ? `${args.amount} coins` : `${args.subTier || 'WEEKLY'} ${args.subLevel || 'BASIC'}`;
+        return { summary: `Create ${codes.length} gift code(s) for ${value}, ${args.maxUses} use(s) each`, changes, prepared: { codes } };
+    }
+});
+
+// Payment requests are read from RTDB payment_requests/{id}; approval credits the package's coins.
+// Students record them from the store once they have paid (Store.tsx, savePaymentRequest).
+const approvePaymentRequest = defineTool({
+    name: "approvePaymentRequest",
+    description: "Approve a pending payment request and credit the purchased coin package to the user.",
+    args: z.object({ requestId: z.string().min(1) }),
+    plan: async ({ requestId }) => {
+        const request: PaymentRequest | null = await loadRecord(`payment_requests/${requestId}`);
+        if (!request) throw new Error(`Payment request ${requestId} not found`);
+        if (request.status !== 'PENDING') throw new Error(`Payment request ${requestId} is already ${request.status}`);
+        const settings = await loadSettings();
+        // The store falls back to its built-in packages when none are configured; those requests carry their coins
+        const credits = (settings.packages || []).find(p => p.id === request.packageId)?.credits ?? request.credits;
+        if (!credits) throw new Error(`Package ${request.packageId} (${request.packageName}) no longer exists`);
+        const user = await loadUser(request.userId);
+        return {
+            summary: `Approve ₹${request.amount} payment (txn ${request.txnId}) and add ${credits} coins to ${userLabel(user)}`,
+            changes: [
+                { kind: 'RECORD', path: `payment_requests/${requestId}`, label: `Payment ${request.txnId}`, before: request, after: { ...request, status: 'APPROVED' } },
+                userChange(user, { credits: (user.credits || 0) + credits })
+            ]
+        };
+    }
+});
+
+const rejectPaymentRequest = defineTool({
+    name: "rejectPaymentRequest",
+    description: "Reject a pending payment request.",
+    args: z.object({ requestId: z.string().min(1) }),
+    plan: async ({ requestId }) => {
+        const request: PaymentRequest | null = await loadRecord(`payment_requests/${requestId}`);
+        if (!request) throw new Error(`Payment request ${requestId} not found`);
+        if (request.status !== 'PENDING') throw new Error(`Payment request ${requestId} is already ${request.status}`);
+        return {
+            summary: `Reject ₹${request.amount} payment (txn ${request.txnId}) from ${request.userName}`,
+            changes: [{ kind: 'RECORD', path: `payment_requests/${requestId}`, label: `Payment ${request.txnId}`, before: request, after: { ...request, status: 'REJECTED' } }]
+        };
+    }
+});
+
+const approveRecoveryRequest = defineTool({
+    name: "approveRecoveryRequest",
+    description: "Approve a login recovery request: the user can then log in without a password.",
+    args: z.object({ userId: UserIdSchema.describe("The user ID (recovery requests are keyed by user ID)") }),
+    plan: async ({ userId }) => {
+        const request: RecoveryRequest | null = await loadRecord(`recovery_requests/${userId}`);
+        if (!request) throw new Error(`No recovery request for ${userId}`);
+        if (request.status !== 'PENDING') throw new Error(`Recovery request for ${request.name} is already ${request.status}`);
+        const user = await loadUser(userId);
+        return {
+            summary: `Approve login recovery for ${userLabel(user)} (passwordless login)`,
+            changes: [
+                { kind: 'RECORD', path: `recovery_requests/${userId}`, label: `Recovery ${request.name}`, before: request, after: { ...request, status: 'RESOLVED' } },
+                userChange(user, { isPasswordless: true })
+            ]
+        };
+    }
+});
+
+const listPendingRequests = defineTool({
+    name: "listPendingRequests",
+    description: "List pending payment and/or login recovery requests.",
+    args: z.object({ kind: z.enum(['PAYMENT', 'RECOVERY', 'ALL']).default('ALL') }),
+    run: async ({ kind }) => {
+        const pending = (node: any) => Object.values(node || {}).filter((r: any) => r.status === 'PENDING');
+        const payments = kind === 'RECOVERY' ? [] : pending(await loadRecord('payment_requests')).map((r: any) => ({ ...r, kind: 'PAYMENT' }));
+        const recoveries = kind === 'PAYMENT' ? [] : pending(await loadRecord('recovery_requests')).map((r: any) => ({ ...r, kind: 'RECOVERY' }));
+        const data = [...payments, ...recoveries].sort((a: any, b: any) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+        return { message: `${payments.length} pending payment and ${recoveries.length} pending recovery request(s).`, data, view: 'LIST_REQUESTS' };
+    }
+});
+
+const setChapterVisibility = defineTool({
+    name: "setChapterVisibility",
+    description: "Hide chapters from students or unhide them.",
+    args: z.object({
+        board: BoardSchema.default('CBSE'),
+        classLevel: ClassLevelSchema,
+        stream: StreamSchema.optional(),
+        subject: z.string().min(1),
+        chapterTitles: z.array(z.string()).min(1),
+        hidden: z.boolean().describe("true hides, false shows")
+    }),
+    plan: async ({ board, classLevel, stream, subject, chapterTitles, hidden }) => {
+        const subj = findSubject(classLevel, stream || null, subject);
+        const chapters = await findChapters(board, classLevel, stream || null, subj, chapterTitles);
+        const ids = chapters.map(ch => ch.id);
+        return changeSettings(
+            `${hidden ? 'Hide' : 'Unhide'} ${chapters.length} ${subj.name} chapter(s): ${chapters.map(ch => ch.title).join(', ')}`,
+            settings => {
+                const current = settings.hiddenChapters || [];
+                return { hiddenChapters: hidden ? Array.from(new Set([...current, ...ids])) : current.filter(id => !ids.includes(id)) };
+            }
+        );
+    }
+});
+
+const MAX_FEATURED_ITEMS = 4;
+
+const addFeaturedItem = defineTool({
+    name: "addFeaturedItem",
+    description: `Add a chapter shortcut to the students' featured section (max ${MAX_FEATURED_ITEMS}).`,
+    args: z.object({
+        board: BoardSchema.default('CBSE'),
+        classLevel: ClassLevelSchema,
+        stream: StreamSchema.optional(),
+        subject: z.string().min(1),
+        chapterTitle: z.string().min(1),
+        type: z.enum(['MCQ', 'PDF', 'VIDEO']),
+        title: z.string().optional().describe("Card title (default: chapter title)")
+    }),
+    plan: async args => {
+        const stream = args.stream || null;
+        const subject = findSubject(args.classLevel, stream, args.subject);
+        const [chapter] = await findChapters(args.board, args.classLevel, stream, subject, [args.chapterTitle]);
+        return changeSettings(`Feature ${args.type} of "${chapter.title}" (${subject.name}, Class ${args.classLevel})`, settings => {
+            const items = settings.featuredItems || [];
+            if (items.length >= MAX_FEATURED_ITEMS) throw new Error(`Already ${items.length} featured items. Remove one first.`);
+            const newItem: FeaturedItem = {
+                id: `feat-${Date.now()}`,
+                title: args.title || chapter.title,
+                subtitle: `${args.classLevel} • ${subject.name}`,
+                board: args.board,
+                classLevel: args.classLevel,
+                stream,
+                subject,
+                chapter,
+                type: args.type
+            };
+            return { featuredItems: [...items, newItem] };
+        });
+    }
+});
+
+const removeFeaturedItem = defineTool({
+    name: "removeFeaturedItem",
+    description: "Remove a shortcut from the featured section.",
+    args: z.object({ item: z.string().min(1).describe("Featured item ID or title") }),
+    plan: ({ item }) =>
+        changeSettings(`Remove featured item "${item}"`, settings => {
+            const items = settings.featuredItems || [];
+            const found = items.find(i => i.id === item || matchesText(i.title, item));
+            if (!found) throw new Error(`Featured item "${item}" not found. Current: ${items.map(i => i.title).join(', ') || 'none'}`);
+            return { featuredItems: items.filter(i => i.id !== found.id) };
+        })
+});
+
+const updateSystemSettings = defineTool({
+    name: "updateSystemSettings",
+    description: "Update global system settings (Theme, AI Limits, Maintenance).",
+    args: z.object({
+        updates: z.record(z.string(), z.any()).describe("JSON object of settings to update (e.g. {themeColor: '#000000', maintenanceMode: true, aiLimits: {free: 10}})")
+    }),
+    plan: ({ updates }) => changeSettings('Update system settings', () => updates as Partial<SystemSettings>)
+});
+
+const scanUsers = defineTool({
+    name: "scanUsers",
+    description: "List users based on a simple filter.",
+    args: z.object({ filter: z.enum(['ALL', 'PREMIUM', 'FREE', 'INACTIVE']) }),
+    run: async ({ filter }) => {
+        const users = await getAllUsers();
+        let result = users;
+
+        if (filter === 'PREMIUM') result = users.filter(u => u.isPremium);
+        if (filter === 'FREE') result = users.filter(u => !u.isPremium);
+        if (filter === 'INACTIVE') {
+            const monthAgo = new Date();
+            monthAgo.setMonth(monthAgo.getMonth() - 1);
+            result = users.filter(u => !u.lastActiveTime || new Date(u.lastActiveTime) < monthAgo);
+        }
+        return { message: `Found ${result.length} users matching criteria.`, data: result.map(summarizeUser), view: 'LIST_USERS' };
+    }
+});
+
+const segmentUsers = defineTool({
+    name: "segmentUsers",
+    description: "Find students by board, class, stream, subscription, activity and coin balance.",
+    args: SegmentSchema.extend({ limit: z.number().int().min(1).max(500).default(100) }),
+    run: async ({ limit, ...segment }) => {
+        const matched = (await getAllUsers()).filter(u => matchesSegment(u, segment));
+        return {
+            message: `${matched.length} student(s) match (${describeSegment(segment)})${matched.length > limit ? `, showing ${limit}` : ''}.`,
+            data: matched.slice(0, limit).map(summarizeUser),
+            view: 'LIST_USERS'
+        };
+    }
+});
+
+const queryMcqAnalytics = defineTool({
+    name: "queryMcqAnalytics",
+    description: "Aggregate students' MCQ test results: attempts, average score and time, grouped by chapter, subject, class or day.",
+    args: z.object({
+        days: z.number().int().min(1).max(365).default(7).describe("Look-back window"),
+        board: BoardSchema.optional(),
+        classLevel: ClassLevelSchema.optional(),
+        subject: z.string().optional(),
+        chapter: z.string().optional().describe("Chapter title"),
+        groupBy: z.enum(['CHAPTER', 'SUBJECT', 'CLASS', 'DAY']).default('CHAPTER'),
+        sortBy: z.enum(['WEAKEST', 'MOST_ATTEMPTED']).default('WEAKEST'),
+        limit: z.number().int().min(1).max(50).default(15)
+    }),
+    run: async args => {
+        const since = Date.now() - args.days * DAY_MS;
+        const groups: Record<string, { key: string; attempts: number; students: Set<string>; percentTotal: number; secondsTotal: number }> = {};
+        const students = new Set<string>();
+        let attempts = 0;
+        let percentTotal = 0;
+
+        (await getAllUsers()).forEach(user => {
+            if (args.board && (user.board || 'CBSE') !== args.board) return;
+            (user.mcqHistory || []).forEach(r => {
+                if (new Date(r.date).getTime() < since) return;
+                if (args.classLevel && (r.classLevel || user.classLevel) !== args.classLevel) return;
+                if (args.subject && !matchesText(r.subjectName, args.subject)) return;
+                if (args.chapter && !matchesText(r.chapterTitle, args.chapter)) return;
+
+                const key = getResultKey(r, user, args.groupBy);
+                const g = groups[key] = groups[key] || { key, attempts: 0, students: new Set(), percentTotal: 0, secondsTotal: 0 };
+                const percent = toPercent(r);
+                g.attempts++;
+                g.students.add(user.id);
+                g.percentTotal += percent;
+                g.secondsTotal += r.averageTimePerQuestion || 0;
+                students.add(user.id);
+                attempts++;
+                percentTotal += percent;
+            });
+        });
+
+        const rows = Object.values(groups)
+            .map(g => ({ key: g.key, attempts: g.attempts, students: g.students.size, avgScorePercent: Math.round(g.percentTotal / g.attempts), avgSecondsPerQuestion: Math.round(g.secondsTotal / g.attempts) }))
+            .sort((a, b) => args.sortBy === 'WEAKEST' ? a.avgScorePercent - b.avgScorePercent : b.attempts - a.attempts)
+            .slice(0, args.limit);
+        const average = attempts ? Math.round(percentTotal / attempts) : 0;
+        return {
+            message: `${attempts} test result(s) from ${students.size} student(s) in the last ${args.days} day(s). Average score ${average}%.`,
+            data: rows,
+            view: 'MCQ_ANALYTICS'
+        };
+    }
+});
+
+export const getRecentLogs = async (limit: number = 20) => {
      try {
         const q = query(collection(db, "ai_interactions"), orderBy("timestamp", "desc"), limitToLast(limit));
         const snapshot = await getDocs(q);
@@ -218,186 +785,63 @@ const getRecentLogs = async (limit: number = 20) => {
      } catch (e) { return []; }
 };
 
-const updateSystemSettings = async (updates: Partial<SystemSettings>) => {
-    try {
-        const current = await getSettings();
-        if (!current) throw new Error("Settings not found");
-        const newSettings = { ...current, ...updates };
-        await saveSystemSettings(newSettings);
-        return "System Settings updated successfully.";
-    } catch (e: any) {
-        throw new Error(`Failed to update settings: ${e.message}`);
+const getRecentLogsTool = defineTool({
+    name: "getRecentLogs",
+    description: "Show the most recent admin AI interactions.",
+    args: z.object({ limit: z.number().int().min(1).max(100).default(20) }),
+    run: async ({ limit }) => {
+        const logs = await getRecentLogs(limit);
+        return { message: logs.map((l: any) => `${l.timestamp}: ${l.query} -> ${(l.response || '').slice(0, 120)}`).join('\n') || 'No recent activity.' };
     }
-};
+});
 
 // --- REGISTRY MAP ---
-export const ActionRegistry = {
+const AdminToolCatalog: AdminTool<any>[] = [
     deleteUser,
     updateUser,
+    adjustCredits,
     banUser,
     unbanUser,
     grantSubscription,
-    broadcastMessage,
     sendInboxMessage,
+    broadcastMessage,
     createWeeklyTest,
+    addQuestionsToTest,
+    setTestActive,
+    createGiftCodes,
+    approvePaymentRequest,
+    rejectPaymentRequest,
+    approveRecoveryRequest,
+    listPendingRequests,
+    setChapterVisibility,
+    addFeaturedItem,
+    removeFeaturedItem,
+    updateSystemSettings,
     scanUsers,
-    getRecentLogs,
-    updateSystemSettings
+    segmentUsers,
+    queryMcqAnalytics,
+    getRecentLogsTool
+];
+
+export const ActionRegistry: Record<string, AdminTool<any>> = Object.fromEntries(AdminToolCatalog.map(tool => [tool.name, tool]));
+
+// Validates the model's (or a stored plan's) arguments against the tool schema, applying defaults
+export const parseToolArgs = (name: string, raw: unknown): Record<string, any> => {
+    const tool = ActionRegistry[name];
+    if (!tool) throw new Error(`Tool ${name} not found`);
+    const result = tool.args.safeParse(raw ?? {});
+    if (!result.success) {
+        const issues = result.error.issues.slice(0, 5).map(issue => `${issue.path.length ? issue.path.join('.') : '(root)'}: ${issue.message}`);
+        throw new Error(`Invalid arguments for ${name}: ${issues.join('; ')}`);
+    }
+    return result.data;
 };
 
-// --- TOOL DEFINITIONS (JSON SCHEMA) ---
-export const adminTools = [
-    {
+// --- TOOL DEFINITIONS (JSON SCHEMA, generated from the zod arguments) ---
+export const adminTools = AdminToolCatalog.map(tool => {
+    const { $schema, ...parameters } = z.toJSONSchema(tool.args, { io: 'input', unrepresentable: 'any' }) as Record<string, any>;
+    return {
         type: "function",
-        function: {
-            name: "deleteUser",
-            description: "Delete a user permanently from the system.",
-            parameters: {
-                type: "object",
-                properties: {
-                    userId: { type: "string", description: "The ID of the user to delete" }
-                },
-                required: ["userId"]
-            }
-        }
-    },
-    {
-        type: "function",
-        function: {
-            name: "updateUser",
-            description: "Update user details like credits.",
-            parameters: {
-                type: "object",
-                properties: {
-                    userId: { type: "string", description: "The ID of the user" },
-                    updates: { 
-                        type: "object", 
-                        description: "JSON object of fields to update (e.g., { credits: 500 })" 
-                    }
-                },
-                required: ["userId", "updates"]
-            }
-        }
-    },
-    {
-        type: "function",
-        function: {
-            name: "grantSubscription",
-            description: "Give a premium subscription to a user.",
-            parameters: {
-                type: "object",
-                properties: {
-                    userId: { type: "string", description: "The ID of the user" },
-                    plan: { type: "string", enum: ["WEEKLY", "MONTHLY", "YEARLY", "LIFETIME"] },
-                    level: { type: "string", enum: ["BASIC", "ULTRA"] }
-                },
-                required: ["userId", "plan", "level"]
-            }
-        }
-    },
-    {
-        type: "function",
-        function: {
-            name: "banUser",
-            description: "Lock/Ban a user account.",
-            parameters: {
-                type: "object",
-                properties: {
-                    userId: { type: "string", description: "The ID of the user" },
-                    reason: { type: "string", description: "Reason for banning" }
-                },
-                required: ["userId"]
-            }
-        }
-    },
-    {
-        type: "function",
-        function: {
-            name: "unbanUser",
-            description: "Unlock/Unban a user account.",
-            parameters: {
-                type: "object",
-                properties: {
-                    userId: { type: "string", description: "The ID of the user" }
-                },
-                required: ["userId"]
-            }
-        }
-    },
-    {
-        type: "function",
-        function: {
-            name: "broadcastMessage",
-            description: "Set a global notice/banner text for all users.",
-            parameters: {
-                type: "object",
-                properties: {
-                    message: { type: "string", description: "The message text to display" }
-                },
-                required: ["message"]
-            }
-        }
-    },
-    {
-        type: "function",
-        function: {
-            name: "sendInboxMessage",
-            description: "Send a personal message to a specific user's inbox.",
-            parameters: {
-                type: "object",
-                properties: {
-                    userId: { type: "string", description: "The ID of the user" },
-                    text: { type: "string", description: "The message content" }
-                },
-                required: ["userId", "text"]
-            }
-        }
-    },
-    {
-        type: "function",
-        function: {
-            name: "createWeeklyTest",
-            description: "Create a new Weekly Test (structure only).",
-            parameters: {
-                type: "object",
-                properties: {
-                    name: { type: "string", description: "Name of the test" },
-                    subject: { type: "string", description: "Subject of the test" },
-                    questionCount: { type: "number", description: "Total questions" }
-                },
-                required: ["name", "subject", "questionCount"]
-            }
-        }
-    },
-    {
-        type: "function",
-        function: {
-            name: "scanUsers",
-            description: "List users based on a filter.",
-            parameters: {
-                type: "object",
-                properties: {
-                    filter: { type: "string", enum: ["ALL", "PREMIUM", "FREE", "INACTIVE"] }
-                },
-                required: ["filter"]
-            }
-        }
-    },
-    {
-        type: "function",
-        function: {
-            name: "updateSystemSettings",
-            description: "Update global system settings (Theme, AI Limits, Maintenance).",
-            parameters: {
-                type: "object",
-                properties: {
-                    updates: {
-                        type: "object",
-                        description: "JSON object of settings to update (e.g. {themeColor: '#000000', maintenanceMode: true, aiLimits: {free: 10}})"
-                    }
-                },
-                required: ["updates"]
-            }
-        }
-    }
-];
+        function: { name: tool.name, description: tool.description, parameters }
+    };
+});
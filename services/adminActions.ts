@@ -0,0 +1,205 @@
+import { AdminActionDiff, AdminActionInverse, AdminActionPlan, AdminActionRecord, AdminActionTarget } from '../types';
+import { ActionRegistry, AdminChange, AdminRecordChange, applyChange, parseToolArgs } from './actionRegistry';
+import { auth, rtdb, saveUserToLive, saveSystemSettings, saveAdminActionRecord, markAdminActionUndone, saveAiInteraction, sanitizeForFirestore } from '../firebase';
+import { ref, get, set, remove } from "firebase/database";
+
+// --- ADMIN AI ACTIONS: DRY RUN, CONFIRM, UNDO ---
+// The admin AI never writes directly. A mutating tool call becomes a plan (targets + field diffs),
+// the admin confirms it in AdminAiAssistant, and only then is the change rebuilt and applied.
+// Each executed action is stored with the previous values of the fields it wrote so it can be undone.
+
+// Undo found the record edited after the action; retry with force to overwrite those edits
+export class AdminUndoConflictError extends Error {
+    fields: string[];
+
+    constructor(fields: string[]) {
+        super(`Changed since this action: ${fields.join(', ')}`);
+        this.name = 'AdminUndoConflictError';
+        this.fields = fields;
+    }
+}
+
+export const isMutatingTool = (tool: string) => !!ActionRegistry[tool]?.plan;
+
+// Firebase drops undefined, null and empty arrays, so they all count as "not set"
+const isUnset = (value: any) => value === undefined || value === null || (Array.isArray(value) && value.length === 0);
+
+const stableStringify = (value: any): string => {
+    if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+    if (value && typeof value === 'object') {
+        return `{${Object.keys(value).filter(k => !isUnset(value[k])).sort().map(k => `${JSON.stringify(k)}:${stableStringify(value[k])}`).join(',')}}`;
+    }
+    return JSON.stringify(value);
+};
+
+const sameValue = (a: any, b: any) => (isUnset(a) && isUnset(b)) || stableStringify(a) === stableStringify(b);
+
+const isPlainObject = (value: any) => !!value && typeof value === 'object' && !Array.isArray(value);
+
+// Field-level diff; nested settings objects (aiLimits, ...) are walked, arrays are compared whole
+export const diffValues = (before: any, after: any, path: string = ''): Omit<AdminActionDiff, 'targetId'>[] => {
+    if (sameValue(before, after)) return [];
+    if (isPlainObject(before) && isPlainObject(after)) {
+        const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)])).sort();
+        return keys.flatMap(key => diffValues(before[key], after[key], path ? `${path}.${key}` : key));
+    }
+    return [{ path: path || '(root)', before: isUnset(before) ? undefined : before, after: isUnset(after) ? undefined : after }];
+};
+
+const getPath = (obj: any, path: string) => path.split('.').reduce((acc, key) => acc?.[key], obj);
+
+const getTarget = (c: AdminRecordChange): AdminActionTarget => {
+    const operation = c.before === null ? 'CREATE' : c.after === null ? 'DELETE' : 'UPDATE';
+    if (c.kind === 'USER') return { kind: 'USER', id: c.userId, label: c.label, operation };
+    if (c.kind === 'SETTINGS') return { kind: 'SETTINGS', id: 'system_settings', label: 'System Settings', operation };
+    return { kind: 'RECORD', id: c.path, label: c.label, operation };
+};
+
+// Created and deleted records are shown whole by their target, so only updates carry field diffs
+const getDiffs = (change: AdminChange): AdminActionDiff[] =>
+    change.changes.flatMap(c => {
+        if (c.before === null || c.after === null) return [];
+        const targetId = getTarget(c).id;
+        return diffValues(c.before, c.after).map(d => ({ ...d, targetId }));
+    });
+
+const buildChange = (tool: string, args: Record<string, any>, prepared?: Record<string, any>): Promise<AdminChange> => {
+    const plan = ActionRegistry[tool]?.plan;
+    if (!plan) throw new Error(`Tool ${tool} does not change data`);
+    return plan(parseToolArgs(tool, args), prepared);
+};
+
+// Reads the current records and works out the change without writing anything
+export const planAdminAction = async (tool: string, args: Record<string, any>): Promise<AdminActionPlan> => {
+    const validArgs = parseToolArgs(tool, args);
+    const change = await buildChange(tool, validArgs);
+    return {
+        id: `plan-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+        tool,
+        args: validArgs,
+        prepared: change.prepared,
+        summary: change.summary,
+        targets: change.changes.map(getTarget),
+        diffs: getDiffs(change),
+        createdAt: new Date().toISOString()
+    };
+};
+
+const getChangedFields = (before: any, after: any) => {
+    const fields: Record<string, any> = {};
+    const expected: Record<string, any> = {};
+    Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+        .filter(key => !sameValue(before[key], after[key]))
+        .forEach(key => {
+            fields[key] = isUnset(before[key]) ? null : before[key];
+            expected[key] = isUnset(after[key]) ? null : after[key];
+        });
+    return { fields, expected };
+};
+
+const buildInverse = (c: AdminRecordChange): AdminActionInverse => {
+    if (c.kind === 'RECORD') return { kind: 'RESTORE_RECORD', path: c.path, value: c.before, expected: c.after };
+    if (c.kind === 'USER' && c.after === null) return { kind: 'RESTORE_USER', userId: c.userId, user: c.before };
+    const { fields, expected } = getChangedFields(c.before, c.after);
+    return c.kind === 'USER'
+        ? { kind: 'PATCH_USER', userId: c.userId, fields, expected }
+        : { kind: 'PATCH_SETTINGS', fields, expected };
+};
+
+// History keeps a readable copy of the diffs; the full previous values live in the inverse
+const shortenValue = (value: any) => {
+    if (Array.isArray(value)) return `[${value.length} item(s)]`;
+    const text = typeof value === 'string' ? value : JSON.stringify(value);
+    return text && text.length > 200 ? `${text.slice(0, 200)}…` : value;
+};
+
+// Runs a confirmed plan. The change is rebuilt from fresh data; if any field the admin saw in the
+// preview has changed since, nothing is written and the admin has to ask for a new plan.
+export const executeAdminPlan = async (plan: AdminActionPlan): Promise<AdminActionRecord> => {
+    const change = await buildChange(plan.tool, plan.args, plan.prepared);
+    const beforeById = Object.fromEntries(change.changes.map(c => [getTarget(c).id, c.before]));
+    const stale = plan.diffs.filter(d => !sameValue(getPath(beforeById[d.targetId], d.path), d.before)).map(d => d.path);
+    const missing = plan.targets.filter(t => t.operation !== 'CREATE' && !beforeById[t.id]).map(t => t.label);
+    if (stale.length || missing.length) {
+        throw new Error(`Changed since the preview (${[...stale, ...missing].join(', ')}). Ask again for a fresh plan.`);
+    }
+
+    await applyChange(change);
+
+    const executedBy = auth.currentUser?.uid || 'ADMIN';
+    const record: AdminActionRecord = {
+        id: `act-${Date.now()}`,
+        planId: plan.id,
+        tool: plan.tool,
+        args: plan.args,
+        summary: plan.summary,
+        targets: change.changes.map(getTarget),
+        diffs: getDiffs(change).map(d => ({ ...d, before: shortenValue(d.before), after: shortenValue(d.after) })),
+        inverse: change.changes.map(buildInverse),
+        executedBy,
+        executedAt: new Date().toISOString()
+    };
+    await saveAdminActionRecord(record);
+
+    // Keeps the admin AI's memory of recent activity in step with what actually ran
+    await saveAiInteraction({
+        id: `admin-act-${Date.now()}`,
+        userId: 'ADMIN',
+        userName: 'Admin',
+        type: 'ADMIN_ACTION',
+        query: `Confirmed: ${plan.summary}`,
+        response: `Executed ${plan.tool} (${record.targets.length} record(s), ${record.diffs.length} field change(s))`,
+        timestamp: record.executedAt
+    });
+    return record;
+};
+
+const applyFields = (target: any, fields: Record<string, any>) => {
+    const next = { ...target };
+    Object.entries(fields).forEach(([key, value]) => {
+        if (value === null) delete next[key];
+        else next[key] = value;
+    });
+    return next;
+};
+
+const readInverseTarget = async (inverse: AdminActionInverse) => {
+    const path = inverse.kind === 'RESTORE_RECORD' ? inverse.path : inverse.kind === 'PATCH_SETTINGS' ? 'system_settings' : `users/${inverse.userId}`;
+    const snapshot = await get(ref(rtdb, path));
+    return snapshot.exists() ? snapshot.val() : null;
+};
+
+const findConflicts = (inverse: AdminActionInverse, current: any): string[] => {
+    if (inverse.kind === 'RESTORE_USER') return current ? [`${inverse.userId} (user exists again)`] : [];
+    if (inverse.kind === 'RESTORE_RECORD') return sameValue(current, inverse.expected) ? [] : [inverse.path];
+    if (inverse.kind === 'PATCH_USER' && !current) return [`${inverse.userId} (user deleted)`];
+    return Object.keys(inverse.expected).filter(key => !sameValue(current?.[key], inverse.expected[key]));
+};
+
+// Applies the stored inverses. Throws AdminUndoConflictError when any record was edited after the
+// action, unless force is set (the later edits to those fields are then overwritten). Nothing is
+// written until every target has been checked.
+export const undoAdminAction = async (record: AdminActionRecord, force: boolean = false): Promise<void> => {
+    if (record.undoneAt) throw new Error("This action has already been undone");
+
+    const currents = await Promise.all(record.inverse.map(readInverseTarget));
+    const conflicts = record.inverse.flatMap((inverse, i) => findConflicts(inverse, currents[i]));
+    if (conflicts.length && !force) throw new AdminUndoConflictError(conflicts);
+
+    for (const [i, inverse] of record.inverse.entries()) {
+        const current = currents[i];
+        if (inverse.kind === 'RESTORE_USER') {
+            await saveUserToLive(inverse.user);
+        } else if (inverse.kind === 'PATCH_USER') {
+            if (current) await saveUserToLive(applyFields(current, inverse.fields));
+        } else if (inverse.kind === 'PATCH_SETTINGS') {
+            await saveSystemSettings(applyFields(current || {}, inverse.fields));
+        } else if (inverse.value === null) {
+            await remove(ref(rtdb, inverse.path));
+        } else {
+            await set(ref(rtdb, inverse.path), sanitizeForFirestore(inverse.value));
+        }
+    }
+
+    await markAdminActionUndone(record.id, auth.currentUser?.uid || 'ADMIN');
+};
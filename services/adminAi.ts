@@ -1,13 +1,15 @@
-import { User, SystemSettings } from '../types';
-import { callGroqApiWithTools } from './groq';
-import { ActionRegistry, adminTools } from './actionRegistry';
+import { User, SystemSettings, AdminActionPlan } from '../types';
+import { runAiTask, AiMessage, AiStreamOptions, AiFinishReason } from './aiClient';
+import { ActionRegistry, adminTools, getRecentLogs, parseToolArgs } from './actionRegistry';
+import { isMutatingTool, planAdminAction } from './adminActions';
 import { saveAiInteraction } from '../firebase';
 
 export type AdminAiResponse = {
-    type: 'TEXT' | 'LIST_USERS' | 'LIST_MCQ' | 'ACTION_CONFIRMATION';
+    type: 'TEXT' | 'LIST_USERS' | 'LIST_MCQ' | 'MCQ_ANALYTICS' | 'LIST_REQUESTS' | 'ACTION_CONFIRMATION' | 'ACTION_PLAN'; // ACTION_PLAN data: AdminActionPlan[] awaiting confirmation
     message: string;
     data?: any;
     actionType?: string;
+    finishReason?: AiFinishReason;
 };
 
 interface AdminContext {
@@ -19,13 +21,15 @@ interface AdminContext {
 const SYSTEM_PROMPT = `
 You are Ainjo, the Super Admin AI of this education platform.
 You have FULL control over the system.
-You can delete users, grant subscriptions, ban users, create tests, and broadcast messages.
+You can manage users and coins, grant subscriptions, create and fill weekly tests, create gift codes,
+approve payment and login recovery requests, hide chapters, manage featured shortcuts, segment students
+and analyse MCQ results.
 
 Guidelines:
-1. You are the "Second Admin". You have the power to execute actions directly.
-2. Use the provided tools to perform actions.
-3. If the user's request is ambiguous, ask for clarification.
-4. If you perform an action using a tool, respond with a confirmation message summarising what you did.
+1. You are the "Second Admin". Use the provided tools to perform actions.
+2. Tools that change data are NOT run immediately. Each call becomes a preview the Main Admin must confirm.
+3. If the user's request is ambiguous, ask for clarification instead of guessing user IDs or values.
+4. Never claim an action is done. Say it is ready for review.
 5. If the user asks for information (like "Show me premium users"), call the relevant tool (e.g., scanUsers) and then summarize the result.
 
 Current Context:
@@ -35,63 +39,73 @@ Current Context:
 
 export const processAdminCommand = async (
     command: string, 
-    context: AdminContext
+    context: AdminContext,
+    stream?: AiStreamOptions // Plain-text replies are streamed; tool calls are assembled and run once complete
 ): Promise<AdminAiResponse> => {
     try {
         // 1. Fetch Memory (Last 10 interactions)
-        const recentLogs = await ActionRegistry.getRecentLogs(10);
+        const recentLogs = await getRecentLogs(10);
         const memoryContext = recentLogs.map((log: any) => 
             `User: ${log.query}\nAI: ${log.response}`
         ).join('\n---\n');
 
-        const messages = [
+        const messages: AiMessage[] = [
             { role: "system", content: SYSTEM_PROMPT },
             { role: "user", content: `Recent Activity:\n${memoryContext}\n\nCurrent Command: ${command}` }
         ];
 
         // 2. Call AI with Tools
-        const response = await callGroqApiWithTools(messages, adminTools, "llama-3.3-70b-versatile");
+        const response = await runAiTask('CHAT', { messages, tools: adminTools, toolChoice: 'auto', model: "llama-3.3-70b-versatile" }, 'STUDENT', stream);
+        const finishReason = response.finishReason || 'COMPLETE';
 
-        // 3. Handle Tool Calls
-        if (response.tool_calls && response.tool_calls.length > 0) {
+        // 3. Handle Tool Calls (never run half-received arguments from a stopped or dropped stream)
+        if (response.toolCalls && response.toolCalls.length > 0 && finishReason === 'COMPLETE') {
             let resultMessage = "";
             let actionData: any = null;
             let responseType: AdminAiResponse['type'] = 'ACTION_CONFIRMATION';
+            const plans: AdminActionPlan[] = [];
 
-            for (const toolCall of response.tool_calls) {
+            for (const toolCall of response.toolCalls) {
                 const functionName = toolCall.function.name;
-                const args = JSON.parse(toolCall.function.arguments);
-                
-                // Execute Tool
-                if (ActionRegistry[functionName as keyof typeof ActionRegistry]) {
-                    console.log(`Executing ${functionName} with args:`, args);
-                    
-                    try {
-                        const result = await (ActionRegistry[functionName as keyof typeof ActionRegistry] as any)(...Object.values(args));
-                        
+
+                try {
+                    const args = JSON.parse(toolCall.function.arguments || '{}');
+                    const tool = ActionRegistry[functionName];
+
+                    // Mutating tools only produce a dry-run plan; executeAdminPlan runs it after confirmation
+                    if (isMutatingTool(functionName)) {
+                        const plan = await planAdminAction(functionName, args);
+                        plans.push(plan);
+                        resultMessage += `Ready for review: ${plan.summary}\n`;
+                    } else if (tool?.run) {
+                        const result = await tool.run(parseToolArgs(functionName, args));
+                        resultMessage += `${result.message}\n`;
+
                         // Handle specific return types for UI
-                        if (functionName === 'scanUsers') {
-                            actionData = result;
-                            responseType = 'LIST_USERS';
-                            resultMessage += `Found ${result.length} users matching criteria.\n`;
-                        } else {
-                            resultMessage += `Action ${functionName} executed: ${JSON.stringify(result)}\n`;
+                        if (result.view) {
+                            actionData = result.data;
+                            responseType = result.view;
                         }
-
-                    } catch (err: any) {
-                        resultMessage += `Error executing ${functionName}: ${err.message}\n`;
+                    } else {
+                        resultMessage += `Tool ${functionName} not found.\n`;
                     }
-                } else {
-                    resultMessage += `Tool ${functionName} not found.\n`;
+                } catch (err: any) {
+                    resultMessage += `Error preparing ${functionName}: ${err.message}\n`;
                 }
             }
 
+            // Pending plans take over the reply; list results are still summarised in the message
+            if (plans.length > 0) {
+                responseType = 'ACTION_PLAN';
+                actionData = plans;
+            }
+
             // Log Interaction
             await saveAiInteraction({
                 id: `admin-act-${Date.now()}`,
                 userId: 'ADMIN',
                 userName: 'Admin',
-                type: 'ADMIN_ACTION',
+                type: plans.length > 0 ? 'ADMIN_ACTION_PLAN' : 'ADMIN_ACTION',
                 query: command,
                 response: resultMessage,
                 timestamp: new Date().toISOString()
@@ -105,7 +119,7 @@ export const processAdminCommand = async (
         }
 
         // 4. Handle Text Response (No Tool Used)
-        const textResponse = response.content || "I processed your request.";
+        const textResponse = response.text || (finishReason === 'COMPLETE' ? "I processed your request." : "");
         
         await saveAiInteraction({
             id: `admin-chat-${Date.now()}`,
@@ -119,7 +133,8 @@ export const processAdminCommand = async (
 
         return {
             type: 'TEXT',
-            message: textResponse
+            message: textResponse,
+            finishReason
         };
 
     } catch (error: any) {
@@ -0,0 +1,32 @@
+import { AiCacheConfig, AiCacheEntry, AiTaskType, SystemSettings } from "../types";
+import { getAiCacheEntry, deleteAiCacheEntriesByTag, recordAiCacheStat } from "../firebase";
+import { DEFAULT_AI_CACHE_CONFIG } from "./aiCacheKey";
+
+export { DEFAULT_AI_CACHE_CONFIG, getGenerationCacheKey } from "./aiCacheKey";
+
+// --- SHARED GENERATION CACHE ---
+// Identical requests (same provider, model, normalized prompt and params) are answered from
+// ai_generation_cache instead of calling the model again. A hit costs no API call and no
+// incrementApiUsage. Only requests that opt in via AiRequest.cache are looked up, never CHAT.
+// Clients only read: the proxies write the entry after a complete answer, under a hash they compute
+// from what they sent upstream, so nobody can plant the answer to a known prompt.
+
+export interface AiCacheOptions {
+    tag?: string; // Chapter content key, so the admin can purge everything generated for a chapter
+    tagLabel?: string;
+    refresh?: boolean; // Skip the lookup; the proxy overwrites the entry with the new result (admin "regenerate")
+}
+
+export const getAiCacheConfig = (settings: Partial<SystemSettings>): AiCacheConfig => ({
+    ...DEFAULT_AI_CACHE_CONFIG,
+    ...(settings.aiCacheConfig || {})
+});
+
+export const lookupGeneration = async (hash: string, task: AiTaskType): Promise<AiCacheEntry | null> => {
+    const entry = await getAiCacheEntry(hash);
+    const hit = !!entry && entry.expiresAt.getTime() > Date.now();
+    recordAiCacheStat(hit ? 'hit' : 'miss', task);
+    return hit ? entry : null;
+};
+
+export const purgeChapterCache = (contentKey: string) => deleteAiCacheEntriesByTag(contentKey);
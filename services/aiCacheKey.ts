@@ -0,0 +1,29 @@
+import { AiCacheConfig, AiProviderId } from "../types";
+
+// Cache key and defaults shared by the client lookup (services/aiCache.ts) and the proxies that write
+// entries (api/_lib/aiCache.ts). Pure helpers only, so the edge handlers can import them.
+
+export const DEFAULT_AI_CACHE_CONFIG: AiCacheConfig = {
+    enabled: true,
+    ttlHours: 24 * 30,
+    maxEntryKB: 256
+};
+
+// Whitespace differences (template indentation, trailing spaces) must not split the cache
+const normalizePrompt = (messages: { role: string; content: string }[]) =>
+    messages.map(m => `${m.role}:${(m.content || '').replace(/\s+/g, ' ').trim()}`).join('\n');
+
+const sha256Hex = async (text: string) => {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+    return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const getGenerationCacheKey = async (
+    provider: AiProviderId,
+    model: string,
+    messages: { role: string; content: string }[],
+    params: Record<string, any> = {}
+): Promise<string> => {
+    const sortedParams = Object.keys(params).sort().reduce((acc, k) => ({ ...acc, [k]: params[k] }), {});
+    return sha256Hex(JSON.stringify({ provider, model, prompt: normalizePrompt(messages), params: sortedParams }));
+};
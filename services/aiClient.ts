@@ -0,0 +1,276 @@
+import { AiProviderId, AiTaskType, AiTaskRoute, AiMockMode, AiTokenUsage, SystemSettings } from "../types";
+import { incrementApiUsage, getApiUsage } from "../firebase";
+import { isUserFacingAiError } from "./providers/proxyError";
+import { groqProvider } from "./providers/groq";
+import { geminiProvider } from "./providers/gemini";
+import { mockProvider, recordAiResponse } from "./providers/mock";
+import { AiCacheOptions, getAiCacheConfig, getGenerationCacheKey, lookupGeneration } from "./aiCache";
+import { AiLedgerOptions } from "./aiLedger";
+
+// --- PROVIDER CONTRACT ---
+
+export interface AiMessage {
+    role: 'system' | 'user' | 'assistant' | 'tool';
+    content: string;
+    tool_call_id?: string;
+    tool_calls?: any[];
+}
+
+export interface AiRequest {
+    messages: AiMessage[];
+    model?: string; // Requested model (ignored by providers that don't support it)
+    tools?: any[]; // OpenAI-style tool definitions
+    toolChoice?: 'auto' | 'none';
+    task?: AiTaskType; // Filled in by runAiTask (used by the mock provider to pick a fixture)
+    usageType?: AiUsageType; // Filled in by runAiTask (server proxies count usage per bucket)
+    cache?: AiCacheOptions; // Opt in to the shared generation cache (deterministic content only, never chat)
+    ledger?: AiLedgerOptions; // Feature / credits / app user attribution, sent to the proxy for the spend ledger
+}
+
+export interface AiProviderResult {
+    text: string;
+    toolCalls?: any[];
+    model: string;
+    keyId?: string; // Fingerprint of the key that served the call, 'server' when the proxy picked it (usage tracking)
+    usageRecorded?: boolean; // Proxy already counted this call server-side
+    finishReason?: AiFinishReason; // Set by streamed calls; ABORTED / INTERRUPTED results carry partial text
+    tokens?: AiTokenUsage; // As reported by the provider
+    cached?: boolean; // Served from the generation cache: no model call, no usage counted
+    cacheKey?: string; // Hash of the cache entry this text was read from or written to
+}
+
+// COMPLETE = model finished, ABORTED = caller pressed stop, INTERRUPTED = connection dropped mid-answer
+export type AiFinishReason = 'COMPLETE' | 'ABORTED' | 'INTERRUPTED';
+
+export interface AiStreamOptions {
+    onDelta: (delta: string) => void;
+    signal?: AbortSignal;
+}
+
+export interface AiProvider {
+    id: AiProviderId;
+    label: string;
+    defaultModel: string;
+    supportsTools: boolean;
+    isModelSupported: (model: string) => boolean;
+    generate: (request: AiRequest) => Promise<AiProviderResult>;
+    stream?: (request: AiRequest, options: AiStreamOptions) => Promise<AiProviderResult>; // Token streaming (optional)
+}
+
+export interface AiResponse extends AiProviderResult {
+    provider: AiProviderId;
+    task: AiTaskType;
+}
+
+export type AiUsageType = 'PILOT' | 'STUDENT';
+
+const PROVIDERS: Record<AiProviderId, AiProvider> = {
+    GROQ: groqProvider,
+    GEMINI: geminiProvider,
+    MOCK: mockProvider
+};
+
+export const AI_TASK_TYPES: AiTaskType[] = ['NOTES', 'MCQ', 'TRANSLATION', 'ANALYSIS', 'CHAT'];
+
+// Groq is the historical default for every task (keys live on the server proxy)
+export const DEFAULT_AI_ROUTE: AiTaskRoute = { providers: ['GROQ'] };
+
+export const getAiProvider = (id: AiProviderId): AiProvider => PROVIDERS[id];
+
+export const listAiProviders = (): AiProvider[] => Object.values(PROVIDERS);
+
+// --- SETTINGS HELPERS ---
+
+export const getStoredSettings = (): Partial<SystemSettings> => {
+    try {
+        const stored = localStorage.getItem('nst_system_settings');
+        return stored ? JSON.parse(stored) : {};
+    } catch (e) {
+        return {};
+    }
+};
+
+export const getTaskRoute = (task: AiTaskType, settings: Partial<SystemSettings> = getStoredSettings()): AiTaskRoute => {
+    const route = settings.aiProviderRouting?.[task];
+    const providers = (route?.providers || []).filter(p => !!PROVIDERS[p]);
+    if (providers.length === 0) return DEFAULT_AI_ROUTE;
+    return { ...route, providers };
+};
+
+// Priority: Route override > Requested model > Global aiModel > Provider default
+const resolveModel = (provider: AiProvider, route: AiTaskRoute, requested: string | undefined, settings: Partial<SystemSettings>): string => {
+    const override = route.models?.[provider.id];
+    if (override) return override;
+    if (requested && provider.isModelSupported(requested)) return requested;
+    if (settings.aiModel && provider.isModelSupported(settings.aiModel)) return settings.aiModel;
+    return provider.defaultModel;
+};
+
+// Env (AI_MOCK_MODE, injected by vite.config.ts) wins over settings so local dev can't hit real keys
+export const getAiMockMode = (settings: Partial<SystemSettings> = getStoredSettings()): AiMockMode => {
+    const envMode = (process.env.AI_MOCK_MODE || '').toUpperCase();
+    if (envMode === 'MOCK' || envMode === 'RECORD' || envMode === 'REPLAY') return envMode;
+    return settings.aiMockMode || 'OFF';
+};
+
+// --- QUOTA CHECK ---
+
+const assertQuota = async (usageType: AiUsageType, settings: Partial<SystemSettings>) => {
+    try {
+        const usage = await getApiUsage();
+        if (usage) {
+            const pilotRatio = settings.aiPilotRatio || 80;
+            const dailyLimit = settings.aiDailyLimitPerKey || 1500;
+
+            // Assume capacity of 5000 since keys are managed on server
+            const totalCapacity = Math.max(10 * dailyLimit, 5000);
+
+            const pilotLimit = Math.floor(totalCapacity * (pilotRatio / 100));
+            const studentLimit = totalCapacity - pilotLimit;
+
+            if (usageType === 'PILOT') {
+                if ((usage.pilotCount || 0) >= pilotLimit) throw new Error(`AI Pilot Quota Exceeded (${usage.pilotCount}/${pilotLimit})`);
+            } else {
+                if ((usage.studentCount || 0) >= studentLimit) throw new Error(`Student AI Quota Exceeded. Try again later.`);
+            }
+        }
+    } catch (e: any) {
+        if (e.message && e.message.includes("Quota Exceeded")) throw e;
+        // Ignore permission errors (students might not have read access to stats)
+    }
+};
+
+// --- MAIN ENTRY POINT ---
+
+export const runAiTask = async (
+    task: AiTaskType,
+    request: AiRequest,
+    usageType: AiUsageType = 'STUDENT',
+    stream?: AiStreamOptions
+): Promise<AiResponse> => {
+    const settings = getStoredSettings();
+    const mockMode = getAiMockMode(settings);
+    const offline = mockMode === 'MOCK' || mockMode === 'REPLAY';
+    if (!offline) await assertQuota(usageType, settings);
+
+    const route: AiTaskRoute = offline ? { providers: ['MOCK'] } : getTaskRoute(task, settings);
+    const chain = route.providers
+        .map(id => PROVIDERS[id])
+        .filter(p => !request.tools?.length || p.supportsTools);
+
+    if (chain.length === 0) {
+        throw new Error(`No AI provider configured for ${task} supports this request.`);
+    }
+
+    const cacheConfig = getAiCacheConfig(settings);
+    // Chat turns are never cached (AiRequest.cache); the proxy stores opted-in answers itself
+    const useCache = !!request.cache && cacheConfig.enabled && !request.tools?.length && task !== 'CHAT';
+
+    let lastError: any = null;
+    for (const provider of chain) {
+        const model = resolveModel(provider, route, request.model, settings);
+        if (stream?.signal?.aborted) break;
+        try {
+            // CACHE LOOKUP (per provider/model: a fallback provider must not reuse another model's answer)
+            let cacheKey: string | undefined;
+            if (useCache && provider.id !== 'MOCK') {
+                cacheKey = await getGenerationCacheKey(provider.id, model, request.messages, { task, toolChoice: request.toolChoice || null });
+                const hit = request.cache!.refresh ? null : await lookupGeneration(cacheKey, task);
+                if (hit) {
+                    stream?.onDelta(hit.text);
+                    return { text: hit.text, model, finishReason: 'COMPLETE', cached: true, cacheKey, provider: provider.id, task };
+                }
+            }
+
+            const providerRequest = { ...request, model, task, usageType, cache: cacheKey ? request.cache : undefined };
+            let result: AiProviderResult;
+            if (stream && provider.stream) {
+                result = await provider.stream(providerRequest, stream);
+            } else {
+                // Providers without streaming deliver the whole answer as a single delta
+                result = await provider.generate(providerRequest);
+                stream?.onDelta(result.text);
+            }
+
+            if (provider.id !== 'MOCK') {
+                // TRACK USAGE (the spend ledger entry is written by the proxy)
+                if (!result.usageRecorded) incrementApiUsage(result.keyId || 'server', usageType);
+                if (mockMode === 'RECORD' && (result.finishReason || 'COMPLETE') === 'COMPLETE') recordAiResponse(task, request.messages, result, provider.id);
+            }
+
+            return { ...result, cacheKey, provider: provider.id, task };
+        } catch (error: any) {
+            // The proxy rejected the caller (login, quota, allowlist): another provider would too
+            if (isUserFacingAiError(error)) throw error;
+            lastError = error;
+            console.warn(`[AI] ${provider.label} failed for ${task} (${model}): ${error?.message || error}. Trying next provider.`);
+        }
+    }
+
+    if (stream?.signal?.aborted) {
+        return { text: "", model: request.model || "", finishReason: 'ABORTED', provider: chain[0].id, task };
+    }
+
+    const msg = lastError?.message || "";
+    if (msg.includes("429") || msg.includes("500") || msg.includes("503") || chain.length > 1) {
+        throw new Error("AI services are currently busy. Please try again later.");
+    }
+    throw lastError || new Error("Unexpected error in AI service.");
+};
+
+// Streaming variant: deltas go to options.onDelta, the resolved response holds the full (or partial) text
+export const streamAiTask = (
+    task: AiTaskType,
+    request: AiRequest,
+    options: AiStreamOptions,
+    usageType: AiUsageType = 'STUDENT'
+): Promise<AiResponse> => runAiTask(task, request, usageType, options);
+
+// Shorthand for the common "single prompt in, text out" case
+export const generateAiText = async (
+    task: AiTaskType,
+    prompt: string,
+    options: { system?: string; model?: string; usageType?: AiUsageType; cache?: AiCacheOptions; ledger?: AiLedgerOptions } = {}
+): Promise<string> => {
+    const messages: AiMessage[] = [];
+    if (options.system) messages.push({ role: 'system', content: options.system });
+    messages.push({ role: 'user', content: prompt });
+
+    const response = await runAiTask(task, { messages, model: options.model, cache: options.cache, ledger: options.ledger }, options.usageType || 'STUDENT');
+    return response.text;
+};
+
+// --- PARALLEL BULK EXECUTION ENGINE ---
+// Each task should call runAiTask itself (routing, fallback and usage tracking happen there).
+export const runBulkParallel = async <T>(
+    tasks: (() => Promise<T>)[],
+    concurrency: number = 20
+): Promise<T[]> => {
+    console.log(`🚀 Starting Bulk Engine: ${tasks.length} tasks (Parallelism: ${concurrency})`);
+
+    const results: T[] = new Array(tasks.length);
+    let taskIndex = 0;
+
+    // Worker function: Grabs next task
+    const worker = async () => {
+        while (taskIndex < tasks.length) {
+            const currentTaskIndex = taskIndex++; // Atomic grab
+            if (currentTaskIndex >= tasks.length) break;
+
+            try {
+                results[currentTaskIndex] = await tasks[currentTaskIndex]();
+            } catch (error) {
+                console.error(`Task ${currentTaskIndex} failed:`, error);
+                // Failures are left empty in the array and filtered below
+            }
+        }
+    };
+
+    const activeWorkers = Math.min(concurrency, tasks.length);
+    await Promise.all(Array.from({ length: activeWorkers }, () => worker()));
+    return results.filter(r => r !== undefined && r !== null);
+};
+
+export const cleanJson = (text: string) => {
+    return text.replace(/```json/g, '').replace(/```/g, '').trim();
+};
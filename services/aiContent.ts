@@ -1,178 +1,23 @@
 
-import { ClassLevel, Subject, Chapter, LessonContent, Language, Board, Stream, ContentType, MCQItem, SystemSettings } from "../types";
+import { ClassLevel, Subject, Chapter, LessonContent, Language, Board, Stream, ContentType, MCQItem, SystemSettings, AiTaskType, TestPaperBlueprint, TestPaper, QuestionDifficulty, QuestionResponse } from "../types";
 import { STATIC_SYLLABUS } from "../constants";
-import { getChapterData, getCustomSyllabus, incrementApiUsage, getApiUsage, rtdb } from "../firebase";
-import { ref, get } from "firebase/database";
-
-// GROQ API CALL HELPER
-export const callGroqApi = async (messages: any[], model: string = "llama3-8b-8192") => {
-    // Validate model (Gemini models are not supported on Groq)
-    let safeModel = model;
-    if (!safeModel || safeModel.includes("gemini")) {
-        console.warn(`Invalid Groq model requested: ${safeModel}. Falling back to llama3-8b-8192.`);
-        safeModel = "llama-3.1-8b-instant";
-    }
-
-    // Proxy call to server
-    const response = await fetch("/api/groq", {
-        method: "POST",
-        headers: {
-            "Content-Type": "application/json"
-        },
-        body: JSON.stringify({
-            model: safeModel,
-            messages: messages
-        })
-    });
-
-    if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`Groq API Error: ${response.status} - ${errorText}`);
-    }
-
-    const data = await response.json();
-    return data.choices[0].message.content;
-};
-
-// NEW: Tool Support
-export const callGroqApiWithTools = async (messages: any[], tools: any[], model: string = "llama-3.3-70b-versatile") => {
-    const response = await fetch("/api/groq", {
-        method: "POST",
-        headers: {
-            "Content-Type": "application/json"
-        },
-        body: JSON.stringify({
-            model,
-            messages,
-            tools,
-            tool_choice: "auto"
-        })
-    });
-
-    if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`Groq API Error: ${response.status} - ${errorText}`);
-    }
-
-    const data = await response.json();
-    return data.choices[0].message; // Returns full message object { content, tool_calls }
-};
-
-export const executeWithRotation = async <T>(
-    operation: () => Promise<T>,
-    usageType: 'PILOT' | 'STUDENT' = 'STUDENT'
-): Promise<T> => {
-    
-    // QUOTA CHECK
-    try {
-        const usage = await getApiUsage();
-        if (usage) {
-            const settingsStr = localStorage.getItem('nst_system_settings');
-            const settings = settingsStr ? JSON.parse(settingsStr) : {};
-            const pilotRatio = settings.aiPilotRatio || 80;
-            const dailyLimit = settings.aiDailyLimitPerKey || 1500;
-            
-            // Assume capacity of 5000 since keys are managed on server
-            const totalCapacity = Math.max(10 * dailyLimit, 5000);
-
-            const pilotLimit = Math.floor(totalCapacity * (pilotRatio / 100));
-            const studentLimit = totalCapacity - pilotLimit;
-
-            if (usageType === 'PILOT') {
-                if ((usage.pilotCount || 0) >= pilotLimit) throw new Error(`AI Pilot Quota Exceeded (${usage.pilotCount}/${pilotLimit})`);
-            } else {
-                 if ((usage.studentCount || 0) >= studentLimit) throw new Error(`Student AI Quota Exceeded. Try again later.`);
-            }
-        }
-    } catch(e: any) {
-        if (e.message && e.message.includes("Quota Exceeded")) throw e;
-    }
-
-    // RETRY LOGIC
-    const MAX_RETRIES = 2;
-    for (let i = 0; i <= MAX_RETRIES; i++) {
-        try {
-            const result = await operation();
-
-            // TRACK USAGE (Global, using index 0)
-            incrementApiUsage(0, usageType);
-
-            return result;
-        } catch (error: any) {
-            const msg = error?.message || "";
-            
-            console.warn(`Attempt ${i + 1} failed: ${msg}`);
-            
-            if (i === MAX_RETRIES) {
-                // If 429 or server error, the server might be busy or keys exhausted
-                if (msg.includes("429") || msg.includes("500") || msg.includes("503")) {
-                     throw new Error("AI services are currently busy. Please try again later.");
-                }
-                throw error;
-            }
-            // Wait a bit before retry
-            await new Promise(res => setTimeout(res, 1000 * (i + 1)));
-        }
-    }
-    
-    throw new Error("Unexpected error in AI service.");
-};
-
-// --- PARALLEL BULK EXECUTION ENGINE ---
-const executeBulkParallel = async <T>(
-    tasks: (() => Promise<T>)[],
-    concurrency: number = 20, // Default to 20 parallel requests
-    usageType: 'PILOT' | 'STUDENT' = 'STUDENT'
-): Promise<T[]> => {
-
-    console.log(`🚀 Starting Bulk Engine (Groq): ${tasks.length} tasks (Parallelism: ${concurrency})`);
-
-    const results: T[] = new Array(tasks.length);
-    let taskIndex = 0;
-    
-    // Worker function: Grabs next task
-    const worker = async (workerId: number) => {
-        while (taskIndex < tasks.length) {
-            const currentTaskIndex = taskIndex++; // Atomic grab
-            if (currentTaskIndex >= tasks.length) break;
-
-            const task = tasks[currentTaskIndex];
-            
-            try {
-                // We use executeWithRotation for individual task retry/usage tracking
-                // But wait, executeWithRotation does usage tracking.
-                // If we wrap task in executeWithRotation, it works.
-                // Or we can just call task() if task already includes tracking?
-                // The task definition below (in fetchLessonContent) calls callGroqApi directly usually.
-                // So we should manually handle usage or just run task.
-                
-                // Let's assume task() is just the API call wrapper
-                const result = await task();
-                results[currentTaskIndex] = result;
-
-                // TRACK USAGE
-                incrementApiUsage(0, usageType);
-
-            } catch (error) {
-                console.error(`Task ${currentTaskIndex} failed:`, error);
-            }
-        }
-    };
-
-    const activeWorkers = Math.min(concurrency, tasks.length); 
-    const workers = Array.from({ length: activeWorkers }, (_, i) => worker(i));
-    
-    await Promise.all(workers);
-    return results.filter(r => r !== undefined && r !== null);
-};
+import { getChapterData, getCustomSyllabus } from "../firebase";
+import { generateAiText, streamAiTask, runBulkParallel, cleanJson, getStoredSettings, AiUsageType, AiStreamOptions, AiResponse } from "./aiClient";
+import { generateValidatedJson, parseAiJson, reportAiFailure, AiOutputError } from "./aiValidation";
+import { AiCacheOptions } from "./aiCache";
+import { ChapterListSchema, McqListSchema, UltraAnalysisSchema } from "./aiSchemas";
+import { getBankQuestionsForChapter, isNearDuplicate } from "./questionBank";
+import { getQuestionKind, isSingleChoiceKind, isResponseAnswered, isResponseCorrect, formatResponse, formatCorrectAnswer } from "./questionTypes";
+import { getPromptTemplates, resolvePromptTemplate, trackPromptTemplateUsage } from "./promptTemplates";
+import { mirrorsSource } from "./hindiTranslation";
 
 const chapterCache: Record<string, Chapter[]> = {};
-const cleanJson = (text: string) => {
-    return text.replace(/```json/g, '').replace(/```/g, '').trim();
-};
+
+// SYSTEM PROMPT FOR MCQ
+const MCQ_SYSTEM_PROMPT = "You are an exam generator. You MUST return strict valid JSON array only. No introduction, no markdown formatting (like ```json), no ending notes. Just the raw JSON array.";
 
 // NEW TRANSLATION HELPER
-export const translateToHindi = async (content: string, isJson: boolean = false, usageType: 'PILOT' | 'STUDENT' = 'STUDENT'): Promise<string> => {
+export const translateToHindi = async (content: string, isJson: boolean = false, usageType: AiUsageType = 'STUDENT', cache?: AiCacheOptions): Promise<string> => {
     const prompt = `
     You are an expert translator for Bihar Board students.
     Translate the following ${isJson ? 'JSON Data' : 'Educational Content'} into Hindi (Devanagari).
@@ -186,9 +31,25 @@ export const translateToHindi = async (content: string, isJson: boolean = false,
     ${content}
     `;
 
-    return await executeWithRotation(async () => {
-        return await callGroqApi([{ role: "user", content: prompt }]);
-    }, usageType);
+    const text = await generateAiText('TRANSLATION', prompt, { usageType, cache });
+    return isJson ? cleanJson(text) : text;
+};
+
+// Translates an MCQ set and validates that the structure survived (same count, kinds and answer keys).
+// Returns undefined (and records the failure) instead of saving a broken Hindi set.
+export const translateMcqsToHindi = async (
+    mcqs: MCQItem[],
+    usageType: AiUsageType = 'STUDENT',
+    context: Record<string, any> = {}
+): Promise<MCQItem[] | undefined> => {
+    try {
+        const translatedJson = await translateToHindi(JSON.stringify(mcqs), true, usageType);
+        const parsed = parseAiJson(translatedJson, mirrorsSource(mcqs));
+        if (parsed.success) return parsed.data as MCQItem[];
+
+        reportAiFailure(new AiOutputError('TRANSLATION', parsed.issues, translatedJson, 1), context);
+    } catch (e) { console.error("Translation Failed", e); }
+    return undefined;
 };
 
 // --- UPDATED CONTENT LOOKUP (ASYNC) ---
@@ -217,8 +78,8 @@ const getAdminContent = async (
         }
 
         if (parsed) {
-            // ... (Logic copied from gemini.ts mostly unchanged as it deals with data retrieval)
-            
+            // PRIORITY: Link > Paste > AI
+
             // 1. FREE NOTES (PDF_FREE or NOTES_SIMPLE)
             if (type === 'PDF_FREE' || type === 'NOTES_SIMPLE') {
                 const linkKey = syllabusMode === 'SCHOOL' ? 'schoolPdfLink' : 'competitionPdfLink';
@@ -382,22 +243,13 @@ export const fetchChapters = async (
       return chapters;
   }
 
-  let modelName = "llama3-8b-8192";
-  try {
-      const s = localStorage.getItem('nst_system_settings');
-      if (s) { const p = JSON.parse(s); if(p.aiModel) modelName = p.aiModel; }
-  } catch(e){}
-
   const prompt = `List 15 standard chapters for ${classLevel === 'COMPETITION' ? 'Competitive Exam' : `Class ${classLevel}`} ${stream ? stream : ''} Subject: ${subject.name} (${board}). Return JSON array: [{"title": "...", "description": "..."}].`;
   try {
-    const data = await executeWithRotation(async () => {
-        const content = await callGroqApi([
-             { role: "system", content: "You are a helpful educational assistant. You MUST return strictly valid JSON array. Do not wrap in markdown block." },
-             { role: "user", content: prompt }
-        ], modelName);
-        return JSON.parse(cleanJson(content || '[]'));
-    }, 'STUDENT');
-    const chapters: Chapter[] = data.map((item: any, index: number) => ({
+    const data = await generateValidatedJson('NOTES', prompt, ChapterListSchema, {
+        system: "You are a helpful educational assistant. You MUST return strictly valid JSON array. Do not wrap in markdown block.",
+        context: { board, classLevel, subject: subject.name, stream: stream || null }
+    }); // Fetch chapters is default student action
+    const chapters: Chapter[] = data.map((item, index) => ({
       id: `ch-${index + 1}`,
       title: item.title,
       description: item.description || ''
@@ -405,14 +257,13 @@ export const fetchChapters = async (
     chapterCache[cacheKey] = chapters;
     return chapters;
   } catch (error) {
+    // Nothing is cached on failure so the next call retries instead of serving placeholder chapters
     console.error("Chapter Fetch Error:", error);
-    const data = [{id:'1', title: 'Chapter 1'}, {id:'2', title: 'Chapter 2'}];
-    chapterCache[cacheKey] = data;
-    return data;
+    throw error;
   }
 };
 
-const processTemplate = (template: string, replacements: Record<string, string>) => {
+export const processTemplate = (template: string, replacements: Record<string, string>) => {
     let result = template;
     for (const [key, value] of Object.entries(replacements)) {
         result = result.replace(new RegExp(`{${key}}`, 'gi'), value);
@@ -420,7 +271,7 @@ const processTemplate = (template: string, replacements: Record<string, string>)
     return result;
 };
 
-// --- MAIN CONTENT FUNCTION (UPDATED FOR GROQ) ---
+// --- MAIN CONTENT FUNCTION (PROVIDER-AGNOSTIC) ---
 export const fetchLessonContent = async (
   board: Board,
   classLevel: ClassLevel,
@@ -437,45 +288,28 @@ export const fetchLessonContent = async (
   syllabusMode: 'SCHOOL' | 'COMPETITION' = 'SCHOOL',
   forceRegenerate: boolean = false,
   dualGeneration: boolean = false,
-  usageType: 'PILOT' | 'STUDENT' = 'STUDENT'
+  usageType: AiUsageType = 'STUDENT'
 ): Promise<LessonContent> => {
   
   let customInstruction = "";
-  let modelName = "llama3-8b-8192";
-  let promptNotes = "";
-  let promptNotesPremium = "";
-  let promptMCQ = "";
 
-  try {
-      const stored = localStorage.getItem('nst_system_settings');
-      if (stored) {
-          const s = JSON.parse(stored) as SystemSettings;
-          if (s.aiInstruction) customInstruction = `IMPORTANT INSTRUCTION: ${s.aiInstruction}`;
-          if (s.aiModel) modelName = s.aiModel; // Allow override, but default is Llama3
-          
-          // ... (Prompt loading logic same as Gemini) ...
-           if (syllabusMode === 'COMPETITION') {
-              if (board === 'CBSE') {
-                  if (s.aiPromptNotesCompetitionCBSE) promptNotes = s.aiPromptNotesCompetitionCBSE;
-                  if (s.aiPromptNotesPremiumCompetitionCBSE) promptNotesPremium = s.aiPromptNotesPremiumCompetitionCBSE;
-                  if (s.aiPromptMCQCompetitionCBSE) promptMCQ = s.aiPromptMCQCompetitionCBSE;
-              }
-              if (!promptNotes && s.aiPromptNotesCompetition) promptNotes = s.aiPromptNotesCompetition;
-              if (!promptNotesPremium && s.aiPromptNotesPremiumCompetition) promptNotesPremium = s.aiPromptNotesPremiumCompetition;
-              if (!promptMCQ && s.aiPromptMCQCompetition) promptMCQ = s.aiPromptMCQCompetition;
-
-          } else {
-              if (board === 'CBSE') {
-                  if (s.aiPromptNotesCBSE) promptNotes = s.aiPromptNotesCBSE;
-                  if (s.aiPromptNotesPremiumCBSE) promptNotesPremium = s.aiPromptNotesPremiumCBSE;
-                  if (s.aiPromptMCQCBSE) promptMCQ = s.aiPromptMCQCBSE;
-              }
-              if (!promptNotes && s.aiPromptNotes) promptNotes = s.aiPromptNotes;
-              if (!promptNotesPremium && s.aiPromptNotesPremium) promptNotesPremium = s.aiPromptNotesPremium;
-              if (!promptMCQ && s.aiPromptMCQ) promptMCQ = s.aiPromptMCQ;
-          }
-      }
-  } catch(e) {}
+  const s = getStoredSettings();
+  if (s.aiInstruction) customInstruction = `IMPORTANT INSTRUCTION: ${s.aiInstruction}`;
+
+  // Prompt templates come from the library (most specific match for this context wins)
+  const promptContext = { board, classLevel, syllabusMode, language };
+  const templates = getPromptTemplates(s);
+  const notesTemplate = resolvePromptTemplate('NOTES', promptContext, templates);
+  const notesPremiumTemplate = resolvePromptTemplate('NOTES_PREMIUM', promptContext, templates);
+  const mcqTemplate = resolvePromptTemplate('MCQ', promptContext, templates);
+
+  // Identical generations for this chapter are shared across students; regenerate bypasses the lookup
+  const streamKey = (classLevel === '11' || classLevel === '12') && stream ? `-${stream}` : '';
+  const cache: AiCacheOptions = {
+      tag: `nst_content_${board}_${classLevel}${streamKey}_${subject.name}_${chapter.id}`,
+      tagLabel: `${board} ${classLevel}${streamKey} · ${subject.name} · ${chapter.title}`,
+      refresh: forceRegenerate
+  };
 
   if (!forceRegenerate) {
       const adminContent = await getAdminContent(board, classLevel, stream, subject, chapter.id, type, syllabusMode);
@@ -518,8 +352,9 @@ export const fetchLessonContent = async (
       const effectiveCount = Math.max(targetQuestions, 20); 
 
       let prompt = "";
-      if (promptMCQ) {
-           prompt = processTemplate(promptMCQ, {
+      if (mcqTemplate) {
+           trackPromptTemplateUsage(mcqTemplate);
+           prompt = processTemplate(mcqTemplate.body, {
                board: board || '',
                class: classLevel,
                stream: stream || '',
@@ -560,8 +395,7 @@ export const fetchLessonContent = async (
 
       let data: any[] = [];
 
-      // SYSTEM PROMPT FOR MCQ
-      const mcqSystemPrompt = "You are an exam generator. You MUST return strict valid JSON array only. No introduction, no markdown formatting (like ```json), no ending notes. Just the raw JSON array.";
+      const mcqSystemPrompt = MCQ_SYSTEM_PROMPT;
 
       if (effectiveCount > 30) {
           const batchSize = 20; 
@@ -581,15 +415,15 @@ export const fetchLessonContent = async (
                       instruction: `${customInstruction}\nBATCH ${i+1}/${batches}. Ensure diversity. Avoid duplicates from previous batches if possible.`
                   });
 
-                  const content = await callGroqApi([
-                      { role: "system", content: mcqSystemPrompt },
-                      { role: "user", content: batchPrompt }
-                  ], modelName);
-                  return JSON.parse(cleanJson(content || '[]'));
+                  return generateValidatedJson('MCQ', batchPrompt, McqListSchema, {
+                      system: mcqSystemPrompt, usageType, cache,
+                      context: { chapter: chapter.title, subject: subject.name, batch: i + 1 }
+                  });
               });
           }
 
-          const allResults = await executeBulkParallel(tasks, 50, usageType);
+          // Execute with High Concurrency (up to 50 parallel if tasks allow)
+          const allResults = await runBulkParallel(tasks, 50);
           data = allResults.flat();
           
           const seen = new Set();
@@ -602,21 +436,15 @@ export const fetchLessonContent = async (
           if (data.length > effectiveCount) data = data.slice(0, effectiveCount);
 
       } else {
-          data = await executeWithRotation(async () => {
-              const content = await callGroqApi([
-                  { role: "system", content: mcqSystemPrompt },
-                  { role: "user", content: prompt }
-              ], modelName);
-              return JSON.parse(cleanJson(content || '[]'));
-          }, usageType);
+          data = await generateValidatedJson('MCQ', prompt, McqListSchema, {
+              system: mcqSystemPrompt, usageType, cache,
+              context: { chapter: chapter.title, subject: subject.name }
+          });
       }
 
       let hindiMcqData = undefined;
       if (language === 'English') {
-          try {
-             const translatedJson = await translateToHindi(JSON.stringify(data), true, usageType);
-             hindiMcqData = JSON.parse(translatedJson);
-          } catch(e) { console.error("Translation Failed", e); }
+          hindiMcqData = await translateMcqsToHindi(data, usageType, { chapter: chapter.title, subject: subject.name });
       }
 
       return {
@@ -635,10 +463,11 @@ export const fetchLessonContent = async (
   // NOTES Mode
   const generateNotes = async (detailed: boolean): Promise<{text: string, hindiText?: string}> => {
       let prompt = "";
-      const template = detailed ? promptNotesPremium : promptNotes;
+      const template = detailed ? notesPremiumTemplate : notesTemplate;
       
       if (template) {
-           prompt = processTemplate(template, {
+           trackPromptTemplateUsage(template);
+           prompt = processTemplate(template.body, {
                board: board || '',
                class: classLevel,
                stream: stream || '',
@@ -686,24 +515,21 @@ export const fetchLessonContent = async (
           ${detailed ? 'Include deep insights, memory tips, and exam strategies.' : 'Keep it concise and clear. Focus on quick revision.'}`;
       }
 
-      const text = await executeWithRotation(async () => {
-          return await callGroqApi([
-              { role: "system", content: "You are an expert teacher. Provide high quality, well-formatted markdown content." },
-              { role: "user", content: prompt }
-          ], modelName);
-      }, usageType);
+      const text = await generateAiText('NOTES', prompt, {
+          system: "You are an expert teacher. Provide high quality, well-formatted markdown content.",
+          usageType, cache
+      });
 
       let hindiText = undefined;
       if (language === 'English') {
           try {
-              hindiText = await translateToHindi(text, false, usageType);
+              hindiText = await translateToHindi(text, false, usageType, cache);
           } catch(e) { console.error("Translation Failed", e); }
       }
       return { text, hindiText };
   };
 
   if (dualGeneration && (type === 'NOTES_PREMIUM' || type === 'NOTES_SIMPLE')) {
-       // ... (Copied logic) ...
        const competitionConstraints = syllabusMode === 'COMPETITION' 
           ? "STYLE: Fact-Heavy, Direct. HIGHLIGHT PYQs (Previous Year Questions) if relevant." 
           : "STYLE: Strict NCERT Pattern.";
@@ -725,9 +551,7 @@ export const fetchLessonContent = async (
        [Short 100-word Summary Here]
        `;
        
-       const rawText = await executeWithRotation(async () => {
-          return await callGroqApi([{ role: "user", content: prompt }], modelName);
-       }, usageType);
+       const rawText = await generateAiText('NOTES', prompt, { usageType, cache });
        
        let premiumText = "";
        let freeText = "";
@@ -750,8 +574,8 @@ export const fetchLessonContent = async (
        if (language === 'English') {
           try {
               const [p, f] = await Promise.all([
-                  translateToHindi(premiumText, false, usageType),
-                  translateToHindi(freeText, false, usageType)
+                  translateToHindi(premiumText, false, usageType, cache),
+                  translateToHindi(freeText, false, usageType, cache)
               ]);
               premiumTextHI = p;
               freeTextHI = f;
@@ -796,51 +620,190 @@ export const fetchLessonContent = async (
   };
 };
 
-export const generateTestPaper = async (topics: any, count: number, language: Language): Promise<MCQItem[]> => {
-    return []; // Placeholder
+// --- TEST PAPER GENERATOR ---
+
+const DIFFICULTIES: QuestionDifficulty[] = ['EASY', 'MEDIUM', 'HARD'];
+
+// Splits `count` by percentage using largest remainder, so the slots always add up to `count`
+const splitByDifficulty = (count: number, mix: Record<QuestionDifficulty, number>): Record<QuestionDifficulty, number> => {
+    const total = DIFFICULTIES.reduce((sum, d) => sum + Math.max(0, mix[d] || 0), 0) || 1;
+    const exact = DIFFICULTIES.map(d => (Math.max(0, mix[d] || 0) / total) * count);
+    const slots = exact.map(Math.floor);
+    let remaining = count - slots.reduce((a, b) => a + b, 0);
+    const order = exact.map((v, i) => ({ i, frac: v - Math.floor(v) })).sort((a, b) => b.frac - a.frac);
+    for (let k = 0; remaining > 0; k = (k + 1) % order.length, remaining--) slots[order[k].i]++;
+    return { EASY: slots[0], MEDIUM: slots[1], HARD: slots[2] };
 };
-export const generateDevCode = async (userPrompt: string): Promise<string> => { return "// Dev Console Disabled"; };
 
-export const generateCustomNotes = async (userTopic: string, adminPrompt: string, modelName: string = "llama3-8b-8192"): Promise<string> => {
-    const prompt = `${adminPrompt || 'Generate detailed notes for the following topic:'}
+const shuffle = <T,>(list: T[]): T[] => [...list].sort(() => 0.5 - Math.random());
+
+// Builds a paper from a blueprint. Stored questions are used first (bank, then chapter manualMcqData);
+// AI only generates what is still missing per chapter and difficulty.
+export const generateTestPaper = async (
+    blueprint: TestPaperBlueprint,
+    onProgress?: (message: string) => void
+): Promise<TestPaper> => {
+    const { board, classLevel, stream, language, difficultyMix } = blueprint;
+    const isHindi = language === 'Hindi';
+    const paper: MCQItem[] = [];
+    const sourceCounts = { bank: 0, chapter: 0, ai: 0 };
+    let shortfall = 0;
+
+    const take = (q: MCQItem, source: keyof typeof sourceCounts) => {
+        if (isNearDuplicate(q, paper)) return false;
+        paper.push(q);
+        sourceCounts[source]++;
+        return true;
+    };
+
+    for (const item of blueprint.items) {
+        if (item.count <= 0) continue;
+        const { subject, chapter } = item;
+        onProgress?.(`📚 ${subject.name} → ${chapter.title}`);
+
+        const slots = splitByDifficulty(item.count, difficultyMix);
+        const before = paper.length;
+
+        // 1. QUESTION BANK (English only; bank items are not language-tagged)
+        const bankItems = isHindi ? [] : shuffle(await getBankQuestionsForChapter(classLevel, subject.name, chapter));
+        for (const d of DIFFICULTIES) {
+            for (const b of bankItems.filter(b => b.difficulty === d)) {
+                if (slots[d] === 0) break;
+                if (take(b.question, 'bank')) slots[d]--;
+            }
+        }
+
+        // 2. UNTAGGED STORED QUESTIONS (bank items without difficulty + chapter manualMcqData)
+        // Difficulty is unknown, so they fill MEDIUM first, then whatever slots remain.
+        const fillOrder: QuestionDifficulty[] = ['MEDIUM', 'EASY', 'HARD'];
+        const nextSlot = () => fillOrder.find(d => slots[d] > 0);
+
+        for (const b of bankItems.filter(b => !b.difficulty)) {
+            const d = nextSlot();
+            if (!d) break;
+            if (take(b.question, 'bank')) slots[d]--;
+        }
+
+        const stored = await getAdminContent(board, classLevel, stream || null, subject, chapter.id, 'MCQ_SIMPLE');
+        const chapterMcqs: MCQItem[] = (isHindi ? stored?.manualMcqData_HI : stored?.mcqData) || [];
+        for (const q of shuffle(chapterMcqs)) {
+            const d = nextSlot();
+            if (!d) break;
+            if (take(q, 'chapter')) slots[d]--;
+        }
+
+        // 3. AI GAP FILL
+        const missing = DIFFICULTIES.reduce((sum, d) => sum + slots[d], 0);
+        if (missing > 0) {
+            onProgress?.(`🤖 Generating ${missing} missing questions for ${chapter.title}...`);
+            const breakdown = DIFFICULTIES.filter(d => slots[d] > 0).map(d => `${slots[d]} ${d}`).join(', ');
+            const prompt = `Create ${missing} MCQs for ${board} Class ${classLevel} ${subject.name}, Chapter: "${chapter.title}".
+            Language: ${language}.
+            DIFFICULTY: ${breakdown}.
+            Do NOT repeat these existing questions:
+            ${paper.slice(before).map(q => `- ${q.question}`).join('\n') || '- (none)'}
+
+            STRICT FORMAT RULE:
+            Return ONLY a valid JSON array. No markdown blocks, no extra text.
+            [{"question": "...", "options": ["A", "B", "C", "D"], "correctAnswer": 0, "explanation": "...", "concept": "..."}]
+
+            CRITICAL: You MUST return EXACTLY ${missing} questions.`;
+
+            try {
+                const generated = await generateValidatedJson('MCQ', prompt, McqListSchema, {
+                    system: MCQ_SYSTEM_PROMPT,
+                    usageType: 'PILOT',
+                    context: { feature: 'TEST_PAPER', chapter: chapter.title, subject: subject.name }
+                });
+                let added = 0;
+                for (const q of generated) {
+                    if (added >= missing) break;
+                    if (take(q, 'ai')) added++;
+                }
+            } catch (e) {
+                console.error(`Test paper gap fill failed for ${chapter.title}`, e);
+            }
+        }
+
+        shortfall += Math.max(0, item.count - (paper.length - before));
+    }
+
+    return { questions: paper, sourceCounts, shortfall };
+};
+
+const DEV_SYSTEM_PROMPT = `You are a senior React + TypeScript developer working on this education platform (Vite, Tailwind, Firebase).
+Answer with working code in fenced code blocks, followed by a short explanation of where it goes.`;
+
+export const generateDevCode = async (userPrompt: string): Promise<string> => {
+    return await generateAiText('CHAT', userPrompt, { system: DEV_SYSTEM_PROMPT, usageType: 'PILOT' });
+};
+
+export const streamDevCode = async (userPrompt: string, stream: AiStreamOptions): Promise<AiResponse> => {
+    return await streamAiTask('CHAT', {
+        messages: [{ role: 'system', content: DEV_SYSTEM_PROMPT }, { role: 'user', content: userPrompt }]
+    }, stream, 'PILOT');
+};
+
+const buildCustomNotesPrompt = (userTopic: string, adminPrompt: string) => {
+    return `${adminPrompt || 'Generate detailed notes for the following topic:'}
     
     TOPIC: ${userTopic}
     
     Ensure the content is well-structured with headings and bullet points.`;
+};
+
+export const generateCustomNotes = async (
+    userTopic: string,
+    adminPrompt: string,
+    modelName?: string,
+    task: AiTaskType = 'NOTES'
+): Promise<string> => {
+    return await generateAiText(task, buildCustomNotesPrompt(userTopic, adminPrompt), { model: modelName, cache: {} });
+};
 
-    return await executeWithRotation(async () => {
-        return await callGroqApi([{ role: "user", content: prompt }], modelName);
-    }, 'STUDENT');
+// Same prompt as generateCustomNotes, delivered token by token (chat bubbles)
+export const streamCustomNotes = async (
+    userTopic: string,
+    adminPrompt: string,
+    stream: AiStreamOptions,
+    modelName?: string,
+    task: AiTaskType = 'CHAT'
+): Promise<AiResponse> => {
+    return await streamAiTask(task, {
+        messages: [{ role: 'user', content: buildCustomNotesPrompt(userTopic, adminPrompt) }],
+        model: modelName
+    }, stream);
 };
 
 export const generateUltraAnalysis = async (
     data: {
         questions: any[], 
-        userAnswers: Record<number, number>, 
+        userAnswers: Record<number, QuestionResponse>, 
         score: number, 
         total: number, 
         subject: string, 
         chapter: string, 
         classLevel: string
     },
-    settings?: SystemSettings
+    settings?: SystemSettings,
+    credits: number = 0 // Coins the student is charged, for the spend ledger
 ): Promise<string> => {
-    let modelName = "llama3-8b-8192";
     let customInstruction = "";
     
     if (settings) {
-        if (settings.aiModel) modelName = settings.aiModel;
         if (settings.aiInstruction) customInstruction = settings.aiInstruction;
     }
 
     const attemptedQuestions = data.questions.map((q, idx) => {
         const selected = data.userAnswers[idx];
-        const isCorrect = selected === q.correctAnswer;
+        const isCorrect = isResponseCorrect(q, selected);
+        // Kinds without a single option are described by their formatted answer
+        const singleChoice = isSingleChoiceKind(getQuestionKind(q));
         
         return {
-            question: q.question,
-            correctAnswer: q.options[q.correctAnswer],
-            userSelected: (selected !== undefined && selected !== -1 && q.options[selected]) ? q.options[selected] : "Skipped",
+            question: q.question || q.passage,
+            correctAnswer: singleChoice ? q.options[q.correctAnswer] : formatCorrectAnswer(q),
+            userSelected: !isResponseAnswered(q, selected) ? "Skipped" : singleChoice ? q.options[selected as number] : formatResponse(q, selected),
             isCorrect: isCorrect,
             concept: q.concept || q.explanation || "General Concept"
         };
@@ -895,11 +858,11 @@ export const generateUltraAnalysis = async (
     Ensure the response is valid JSON. Do not wrap in markdown code blocks.
     `;
 
-    return await executeWithRotation(async () => {
-        const content = await callGroqApi([
-            { role: "system", content: "You are a data analyst. Return only valid JSON." },
-            { role: "user", content: prompt }
-        ], modelName);
-        return cleanJson(content || "{}");
-    }, 'STUDENT');
+    const analysis = await generateValidatedJson('ANALYSIS', prompt, UltraAnalysisSchema, {
+        system: "You are a data analyst. Return only valid JSON.",
+        model: settings?.aiModel,
+        context: { feature: 'ULTRA_ANALYSIS' },
+        ledger: { feature: 'ULTRA_ANALYSIS', credits }
+    });
+    return JSON.stringify(analysis);
 };
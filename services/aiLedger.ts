@@ -0,0 +1,60 @@
+import { AiFeature, AiTaskType, AiUsageRecord } from "../types";
+
+// --- AI SPEND LEDGER ---
+// The proxies (/api/groq, /api/gemini) write one record per model call, with the uid, model, key, tokens and
+// latency they saw themselves (api/_lib/aiLedger.ts), under the app user id resolved from the verified login.
+// The client only sends what the server cannot know: the feature and the coins it charged. Cache hits make no model call and are not recorded
+// here (the generation cache keeps its own hit counts).
+
+export interface AiLedgerOptions {
+    feature?: AiFeature; // Defaults to the task (PILOT for admin calls)
+    credits?: number; // Coins the caller charged the student for this call
+}
+
+export const AI_FEATURES: AiFeature[] = ['NOTES', 'MCQ', 'ULTRA_ANALYSIS', 'CHAT', 'TRANSLATION', 'PILOT'];
+
+const TASK_FEATURES: Record<AiTaskType, AiFeature> = {
+    NOTES: 'NOTES',
+    MCQ: 'MCQ',
+    ANALYSIS: 'ULTRA_ANALYSIS',
+    CHAT: 'CHAT',
+    TRANSLATION: 'TRANSLATION'
+};
+
+export const resolveAiFeature = (task: AiTaskType, usageType: 'PILOT' | 'STUDENT', override?: AiFeature): AiFeature =>
+    override || (usageType === 'PILOT' ? 'PILOT' : TASK_FEATURES[task] || 'CHAT');
+
+// Sent as `ledger` in the proxy request body
+export const toLedgerPayload = (task: AiTaskType = 'CHAT', usageType: 'PILOT' | 'STUDENT' = 'STUDENT', ledger?: AiLedgerOptions) => ({
+    task,
+    feature: resolveAiFeature(task, usageType, ledger?.feature),
+    credits: ledger?.credits || 0
+});
+
+// --- ROLLUPS (admin dashboard) ---
+
+export interface AiSpendRollup {
+    key: string; // userId or feature
+    calls: number;
+    failedCalls: number;
+    tokens: number;
+    credits: number;
+    avgLatencyMs: number;
+}
+
+export const rollupAiUsage = (records: AiUsageRecord[], by: 'userId' | 'feature'): AiSpendRollup[] => {
+    const groups: Record<string, AiSpendRollup & { latencyTotal: number }> = {};
+    records.forEach(r => {
+        const key = r[by];
+        const g = groups[key] || { key, calls: 0, failedCalls: 0, tokens: 0, credits: 0, avgLatencyMs: 0, latencyTotal: 0 };
+        g.calls++;
+        if (r.status === 'ERROR') g.failedCalls++;
+        g.tokens += r.totalTokens || 0;
+        g.credits += r.credits || 0;
+        g.latencyTotal += r.latencyMs || 0;
+        groups[key] = g;
+    });
+    return Object.values(groups)
+        .map(({ latencyTotal, ...g }) => ({ ...g, avgLatencyMs: g.calls ? Math.round(latencyTotal / g.calls) : 0 }))
+        .sort((a, b) => b.tokens - a.tokens);
+};
@@ -0,0 +1,139 @@
+import { z } from "zod";
+
+// Strict schemas for every JSON shape we ask the models for.
+// Lenient only where models are known to drift harmlessly (numeric strings, missing optional text).
+
+const QuestionTextSchema = z.string().trim().min(1, "question is empty");
+const OptionsSchema = z.array(z.string().trim().min(1, "option is empty")).min(2, "needs at least 2 options").max(6, "too many options");
+const AnswerIndexSchema = z.coerce.number().int("answer must be an integer index").min(0);
+
+const itemFields = {
+    question: QuestionTextSchema,
+    explanation: z.string().default(''),
+    mnemonic: z.string().optional(),
+    concept: z.string().optional()
+};
+
+const answerInOptions = <T extends { options: string[]; correctAnswer: number }>(q: T) => q.correctAnswer < q.options.length;
+const answerOutsideOptions = { message: "correctAnswer index is outside the options array", path: ['correctAnswer'] };
+
+// Items without `kind` are classic single-answer MCQs (everything the generators produce)
+const SingleItemSchema = z.object({
+    ...itemFields,
+    kind: z.literal('SINGLE').optional(),
+    options: OptionsSchema,
+    correctAnswer: AnswerIndexSchema
+}).refine(answerInOptions, answerOutsideOptions);
+
+const MultiItemSchema = z.object({
+    ...itemFields,
+    kind: z.literal('MULTI'),
+    options: OptionsSchema,
+    correctAnswer: z.coerce.number().int(),
+    correctAnswers: z.array(AnswerIndexSchema).min(1, "needs at least 1 correct option")
+}).refine(q => q.correctAnswers.every(a => a < q.options.length), {
+    message: "correctAnswers index is outside the options array",
+    path: ['correctAnswers']
+});
+
+const NumericItemSchema = z.object({
+    ...itemFields,
+    kind: z.literal('NUMERIC'),
+    options: z.array(z.string()).default([]),
+    correctAnswer: z.coerce.number().int().default(-1),
+    numericAnswer: z.object({
+        value: z.coerce.number(),
+        tolerance: z.coerce.number().min(0).optional(),
+        unit: z.string().optional()
+    })
+});
+
+const AssertionReasonItemSchema = z.object({
+    ...itemFields,
+    kind: z.literal('ASSERTION_REASON'),
+    assertion: z.string().trim().min(1, "assertion is empty"),
+    reason: z.string().trim().min(1, "reason is empty"),
+    options: OptionsSchema,
+    correctAnswer: AnswerIndexSchema
+}).refine(answerInOptions, answerOutsideOptions);
+
+const MatchItemSchema = z.object({
+    ...itemFields,
+    kind: z.literal('MATCH'),
+    options: z.array(z.string()).default([]),
+    correctAnswer: z.coerce.number().int().default(-1),
+    matchLeft: z.array(z.string().trim().min(1, "match item is empty")).min(1, "needs at least 1 pair"),
+    matchRight: z.array(z.string().trim().min(1, "match item is empty")).min(1, "needs at least 1 pair"),
+    matchAnswer: z.array(AnswerIndexSchema)
+}).refine(q => q.matchAnswer.length === q.matchLeft.length && q.matchAnswer.every(a => a < q.matchRight.length), {
+    message: "matchAnswer must pair every matchLeft item with a matchRight index",
+    path: ['matchAnswer']
+});
+
+const CaseBasedItemSchema = z.object({
+    ...itemFields,
+    kind: z.literal('CASE_BASED'),
+    passage: z.string().trim().min(1, "passage is empty"),
+    options: z.array(z.string()).default([]),
+    correctAnswer: z.coerce.number().int().default(-1),
+    subQuestions: z.array(SingleItemSchema).min(1, "needs at least 1 sub-question")
+});
+
+// One schema per question kind (see MCQItem), so kind-specific fields survive parsing
+export const McqItemSchema = z.discriminatedUnion('kind', [
+    SingleItemSchema,
+    MultiItemSchema,
+    NumericItemSchema,
+    AssertionReasonItemSchema,
+    MatchItemSchema,
+    CaseBasedItemSchema
+]);
+
+export const McqListSchema = z.array(McqItemSchema).min(1, "no questions returned");
+
+export const ChapterListSchema = z.array(z.object({
+    title: z.string().trim().min(1, "chapter title is empty"),
+    description: z.string().default('')
+})).min(1, "no chapters returned");
+
+export const UltraAnalysisSchema = z.object({
+    topics: z.array(z.object({
+        name: z.string().min(1),
+        status: z.enum(['WEAK', 'AVERAGE', 'STRONG']),
+        questions: z.array(z.object({
+            text: z.string(),
+            status: z.enum(['CORRECT', 'WRONG']),
+            correctAnswer: z.coerce.string().optional()
+        })).default([]),
+        actionPlan: z.string(),
+        studyMode: z.enum(['REVISION', 'DEEP_STUDY'])
+    })).min(1, "no topics returned"),
+    motivation: z.string(),
+    nextSteps: z.object({
+        duration: z.string(),
+        focusTopics: z.array(z.string()),
+        action: z.string()
+    }),
+    weakToStrongPath: z.array(z.object({
+        step: z.coerce.number().int(),
+        action: z.string()
+    }))
+});
+
+export const MorningInsightSchema = z.object({
+    title: z.string().min(1),
+    wisdom: z.string().min(1),
+    commonTrap: z.string().min(1),
+    proTip: z.string().min(1),
+    motivation: z.string().min(1)
+});
+
+// Question bank auto-tagging: one entry per question, in order. chapter must be one of the offered titles (or empty).
+export const QuestionTagListSchema = z.array(z.object({
+    difficulty: z.enum(['EASY', 'MEDIUM', 'HARD']),
+    bloomLevel: z.enum(['REMEMBER', 'UNDERSTAND', 'APPLY', 'ANALYZE', 'EVALUATE', 'CREATE']),
+    chapter: z.string().trim().default('')
+})).min(1, "no tags returned");
+
+export type UltraAnalysis = z.infer<typeof UltraAnalysisSchema>;
+export type MorningInsight = z.infer<typeof MorningInsightSchema>;
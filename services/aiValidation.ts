@@ -0,0 +1,106 @@
+import { z } from "zod";
+import { AiTaskType } from "../types";
+import { runAiTask, cleanJson, AiMessage, AiUsageType } from "./aiClient";
+import { AiCacheOptions } from "./aiCache";
+import { AiLedgerOptions } from "./aiLedger";
+import { saveAiFailure } from "../firebase";
+
+// Structured failure for model output that never passed validation
+export class AiOutputError extends Error {
+    task: AiTaskType;
+    issues: string[];
+    rawOutput: string;
+    attempts: number;
+
+    constructor(task: AiTaskType, issues: string[], rawOutput: string, attempts: number) {
+        super(`AI returned invalid ${task} output after ${attempts} attempt(s): ${issues.slice(0, 3).join('; ')}`);
+        this.name = 'AiOutputError';
+        this.task = task;
+        this.issues = issues;
+        this.rawOutput = rawOutput;
+        this.attempts = attempts;
+    }
+}
+
+const formatIssues = (error: z.ZodError): string[] => {
+    return error.issues.slice(0, 10).map(issue => {
+        const path = issue.path.length ? issue.path.join('.') : '(root)';
+        return `${path}: ${issue.message}`;
+    });
+};
+
+// Parses + validates a raw model response. Never throws.
+export const parseAiJson = <S extends z.ZodTypeAny>(
+    raw: string,
+    schema: S
+): { success: boolean; data?: z.infer<S>; issues: string[] } => {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(cleanJson(raw || ''));
+    } catch (e: any) {
+        return { success: false, issues: [`Invalid JSON: ${e.message}`] };
+    }
+    const result = schema.safeParse(parsed);
+    if (result.success) return { success: true, data: result.data, issues: [] };
+    return { success: false, issues: formatIssues(result.error) };
+};
+
+// --- GENERATE + VALIDATE + REPAIR LOOP ---
+// On invalid output the model is shown its own answer plus the validation errors and asked to fix it.
+export const generateValidatedJson = async <S extends z.ZodTypeAny>(
+    task: AiTaskType,
+    prompt: string,
+    schema: S,
+    options: { system?: string; model?: string; usageType?: AiUsageType; maxRepairs?: number; context?: Record<string, any>; cache?: AiCacheOptions; ledger?: AiLedgerOptions } = {}
+): Promise<z.infer<S>> => {
+    const maxRepairs = options.maxRepairs ?? 2;
+    const messages: AiMessage[] = [];
+    if (options.system) messages.push({ role: 'system', content: options.system });
+    messages.push({ role: 'user', content: prompt });
+
+    let rawOutput = '';
+    let issues: string[] = [];
+    let refresh = false;
+
+    for (let attempt = 0; attempt <= maxRepairs; attempt++) {
+        // Only the original prompt is cacheable; repair turns embed the previous (invalid) output
+        const cache = attempt === 0 || refresh ? options.cache && { ...options.cache, refresh: refresh || options.cache.refresh } : undefined;
+        // Credits are charged once per request, not once per repair turn
+        const ledger = attempt === 0 ? options.ledger : options.ledger && { ...options.ledger, credits: 0 };
+        const response = await runAiTask(task, { messages, model: options.model, cache, ledger }, options.usageType || 'STUDENT');
+        rawOutput = response.text;
+
+        const result = parseAiJson(rawOutput, schema);
+        if (result.success) return result.data;
+
+        issues = result.issues;
+        console.warn(`[AI] ${task} output failed validation (attempt ${attempt + 1}):`, issues);
+
+        // Never keep serving an answer that fails the schema: ask again, the proxy overwrites the entry
+        refresh = !!response.cached;
+        if (refresh) continue;
+
+        messages.push({ role: 'assistant', content: rawOutput });
+        messages.push({
+            role: 'user',
+            content: `Your previous response was invalid.\nERRORS:\n- ${issues.join('\n- ')}\n\nReturn ONLY the corrected JSON. No markdown, no explanation.`
+        });
+    }
+
+    const error = new AiOutputError(task, issues, rawOutput, maxRepairs + 1);
+    reportAiFailure(error, options.context);
+    throw error;
+};
+
+// Persist failures so admins can see them instead of them being swallowed in the console
+export const reportAiFailure = (error: AiOutputError, context: Record<string, any> = {}) => {
+    saveAiFailure({
+        id: `ai-fail-${Date.now()}-${Math.random().toString(36).substr(2, 5)}`,
+        task: error.task,
+        issues: error.issues,
+        rawOutput: error.rawOutput.slice(0, 2000),
+        attempts: error.attempts,
+        context,
+        timestamp: new Date().toISOString()
+    });
+};
@@ -1,7 +1,11 @@
-import { SystemSettings, Board, ClassLevel, Stream, Subject, ContentType, Chapter } from "../types";
+import { SystemSettings, Board, ClassLevel, Stream, Subject, Chapter, MCQItem, AutoPilotJob, AutoPilotJobKind, AutoPilotProgress } from "../types";
 import { getSubjectsList } from "../constants";
-import { fetchChapters, fetchLessonContent } from "./groq";
-import { getChapterData, saveChapterData, saveAiInteraction } from "../firebase";
+import { fetchChapters, fetchLessonContent, translateMcqsToHindi } from "./aiContent";
+import { saveQuestionsToBank } from "./questionBank";
+import { createContentDraft, getPendingDraft } from "./draftReview";
+import { indexChapterContent, TutorChapterMeta } from "./tutorRetrieval";
+import { HINDI_FIELD_PAIRS, getMissingHindiFields, getSubjectGlossary, translateHtmlToHindi, translateMcqsWithGlossary, findGlossaryMisses } from "./hindiTranslation";
+import { getChapterData, saveChapterData, saveAutoPilotJob, updateAutoPilotJob, claimAutoPilotJob, getAutoPilotJobs, deleteAutoPilotJobs, getPendingContentDraftIds } from "../firebase";
 import pLimit from 'p-limit';
 
 const AUTO_PILOT_PROMPT = `
@@ -32,143 +36,510 @@ STRUCTURAL RULES (Deep Analysis & Coaching Style):
    - Use a conversational, analytical tone. Use bold text for keywords.
 `;
 
-let isAiGenerating = false;
+// --- JOB QUEUE ---
+// Every chapter-generation unit is a job record in Firestore (autopilot_jobs), so a closed tab
+// loses nothing: the next worker picks up QUEUED jobs and RUNNING jobs whose lease expired.
 
-const getRandomItem = <T>(array: T[]): T => {
-    return array[Math.floor(Math.random() * array.length)];
+const MAX_ATTEMPTS = 3;
+const BACKOFF_BASE_MS = 30 * 1000; // 30s, 60s, 120s...
+const LEASE_MS = 10 * 60 * 1000; // RUNNING jobs untouched for this long are treated as abandoned
+const HEARTBEAT_MS = 2 * 60 * 1000; // A running job renews its lease this often, however long its steps take
+
+// In-tab guards only (one worker loop per tab); the queue state itself lives in the database
+let workerActive = false;
+let stopRequested = false;
+
+const AUTO_PILOT_AUTHOR = { id: 'AUTO_PILOT', name: 'Auto-Pilot' };
+
+type ChapterTarget = { board: Board; classLevel: ClassLevel; stream: Stream | null; subject: Subject };
+
+const getContentKey = (t: ChapterTarget, chapterId: string) => {
+    const streamKey = (t.classLevel === '11' || t.classLevel === '12') && t.stream ? `-${t.stream}` : '';
+    return `nst_content_${t.board}_${t.classLevel}${streamKey}_${t.subject.name}_${chapterId}`;
+};
+
+const getJobIndexMeta = (job: AutoPilotJob): TutorChapterMeta => ({
+    contentKey: job.contentKey,
+    board: job.board,
+    classLevel: job.classLevel,
+    stream: job.stream,
+    subjectName: job.subject.name,
+    chapterId: job.chapter.id,
+    chapterTitle: job.chapter.title
+});
+
+const getJobId = (kind: AutoPilotJobKind, contentKey: string) => `${kind}_${contentKey}`.replace(/\//g, '_');
+
+const getSyllabusMode = (classLevel: ClassLevel) => classLevel === 'COMPETITION' ? 'COMPETITION' : 'SCHOOL';
+
+const hasNotes = (data: any, classLevel: ClassLevel) => {
+    const notesKey = getSyllabusMode(classLevel) === 'SCHOOL' ? 'schoolPremiumNotesHtml' : 'competitionPremiumNotesHtml';
+    return !!(data && data[notesKey]);
+};
+
+// Both the English and the Hindi set are required for a chapter to count as having MCQs
+const hasMcqs = (data: any) => !!(data?.manualMcqData?.length && data?.manualMcqData_HI?.length);
+
+// For TRANSLATE_HI "has content" means nothing is left to translate (including chapters with no English yet)
+const hasContent = (kind: AutoPilotJobKind, data: any, classLevel: ClassLevel) => {
+    if (kind === 'TRANSLATE_HI') return getMissingHindiFields(data).length === 0;
+    return kind === 'MCQ' ? hasMcqs(data) : hasNotes(data, classLevel);
+};
+
+// Empty contentTypes keeps the original notes-only behaviour
+const getJobKinds = (settings: SystemSettings): AutoPilotJobKind[] => {
+    const types = settings.autoPilotConfig?.contentTypes || [];
+    return types.length > 0 ? types : ['NOTES'];
+};
+
+const isReady = (job: AutoPilotJob, now: number) => {
+    if (job.status === 'QUEUED') return !job.nextAttemptAt || new Date(job.nextAttemptAt).getTime() <= now;
+    if (job.status === 'RUNNING') return now - new Date(job.updatedAt).getTime() > LEASE_MS;
+    return false;
+};
+
+export const isAutoPilotWorkerActive = () => workerActive;
+
+// Scans targets and queues a job for every chapter whose notes are missing.
+// FAILED/CANCELLED jobs are only re-queued by an explicit command, never by the periodic scan.
+const enqueueChapterJobs = async (
+    targets: ChapterTarget[],
+    kinds: AutoPilotJobKind[],
+    source: AutoPilotJob['source'],
+    onLog: (msg: string) => void,
+    concurrency: number
+): Promise<string[]> => {
+    const existingJobs = (await getAutoPilotJobs()) as AutoPilotJob[];
+    const existing = new Map(existingJobs.map(j => [j.id, j]));
+    const awaitingReview = new Set(await getPendingContentDraftIds()); // Draft ids match job ids
+    const limit = pLimit(concurrency);
+    const queued: string[] = [];
+
+    for (const target of targets) {
+        const chapters = await fetchChapters(target.board, target.classLevel, target.stream, target.subject, 'English');
+
+        await Promise.all(chapters.map(chapter => limit(async () => {
+            const contentKey = getContentKey(target, chapter.id);
+            const data = await getChapterData(contentKey);
+
+            for (const kind of kinds) {
+                const id = getJobId(kind, contentKey);
+                const job = existing.get(id);
+
+                if (job && (job.status === 'QUEUED' || job.status === 'RUNNING')) {
+                    queued.push(id);
+                    continue;
+                }
+                if (job && (job.status === 'FAILED' || job.status === 'CANCELLED') && source !== 'COMMAND') continue;
+                if (hasContent(kind, data, target.classLevel) || awaitingReview.has(id)) continue;
+
+                const now = new Date().toISOString();
+                await saveAutoPilotJob({
+                    id,
+                    kind,
+                    source,
+                    board: target.board,
+                    classLevel: target.classLevel,
+                    stream: target.stream,
+                    subject: target.subject,
+                    chapter: { id: chapter.id, title: chapter.title, description: chapter.description || '' },
+                    contentKey,
+                    status: 'QUEUED',
+                    attempts: 0,
+                    maxAttempts: MAX_ATTEMPTS,
+                    createdAt: job?.createdAt || now,
+                    updatedAt: now
+                } as AutoPilotJob);
+                queued.push(id);
+            }
+        })));
+    }
+
+    if (queued.length > 0) onLog(`📋 ${queued.length} chapter jobs in queue.`);
+    return queued;
+};
+
+// Generates premium + free notes (dual generation, one call) for a NOTES job
+const runNotesJob = async (job: AutoPilotJob, settings: SystemSettings, onLog: (msg: string) => void): Promise<void> => {
+    const existing = await getChapterData(job.contentKey);
+    if (hasNotes(existing, job.classLevel)) return; // Filled in elsewhere since it was queued
+
+    const mode = getSyllabusMode(job.classLevel);
+    onLog(`⚡ Generating: ${job.chapter.title} (${job.subject.name})...`);
+
+    const content = await fetchLessonContent(
+        job.board,
+        job.classLevel,
+        job.stream,
+        job.subject,
+        job.chapter,
+        'English',
+        'NOTES_PREMIUM', // Target Premium to trigger Dual
+        0,
+        true,
+        0,
+        AUTO_PILOT_PROMPT,
+        true,
+        mode,
+        false, // Don't force if exists
+        true,  // Dual Generation (One Call)
+        'PILOT'
+    );
+
+    if (!content || !content.content) throw new Error("AI returned empty notes");
+
+    const fields: Record<string, any> = mode === 'SCHOOL'
+        ? {
+            schoolPremiumNotesHtml: content.content,
+            schoolPremiumNotesHtml_HI: content.schoolPremiumNotesHtml_HI,
+            schoolFreeNotesHtml: content.schoolFreeNotesHtml
+        }
+        : {
+            competitionPremiumNotesHtml: content.content,
+            competitionPremiumNotesHtml_HI: content.competitionPremiumNotesHtml_HI,
+            competitionFreeNotesHtml: content.competitionFreeNotesHtml
+        };
+    Object.keys(fields).forEach(k => { if (!fields[k]) delete fields[k]; });
+    const flags = { is_premium: true, is_free: true };
+
+    if (settings.autoPilotConfig?.requireApproval) {
+        await createContentDraft({
+            id: job.id,
+            contentKey: job.contentKey,
+            kind: job.kind,
+            chapterTitle: job.chapter.title,
+            subjectName: job.subject.name,
+            board: job.board,
+            classLevel: job.classLevel,
+            stream: job.stream,
+            fields,
+            publishExtras: flags
+        });
+        onLog(`📝 Draft Ready for Review: ${job.chapter.title} (${job.subject.name})`);
+        return;
+    }
+
+    await saveChapterData(job.contentKey, { ...existing, ...fields, ...flags }, { author: AUTO_PILOT_AUTHOR, summary: 'Auto-Pilot notes' });
+    await indexChapterContent(getJobIndexMeta(job), { ...existing, ...fields });
+    onLog(`✅ Generated: ${job.chapter.title} (${job.subject.name})`);
+};
+
+// Generates validated English MCQs (plus the Hindi set) for a MCQ job, or only the Hindi set if English exists
+const runMcqJob = async (job: AutoPilotJob, settings: SystemSettings, onLog: (msg: string) => void): Promise<void> => {
+    const existing = await getChapterData(job.contentKey);
+    if (hasMcqs(existing)) return;
+
+    const mode = getSyllabusMode(job.classLevel);
+    const requireApproval = !!settings.autoPilotConfig?.requireApproval;
+    const context = { feature: 'AUTO_PILOT_MCQ', chapter: job.chapter.title, subject: job.subject.name };
+    // A retry in approval mode continues from the draft it already produced
+    const draft = requireApproval ? await getPendingDraft(job.id) : null;
+    let mcqs: MCQItem[] = existing?.manualMcqData || draft?.fields.manualMcqData || [];
+    let mcqsHi: MCQItem[] | undefined = existing?.manualMcqData_HI || draft?.fields.manualMcqData_HI;
+    let generated = false;
+
+    if (!mcqs.length) {
+        onLog(`⚡ Generating MCQs: ${job.chapter.title} (${job.subject.name})...`);
+        const content = await fetchLessonContent(
+            job.board,
+            job.classLevel,
+            job.stream,
+            job.subject,
+            job.chapter,
+            'English',
+            'MCQ_SIMPLE',
+            0,
+            true,
+            settings.autoPilotConfig?.mcqCount || 20,
+            '',
+            true,
+            mode,
+            true, // Skip stored content lookup (we already know it is missing)
+            false,
+            'PILOT'
+        );
+        if (!content?.mcqData?.length) throw new Error("AI returned no MCQs");
+        mcqs = content.mcqData;
+        mcqsHi = content.manualMcqData_HI;
+        generated = true;
+    }
+
+    if (!mcqsHi?.length) {
+        onLog(`🌐 Translating MCQs: ${job.chapter.title}...`);
+        mcqsHi = await translateMcqsToHindi(mcqs, 'PILOT', context);
+    }
+
+    if (requireApproval) {
+        // Only fields the published chapter is missing are proposed; bank entry waits for approval
+        const fields: Record<string, any> = {};
+        if (!existing?.manualMcqData?.length) fields.manualMcqData = mcqs;
+        if (mcqsHi?.length) fields.manualMcqData_HI = mcqsHi;
+        await createContentDraft({
+            id: job.id,
+            contentKey: job.contentKey,
+            kind: job.kind,
+            chapterTitle: job.chapter.title,
+            subjectName: job.subject.name,
+            board: job.board,
+            classLevel: job.classLevel,
+            stream: job.stream,
+            fields,
+            pendingQuestionBank: fields.manualMcqData ? { subject: job.subject.name, classLevel: job.classLevel, topic: job.chapter.title } : undefined
+        });
+    } else {
+        if (generated) await saveQuestionsToBank(mcqs, job.subject.name, job.classLevel, 'AI', job.chapter.title);
+        const updates: any = { ...existing, manualMcqData: mcqs };
+        if (mcqsHi?.length) updates.manualMcqData_HI = mcqsHi;
+        await saveChapterData(job.contentKey, updates, { author: AUTO_PILOT_AUTHOR, summary: 'Auto-Pilot MCQs' });
+        await indexChapterContent(getJobIndexMeta(job), updates);
+    }
+
+    // Saved what we have; a missing Hindi set fails the job so it is retried
+    if (!mcqsHi?.length) throw new Error("Hindi MCQ translation failed validation");
+    onLog(`✅ MCQs Ready: ${job.chapter.title} (${mcqs.length} Questions)`);
+};
+
+// Translates every English field whose _HI variant is missing. Translations always go to review as a draft.
+const runTranslationJob = async (job: AutoPilotJob, settings: SystemSettings, onLog: (msg: string) => void): Promise<void> => {
+    const existing = await getChapterData(job.contentKey);
+    const missing = getMissingHindiFields(existing);
+    if (!missing.length) return;
+
+    const glossary = getSubjectGlossary(settings, job.subject.name);
+    const cache = { tag: job.contentKey, tagLabel: `${job.board} ${job.classLevel} · ${job.subject.name} · ${job.chapter.title}` };
+    onLog(`🌐 Translating ${missing.length} field(s): ${job.chapter.title} (${job.subject.name}, ${glossary.length} glossary terms)...`);
+
+    const fields: Record<string, any> = {};
+    for (const field of missing) {
+        const target = HINDI_FIELD_PAIRS[field];
+        if (field === 'manualMcqData') {
+            fields[target] = await translateMcqsWithGlossary(existing[field], glossary, 'PILOT', { feature: 'AUTO_PILOT_TRANSLATE', chapter: job.chapter.title, subject: job.subject.name });
+        } else {
+            fields[target] = await translateHtmlToHindi(existing[field], glossary, { usageType: 'PILOT', cache });
+            const misses = findGlossaryMisses(existing[field], fields[target], glossary);
+            if (misses.length) onLog(`⚠️ Glossary terms not applied in ${target}: ${misses.slice(0, 5).join(', ')}`);
+        }
+    }
+
+    await createContentDraft({
+        id: job.id,
+        contentKey: job.contentKey,
+        kind: job.kind,
+        chapterTitle: job.chapter.title,
+        subjectName: job.subject.name,
+        board: job.board,
+        classLevel: job.classLevel,
+        stream: job.stream,
+        fields
+    });
+    onLog(`📝 Hindi Draft Ready for Review: ${job.chapter.title} (${job.subject.name})`);
+};
+
+type JobOutcome = 'DONE' | 'FAILED' | 'RETRY' | null; // null = not claimed (cancelled, done or taken by another worker)
+
+const processJob = async (queuedJob: AutoPilotJob, settings: SystemSettings, onLog: (msg: string) => void): Promise<JobOutcome> => {
+    if (stopRequested) return null;
+
+    // The job may have been cancelled or claimed since the queue was loaded. A failed claim write
+    // throws and stops the worker: running the job without the RUNNING lease would repeat it forever.
+    const job = (await claimAutoPilotJob(queuedJob.id, j => isReady(j, Date.now()))) as AutoPilotJob | null;
+    if (!job) return null;
+
+    const attempts = job.attempts;
+    const heartbeat = setInterval(() => {
+        updateAutoPilotJob(job.id, { updatedAt: new Date().toISOString() })
+            .catch(e => onLog(`⚠️ Lease renewal failed for ${job.chapter.title}: ${e?.message || e}`));
+    }, HEARTBEAT_MS);
+
+    let error: string | null = null;
+    try {
+        if (job.kind === 'MCQ') await runMcqJob(job, settings, onLog);
+        else if (job.kind === 'TRANSLATE_HI') await runTranslationJob(job, settings, onLog);
+        else await runNotesJob(job, settings, onLog);
+    } catch (e: any) {
+        error = e?.message || String(e);
+    } finally {
+        clearInterval(heartbeat);
+    }
+
+    // Status write failures propagate and stop the worker; the job stays RUNNING until its lease expires
+    if (!error) {
+        await updateAutoPilotJob(job.id, { status: 'DONE', error: null, nextAttemptAt: null, updatedAt: new Date().toISOString() });
+        return 'DONE';
+    }
+    const maxAttempts = job.maxAttempts || MAX_ATTEMPTS;
+    if (attempts >= maxAttempts) {
+        await updateAutoPilotJob(job.id, { status: 'FAILED', error, nextAttemptAt: null, updatedAt: new Date().toISOString() });
+        onLog(`❌ Failed: ${job.chapter.title} (${error})`);
+        return 'FAILED';
+    }
+    const delay = BACKOFF_BASE_MS * Math.pow(2, attempts - 1);
+    await updateAutoPilotJob(job.id, {
+        status: 'QUEUED',
+        error,
+        nextAttemptAt: new Date(Date.now() + delay).toISOString(),
+        updatedAt: new Date().toISOString()
+    });
+    onLog(`🔁 Retry ${attempts}/${maxAttempts} in ${Math.round(delay / 1000)}s: ${job.chapter.title}`);
+    return 'RETRY';
+};
+
+// Drains ready jobs. With waitForRetries the loop also sleeps until pending backoff retries are due.
+// done / failed count only the jobs this run finished.
+export const runAutoPilotWorker = async (
+    settings: SystemSettings,
+    onLog: (msg: string) => void,
+    options: { concurrency?: number; jobIds?: string[]; waitForRetries?: boolean } = {}
+): Promise<{ done: number; failed: number }> => {
+    if (workerActive) {
+        onLog("⚠️ Auto-Pilot worker is already running.");
+        return { done: 0, failed: 0 };
+    }
+    workerActive = true;
+    stopRequested = false;
+    const limit = pLimit(options.concurrency || 3);
+    const scope = options.jobIds ? new Set(options.jobIds) : null;
+    const summary = { done: 0, failed: 0 };
+
+    try {
+        while (!stopRequested) {
+            const pending = ((await getAutoPilotJobs(['QUEUED', 'RUNNING'])) as AutoPilotJob[])
+                .filter(j => !scope || scope.has(j.id));
+            const now = Date.now();
+            const ready = pending.filter(j => isReady(j, now));
+
+            if (ready.length > 0) {
+                const outcomes = await Promise.all(ready.map(job => limit(() => processJob(job, settings, onLog))));
+                summary.done += outcomes.filter(o => o === 'DONE').length;
+                summary.failed += outcomes.filter(o => o === 'FAILED').length;
+                continue;
+            }
+
+            const waiting = pending.filter(j => j.status === 'QUEUED' && j.nextAttemptAt);
+            if (!options.waitForRetries || waiting.length === 0) break;
+
+            const nextDue = Math.min(...waiting.map(j => new Date(j.nextAttemptAt!).getTime()));
+            await new Promise(resolve => setTimeout(resolve, Math.max(1000, nextDue - now)));
+        }
+    } catch (e: any) {
+        onLog(`❌ Auto-Pilot Worker Error: ${e.message}`);
+        console.error("AutoPilot Worker Error", e);
+    } finally {
+        workerActive = false;
+    }
+
+    if (stopRequested) onLog("⏸️ Auto-Pilot worker stopped. Remaining jobs stay queued.");
+    return summary;
+};
+
+// --- QUEUE CONTROLS ---
+
+// Pause: stop picking up new jobs. Jobs already generating finish; everything else stays QUEUED.
+export const stopAutoPilotWorker = () => {
+    stopRequested = true;
+};
+
+export const cancelAutoPilotJobs = async (filter?: (job: AutoPilotJob) => boolean): Promise<number> => {
+    stopRequested = true;
+    const pending = ((await getAutoPilotJobs(['QUEUED'])) as AutoPilotJob[]).filter(j => !filter || filter(j));
+    await Promise.all(pending.map(j => updateAutoPilotJob(j.id, { status: 'CANCELLED', nextAttemptAt: null, updatedAt: new Date().toISOString() })));
+    return pending.length;
+};
+
+export const retryAutoPilotJobs = async (ids: string[]) => {
+    const now = new Date().toISOString();
+    await Promise.all(ids.map(id => updateAutoPilotJob(id, { status: 'QUEUED', attempts: 0, error: null, nextAttemptAt: null, updatedAt: now })));
+};
+
+export const clearFinishedAutoPilotJobs = async (): Promise<number> => {
+    const finished = (await getAutoPilotJobs(['DONE', 'CANCELLED'])) as AutoPilotJob[];
+    await deleteAutoPilotJobs(finished.map(j => j.id));
+    return finished.length;
+};
+
+// Structured progress (done/total) per board/class/stream/subject
+export const summarizeAutoPilotJobs = (jobs: AutoPilotJob[]): AutoPilotProgress[] => {
+    const groups: Record<string, AutoPilotProgress> = {};
+    jobs.forEach(job => {
+        const groupKey = [job.board, job.classLevel, job.stream || '-', job.subject.name].join('|');
+        const group = groups[groupKey] = groups[groupKey] || {
+            groupKey,
+            board: job.board,
+            classLevel: job.classLevel,
+            stream: job.stream,
+            subjectName: job.subject.name,
+            total: 0, done: 0, failed: 0, running: 0, queued: 0, cancelled: 0
+        };
+        group.total++;
+        if (job.status === 'DONE') group.done++;
+        else if (job.status === 'FAILED') group.failed++;
+        else if (job.status === 'RUNNING') group.running++;
+        else if (job.status === 'QUEUED') group.queued++;
+        else if (job.status === 'CANCELLED') group.cancelled++;
+    });
+    return Object.values(groups).sort((a, b) => a.groupKey.localeCompare(b.groupKey));
+};
+
+// --- ENTRY POINTS ---
+
+// Every board / class / stream / subject selected in the Auto-Pilot config
+const getConfiguredTargets = (settings: SystemSettings): ChapterTarget[] => {
+    const config = settings.autoPilotConfig || { targetClasses: [], targetBoards: [], contentTypes: [] };
+    const boards = (config.targetBoards?.length ? config.targetBoards : ['CBSE']) as Board[];
+    const targets: ChapterTarget[] = [];
+
+    for (const board of boards) {
+        for (const classLevel of (config.targetClasses || []) as ClassLevel[]) {
+            // Determine Streams
+            const streams: (Stream | null)[] = (classLevel === '11' || classLevel === '12') 
+                ? ['Science', 'Commerce', 'Arts'] 
+                : [null];
+
+            for (const stream of streams) {
+                // Filter subjects based on config
+                const allSubjects = getSubjectsList(classLevel, stream);
+                // If targetSubjects is empty, do ALL
+                const targetSubjects = (config.targetSubjects && config.targetSubjects.length > 0)
+                    ? allSubjects.filter(s => config.targetSubjects?.includes(s.name))
+                    : allSubjects;
+
+                targetSubjects.forEach(subject => targets.push({ board, classLevel, stream, subject }));
+            }
+        }
+    }
+    return targets;
 };
 
 export const runAutoPilot = async (
     settings: SystemSettings, 
     onLog: (msg: string) => void,
     force: boolean = false,
-    concurrency: number = 3,
-    apiKeys: string[] = [] 
+    concurrency: number = 3
 ): Promise<void> => {
-    if (isAiGenerating && !force) return;
+    if (workerActive && !force) return;
     
     // Check if enabled (unless forced)
     if (!settings.isAutoPilotEnabled && !force) return;
 
-    isAiGenerating = true;
-    const limit = pLimit(concurrency);
-
     try {
         const config = settings.autoPilotConfig || { targetClasses: [], targetBoards: [], contentTypes: [] };
         
         if (!config.targetClasses?.length) {
              if (force) onLog("⚠️ Auto-Pilot Config Empty (Classes). Please configure in Pilot settings.");
-             isAiGenerating = false;
              return;
         }
 
         onLog("🚀 Auto-Pilot Engaging... Scanning for missing content.");
 
-        // Loop Config
-        const boards = config.targetBoards?.length ? config.targetBoards : ['CBSE']; 
-        
-        let tasks: Promise<void>[] = [];
-
-        for (const board of boards) {
-            for (const classLevel of config.targetClasses) {
-                // Determine Streams
-                const streams: (Stream | null)[] = (classLevel === '11' || classLevel === '12') 
-                    ? ['Science', 'Commerce', 'Arts'] 
-                    : [null];
-
-                for (const stream of streams) {
-                    // Filter subjects based on config
-                    const allSubjects = getSubjectsList(classLevel, stream);
-                    // If targetSubjects is empty, do ALL
-                    const targetSubjects = (config.targetSubjects && config.targetSubjects.length > 0)
-                        ? allSubjects.filter(s => config.targetSubjects?.includes(s.name))
-                        : allSubjects;
-
-                    for (const subject of targetSubjects) {
-                        // Fetch Chapters
-                        const chapters = await fetchChapters(board, classLevel, stream, subject, 'English');
-                        
-                        for (const chapter of chapters) {
-                             tasks.push(limit(async () => {
-                                 // Check existence
-                                 const streamKey = (classLevel === '11' || classLevel === '12') && stream ? `-${stream}` : '';
-                                 const contentKey = `nst_content_${board}_${classLevel}${streamKey}_${subject.name}_${chapter.id}`;
-                                 const existing = await getChapterData(contentKey);
-                                 
-                                 const mode = classLevel === 'COMPETITION' ? 'COMPETITION' : 'SCHOOL';
-                                 const notesKey = mode === 'SCHOOL' ? 'schoolPremiumNotesHtml' : 'competitionPremiumNotesHtml';
-                                 
-                                 if (existing && existing[notesKey]) {
-                                     // Skip
-                                     return;
-                                 }
-
-                                 onLog(`⚡ Generating: ${chapter.title} (${subject.name})...`);
-                                 
-                                 // Generate
-                                 const content = await fetchLessonContent(
-                                        board,
-                                        classLevel,
-                                        stream,
-                                        subject,
-                                        chapter,
-                                        'English',
-                                        'NOTES_PREMIUM',
-                                        0,
-                                        true, 
-                                        0, 
-                                        AUTO_PILOT_PROMPT,
-                                        true, 
-                                        mode,
-                                        false, 
-                                        true, 
-                                        'PILOT'
-                                 );
-
-                                 if (content && content.content) {
-                                      let updates: any = {};
-                                      
-                                      if (mode === 'SCHOOL') {
-                                          updates = { 
-                                              ...existing, 
-                                              schoolPremiumNotesHtml: content.content, 
-                                              schoolPremiumNotesHtml_HI: content.schoolPremiumNotesHtml_HI,
-                                              schoolFreeNotesHtml: content.schoolFreeNotesHtml, 
-                                              is_premium: true,
-                                              is_free: true 
-                                          };
-                                      } else {
-                                          updates = { 
-                                              ...existing, 
-                                              competitionPremiumNotesHtml: content.content, 
-                                              competitionPremiumNotesHtml_HI: content.competitionPremiumNotesHtml_HI,
-                                              competitionFreeNotesHtml: content.competitionFreeNotesHtml,
-                                              is_premium: true,
-                                              is_free: true 
-                                          };
-                                      }
-                                      
-                                      // @ts-ignore
-                                      if (settings.autoPilotConfig?.requireApproval) updates.isDraft = true;
-                                      
-                                      await saveChapterData(contentKey, updates);
-                                      onLog(`✅ Generated: ${chapter.title} (${subject.name})`);
-                                 }
-                             }));
-                        }
-                    }
-                }
-            }
-        }
-        
-        await Promise.all(tasks);
-        onLog("🏁 Auto-Pilot Cycle Complete.");
+        await enqueueChapterJobs(getConfiguredTargets(settings), getJobKinds(settings), 'AUTO_PILOT', onLog, concurrency);
+
+        // Drains this scan's jobs plus anything left over from an earlier (closed) session
+        const { done, failed } = await runAutoPilotWorker(settings, onLog, { concurrency });
+        onLog(`🏁 Auto-Pilot Cycle Complete. (${done} done, ${failed} failed in queue)`);
 
     } catch (e: any) {
         onLog(`❌ Auto-Pilot Error: ${e.message}`);
         console.error("AutoPilot Error", e);
-    } finally {
-        isAiGenerating = false;
     }
 };
 
@@ -179,112 +550,68 @@ export const runCommandMode = async (
     target: { board: Board, classLevel: ClassLevel, stream: Stream | null, subject: Subject },
     concurrency: number = 5
 ): Promise<void> => {
-     if (isAiGenerating) {
+    if (workerActive) {
         onLog("⚠️ AI is busy. Please wait...");
         return;
     }
-    isAiGenerating = true;
 
     try {
         // 1. CONFIRMATION
         onLog("Ji Sir, aapke aadeshanusar kaam shuru kar raha hoon.");
         
-        // Fetch Chapters
         onLog(`📚 Fetching chapters for ${target.classLevel} ${target.subject.name}...`);
-        const chapters = await fetchChapters(target.board, target.classLevel, target.stream, target.subject, 'English');
-        
-        if (chapters.length === 0) {
-             onLog("❌ No chapters found.");
-             isAiGenerating = false;
-             return;
+        const jobIds = await enqueueChapterJobs([target], getJobKinds(settings), 'COMMAND', onLog, concurrency);
+
+        if (jobIds.length === 0) {
+            onLog("🏁 Command Complete. No new content generated (Already Exists).");
+            return;
         }
 
-        onLog(`🚀 Processing ${chapters.length} Chapters for ${target.subject.name}...`);
-        const limit = pLimit(concurrency);
-        let successCount = 0;
-
-        const tasks = chapters.map(chapter => limit(async () => {
-             const streamKey = (target.classLevel === '11' || target.classLevel === '12') && target.stream ? `-${target.stream}` : '';
-             const contentKey = `nst_content_${target.board}_${target.classLevel}${streamKey}_${target.subject.name}_${chapter.id}`;
-             const existing = await getChapterData(contentKey);
-             
-             // Check if Premium Notes missing
-             const mode = target.classLevel === 'COMPETITION' ? 'COMPETITION' : 'SCHOOL';
-             const notesKey = mode === 'SCHOOL' ? 'schoolPremiumNotesHtml' : 'competitionPremiumNotesHtml';
-             
-             if (existing && existing[notesKey]) {
-                 // onLog(`ℹ️ Skipped: ${chapter.title} (Already Exists)`);
-                 return;
-             }
-
-             onLog(`⚡ Generating: ${chapter.title}...`);
-             
-             const content = await fetchLessonContent(
-                    target.board,
-                    target.classLevel,
-                    target.stream,
-                    target.subject,
-                    chapter,
-                    'English',
-                    'NOTES_PREMIUM', // Target Premium to trigger Dual
-                    0,
-                    true, 
-                    0, 
-                    AUTO_PILOT_PROMPT,
-                    true, 
-                    mode,
-                    false, // Don't force if exists
-                    true,  // Dual Generation (One Call)
-                    'PILOT'
-             );
-
-             if (content && content.content) {
-                  // Save logic
-                  let updates: any = {};
-                  if (mode === 'SCHOOL') {
-                      updates = { 
-                          ...existing, 
-                          schoolPremiumNotesHtml: content.content, 
-                          schoolPremiumNotesHtml_HI: content.schoolPremiumNotesHtml_HI,
-                          schoolFreeNotesHtml: content.schoolFreeNotesHtml, 
-                          is_premium: true,
-                          is_free: true 
-                      };
-                  } else {
-                      updates = { 
-                          ...existing, 
-                          competitionPremiumNotesHtml: content.content, 
-                          competitionPremiumNotesHtml_HI: content.competitionPremiumNotesHtml_HI,
-                          competitionFreeNotesHtml: content.competitionFreeNotesHtml,
-                          is_premium: true,
-                          is_free: true 
-                      };
-                  }
-                  
-                  // @ts-ignore
-                  if (settings.autoPilotConfig?.requireApproval) updates.isDraft = true;
-                  
-                  await saveChapterData(contentKey, updates);
-                  onLog(`✅ Generated: ${chapter.title}`);
-                  successCount++;
-             } else {
-                  onLog(`❌ Failed: ${chapter.title}`);
-             }
-        }));
-
-        await Promise.all(tasks);
-        
-        if (successCount > 0) {
+        onLog(`🚀 Processing ${jobIds.length} Chapters for ${target.subject.name}...`);
+        const { done, failed } = await runAutoPilotWorker(settings, onLog, { concurrency, jobIds, waitForRetries: true });
+
+        if (done > 0) {
             // 2. SUCCESS MESSAGE
             onLog("Safalta! Ek hi prayas mein dono version taiyar. Quota surakshit hai.");
-        } else {
-            onLog("🏁 Command Complete. No new content generated (Already Exists).");
         }
+        if (failed > 0) onLog(`⚠️ ${failed} chapters failed. Retry them from the AI Studio job queue.`);
 
     } catch(e: any) {
         onLog(`❌ Error: ${e.message}`);
         console.error(e);
-    } finally {
-        isAiGenerating = false;
+    }
+};
+
+// Walks a subject (or every Auto-Pilot target when none is given) and translates chapters missing Hindi
+export const runHindiTranslationCommand = async (
+    settings: SystemSettings,
+    onLog: (msg: string) => void,
+    target?: { board: Board, classLevel: ClassLevel, stream: Stream | null, subject: Subject },
+    concurrency: number = 3
+): Promise<void> => {
+    if (workerActive) {
+        onLog("⚠️ AI is busy. Please wait...");
+        return;
+    }
+
+    try {
+        const targets = target ? [target] : getConfiguredTargets(settings);
+        if (!targets.length) {
+            onLog("⚠️ No translation targets. Select a subject or configure Auto-Pilot classes.");
+            return;
+        }
+
+        onLog(`🌐 Scanning ${targets.length} subject(s) for missing Hindi content...`);
+        const jobIds = await enqueueChapterJobs(targets, ['TRANSLATE_HI'], 'COMMAND', onLog, concurrency);
+        if (jobIds.length === 0) {
+            onLog("🏁 All chapters already have Hindi content (or drafts awaiting review).");
+            return;
+        }
+
+        const { done, failed } = await runAutoPilotWorker(settings, onLog, { concurrency, jobIds, waitForRetries: true });
+        onLog(`🏁 Hindi translation complete. ${done} drafts queued for review${failed ? `, ${failed} failed` : ''}.`);
+    } catch (e: any) {
+        onLog(`❌ Translation Error: ${e.message}`);
+        console.error(e);
     }
 };
@@ -0,0 +1,103 @@
+import { MCQItem } from "../types";
+
+// Line-level diff helpers for the draft review queue and content history.
+
+export type DiffRowType = 'same' | 'changed' | 'added' | 'removed';
+
+export interface DiffRow {
+    type: DiffRowType;
+    left?: string; // Old line
+    right?: string; // New line
+}
+
+export interface McqDiffRow {
+    index: number;
+    type: DiffRowType;
+    before?: MCQItem;
+    after?: MCQItem;
+}
+
+// Past this size the LCS table gets too big for the browser; fall back to "replace everything"
+const MAX_DIFF_LINES = 2000;
+
+// HTML notes are often one long line, so break between tags before diffing
+export const splitForDiff = (text: string): string[] => {
+    if (!text) return [];
+    return text.replace(/>\s*</g, '>\n<').split('\n');
+};
+
+type DiffOp = { op: 'same' | 'add' | 'remove'; text: string };
+
+const lcsDiff = (a: string[], b: string[]): DiffOp[] => {
+    const n = a.length, m = b.length;
+    const table: number[][] = Array.from({ length: n + 1 }, () => new Array(m + 1).fill(0));
+    for (let i = n - 1; i >= 0; i--) {
+        for (let j = m - 1; j >= 0; j--) {
+            table[i][j] = a[i] === b[j] ? table[i + 1][j + 1] + 1 : Math.max(table[i + 1][j], table[i][j + 1]);
+        }
+    }
+
+    const ops: DiffOp[] = [];
+    let i = 0, j = 0;
+    while (i < n && j < m) {
+        if (a[i] === b[j]) { ops.push({ op: 'same', text: a[i] }); i++; j++; }
+        else if (table[i + 1][j] >= table[i][j + 1]) { ops.push({ op: 'remove', text: a[i] }); i++; }
+        else { ops.push({ op: 'add', text: b[j] }); j++; }
+    }
+    while (i < n) ops.push({ op: 'remove', text: a[i++] });
+    while (j < m) ops.push({ op: 'add', text: b[j++] });
+    return ops;
+};
+
+// Side-by-side rows: adjacent remove/add runs are paired up as 'changed'
+export const diffText = (before: string, after: string): DiffRow[] => {
+    const a = splitForDiff(before || '');
+    const b = splitForDiff(after || '');
+
+    const ops: DiffOp[] = (a.length > MAX_DIFF_LINES || b.length > MAX_DIFF_LINES)
+        ? [...a.map(text => ({ op: 'remove' as const, text })), ...b.map(text => ({ op: 'add' as const, text }))]
+        : lcsDiff(a, b);
+
+    const rows: DiffRow[] = [];
+    let k = 0;
+    while (k < ops.length) {
+        if (ops[k].op === 'same') {
+            rows.push({ type: 'same', left: ops[k].text, right: ops[k].text });
+            k++;
+            continue;
+        }
+        const removed: string[] = [];
+        const added: string[] = [];
+        while (k < ops.length && ops[k].op !== 'same') {
+            if (ops[k].op === 'remove') removed.push(ops[k].text);
+            else added.push(ops[k].text);
+            k++;
+        }
+        for (let x = 0; x < Math.max(removed.length, added.length); x++) {
+            const left = removed[x];
+            const right = added[x];
+            rows.push({
+                type: left !== undefined && right !== undefined ? 'changed' : left !== undefined ? 'removed' : 'added',
+                left,
+                right
+            });
+        }
+    }
+    return rows;
+};
+
+export const diffMcqs = (before: MCQItem[] = [], after: MCQItem[] = []): McqDiffRow[] => {
+    const rows: McqDiffRow[] = [];
+    for (let index = 0; index < Math.max(before.length, after.length); index++) {
+        const b = before[index];
+        const a = after[index];
+        let type: DiffRowType = 'same';
+        if (!b) type = 'added';
+        else if (!a) type = 'removed';
+        else if (JSON.stringify(b) !== JSON.stringify(a)) type = 'changed';
+        rows.push({ index, type, before: b, after: a });
+    }
+    return rows;
+};
+
+export const countChanges = (rows: { type: DiffRowType }[]) => rows.filter(r => r.type !== 'same').length;
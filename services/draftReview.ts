@@ -0,0 +1,102 @@
+import { ContentDraft, DraftReviewEntry, MCQItem, User } from "../types";
+import { getChapterData, saveChapterData, saveContentDraft, updateContentDraft, getContentDraft } from "../firebase";
+import { saveQuestionsToBank } from "./questionBank";
+import { indexChapterContent } from "./tutorRetrieval";
+
+// --- DRAFT REVIEW WORKFLOW ---
+// AI output that needs approval is written to content_drafts, never to content_data.
+// Each proposed field is approved (optionally after an inline edit) or rejected on its own;
+// approving a field merges just that field into the published chapter.
+
+type Reviewer = Pick<User, 'id' | 'name'>;
+
+export const createContentDraft = async (
+    draft: Omit<ContentDraft, 'fieldStatus' | 'status' | 'reviews' | 'createdAt' | 'updatedAt'>
+): Promise<ContentDraft> => {
+    const now = new Date().toISOString();
+    const record: ContentDraft = {
+        ...draft,
+        fieldStatus: Object.keys(draft.fields).reduce((acc, field) => ({ ...acc, [field]: 'PENDING' }), {}),
+        status: 'PENDING',
+        reviews: [],
+        createdAt: now,
+        updatedAt: now
+    };
+    await saveContentDraft(record);
+    return record;
+};
+
+// Pending draft for a job, if one exists (Auto-Pilot uses it to avoid regenerating content awaiting review)
+export const getPendingDraft = async (id: string): Promise<ContentDraft | null> => {
+    const draft = (await getContentDraft(id)) as ContentDraft | null;
+    return draft && draft.status === 'PENDING' ? draft : null;
+};
+
+const recordDecision = async (
+    draft: ContentDraft,
+    field: string,
+    decision: DraftReviewEntry['decision'],
+    edited: boolean,
+    reviewer: Reviewer
+): Promise<ContentDraft> => {
+    const fieldStatus = { ...draft.fieldStatus, [field]: decision };
+    const entry: DraftReviewEntry = {
+        field,
+        decision,
+        edited,
+        reviewerId: reviewer.id,
+        reviewerName: reviewer.name,
+        timestamp: new Date().toISOString()
+    };
+    const updated: ContentDraft = {
+        ...draft,
+        fieldStatus,
+        status: Object.values(fieldStatus).includes('PENDING') ? 'PENDING' : 'CLOSED',
+        reviews: [...(draft.reviews || []), entry],
+        updatedAt: entry.timestamp
+    };
+    await updateContentDraft(draft.id, {
+        fieldStatus: updated.fieldStatus,
+        status: updated.status,
+        reviews: updated.reviews,
+        updatedAt: updated.updatedAt
+    });
+    return updated;
+};
+
+export const approveDraftField = async (
+    draft: ContentDraft,
+    field: string,
+    value: any,
+    reviewer: Reviewer
+): Promise<ContentDraft> => {
+    const published = (await getChapterData(draft.contentKey)) || {};
+    const isFirstApproval = !Object.values(draft.fieldStatus).includes('APPROVED');
+
+    const merged = {
+        ...published,
+        ...(isFirstApproval ? draft.publishExtras : {}),
+        [field]: value
+    };
+    await saveChapterData(draft.contentKey, merged, { author: { id: reviewer.id, name: reviewer.name }, summary: `Approved draft field ${field}` });
+    await indexChapterContent({
+        contentKey: draft.contentKey,
+        board: draft.board,
+        classLevel: draft.classLevel,
+        stream: draft.stream || null,
+        subjectName: draft.subjectName,
+        chapterTitle: draft.chapterTitle
+    }, merged);
+
+    if (field === 'manualMcqData' && draft.pendingQuestionBank && Array.isArray(value) && value.length > 0) {
+        const { subject, classLevel, topic } = draft.pendingQuestionBank;
+        await saveQuestionsToBank(value as MCQItem[], subject, classLevel, 'AI', topic);
+    }
+
+    const edited = JSON.stringify(value) !== JSON.stringify(draft.fields[field]);
+    return recordDecision(draft, field, 'APPROVED', edited, reviewer);
+};
+
+export const rejectDraftField = async (draft: ContentDraft, field: string, reviewer: Reviewer): Promise<ContentDraft> => {
+    return recordDecision(draft, field, 'REJECTED', false, reviewer);
+};
@@ -0,0 +1,250 @@
+import { HindiGlossaryTerm, MCQItem, SystemSettings } from "../types";
+import { runAiTask, AiMessage, AiUsageType } from "./aiClient";
+import { generateValidatedJson } from "./aiValidation";
+import { McqListSchema } from "./aiSchemas";
+import { getQuestionKind } from "./questionTypes";
+import { AiCacheOptions } from "./aiCache";
+import pLimit from 'p-limit';
+
+// --- GLOSSARY-AWARE HINDI TRANSLATION ---
+// Used by the TRANSLATE_HI Auto-Pilot job. HTML tags and KaTeX never reach the model: they are swapped
+// for ⟦n⟧ markers and restored afterwards, so a translation that loses a marker is rejected instead of
+// publishing broken markup. MCQ sets must come back with the same option counts and answer indexes.
+// Chunks run through p-limit rather than runBulkParallel: one failed chunk must fail the whole field.
+
+const CONCURRENCY = 3;
+
+// English source field -> Hindi variant stored on the chapter
+export const HINDI_FIELD_PAIRS: Record<string, string> = {
+    schoolPremiumNotesHtml: 'schoolPremiumNotesHtml_HI',
+    competitionPremiumNotesHtml: 'competitionPremiumNotesHtml_HI',
+    manualMcqData: 'manualMcqData_HI'
+};
+
+const isFilled = (value: any) => Array.isArray(value) ? value.length > 0 : !!(typeof value === 'string' && value.trim());
+
+// Source fields that have English content but no Hindi variant yet
+export const getMissingHindiFields = (data: any): string[] =>
+    Object.keys(HINDI_FIELD_PAIRS).filter(field => isFilled(data?.[field]) && !isFilled(data?.[HINDI_FIELD_PAIRS[field]]));
+
+// --- GLOSSARY ---
+
+export const getSubjectGlossary = (settings: Partial<SystemSettings>, subjectName: string): HindiGlossaryTerm[] =>
+    (settings.hindiGlossary?.[subjectName] || []).filter(t => t.en?.trim() && t.hi?.trim());
+
+// Editor format: one "English = Hindi" pair per line
+export const parseGlossaryText = (text: string): HindiGlossaryTerm[] =>
+    text.split('\n')
+        .map(line => line.split('='))
+        .filter(parts => parts.length >= 2)
+        .map(([en, ...hi]) => ({ en: en.trim(), hi: hi.join('=').trim() }))
+        .filter(t => t.en && t.hi);
+
+export const formatGlossaryText = (terms: HindiGlossaryTerm[]) => terms.map(t => `${t.en} = ${t.hi}`).join('\n');
+
+// Only terms that occur in the text are sent, keeping prompts short for large glossaries
+const buildGlossaryInstruction = (glossary: HindiGlossaryTerm[], text: string) => {
+    const lower = text.toLowerCase();
+    const used = glossary.filter(t => lower.includes(t.en.toLowerCase()));
+    if (!used.length) return '';
+    return `GLOSSARY (use EXACTLY these Hindi terms every time the English term appears, keep the English in brackets on first use):\n${used.map(t => `- ${t.en} -> ${t.hi}`).join('\n')}`;
+};
+
+// --- MARKUP PROTECTION ---
+
+const PROTECTED_PATTERNS = [
+    /\$\$[\s\S]+?\$\$/g, // Display math
+    /\\\[[\s\S]+?\\\]/g,
+    /\\\([\s\S]+?\\\)/g,
+    /\$[^$\n]+?\$/g, // Inline math
+    /<(script|style)[\s\S]*?<\/\1>/gi,
+    /<[^>]+>/g, // Tags (attributes included)
+    /&[a-z]+;|&#\d+;/gi // Entities
+];
+
+const MARKER = /⟦(\d+)⟧/g;
+
+export const protectMarkup = (text: string): { text: string; tokens: string[] } => {
+    const tokens: string[] = [];
+    let protectedText = text;
+    PROTECTED_PATTERNS.forEach(pattern => {
+        protectedText = protectedText.replace(pattern, match => `⟦${tokens.push(match) - 1}⟧`);
+    });
+    return { text: protectedText, tokens };
+};
+
+export const restoreMarkup = (text: string, tokens: string[]): string => {
+    // Math is protected before tags, so a tag token can itself contain a math marker (e.g. in an attribute)
+    let restored = text;
+    for (let i = 0; i < 3 && /⟦\d+⟧/.test(restored); i++) {
+        restored = restored.replace(MARKER, (m, n) => tokens[Number(n)] ?? m);
+    }
+    return restored;
+};
+
+const findMarkerIssues = (source: string, translated: string): string[] => {
+    const expected: string[] = (source.match(MARKER) || []).sort();
+    const actual: string[] = (translated.match(MARKER) || []).sort();
+    const missing = expected.filter(m => !actual.includes(m));
+    const extra = actual.filter(m => !expected.includes(m));
+    const issues: string[] = [];
+    if (missing.length) issues.push(`Missing markers: ${missing.slice(0, 10).join(' ')}`);
+    if (extra.length) issues.push(`Unknown markers: ${extra.slice(0, 10).join(' ')}`);
+    if (!missing.length && !extra.length && expected.length !== actual.length) issues.push("Each marker must appear exactly once");
+    return issues;
+};
+
+// Splits on line breaks so each request stays well inside the model's output limit
+const splitIntoChunks = (text: string, maxChars: number = 4000): string[] => {
+    const chunks: string[] = [];
+    let current = '';
+    text.split('\n').forEach(line => {
+        if (current && current.length + line.length + 1 > maxChars) {
+            chunks.push(current);
+            current = '';
+        }
+        current = current ? `${current}\n${line}` : line;
+    });
+    if (current) chunks.push(current);
+    return chunks;
+};
+
+const HTML_SYSTEM_PROMPT = `You translate educational content for Indian school students into Hindi (Devanagari).
+- Use simple, student-friendly Hindi. Keep technical terms recognisable ("Force (बल)").
+- Text contains markers like ⟦12⟧. They stand for HTML tags and formulas. Copy every marker exactly once, unchanged, in the matching position.
+- Do not add, remove or reorder markers. Do not translate numbers, units or chemical formulas.
+- Return ONLY the translated text. No explanation, no markdown fences.`;
+
+const translateChunk = async (
+    chunk: string,
+    glossaryInstruction: string,
+    usageType: AiUsageType,
+    cache?: AiCacheOptions,
+    maxRepairs: number = 2
+): Promise<string> => {
+    const messages: AiMessage[] = [
+        { role: 'system', content: HTML_SYSTEM_PROMPT },
+        { role: 'user', content: `${glossaryInstruction}\n\nTEXT:\n${chunk}` }
+    ];
+    let issues: string[] = [];
+    let refresh = false;
+
+    for (let attempt = 0; attempt <= maxRepairs; attempt++) {
+        const attemptCache = attempt === 0 || refresh ? cache && { ...cache, refresh: refresh || cache.refresh } : undefined;
+        const response = await runAiTask('TRANSLATION', { messages, cache: attemptCache }, usageType);
+        const translated = response.text.trim();
+        issues = findMarkerIssues(chunk, translated);
+        if (!issues.length) return translated;
+
+        // A cached translation with broken markers is asked again; the proxy overwrites the entry
+        refresh = !!response.cached;
+        if (refresh) continue;
+        messages.push({ role: 'assistant', content: translated });
+        messages.push({ role: 'user', content: `Your translation broke the markers.\nERRORS:\n- ${issues.join('\n- ')}\n\nReturn the full corrected translation.` });
+    }
+    throw new Error(`Hindi translation lost HTML/formula markers (${issues.join('; ')})`);
+};
+
+export const translateHtmlToHindi = async (
+    html: string,
+    glossary: HindiGlossaryTerm[],
+    options: { usageType?: AiUsageType; cache?: AiCacheOptions } = {}
+): Promise<string> => {
+    const { text, tokens } = protectMarkup(html);
+    const glossaryInstruction = buildGlossaryInstruction(glossary, html);
+    const chunks = splitIntoChunks(text);
+
+    const limit = pLimit(CONCURRENCY);
+    const translated = await Promise.all(
+        chunks.map(chunk => limit(() => translateChunk(chunk, glossaryInstruction, options.usageType || 'PILOT', options.cache)))
+    );
+    return restoreMarkup(translated.join('\n'), tokens);
+};
+
+// --- MCQ TRANSLATION ---
+
+const MCQ_BATCH_SIZE = 10;
+
+const extractMath = (text: string = '') => (text.match(/\$\$[\s\S]+?\$\$|\$[^$\n]+?\$/g) || []).sort().join('|');
+
+// What a translation must leave untouched, per kind: answer keys and the number of options / pairs / sub-questions
+const answerFields = (q: MCQItem): [field: string, value: unknown, isCount: boolean][] => {
+    switch (getQuestionKind(q)) {
+        case 'MULTI':
+            return [['options', q.options.length, true], ['correctAnswers', q.correctAnswers, false]];
+        case 'NUMERIC':
+            return [['numericAnswer', { value: q.numericAnswer?.value, tolerance: q.numericAnswer?.tolerance }, false]];
+        case 'MATCH':
+            return [['matchLeft', q.matchLeft?.length, true], ['matchRight', q.matchRight?.length, true], ['matchAnswer', q.matchAnswer, false]];
+        case 'CASE_BASED':
+            return [['subQuestions', (q.subQuestions || []).map(sub => ({ options: sub.options.length, correctAnswer: sub.correctAnswer })), false]];
+        default:
+            return [['options', q.options.length, true], ['correctAnswer', q.correctAnswer, false]];
+    }
+};
+
+const MATH_FIELDS = ['question', 'assertion', 'reason', 'passage'] as const;
+
+// The translated batch must mirror the source: same count, kinds, answer keys and formulas
+export const mirrorsSource = (source: MCQItem[]) => McqListSchema.superRefine((items, ctx) => {
+    if (items.length !== source.length) {
+        ctx.addIssue({ code: 'custom', message: `Expected ${source.length} questions, got ${items.length}` });
+        return;
+    }
+    items.forEach((item, i) => {
+        const q = item as MCQItem;
+        const src = source[i];
+        if (getQuestionKind(q) !== getQuestionKind(src)) {
+            ctx.addIssue({ code: 'custom', path: [i, 'kind'], message: `must stay ${getQuestionKind(src)}` });
+            return;
+        }
+        const translated = new Map<string, string>(answerFields(q).map(([field, value]) => [field, JSON.stringify(value)]));
+        answerFields(src).forEach(([field, value, isCount]) => {
+            if (translated.get(field) === JSON.stringify(value)) return;
+            const message = isCount ? `must keep ${value} entries` : `must stay ${JSON.stringify(value)}`;
+            ctx.addIssue({ code: 'custom', path: [i, field], message });
+        });
+        MATH_FIELDS.forEach(field => {
+            if (extractMath(q[field]) !== extractMath(src[field])) {
+                ctx.addIssue({ code: 'custom', path: [i, field], message: 'formulas ($...$) must be copied unchanged' });
+            }
+        });
+    });
+});
+
+export const translateMcqsWithGlossary = async (
+    mcqs: MCQItem[],
+    glossary: HindiGlossaryTerm[],
+    usageType: AiUsageType = 'PILOT',
+    context: Record<string, any> = {}
+): Promise<MCQItem[]> => {
+    const batches: MCQItem[][] = [];
+    for (let i = 0; i < mcqs.length; i += MCQ_BATCH_SIZE) batches.push(mcqs.slice(i, i + MCQ_BATCH_SIZE));
+
+    const limit = pLimit(CONCURRENCY);
+    const results = await Promise.all(batches.map((batch, b) => limit(async () => {
+        const json = JSON.stringify(batch);
+        const prompt = `Translate the values of this MCQ JSON array into Hindi (Devanagari).
+Translate question, options, explanation, mnemonic, concept, assertion, reason, passage, matchLeft, matchRight and subQuestions. Do NOT translate keys.
+Keep the same number of questions, options, match items and subQuestions, in the same order.
+Keep kind, correctAnswer, correctAnswers, matchAnswer and numericAnswer values unchanged.
+Copy LaTeX ($...$), numbers and units unchanged.
+${buildGlossaryInstruction(glossary, json)}
+
+JSON:
+${json}`;
+        return generateValidatedJson('TRANSLATION', prompt, mirrorsSource(batch), {
+            system: "You are an exam translator. Return ONLY the JSON array.",
+            usageType,
+            context: { ...context, batch: b + 1 }
+        });
+    })));
+
+    return results.flat() as MCQItem[];
+};
+
+// Glossary compliance for the log: source terms whose Hindi rendering never appears in the output
+export const findGlossaryMisses = (source: string, translated: string, glossary: HindiGlossaryTerm[]): string[] => {
+    const lower = source.toLowerCase();
+    return glossary.filter(t => lower.includes(t.en.toLowerCase()) && !translated.includes(t.hi)).map(t => t.en);
+};
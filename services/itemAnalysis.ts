@@ -0,0 +1,147 @@
+import { User, MCQResult, MCQItem, ItemStats, ItemFlag, QuestionDifficulty, WeeklyTest } from '../types';
+import { getQuestionKey, getAllChallenges } from './questionBank';
+import { getItemKey, isOmrCorrect } from './questionTypes';
+import { saveItemStats, queryQuestionBankItems, updateQuestionBankItems } from '../firebase';
+
+// --- ITEM ANALYSIS ---
+// Classical test statistics per question, built from the omrData of every result in students' mcqHistory.
+// Answers are matched to questions by omrData qKey. Older weekly test / Challenge 2.0 results have no qKey
+// and are mapped back through the test's question list; older chapter practice results cannot be matched.
+
+export const MIN_ATTEMPTS = 20; // Below this there is no difficulty label or discrimination index
+const MIN_FLAG_ATTEMPTS = 10;
+const EASY_P = 0.75;
+const HARD_P = 0.4;
+const GROUP_SHARE = 0.27; // Size of the upper / lower groups for the discrimination index
+const LOW_DISCRIMINATION = 0.2;
+const MAX_SOURCES = 5;
+
+interface ItemResponse {
+    selected: number; // -1 if skipped, -2 for an answered question without a single option
+    correct: number; // -2 for kinds without a single correct option
+    isCorrect: boolean;
+    time: number | null;
+    score: number; // Share correct in the whole attempt; ranks students for discrimination
+    source: string;
+}
+
+export const labelDifficulty = (pValue: number): QuestionDifficulty =>
+    pValue >= EASY_P ? 'EASY' : pValue <= HARD_P ? 'HARD' : 'MEDIUM';
+
+const share = (responses: ItemResponse[]) =>
+    responses.length ? responses.filter(r => r.isCorrect).length / responses.length : 0;
+
+// The key most results were marked against (it can change if a question is edited)
+const mostCommon = (values: number[]) => {
+    const counts = new Map<number, number>();
+    values.forEach(v => counts.set(v, (counts.get(v) || 0) + 1));
+    return Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0][0];
+};
+
+const buildItemStats = (questionKey: string, responses: ItemResponse[], question?: Partial<MCQItem>): ItemStats => {
+    const attempts = responses.length;
+    const correctAnswer = mostCommon(responses.map(r => r.correct));
+    const optionTotal = Math.max(question?.options?.length || 0, correctAnswer + 1, ...responses.map(r => r.selected + 1));
+    const optionCounts = Array.from({ length: optionTotal }, (_, i) => responses.filter(r => r.selected === i).length);
+    const pValue = share(responses);
+
+    // Upper-lower index: p-value among the top 27% of attempts minus p-value among the bottom 27%
+    let discrimination: number | null = null;
+    if (attempts >= MIN_ATTEMPTS) {
+        const ranked = [...responses].sort((a, b) => b.score - a.score);
+        const groupSize = Math.max(1, Math.round(attempts * GROUP_SHARE));
+        discrimination = Math.round((share(ranked.slice(0, groupSize)) - share(ranked.slice(-groupSize))) * 100) / 100;
+    }
+
+    const times = responses.map(r => r.time).filter((t): t is number => t !== null && t > 0);
+
+    const flags: ItemFlag[] = [];
+    // A distractor beating the key usually means the key is wrong (only kinds with one correct option)
+    if (attempts >= MIN_FLAG_ATTEMPTS && correctAnswer >= 0 && optionCounts.some((count, i) => i !== correctAnswer && count > optionCounts[correctAnswer])) {
+        flags.push('KEY_SUSPECT');
+    }
+    if (discrimination !== null && discrimination < 0) flags.push('NEGATIVE_DISCRIMINATION');
+    else if (discrimination !== null && discrimination < LOW_DISCRIMINATION) flags.push('LOW_DISCRIMINATION');
+
+    return {
+        questionKey,
+        question: question?.question,
+        options: question?.options,
+        correctAnswer,
+        sources: Array.from(new Set(responses.map(r => r.source).filter(Boolean))).slice(0, MAX_SOURCES),
+        attempts,
+        skipped: responses.filter(r => r.selected === -1).length,
+        correct: responses.filter(r => r.isCorrect).length,
+        pValue: Math.round(pValue * 1000) / 1000,
+        discrimination,
+        optionCounts,
+        avgTimeSeconds: times.length ? Math.round(times.reduce((sum, t) => sum + t, 0) / times.length) : null,
+        difficulty: attempts >= MIN_ATTEMPTS ? labelDifficulty(pValue) : null,
+        flags,
+        updatedAt: new Date().toISOString()
+    };
+};
+
+// testQuestions: test / challenge id -> its questions, for results saved before qKey existed
+export const computeItemStats = (users: User[], testQuestions: Map<string, MCQItem[]>): ItemStats[] => {
+    const responses = new Map<string, ItemResponse[]>();
+    const questions = new Map<string, Partial<MCQItem>>();
+    testQuestions.forEach(list => list.forEach(q => questions.set(getItemKey(q), q)));
+
+    users.forEach(user => (user.mcqHistory || []).forEach((result: MCQResult) => {
+        const omr = result.omrData || [];
+        if (omr.length === 0) return;
+
+        // Wrong-answer logs keep the text of chapter questions no test knows about
+        (result.wrongQuestions || []).forEach(w => {
+            const key = getQuestionKey(w.question);
+            if (!questions.has(key)) questions.set(key, { question: w.question });
+        });
+
+        const legacy = testQuestions.get(result.chapterId);
+        const score = omr.filter(isOmrCorrect).length / omr.length;
+        omr.forEach((o, i) => {
+            const key = o.qKey || (legacy?.[o.qIndex] ? getItemKey(legacy[o.qIndex]) : null);
+            if (!key) return;
+            const list = responses.get(key) || [];
+            list.push({ selected: o.selected, correct: o.correct, isCorrect: isOmrCorrect(o), time: result.questionTimes?.[i] ?? null, score, source: result.chapterTitle });
+            responses.set(key, list);
+        });
+    }));
+
+    return Array.from(responses.entries())
+        .map(([key, list]) => buildItemStats(key, list, questions.get(key)))
+        .sort((a, b) => b.attempts - a.attempts);
+};
+
+// Writes data-based difficulty onto matching question bank items (it replaces editorial difficulty tags)
+const calibrateBankDifficulty = async (stats: ItemStats[], onProgress?: (msg: string) => void): Promise<number> => {
+    const labelled = stats.filter(s => s.difficulty);
+    let calibrated = 0;
+    for (let i = 0; i < labelled.length; i += 10) {
+        const chunk = labelled.slice(i, i + 10);
+        const page = await queryQuestionBankItems({ questionKey: chunk.map(s => s.questionKey) }, 100);
+        const updates = page.items
+            .map(item => ({ item, stat: chunk.find(s => s.questionKey === item.questionKey)! }))
+            .filter(({ item, stat }) => item.difficulty !== stat.difficulty || item.pValue !== stat.pValue)
+            .map(({ item, stat }) => ({ id: item.id, fields: { difficulty: stat.difficulty, pValue: stat.pValue, calibratedAt: stat.updatedAt } }));
+        if (updates.length && await updateQuestionBankItems(updates)) calibrated += updates.length;
+        onProgress?.(`🎯 Calibrated ${Math.min(i + 10, labelled.length)}/${labelled.length} labelled question(s)`);
+    }
+    return calibrated;
+};
+
+// Full run from the admin panel: aggregate, store in item_stats, then calibrate the question bank
+export const runItemAnalysis = async (users: User[], weeklyTests: WeeklyTest[] = [], onProgress?: (msg: string) => void) => {
+    const challenges = await getAllChallenges();
+    const testQuestions = new Map<string, MCQItem[]>();
+    [...weeklyTests, ...challenges].forEach(t => testQuestions.set(t.id, Array.isArray(t.questions) ? t.questions : []));
+
+    const stats = computeItemStats(users, testQuestions);
+    onProgress?.(`📊 ${stats.length} question(s) with answers from ${users.length} student(s)`);
+    if (stats.length === 0) return { stats, calibrated: 0 };
+
+    if (!(await saveItemStats(stats))) throw new Error("Could not save item statistics");
+    const calibrated = await calibrateBankDifficulty(stats, onProgress);
+    return { stats, calibrated };
+};
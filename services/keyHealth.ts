@@ -0,0 +1,73 @@
+import { AiProviderId, ApiKeyHealth, ApiKeyHealthStatus } from "../types";
+
+// --- API KEY HEALTH ---
+// Every call through a rotated key records success/failure against the key's fingerprint.
+// Invalid keys are quarantined until an admin reinstates them; rate-limited keys sit out a cooldown.
+// Pure helpers only: the AI proxies in api/ record health server-side, the admin panel just reads it.
+
+const DEFAULT_COOLDOWN_MS = 60 * 1000;
+const MAX_COOLDOWN_MS = 15 * 60 * 1000;
+const MAX_ERROR_LENGTH = 300;
+
+// SHA-256 prefix: enough to tell keys apart, useless for recovering them
+export const fingerprintApiKey = async (key: string): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(key.trim()));
+    return Array.from(new Uint8Array(digest)).slice(0, 8).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const getKeyLabel = (key: string) => `...${key.trim().slice(-4)}`;
+
+export const getKeyHealthStatus = (health: ApiKeyHealth | undefined, now: number = Date.now()): ApiKeyHealthStatus => {
+    if (!health) return 'HEALTHY';
+    if (health.invalid) return 'DEAD';
+    if (health.cooldownUntil && health.cooldownUntil > now) return 'THROTTLED';
+    return 'HEALTHY';
+};
+
+export const isKeyQuarantined = (health: ApiKeyHealth | undefined, now: number = Date.now()) =>
+    getKeyHealthStatus(health, now) !== 'HEALTHY';
+
+// Cooldown from the provider's retry hint when present ("retryDelay": "37s" / Retry-After), else double the last one
+const getCooldownMs = (error: any, previous?: ApiKeyHealth): number => {
+    const retryInfo = (error?.errorDetails || []).find((d: any) => String(d?.['@type'] || '').includes('RetryInfo'));
+    const hinted = parseFloat(retryInfo?.retryDelay || error?.retryAfter || '');
+    if (!isNaN(hinted) && hinted > 0) return Math.min(hinted * 1000, MAX_COOLDOWN_MS);
+    const previousSpan = previous?.cooldownUntil && previous.lastErrorAt ? previous.cooldownUntil - Date.parse(previous.lastErrorAt) : 0;
+    const recentlyThrottled = !!previous?.cooldownUntil && Date.now() - previous.cooldownUntil < MAX_COOLDOWN_MS;
+    return Math.min(recentlyThrottled && previousSpan > 0 ? previousSpan * 2 : DEFAULT_COOLDOWN_MS, MAX_COOLDOWN_MS);
+};
+
+export const classifyKeyError = (error: any): 'INVALID' | 'RATE_LIMITED' | 'OTHER' => {
+    const status = error?.status;
+    const message = String(error?.message || '');
+    if (status === 429 || message.includes('429') || message.includes('RESOURCE_EXHAUSTED')) return 'RATE_LIMITED';
+    // Only a definite bad key quarantines it; other 403s (model access, region, policy) fail just that request
+    if (status === 401 || message.includes('API_KEY_INVALID') || message.includes('invalid_api_key')) return 'INVALID';
+    return 'OTHER';
+};
+
+// Fields to merge into the health record after a successful call (counters are incremented by the writer)
+export const buildKeySuccessUpdate = (fingerprint: string, provider: AiProviderId, label: string): Partial<ApiKeyHealth> => {
+    const now = new Date().toISOString();
+    return { fingerprint, provider, label, lastSuccessAt: now, cooldownUntil: 0, invalid: false, updatedAt: now };
+};
+
+export const buildKeyFailureUpdate = (
+    fingerprint: string,
+    provider: AiProviderId,
+    label: string,
+    error: any,
+    previous?: ApiKeyHealth
+): Partial<ApiKeyHealth> => {
+    const now = new Date().toISOString();
+    const kind = classifyKeyError(error);
+    const update: Partial<ApiKeyHealth> = {
+        fingerprint, provider, label,
+        lastError: `${error?.status ? `[${error.status}] ` : ''}${String(error?.message || error)}`.slice(0, MAX_ERROR_LENGTH),
+        lastErrorAt: now,
+        invalid: kind === 'INVALID' || previous?.invalid || false,
+        updatedAt: now
+    };
+    if (kind === 'RATE_LIMITED') update.cooldownUntil = Date.now() + getCooldownMs(error, previous);
+    return update;
+};
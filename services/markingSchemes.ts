@@ -0,0 +1,138 @@
+import { MCQItem, MarkingScheme, MarkRule, TestSection, SectionScore, QuestionResponse, WeeklyTest } from '../types';
+import { gradeResponse, getQuestionKind, QUESTION_KIND_LABELS } from './questionTypes';
+
+// --- MARKING SCHEMES ---
+// Marks come from the section's scheme, else the test's scheme. Tests saved without one keep the
+// original +1 per correct answer, so their marks equal the correct-answer count.
+
+export const DEFAULT_MARKING_SCHEME: MarkingScheme = { correct: 1, incorrect: 0 };
+
+export const MARKING_PRESETS: { id: string; label: string; scheme: MarkingScheme }[] = [
+    { id: 'SIMPLE', label: '+1 / 0 (No negative marking)', scheme: DEFAULT_MARKING_SCHEME },
+    { id: 'NEET', label: 'NEET / JEE Main: +4 / −1', scheme: { correct: 4, incorrect: -1 } },
+    {
+        id: 'JEE_ADVANCED',
+        label: 'JEE Advanced: single +3 / −1, multi-correct +4 / −2 with partial, numeric +4 / 0',
+        scheme: { correct: 4, incorrect: -2, partialCredit: true, perKind: { SINGLE: { correct: 3, incorrect: -1 }, NUMERIC: { correct: 4, incorrect: 0 } } }
+    }
+];
+
+type ScoredTest = Pick<WeeklyTest, 'questions' | 'markingScheme' | 'sections'>;
+
+export interface SectionRange {
+    section: TestSection;
+    start: number; // First question index
+    end: number; // Exclusive
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+// Questions past the last section (or every question, without sections) form one extra section
+export const getSectionRanges = (test: ScoredTest): SectionRange[] => {
+    const total = Array.isArray(test.questions) ? test.questions.length : 0;
+    const ranges: SectionRange[] = [];
+    let start = 0;
+    (test.sections || []).forEach(section => {
+        const end = Math.min(total, start + Math.max(0, section.questionCount || 0));
+        if (end > start) ranges.push({ section, start, end });
+        start = end;
+    });
+    if (start < total || ranges.length === 0) {
+        const name = ranges.length ? 'Other Questions' : 'All Questions';
+        ranges.push({ section: { id: ranges.length ? 'other' : 'all', name, questionCount: total - start }, start, end: total });
+    }
+    return ranges;
+};
+
+export const hasTimedSections = (test: ScoredTest) => (test.sections || []).some(s => (s.durationMinutes || 0) > 0);
+
+const ruleFor = (scheme: MarkingScheme, item: MCQItem): MarkRule => scheme.perKind?.[getQuestionKind(item)] || scheme;
+
+export const getQuestionMaxMarks = (item: MCQItem, scheme: MarkingScheme = DEFAULT_MARKING_SCHEME) => ruleFor(scheme, item).correct;
+
+export type QuestionMarkStatus = 'CORRECT' | 'PARTIAL' | 'WRONG' | 'UNANSWERED';
+
+export const scoreQuestion = (item: MCQItem, response: QuestionResponse | undefined | null, scheme: MarkingScheme = DEFAULT_MARKING_SCHEME) => {
+    const graded = gradeResponse(item, response);
+    const rule = ruleFor(scheme, item);
+    let marks: number;
+    let status: QuestionMarkStatus;
+    if (!graded.answered) {
+        marks = scheme.unanswered || 0;
+        status = 'UNANSWERED';
+    } else if (graded.isCorrect) {
+        marks = rule.correct;
+        status = 'CORRECT';
+    } else if (scheme.partialCredit && graded.credit > 0) {
+        marks = round2(rule.correct * graded.credit);
+        status = 'PARTIAL';
+    } else {
+        marks = rule.incorrect;
+        status = 'WRONG';
+    }
+    return { ...graded, marks, status };
+};
+
+export interface TestScore {
+    marks: number;
+    maxMarks: number;
+    correct: number;
+    partial: number;
+    wrong: number;
+    unanswered: number;
+    questionMarks: number[]; // Per question index
+    sections: SectionScore[];
+}
+
+export const scoreTest = (test: ScoredTest, answers: Record<number, QuestionResponse>, questionTimes: Record<number, number> = {}): TestScore => {
+    const questions = Array.isArray(test.questions) ? test.questions : [];
+    const questionMarks: number[] = [];
+
+    const sections = getSectionRanges(test).map(({ section, start, end }) => {
+        const scheme = section.markingScheme || test.markingScheme || DEFAULT_MARKING_SCHEME;
+        const score: SectionScore = { sectionId: section.id, name: section.name, marks: 0, maxMarks: 0, correct: 0, partial: 0, wrong: 0, unanswered: 0 };
+        let time = 0;
+        for (let i = start; i < end; i++) {
+            const result = scoreQuestion(questions[i], answers[i], scheme);
+            questionMarks[i] = result.marks;
+            score.marks += result.marks;
+            score.maxMarks += getQuestionMaxMarks(questions[i], scheme);
+            if (result.status === 'CORRECT') score.correct++;
+            else if (result.status === 'PARTIAL') score.partial++;
+            else if (result.status === 'WRONG') score.wrong++;
+            else score.unanswered++;
+            time += questionTimes[i] || 0;
+        }
+        score.marks = round2(score.marks);
+        if (time > 0) score.timeSeconds = time;
+        return score;
+    });
+
+    const sum = (key: 'marks' | 'maxMarks' | 'correct' | 'partial' | 'wrong' | 'unanswered') => sections.reduce((total, s) => total + s[key], 0);
+    return {
+        marks: round2(sum('marks')),
+        maxMarks: sum('maxMarks'),
+        correct: sum('correct'),
+        partial: sum('partial'),
+        wrong: sum('wrong'),
+        unanswered: sum('unanswered'),
+        questionMarks,
+        sections
+    };
+};
+
+// Negative totals count as 0%
+export const getMarksPercent = (marks: number, maxMarks: number) => maxMarks > 0 ? Math.round((Math.max(0, marks) / maxMarks) * 100) : 0;
+
+const signed = (n: number) => n > 0 ? `+${n}` : n < 0 ? `−${Math.abs(n)}` : '0';
+
+// e.g. "+4 / −1, partial credit, Integer / Numeric +4 / 0"
+export const describeMarkingScheme = (scheme: MarkingScheme = DEFAULT_MARKING_SCHEME): string => {
+    const parts = [`${signed(scheme.correct)} / ${signed(scheme.incorrect)}`];
+    if (scheme.unanswered) parts.push(`${signed(scheme.unanswered)} unanswered`);
+    if (scheme.partialCredit) parts.push('partial credit');
+    Object.entries(scheme.perKind || {}).forEach(([kind, rule]) => {
+        parts.push(`${QUESTION_KIND_LABELS[kind as keyof typeof QUESTION_KIND_LABELS]} ${signed(rule.correct)} / ${signed(rule.incorrect)}`);
+    });
+    return parts.join(', ');
+};
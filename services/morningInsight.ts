@@ -1,63 +1,56 @@
-import { UniversalAnalysisLog } from '../types';
-import { executeWithRotation, translateToHindi, callGroqApi } from './groq';
-import { saveSystemSettings } from '../firebase';
+import { Board, ClassLevel, MorningInsightRecord, SystemSettings, User } from '../types';
+import { generateValidatedJson } from './aiValidation';
+import { MorningInsightSchema } from './aiSchemas';
+import { saveMorningInsight, getMorningInsight, recordMorningInsightFailure, getMorningInsightFailureCount } from '../firebase';
+import { Segment, getMorningInsightConfig, toDateKey, getMorningInsightId, collectInsightSegments, buildMorningInsightPrompt, buildMorningInsightRecord } from './morningInsightData';
 
-export const generateMorningInsight = async (logs: UniversalAnalysisLog[], settings: any, onSave: (banner: any) => void): Promise<string> => {
-    // 1. Filter Logs (Last 24 Hours)
-    const now = new Date();
-    const yesterday = new Date(now.getTime() - 24 * 60 * 60 * 1000);
-    
-    const recentLogs = logs.filter(l => new Date(l.date) > yesterday);
-    
-    if (recentLogs.length === 0) return "No recent data for analysis.";
-
-    // 2. Prepare Data for AI
-    // We limit to 50 samples to avoid token overflow
-    const samples = recentLogs.slice(0, 50).map(l => ({
-        subject: l.subject,
-        chapter: l.chapter,
-        score: `${l.score}/${l.totalQuestions}`,
-        mistakes: l.aiResponse ? "Yes" : "No" // We don't have exact mistake text in list, just AI response presence
-    }));
+export { DEFAULT_MORNING_INSIGHT_CONFIG, getMorningInsightConfig } from './morningInsightData';
 
-    const prompt = `
-    You are an AI Mentor for students.
-    Based on the recent activity logs below, identify common patterns or struggle areas.
-    Create a "Morning Insight Banner" content.
-    
-    LOGS:
-    ${JSON.stringify(samples)}
-    
-    OUTPUT FORMAT (JSON):
-    {
-      "title": "Daily Wisdom / Insight Title",
-      "wisdom": "A short motivational quote or deep fact related to study patterns.",
-      "commonTrap": "Identify one subject/topic students struggled with most.",
-      "proTip": "One specific actionable tip to improve.",
-      "motivation": "One punchy line to start the day."
-    }
-    `;
+// --- MORNING INSIGHT ---
+// One insight per board + class per day, built from the actual wrong answers in students' MCQ history.
+// The daily schedule runs on the server (api/morning-insight.ts, a Vercel cron) so it does not depend
+// on an open admin tab; this module is the panel's Run button, which forces a new attempt for every
+// segment. Every generated day stays in morning_insights as the archive, and students read the
+// document for their own board and class.
 
-    try {
-        const result = await executeWithRotation(async () => {
-            const content = await callGroqApi([{ role: "user", content: prompt }], "llama3-8b-8192");
-            return content || "";
-        });
+export const generateMorningInsight = async (segment: Segment, date: string): Promise<MorningInsightRecord> => {
+    const insight = await generateValidatedJson('ANALYSIS', buildMorningInsightPrompt(segment), MorningInsightSchema, {
+        usageType: 'PILOT',
+        context: { feature: 'MORNING_INSIGHT', board: segment.board, classLevel: segment.classLevel }
+    });
+    return buildMorningInsightRecord(insight, segment, date);
+};
 
-        // Parse JSON
-        const cleanJson = result.replace(/```json/g, '').replace(/```/g, '').trim();
-        const bannerData = JSON.parse(cleanJson);
-        
-        // Add Date
-        bannerData.date = new Date().toDateString();
-        bannerData.id = `insight-${Date.now()}`;
+// Generates (or replaces) today's insight for every segment that has enough data
+export const runMorningInsights = async (
+    settings: Partial<SystemSettings>,
+    users: User[],
+    onLog: (msg: string) => void = () => {}
+): Promise<number> => {
+    const config = getMorningInsightConfig(settings);
+    const now = new Date();
+    const date = toDateKey(now);
+    let generated = 0;
+    for (const segment of collectInsightSegments(users, now)) {
+        if (segment.results.length < config.minResults) continue;
+        const id = getMorningInsightId(date, segment.board, segment.classLevel);
 
-        // Save
-        onSave(bannerData);
-        
-        return "Morning Insight Generated Successfully!";
-    } catch (e: any) {
-        console.error("Morning Insight Generation Error", e);
-        throw new Error("Failed to generate insight.");
+        try {
+            const record = await generateMorningInsight(segment, date);
+            await saveMorningInsight(record);
+            generated++;
+            onLog(`🌅 Morning Insight: ${segment.board} Class ${segment.classLevel} (${segment.results.length} results)`);
+        } catch (e: any) {
+            console.error("Morning Insight Generation Error", e);
+            const error = e?.message || String(e);
+            const failures = await getMorningInsightFailureCount(id);
+            await recordMorningInsightFailure(id, error);
+            onLog(`❌ Morning Insight failed for ${segment.board} Class ${segment.classLevel} (attempt ${failures + 1}): ${error}`);
+        }
     }
+    return generated;
 };
+
+// Today's insight for the student's own board and class (null before it is generated)
+export const getTodaysMorningInsight = async (board: Board, classLevel: ClassLevel): Promise<MorningInsightRecord | null> =>
+    getMorningInsight(getMorningInsightId(toDateKey(new Date()), board, classLevel));
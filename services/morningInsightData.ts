@@ -0,0 +1,123 @@
+import { Board, ClassLevel, MCQResult, MorningInsightConfig, MorningInsightRecord, SystemSettings, User } from '../types';
+import { MorningInsight } from './aiSchemas';
+
+// --- MORNING INSIGHT DATA ---
+// Pure helpers shared by the scheduled route (api/morning-insight.ts) and the admin panel's Run button:
+// segments, the most-missed ranking, the prompt and the record. No Firebase or AI client imports here.
+
+export const DEFAULT_MORNING_INSIGHT_CONFIG: MorningInsightConfig = {
+    enabled: false,
+    hour: 10,
+    minResults: 3
+};
+
+// A segment that keeps failing is given up for the day after this many attempts (morning_insight_failures)
+export const MAX_DAILY_ATTEMPTS = 3;
+
+// The students' day: "today" and the scheduled hour are in Indian time wherever the code runs
+export const INSIGHT_TIME_ZONE = 'Asia/Kolkata';
+
+export const getMorningInsightConfig = (settings: Partial<SystemSettings>): MorningInsightConfig => ({
+    ...DEFAULT_MORNING_INSIGHT_CONFIG,
+    ...(settings.morningInsightConfig || {})
+});
+
+// Calendar day (YYYY-MM-DD), so "today" flips at the students' midnight, not UTC midnight
+export const toDateKey = (date: Date) => date.toLocaleDateString('en-CA', { timeZone: INSIGHT_TIME_ZONE });
+
+export const getInsightHour = (date: Date) =>
+    Number(new Intl.DateTimeFormat('en-GB', { hour: '2-digit', hourCycle: 'h23', timeZone: INSIGHT_TIME_ZONE }).format(date));
+
+export const getMorningInsightId = (date: string, board: Board, classLevel: ClassLevel) => `${date}_${board}_${classLevel}`;
+
+export type Segment = { board: Board; classLevel: ClassLevel; results: MCQResult[] };
+
+// Groups the last 24h of results by the student's board and the class the test was taken in
+export const collectInsightSegments = (users: Partial<User>[], now: Date = new Date()): Segment[] => {
+    const since = now.getTime() - 24 * 60 * 60 * 1000;
+    const segments: Record<string, Segment> = {};
+
+    users.forEach(user => {
+        (user.mcqHistory || []).forEach(result => {
+            if (new Date(result.date).getTime() < since) return;
+            const board = (user.board || 'CBSE') as Board;
+            const classLevel = (result.classLevel || user.classLevel) as ClassLevel;
+            if (!classLevel) return;
+            const key = `${board}_${classLevel}`;
+            segments[key] = segments[key] || { board, classLevel, results: [] };
+            segments[key].results.push({ ...result, userId: result.userId || user.id });
+        });
+    });
+    return Object.values(segments);
+};
+
+// Identical question text missed by several students is the strongest "common trap" signal.
+// `misses` counts distinct students, so one student retaking a test doesn't inflate it.
+export const rankMissedQuestions = (results: MCQResult[], max: number = 12): MorningInsightRecord['topMistakes'] => {
+    const missed: Record<string, { entry: MorningInsightRecord['topMistakes'][number]; students: Set<string> }> = {};
+    results.forEach(r => (r.wrongQuestions || []).forEach(wq => {
+        const question = (wq.question || '').trim();
+        if (!question) return;
+        const key = `${r.subjectName}|${question}`;
+        missed[key] = missed[key] || {
+            entry: { question: question.slice(0, 300), subject: r.subjectName || '', chapter: r.chapterTitle || '', misses: 0 },
+            students: new Set()
+        };
+        missed[key].students.add(r.userId || r.id);
+    }));
+    return Object.values(missed)
+        .map(m => ({ ...m.entry, misses: m.students.size }))
+        .sort((a, b) => b.misses - a.misses)
+        .slice(0, max);
+};
+
+const summarizeChapters = (results: MCQResult[]) => {
+    const chapters: Record<string, { subject: string; chapter: string; attempts: number; percentTotal: number }> = {};
+    results.forEach(r => {
+        const key = `${r.subjectName}|${r.chapterTitle}`;
+        const total = r.totalQuestions || (r as any).total || 0;
+        chapters[key] = chapters[key] || { subject: r.subjectName, chapter: r.chapterTitle, attempts: 0, percentTotal: 0 };
+        chapters[key].attempts++;
+        chapters[key].percentTotal += total ? (r.score / total) * 100 : 0;
+    });
+    return Object.values(chapters)
+        .map(c => ({ subject: c.subject, chapter: c.chapter, attempts: c.attempts, avgScorePercent: Math.round(c.percentTotal / c.attempts) }))
+        .sort((a, b) => a.avgScorePercent - b.avgScorePercent)
+        .slice(0, 10);
+};
+
+export const buildMorningInsightPrompt = (segment: Segment) => `
+    You are an AI Mentor for ${segment.board} Class ${segment.classLevel} students.
+    Based on yesterday's test data below, create today's "Morning Insight Banner" content.
+
+    MOST MISSED QUESTIONS (question, subject, chapter, number of students who got it wrong):
+    ${JSON.stringify(rankMissedQuestions(segment.results))}
+
+    WEAKEST CHAPTERS (by average score):
+    ${JSON.stringify(summarizeChapters(segment.results))}
+
+    RULES:
+    - "commonTrap" must name the specific concept behind the most missed questions and the mistake students make. Do not be generic.
+    - "proTip" must help with that exact trap.
+    - Keep every field to one or two short sentences suitable for Class ${segment.classLevel}.
+
+    OUTPUT FORMAT (JSON):
+    {
+      "title": "Daily Wisdom / Insight Title",
+      "wisdom": "A short motivational quote or deep fact related to study patterns.",
+      "commonTrap": "The concept students got wrong most and why.",
+      "proTip": "One specific actionable tip to avoid that trap.",
+      "motivation": "One punchy line to start the day."
+    }
+    `;
+
+export const buildMorningInsightRecord = (insight: MorningInsight, segment: Segment, date: string): MorningInsightRecord => ({
+    ...insight,
+    id: getMorningInsightId(date, segment.board, segment.classLevel),
+    date,
+    board: segment.board,
+    classLevel: segment.classLevel,
+    sampleSize: segment.results.length,
+    topMistakes: rankMissedQuestions(segment.results),
+    generatedAt: new Date().toISOString()
+});
@@ -0,0 +1,188 @@
+import { Board, ClassLevel, Language, PromptTemplate, PromptTemplateTask, SystemSettings } from "../types";
+import { recordPromptTemplateUsage } from "../firebase";
+import { getStoredSettings } from "./aiClient";
+
+// --- PROMPT TEMPLATE LIBRARY ---
+// One registry of prompt templates keyed by (task, board, syllabus mode, class range, language).
+// The most specific enabled template for a generation context wins. Until the admin imports them,
+// the old aiPrompt* settings are exposed as read-only "legacy" templates with the same precedence
+// the hardcoded fallback chain used to have, alongside any templates saved in the meantime.
+
+export const PROMPT_TEMPLATE_TASKS: PromptTemplateTask[] = ['NOTES', 'NOTES_PREMIUM', 'MCQ'];
+
+export const PROMPT_VARIABLES = ['board', 'class', 'stream', 'subject', 'chapter', 'language', 'count', 'instruction'];
+
+// Older versions kept per template (templates live in system settings, so keep them small)
+const MAX_TEMPLATE_HISTORY = 20;
+
+export interface PromptContext {
+    board: Board;
+    classLevel: ClassLevel;
+    syllabusMode: 'SCHOOL' | 'COMPETITION';
+    language: Language;
+}
+
+type LegacyPromptField = keyof Pick<SystemSettings,
+    'aiPromptNotes' | 'aiPromptNotesPremium' | 'aiPromptMCQ' |
+    'aiPromptNotesCompetition' | 'aiPromptNotesPremiumCompetition' | 'aiPromptMCQCompetition' |
+    'aiPromptNotesCBSE' | 'aiPromptNotesPremiumCBSE' | 'aiPromptMCQCBSE' |
+    'aiPromptNotesCompetitionCBSE' | 'aiPromptNotesPremiumCompetitionCBSE' | 'aiPromptMCQCompetitionCBSE'>;
+
+const LEGACY_FIELDS: { field: LegacyPromptField; task: PromptTemplateTask; board: 'CBSE' | 'ANY'; syllabusMode: 'SCHOOL' | 'COMPETITION' }[] = [
+    { field: 'aiPromptNotes', task: 'NOTES', board: 'ANY', syllabusMode: 'SCHOOL' },
+    { field: 'aiPromptNotesPremium', task: 'NOTES_PREMIUM', board: 'ANY', syllabusMode: 'SCHOOL' },
+    { field: 'aiPromptMCQ', task: 'MCQ', board: 'ANY', syllabusMode: 'SCHOOL' },
+    { field: 'aiPromptNotesCBSE', task: 'NOTES', board: 'CBSE', syllabusMode: 'SCHOOL' },
+    { field: 'aiPromptNotesPremiumCBSE', task: 'NOTES_PREMIUM', board: 'CBSE', syllabusMode: 'SCHOOL' },
+    { field: 'aiPromptMCQCBSE', task: 'MCQ', board: 'CBSE', syllabusMode: 'SCHOOL' },
+    { field: 'aiPromptNotesCompetition', task: 'NOTES', board: 'ANY', syllabusMode: 'COMPETITION' },
+    { field: 'aiPromptNotesPremiumCompetition', task: 'NOTES_PREMIUM', board: 'ANY', syllabusMode: 'COMPETITION' },
+    { field: 'aiPromptMCQCompetition', task: 'MCQ', board: 'ANY', syllabusMode: 'COMPETITION' },
+    { field: 'aiPromptNotesCompetitionCBSE', task: 'NOTES', board: 'CBSE', syllabusMode: 'COMPETITION' },
+    { field: 'aiPromptNotesPremiumCompetitionCBSE', task: 'NOTES_PREMIUM', board: 'CBSE', syllabusMode: 'COMPETITION' },
+    { field: 'aiPromptMCQCompetitionCBSE', task: 'MCQ', board: 'CBSE', syllabusMode: 'COMPETITION' }
+];
+
+export const isLegacyTemplate = (template: PromptTemplate) => template.id.startsWith('legacy_');
+
+// Builds templates from the old aiPrompt* fields so existing prompts keep working unchanged
+export const getLegacyPromptTemplates = (settings: Partial<SystemSettings>): PromptTemplate[] => {
+    return LEGACY_FIELDS
+        .filter(l => !!settings[l.field])
+        .map(l => ({
+            id: `legacy_${l.field}`,
+            name: `Legacy: ${l.field}`,
+            task: l.task,
+            board: l.board,
+            syllabusMode: l.syllabusMode,
+            language: 'ANY',
+            body: settings[l.field] as string,
+            version: 1,
+            history: [],
+            enabled: true,
+            updatedAt: '',
+            legacyField: l.field
+        }));
+};
+
+// Imports made before legacyField existed are recognised by their name (the field name)
+const isImportOf = (template: PromptTemplate, field: string) =>
+    template.legacyField === field || (!template.legacyField && template.name === field);
+
+// Legacy fields that have no imported template in the library yet
+const getUnconvertedLegacyTemplates = (settings: Partial<SystemSettings>): PromptTemplate[] => {
+    const saved = settings.promptTemplates || [];
+    return getLegacyPromptTemplates(settings)
+        .filter(t => !saved.some(s => isImportOf(s, t.legacyField)));
+};
+
+// Library as the resolver sees it: saved templates, plus legacy ones until they are imported
+export const getPromptTemplates = (settings: Partial<SystemSettings> = getStoredSettings()): PromptTemplate[] => {
+    return [...(settings.promptTemplates || []), ...getUnconvertedLegacyTemplates(settings)];
+};
+
+const classNumber = (classLevel: ClassLevel): number | null => {
+    const n = parseInt(classLevel, 10);
+    return isNaN(n) ? null : n;
+};
+
+export const matchesPromptContext = (template: PromptTemplate, ctx: PromptContext): boolean => {
+    if (template.board !== 'ANY' && template.board !== ctx.board) return false;
+    if (template.syllabusMode !== 'ANY' && template.syllabusMode !== ctx.syllabusMode) return false;
+    if (template.language !== 'ANY' && template.language !== ctx.language) return false;
+    if (template.classFrom !== undefined || template.classTo !== undefined) {
+        const n = classNumber(ctx.classLevel);
+        if (n === null) return false;
+        if (template.classFrom !== undefined && n < template.classFrom) return false;
+        if (template.classTo !== undefined && n > template.classTo) return false;
+    }
+    return true;
+};
+
+// Every pinned dimension outranks a wildcard; narrower class ranges outrank wider ones
+const specificity = (template: PromptTemplate): number => {
+    let score = 0;
+    if (template.board !== 'ANY') score += 100;
+    if (template.syllabusMode !== 'ANY') score += 100;
+    if (template.language !== 'ANY') score += 100;
+    if (template.classFrom !== undefined || template.classTo !== undefined) {
+        const span = (template.classTo ?? 12) - (template.classFrom ?? 6);
+        score += 100 - Math.max(0, Math.min(span, 90));
+    }
+    return score;
+};
+
+export const resolvePromptTemplate = (
+    task: PromptTemplateTask,
+    ctx: PromptContext,
+    templates: PromptTemplate[] = getPromptTemplates()
+): PromptTemplate | null => {
+    const candidates = templates
+        .filter(t => t.enabled && t.task === task && t.body.trim() && matchesPromptContext(t, ctx))
+        .sort((a, b) => specificity(b) - specificity(a) || (b.updatedAt || '').localeCompare(a.updatedAt || ''));
+    return candidates[0] || null;
+};
+
+// Placeholders in a body that processTemplate will not fill (usually typos)
+export const findUnknownVariables = (body: string): string[] => {
+    const found = Array.from(body.matchAll(/\{([a-zA-Z_]+)\}/g)).map(m => m[1].toLowerCase());
+    return Array.from(new Set(found.filter(v => !PROMPT_VARIABLES.includes(v))));
+};
+
+export const createPromptTemplate = (
+    fields: Omit<PromptTemplate, 'id' | 'version' | 'history' | 'updatedAt'>
+): PromptTemplate => ({
+    ...fields,
+    id: `tpl_${Date.now()}_${Math.random().toString(36).slice(2, 7)}`,
+    version: 1,
+    history: [],
+    updatedAt: new Date().toISOString()
+});
+
+// Saving a changed body bumps the version and pushes the previous body into history
+export const updatePromptTemplate = (
+    template: PromptTemplate,
+    changes: Partial<Omit<PromptTemplate, 'id' | 'version' | 'history'>>,
+    authorName: string,
+    note?: string
+): PromptTemplate => {
+    const now = new Date().toISOString();
+    const bodyChanged = changes.body !== undefined && changes.body !== template.body;
+    if (!bodyChanged) return { ...template, ...changes, updatedAt: now };
+
+    const previous = { version: template.version, body: template.body, authorName, note, createdAt: template.updatedAt || now };
+    return {
+        ...template,
+        ...changes,
+        version: template.version + 1,
+        history: [previous, ...(template.history || [])].slice(0, MAX_TEMPLATE_HISTORY),
+        updatedAt: now
+    };
+};
+
+export const restorePromptTemplateVersion = (template: PromptTemplate, version: number, authorName: string): PromptTemplate => {
+    const entry = (template.history || []).find(h => h.version === version);
+    if (!entry) throw new Error(`Version ${version} not found`);
+    return updatePromptTemplate(template, { body: entry.body }, authorName, `Restored v${version}`);
+};
+
+// Converts the legacy aiPrompt* fields not imported yet into real library entries (from the admin panel).
+// Returns the whole library: saved templates first, then the new imports.
+export const importLegacyPromptTemplates = (settings: Partial<SystemSettings>): PromptTemplate[] => {
+    const imported = getUnconvertedLegacyTemplates(settings).map(t => createPromptTemplate({
+        name: t.name.replace('Legacy: ', ''),
+        task: t.task,
+        board: t.board,
+        syllabusMode: t.syllabusMode,
+        language: t.language,
+        body: t.body,
+        enabled: true,
+        legacyField: t.legacyField
+    }));
+    return [...(settings.promptTemplates || []), ...imported];
+};
+
+export const trackPromptTemplateUsage = (template: PromptTemplate) => {
+    // Fire and forget; stats must never block generation
+    recordPromptTemplateUsage(template.id, template.version);
+};
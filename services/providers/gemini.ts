@@ -0,0 +1,76 @@
+import type { AiProvider, AiRequest, AiProviderResult, AiStreamOptions } from "../aiClient";
+import { getAuthToken } from "../../firebase";
+import { AiProxyError, readProxyError } from "./proxyError";
+import { readChatStream, toAiTokenUsage } from "./sse";
+import { toLedgerPayload } from "../aiLedger";
+
+const DEFAULT_GEMINI_MODEL = "gemini-1.5-flash";
+
+// GEMINI API CALL HELPER (Proxy call to server; keys, rotation and usage counting live in /api/gemini)
+const openGeminiProxy = async (request: AiRequest, model: string, stream?: AiStreamOptions) => {
+    const token = await getAuthToken();
+    if (!token) throw new AiProxyError(401, 'UNAUTHENTICATED', "Please log in to use AI features.");
+
+    const response = await fetch("/api/gemini", {
+        method: "POST",
+        headers: {
+            "Content-Type": "application/json",
+            "Authorization": `Bearer ${token}`
+        },
+        body: JSON.stringify({
+            model,
+            messages: request.messages.map(m => ({ role: m.role, content: m.content })),
+            usageType: request.usageType,
+            ledger: toLedgerPayload(request.task, request.usageType, request.ledger),
+            cache: request.cache && { task: request.task, tag: request.cache.tag, tagLabel: request.cache.tagLabel }, // Stored by the proxy
+            stream: !!stream
+        }),
+        signal: stream?.signal
+    });
+
+    if (!response.ok) throw await readProxyError(response, "Gemini");
+    return response;
+};
+
+const postToGeminiProxy = async (request: AiRequest, model: string) =>
+    (await openGeminiProxy(request, model)).json(); // { text, tokens, model, keyId, usage }
+
+export const geminiProvider: AiProvider = {
+    id: 'GEMINI',
+    label: 'Google Gemini',
+    defaultModel: DEFAULT_GEMINI_MODEL,
+    supportsTools: false,
+    isModelSupported: (model: string) => !!model && model.startsWith("gemini"),
+
+    generate: async (request: AiRequest): Promise<AiProviderResult> => {
+        const model = request.model || DEFAULT_GEMINI_MODEL;
+        const data = await postToGeminiProxy(request, model);
+        return {
+            text: data.text || "",
+            model: data.model || model,
+            keyId: data.keyId,
+            usageRecorded: true,
+            tokens: toAiTokenUsage(data.tokens)
+        };
+    },
+
+    stream: async (request: AiRequest, options: AiStreamOptions): Promise<AiProviderResult> => {
+        const model = request.model || DEFAULT_GEMINI_MODEL;
+        let response: Response;
+        try {
+            response = await openGeminiProxy(request, model, options);
+        } catch (error: any) {
+            if (options.signal?.aborted) return { text: "", model, usageRecorded: true, finishReason: 'ABORTED' };
+            throw error;
+        }
+        const result = await readChatStream(response, options.onDelta, options.signal);
+        return {
+            text: result.text,
+            model,
+            keyId: response.headers.get('X-Ai-Key-Id') || undefined,
+            usageRecorded: true,
+            finishReason: result.finishReason,
+            tokens: result.tokens
+        };
+    }
+};
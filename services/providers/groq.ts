@@ -0,0 +1,99 @@
+import type { AiProvider, AiRequest, AiProviderResult, AiStreamOptions } from "../aiClient";
+import { getAuthToken } from "../../firebase";
+import { AiProxyError, readProxyError, isUserFacingAiError } from "./proxyError";
+import { readChatStream, toAiTokenUsage } from "./sse";
+import { toLedgerPayload } from "../aiLedger";
+
+const DEFAULT_GROQ_MODEL = "llama-3.1-8b-instant";
+
+// GROQ API CALL HELPER (Proxy call to server, keys never leave /api/groq)
+const openGroqProxy = async (request: AiRequest, model: string, stream?: AiStreamOptions) => {
+    const token = await getAuthToken();
+    if (!token) throw new AiProxyError(401, 'UNAUTHENTICATED', "Please log in to use AI features.");
+
+    const body: any = {
+        model,
+        messages: request.messages,
+        usageType: request.usageType,
+        ledger: toLedgerPayload(request.task, request.usageType, request.ledger),
+        cache: request.cache && { task: request.task, tag: request.cache.tag, tagLabel: request.cache.tagLabel }, // Stored by the proxy
+        stream: !!stream
+    };
+    if (request.tools?.length) {
+        body.tools = request.tools;
+        body.tool_choice = request.toolChoice || "auto";
+    }
+
+    const response = await fetch("/api/groq", {
+        method: "POST",
+        headers: {
+            "Content-Type": "application/json",
+            "Authorization": `Bearer ${token}`
+        },
+        body: JSON.stringify(body),
+        signal: stream?.signal
+    });
+
+    if (!response.ok) throw await readProxyError(response, "Groq");
+    return response;
+};
+
+const postToGroqProxy = async (request: AiRequest, model: string) =>
+    (await openGroqProxy(request, model)).json(); // { choices, keyId, tokens, usage }
+
+export const groqProvider: AiProvider = {
+    id: 'GROQ',
+    label: 'Groq (Llama)',
+    defaultModel: DEFAULT_GROQ_MODEL,
+    supportsTools: true,
+    // Gemini models are not supported on Groq
+    isModelSupported: (model: string) => !!model && !model.includes("gemini"),
+
+    generate: async (request: AiRequest): Promise<AiProviderResult> => {
+        const model = request.model || DEFAULT_GROQ_MODEL;
+
+        // RETRY LOGIC (Transient proxy / upstream errors)
+        const MAX_RETRIES = 2;
+        for (let i = 0; i <= MAX_RETRIES; i++) {
+            try {
+                const data = await postToGroqProxy(request, model);
+                const message = data.choices[0].message; // { content, tool_calls }
+                return {
+                    text: message.content || "",
+                    toolCalls: message.tool_calls,
+                    model,
+                    keyId: data.keyId || 'server', // Keys are rotated on the server
+                    usageRecorded: true,
+                    tokens: toAiTokenUsage(data.tokens)
+                };
+            } catch (error: any) {
+                console.warn(`Groq attempt ${i + 1} failed: ${error?.message || ""}`);
+                // Auth, quota and allowlist rejections won't change on retry
+                if (i === MAX_RETRIES || isUserFacingAiError(error)) throw error;
+                // Wait a bit before retry
+                await new Promise(res => setTimeout(res, 1000 * (i + 1)));
+            }
+        }
+
+        throw new Error("Unexpected error in Groq provider.");
+    },
+
+    // No retry loop here: once tokens reach the screen a retry would duplicate them
+    stream: async (request: AiRequest, options: AiStreamOptions): Promise<AiProviderResult> => {
+        const model = request.model || DEFAULT_GROQ_MODEL;
+        let response: Response;
+        try {
+            response = await openGroqProxy(request, model, options);
+        } catch (error: any) {
+            if (options.signal?.aborted) return { text: "", model, keyId: 'server', usageRecorded: true, finishReason: 'ABORTED' };
+            throw error;
+        }
+        const result = await readChatStream(response, options.onDelta, options.signal);
+        return {
+            ...result,
+            model,
+            keyId: response.headers.get('X-Ai-Key-Id') || 'server',
+            usageRecorded: true
+        };
+    }
+};
@@ -0,0 +1,93 @@
+import type { AiProvider, AiRequest, AiProviderResult, AiMessage } from "../aiClient";
+import { AiTaskType } from "../../types";
+import { detectPromptFamily, buildMockResponse, hashString } from "./mockFixtures";
+
+const MOCK_MODEL = "mock-1";
+const RECORDINGS_KEY = 'nst_ai_recordings';
+const MAX_RECORDINGS = 300;
+
+export interface AiRecording {
+    task: AiTaskType | 'UNKNOWN';
+    text: string;
+    provider: string;
+    model: string;
+    recordedAt: string;
+}
+
+// --- RECORD / REPLAY STORE ---
+// Real responses are captured once (RECORD mode) and served back by the mock provider (REPLAY mode).
+
+export const getRecordingKey = (task: AiTaskType | undefined, messages: AiMessage[]) => {
+    const normalized = messages.map(m => `${m.role}:${m.content.replace(/\s+/g, ' ').trim()}`).join('\n');
+    return `${task || 'UNKNOWN'}_${hashString(normalized)}`;
+};
+
+export const getAiRecordings = (): Record<string, AiRecording> => {
+    try {
+        const stored = localStorage.getItem(RECORDINGS_KEY);
+        return stored ? JSON.parse(stored) : {};
+    } catch (e) {
+        return {};
+    }
+};
+
+export const recordAiResponse = (task: AiTaskType | undefined, messages: AiMessage[], result: AiProviderResult, provider: string) => {
+    try {
+        const recordings = getAiRecordings();
+        recordings[getRecordingKey(task, messages)] = {
+            task: task || 'UNKNOWN',
+            text: result.text,
+            provider,
+            model: result.model,
+            recordedAt: new Date().toISOString()
+        };
+
+        // Keep the newest entries only (localStorage quota)
+        const entries = Object.entries(recordings)
+            .sort((a, b) => b[1].recordedAt.localeCompare(a[1].recordedAt))
+            .slice(0, MAX_RECORDINGS);
+        localStorage.setItem(RECORDINGS_KEY, JSON.stringify(Object.fromEntries(entries)));
+    } catch (e) {
+        console.warn("Failed to record AI response:", e);
+    }
+};
+
+export const exportAiRecordings = (): string => JSON.stringify(getAiRecordings(), null, 2);
+
+export const importAiRecordings = (json: string): number => {
+    const incoming = JSON.parse(json) as Record<string, AiRecording>;
+    const merged = { ...getAiRecordings(), ...incoming };
+    localStorage.setItem(RECORDINGS_KEY, JSON.stringify(merged));
+    return Object.keys(incoming).length;
+};
+
+export const clearAiRecordings = () => localStorage.removeItem(RECORDINGS_KEY);
+
+// Local provider for development and tests: never touches the network.
+// Serves a recorded response when one exists, otherwise a schema-valid fixture for the prompt family.
+export const mockProvider: AiProvider = {
+    id: 'MOCK',
+    label: 'Local Mock',
+    defaultModel: MOCK_MODEL,
+    supportsTools: true,
+    isModelSupported: (model: string) => model === MOCK_MODEL,
+
+    generate: async (request: AiRequest): Promise<AiProviderResult> => {
+        const recorded = getAiRecordings()[getRecordingKey(request.task, request.messages)];
+        if (recorded) {
+            return { text: recorded.text, model: `${MOCK_MODEL}:replay`, keyId: 'mock' };
+        }
+
+        const prompt = request.messages
+            .filter(m => m.role === 'user')
+            .map(m => m.content)
+            .join('\n');
+        const family = detectPromptFamily(request.task, prompt);
+
+        return {
+            text: buildMockResponse(family, prompt),
+            model: MOCK_MODEL,
+            keyId: 'mock'
+        };
+    }
+};
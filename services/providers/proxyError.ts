@@ -0,0 +1,39 @@
+// Errors returned by /api/groq and /api/gemini as { error, code, ...extra }.
+// Everything except UPSTREAM is a decision about the caller (login, quota, allowlist),
+// so it should reach the user as-is instead of being retried or masked as "busy".
+
+export type AiProxyErrorCode =
+    | 'UNAUTHENTICATED' | 'FORBIDDEN' | 'AI_DISABLED' | 'MODEL_NOT_ALLOWED' | 'TOOLS_NOT_ALLOWED'
+    | 'RATE_LIMITED' | 'DAILY_LIMIT' | 'BAD_REQUEST' | 'NO_KEYS' | 'UPSTREAM';
+
+export class AiProxyError extends Error {
+    status: number;
+    code: AiProxyErrorCode;
+    retryAfterSeconds?: number;
+
+    constructor(status: number, code: AiProxyErrorCode, message: string, retryAfterSeconds?: number) {
+        super(message);
+        this.name = "AiProxyError";
+        this.status = status;
+        this.code = code;
+        this.retryAfterSeconds = retryAfterSeconds;
+    }
+
+    get isUserFacing() {
+        return this.code !== 'UPSTREAM' && this.code !== 'NO_KEYS';
+    }
+}
+
+export const isUserFacingAiError = (error: any): error is AiProxyError =>
+    error instanceof AiProxyError && error.isUserFacing;
+
+export const readProxyError = async (response: Response, providerLabel: string): Promise<AiProxyError> => {
+    const text = await response.text();
+    try {
+        const data = JSON.parse(text);
+        if (data?.code) return new AiProxyError(response.status, data.code, data.error || `${providerLabel} request failed`, data.retryAfterSeconds);
+    } catch (e) {
+        // Not JSON (platform error page), fall through
+    }
+    return new AiProxyError(response.status, 'UPSTREAM', `${providerLabel} API Error: ${response.status} - ${text}`);
+};
@@ -0,0 +1,97 @@
+import type { AiFinishReason } from "../aiClient";
+import { AiTokenUsage } from "../../types";
+
+// Reads the OpenAI-style chunk stream sent by /api/groq and /api/gemini (`data: {...}` lines, ending in `data: [DONE]`).
+// Text deltas are forwarded as they arrive; tool call fragments are stitched together by index.
+// A dropped connection resolves with what was received so far instead of throwing it away.
+
+export interface ChatStreamResult {
+    text: string;
+    toolCalls?: any[];
+    finishReason: AiFinishReason;
+    tokens?: AiTokenUsage;
+}
+
+// OpenAI-style `usage` (prompt_tokens, completion_tokens, total_tokens) to the ledger shape
+export const toAiTokenUsage = (usage: any): AiTokenUsage | undefined => {
+    if (!usage) return undefined;
+    const promptTokens = usage.prompt_tokens || 0;
+    const completionTokens = usage.completion_tokens || 0;
+    return { promptTokens, completionTokens, totalTokens: usage.total_tokens || promptTokens + completionTokens };
+};
+
+const mergeToolCallDelta = (toolCalls: any[], delta: any) => {
+    const index = delta.index ?? toolCalls.length;
+    const current = toolCalls[index] || { id: '', type: 'function', function: { name: '', arguments: '' } };
+    if (delta.id) current.id = delta.id;
+    if (delta.function?.name) current.function.name += delta.function.name;
+    if (delta.function?.arguments) current.function.arguments += delta.function.arguments;
+    toolCalls[index] = current;
+};
+
+export const readChatStream = async (
+    response: Response,
+    onDelta: (delta: string) => void,
+    signal?: AbortSignal
+): Promise<ChatStreamResult> => {
+    if (!response.body) throw new Error("Streaming is not supported by this browser.");
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    const toolCalls: any[] = [];
+    let buffer = "";
+    let text = "";
+    let done = false;
+    let tokens: AiTokenUsage | undefined;
+
+    const handleLine = (line: string) => {
+        if (!line.startsWith("data:")) return;
+        const data = line.slice(5).trim();
+        if (!data) return;
+        if (data === "[DONE]") {
+            done = true;
+            return;
+        }
+
+        const chunk = JSON.parse(data);
+        if (chunk.error) throw new Error(typeof chunk.error === 'string' ? chunk.error : chunk.error.message || "Stream error");
+        // Groq reports usage on the last chunk under x_groq, OpenAI-compatible streams under usage
+        const usage = chunk.usage || chunk.x_groq?.usage;
+        if (usage) tokens = toAiTokenUsage(usage);
+
+        const choice = chunk.choices?.[0];
+        if (!choice) return;
+        if (choice.delta?.content) {
+            text += choice.delta.content;
+            onDelta(choice.delta.content);
+        }
+        choice.delta?.tool_calls?.forEach((d: any) => mergeToolCallDelta(toolCalls, d));
+        if (choice.finish_reason) done = true;
+    };
+
+    try {
+        while (true) {
+            const { value, done: streamDone } = await reader.read();
+            if (streamDone) break;
+            buffer += decoder.decode(value, { stream: true });
+            const lines = buffer.split("\n");
+            buffer = lines.pop() || "";
+            lines.forEach(handleLine);
+        }
+        if (buffer) handleLine(buffer);
+    } catch (error: any) {
+        if (signal?.aborted) return { text, toolCalls: toolCalls.length ? toolCalls : undefined, finishReason: 'ABORTED', tokens };
+        // Nothing usable arrived: let the caller fall back to another provider
+        if (!text) throw error;
+        console.warn(`[AI] Stream dropped after ${text.length} chars: ${error?.message || error}`);
+        return { text, finishReason: 'INTERRUPTED', tokens };
+    }
+
+    if (!done && !text && !toolCalls.length) throw new Error("AI stream closed before any content was received.");
+    return {
+        text,
+        toolCalls: toolCalls.length ? toolCalls : undefined,
+        finishReason: done ? 'COMPLETE' : 'INTERRUPTED',
+        tokens
+    };
+};
@@ -1,60 +1,336 @@
 
-import { QuestionBankItem, Challenge20, ClassLevel, MCQItem } from '../types';
+import { QuestionBankItem, QuestionBankFilters, QuestionBankPage, QuestionBankTags, QuestionDuplicateGroup, BloomLevel, Challenge20, ClassLevel, MCQItem } from '../types';
+import {
+    saveQuestionBankItems,
+    queryQuestionBankItems,
+    countQuestionBankItems,
+    updateQuestionBankItems,
+    deleteQuestionBankItems,
+    saveChallenge20Doc,
+    getChallenges20,
+    deleteChallenge20Docs
+} from '../firebase';
+import { generateValidatedJson } from './aiValidation';
+import { QuestionTagListSchema } from './aiSchemas';
+import pLimit from 'p-limit';
 
-const BANK_KEY = 'nst_question_bank';
-const CHALLENGES_KEY = 'nst_challenges_20';
+// Shared in Firestore (question_bank, challenges_20) so every admin and student sees the same bank.
+// Older builds kept both in the admin's localStorage; migrateLocalQuestionBank moves them over once.
+const LEGACY_BANK_KEY = 'nst_question_bank';
+const LEGACY_CHALLENGES_KEY = 'nst_challenges_20';
+const MIGRATED_KEY = 'nst_question_bank_migrated';
+
+const CLASS_LEVELS: ClassLevel[] = ['6', '7', '8', '9', '10', '11', '12', 'COMPETITION'];
+
+export const BLOOM_LEVELS: BloomLevel[] = ['REMEMBER', 'UNDERSTAND', 'APPLY', 'ANALYZE', 'EVALUATE', 'CREATE'];
+
+const toTopicKey = (topic?: string | null) => topic ? topic.trim().toLowerCase() : null;
+
+const createBankId = () => `qb-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+// --- SEARCH TOKENS ---
+
+const MIN_WORD_LENGTH = 2;
+const MAX_SEARCH_TOKENS = 150;
+
+const toWords = (text: string) => Array.from(new Set(normalizeQuestionText(text).split(' ').filter(w => w.length >= MIN_WORD_LENGTH)));
+
+// Stored on every item; Firestore search matches whole words with array-contains
+export const buildSearchTokens = (q: MCQItem): string[] =>
+    toWords([q.question, ...(q.options || [])].join(' ')).slice(0, MAX_SEARCH_TOKENS);
+
+// Untagged fields are stored as null (not left out) so the UNTAGGED filters can query them
+const toBankItem = (item: QuestionBankItem): QuestionBankItem => ({
+    ...item,
+    topicKey: toTopicKey(item.topic),
+    chapterId: item.chapterId || null,
+    difficulty: item.difficulty || null,
+    bloomLevel: item.bloomLevel || null,
+    searchTokens: buildSearchTokens(item.question),
+    questionKey: getQuestionKey(item.question.question)
+});
 
 // --- QUESTION BANK OPERATIONS ---
 
-export const saveQuestionsToBank = async (questions: MCQItem[], subject: string, classLevel: ClassLevel, source: 'AI' | 'MANUAL' = 'AI') => {
-    try {
-        const storedBank = localStorage.getItem(BANK_KEY);
-        const bank: QuestionBankItem[] = storedBank ? JSON.parse(storedBank) : [];
-        
-        const newItems: QuestionBankItem[] = questions.map(q => ({
-            id: `qb-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-            question: q,
-            subject,
-            classLevel,
-            createdAt: new Date().toISOString(),
-            source
-        }));
-        
-        const updatedBank = [...bank, ...newItems];
-        localStorage.setItem(BANK_KEY, JSON.stringify(updatedBank));
-        console.log(`Saved ${newItems.length} questions to Bank.`);
-        return true;
-    } catch (e) {
-        console.error("Error saving to Question Bank:", e);
-        return false;
-    }
+export const saveQuestionsToBank = async (questions: MCQItem[], subject: string, classLevel: ClassLevel, source: 'AI' | 'MANUAL' = 'AI', topic?: string, tags: QuestionBankTags = {}) => {
+    const newItems: QuestionBankItem[] = questions.map(q => toBankItem({
+        id: createBankId(),
+        question: q,
+        subject,
+        topic: tags.topic || topic,
+        chapterId: tags.chapterId,
+        classLevel,
+        difficulty: tags.difficulty,
+        bloomLevel: tags.bloomLevel,
+        createdAt: new Date().toISOString(),
+        source
+    }));
+
+    const saved = await saveQuestionBankItems(newItems);
+    if (saved) console.log(`Saved ${newItems.length} questions to Bank.`);
+    return saved;
+};
+
+// One page of bank items matching the filters; pass nextCursor back for the following page.
+// With a search, Firestore matches the longest word and the others are checked on the page,
+// so a page can hold fewer than pageSize items while nextCursor is still set.
+export const queryQuestionBank = async (filters: QuestionBankFilters, pageSize: number = 50, cursor?: string | null): Promise<QuestionBankPage> => {
+    const words = toWords(filters.search || '').sort((a, b) => b.length - a.length);
+    if (words.length === 0) return queryQuestionBankItems(filters, pageSize, cursor);
+
+    const [first, ...rest] = words;
+    const page = await queryQuestionBankItems(filters, pageSize, cursor, first);
+    return { ...page, items: page.items.filter(item => rest.every(w => item.searchTokens?.includes(w))) };
+};
+
+// Every item matching the filters, up to max (duplicate scans, bulk actions)
+export const loadBankItems = async (filters: QuestionBankFilters, max: number = 1500): Promise<QuestionBankItem[]> => {
+    const items: QuestionBankItem[] = [];
+    let cursor: string | null = null;
+    do {
+        const page = await queryQuestionBank(filters, Math.min(500, max - items.length), cursor);
+        items.push(...page.items);
+        cursor = page.nextCursor;
+    } while (cursor && items.length < max);
+    return items;
 };
 
-export const fetchRandomQuestionsFromBank = async (classLevel: ClassLevel, count: number): Promise<MCQItem[]> => {
-    const storedBank = localStorage.getItem(BANK_KEY);
-    if (!storedBank) return [];
-    
-    const bank: QuestionBankItem[] = JSON.parse(storedBank);
-    
-    // Filter by Class
-    const eligible = bank.filter(item => item.classLevel === classLevel);
-    
-    if (eligible.length === 0) return [];
-    
+const RANDOM_POOL_SIZE = 300;
+
+export const fetchRandomQuestionsFromBank = async (classLevel: ClassLevel, count: number, filters: QuestionBankFilters = {}): Promise<MCQItem[]> => {
+    // Firestore has no random order: start the pool at a random point in the id (creation time) range,
+    // then wrap around to the start if that leaves too few questions.
+    const criteria = { ...filters, classLevel };
+    const randomStart = `qb-${Math.floor(1700000000000 + Math.random() * (Date.now() - 1700000000000))}`;
+    const pool = (await queryQuestionBank(criteria, RANDOM_POOL_SIZE, randomStart)).items;
+    if (pool.length < RANDOM_POOL_SIZE) {
+        const wrapped = await queryQuestionBank(criteria, RANDOM_POOL_SIZE - pool.length);
+        pool.push(...wrapped.items.filter(item => !pool.some(p => p.id === item.id)));
+    }
+    if (pool.length === 0) return [];
+
     // Shuffle
-    const shuffled = eligible.sort(() => 0.5 - Math.random());
-    
+    const shuffled = pool.sort(() => 0.5 - Math.random());
+
     // Slice
     return shuffled.slice(0, count).map(item => item.question);
 };
 
-export const getBankStats = () => {
-    const storedBank = localStorage.getItem(BANK_KEY);
-    const bank: QuestionBankItem[] = storedBank ? JSON.parse(storedBank) : [];
+// Bank items for one chapter: tagged with its chapterId, or with the chapter title / id as topic
+export const getBankQuestionsForChapter = async (classLevel: ClassLevel, subject: string, chapter: { id: string; title: string }): Promise<QuestionBankItem[]> => {
+    const [byChapter, byTopic] = await Promise.all([
+        queryQuestionBankItems({ classLevel, subject, chapterId: chapter.id }, 500),
+        queryQuestionBankItems({ classLevel, subject, topic: [chapter.title, chapter.id] }, 500)
+    ]);
+    return [...byChapter.items, ...byTopic.items.filter(item => !byChapter.items.some(c => c.id === item.id))];
+};
+
+// --- TAGGING ---
+
+// Applies the same tags to every item; undefined tags are left as they are
+export const updateQuestionBankTags = async (items: QuestionBankItem[], tags: QuestionBankTags) => {
+    const fields: Partial<QuestionBankItem> = { updatedAt: new Date().toISOString() };
+    if (tags.topic !== undefined) {
+        fields.topic = tags.topic || null;
+        fields.topicKey = toTopicKey(tags.topic);
+    }
+    if (tags.chapterId !== undefined) fields.chapterId = tags.chapterId || null;
+    if (tags.difficulty !== undefined) fields.difficulty = tags.difficulty || null;
+    if (tags.bloomLevel !== undefined) fields.bloomLevel = tags.bloomLevel || null;
+
+    // Items saved before search existed get their tokens on their first edit
+    return await updateQuestionBankItems(items.map(item => ({
+        id: item.id,
+        fields: item.searchTokens ? fields : { ...fields, searchTokens: buildSearchTokens(item.question) }
+    })));
+};
+
+export const deleteQuestionsFromBank = async (ids: string[]) => {
+    return await deleteQuestionBankItems(ids);
+};
+
+const TAG_BATCH_SIZE = 10;
+const TAG_CONCURRENCY = 3;
+
+const stripHtml = (text: string) => (text || '').replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim();
+
+// AI-suggested difficulty, Bloom level and chapter. Without overwrite only empty tags are filled.
+// Each batch is saved as soon as it is tagged, so a failed batch does not lose the others.
+export const autoTagBankItems = async (
+    items: QuestionBankItem[],
+    chapters: { id: string; title: string }[] = [],
+    onProgress?: (msg: string) => void,
+    overwrite: boolean = false
+): Promise<{ tagged: number; failed: number }> => {
+    const batches: QuestionBankItem[][] = [];
+    for (let i = 0; i < items.length; i += TAG_BATCH_SIZE) batches.push(items.slice(i, i + TAG_BATCH_SIZE));
+
+    const chapterList = chapters.length > 0
+        ? `Chapter: pick the best match from this list, copied exactly, or "" if none fits:\n${chapters.map(c => `- ${c.title}`).join('\n')}`
+        : 'Chapter: leave "".';
+
+    let tagged = 0;
+    let failed = 0;
+    const limit = pLimit(TAG_CONCURRENCY);
+    await Promise.all(batches.map((batch, b) => limit(async () => {
+        const questions = batch.map((item, i) => `${i + 1}. ${stripHtml(item.question.question)}\n   Options: ${(item.question.options || []).map(stripHtml).join(' | ')}`).join('\n');
+        const prompt = `Tag each of these ${batch.length} MCQs for a Class ${batch[0].classLevel} ${batch[0].subject} question bank.
+Difficulty: EASY, MEDIUM or HARD for a student of that class.
+Bloom level: REMEMBER, UNDERSTAND, APPLY, ANALYZE, EVALUATE or CREATE (revised Bloom's taxonomy).
+${chapterList}
+
+Return a JSON array with exactly ${batch.length} objects, in the same order: [{"difficulty": "...", "bloomLevel": "...", "chapter": "..."}]
+
+QUESTIONS:
+${questions}`;
+
+        try {
+            const schema = QuestionTagListSchema.refine(tags => tags.length === batch.length, { message: `must return exactly ${batch.length} entries` });
+            const tags = await generateValidatedJson('ANALYSIS', prompt, schema, {
+                system: "You are an exam moderator. Return ONLY the JSON array.",
+                usageType: 'PILOT',
+                context: { feature: 'BANK_AUTO_TAG', batch: b + 1 }
+            });
+
+            const updates = batch.map((item, i) => {
+                const fields: Partial<QuestionBankItem> = { updatedAt: new Date().toISOString() };
+                if (overwrite || !item.difficulty) fields.difficulty = tags[i].difficulty;
+                if (overwrite || !item.bloomLevel) fields.bloomLevel = tags[i].bloomLevel;
+                const chapter = chapters.find(c => c.title.trim().toLowerCase() === tags[i].chapter.toLowerCase());
+                if (chapter && (overwrite || !item.chapterId)) {
+                    fields.chapterId = chapter.id;
+                    fields.topic = chapter.title;
+                    fields.topicKey = toTopicKey(chapter.title);
+                }
+                if (!item.searchTokens) fields.searchTokens = buildSearchTokens(item.question);
+                return { id: item.id, fields };
+            });
+            if (!(await updateQuestionBankItems(updates))) throw new Error("Save failed");
+
+            tagged += batch.length;
+            onProgress?.(`🏷️ Batch ${b + 1}/${batches.length} tagged`);
+        } catch (e: any) {
+            failed += batch.length;
+            onProgress?.(`❌ Batch ${b + 1}/${batches.length}: ${e.message}`);
+        }
+    })));
+
+    return { tagged, failed };
+};
+
+// --- DUPLICATE DETECTION ---
+
+export const normalizeQuestionText = (text: string): string => {
+    return (text || '')
+        .replace(/<[^>]*>/g, ' ')
+        .toLowerCase()
+        .replace(/[^\p{L}\p{M}\p{N}\s]/gu, ' ')
+        .replace(/\s+/g, ' ')
+        .trim();
+};
+
+// Stable id for a question wherever it is stored (bank, chapter MCQs, tests): a hash of its normalized text.
+// Results record it per answer so item statistics can follow a question across shuffles and tests.
+export const getQuestionKey = (text: string): string => {
+    const normalized = normalizeQuestionText(text);
+    // Two independent 32-bit hashes (djb2, FNV-1a) keep collisions negligible for large banks
+    let djb2 = 5381;
+    let fnv = 0x811c9dc5;
+    for (let i = 0; i < normalized.length; i++) {
+        const code = normalized.charCodeAt(i);
+        djb2 = ((djb2 * 33) ^ code) >>> 0;
+        fnv = Math.imul(fnv ^ code, 0x01000193) >>> 0;
+    }
+    return `q${djb2.toString(36)}${fnv.toString(36)}`;
+};
+
+const toTokenSet = (text: string) => new Set(normalizeQuestionText(text).split(' ').filter(Boolean));
+
+const jaccard = (tokensA: Set<string>, tokensB: Set<string>): number => {
+    if (tokensA.size === 0 && tokensB.size === 0) return 1;
+    let shared = 0;
+    tokensA.forEach(t => { if (tokensB.has(t)) shared++; });
+    return shared / (tokensA.size + tokensB.size - shared);
+};
+
+// Token-set Jaccard similarity of two normalized questions (0..1)
+export const questionSimilarity = (a: string, b: string): number => jaccard(toTokenSet(a), toTokenSet(b));
+
+export const isNearDuplicate = (candidate: MCQItem, existing: MCQItem[], threshold: number = 0.85): boolean => {
+    const normalized = normalizeQuestionText(candidate.question);
+    return existing.some(q =>
+        normalizeQuestionText(q.question) === normalized ||
+        questionSimilarity(q.question, candidate.question) >= threshold
+    );
+};
+
+const countTags = (item: QuestionBankItem) => [item.topic, item.chapterId, item.difficulty, item.bloomLevel].filter(Boolean).length;
+
+// Groups near-duplicates within each class. Pairwise, so callers should cap the number of items.
+export const findDuplicateGroups = (items: QuestionBankItem[], threshold: number = 0.85): QuestionDuplicateGroup[] => {
+    const texts = items.map(item => normalizeQuestionText(item.question.question));
+    const tokens = items.map(item => toTokenSet(item.question.question));
+    const similarity = (i: number, j: number) => texts[i] === texts[j] ? 1 : jaccard(tokens[i], tokens[j]);
+
+    // Union-find over every similar pair
+    const parent = items.map((_, i) => i);
+    const root = (i: number): number => parent[i] === i ? i : (parent[i] = root(parent[i]));
+    for (let i = 0; i < items.length; i++) {
+        for (let j = i + 1; j < items.length; j++) {
+            if (items[i].classLevel !== items[j].classLevel) continue;
+            // Jaccard can't reach the threshold when one set is much smaller than the other
+            const [small, large] = [tokens[i].size, tokens[j].size].sort((a, b) => a - b);
+            if (texts[i] !== texts[j] && small < threshold * large) continue;
+            if (similarity(i, j) >= threshold) parent[root(j)] = root(i);
+        }
+    }
+
+    const groups = new Map<number, number[]>();
+    items.forEach((_, i) => groups.set(root(i), [...(groups.get(root(i)) || []), i]));
+
+    return Array.from(groups.values())
+        .filter(members => members.length > 1)
+        .map(members => {
+            const ranked = [...members].sort((a, b) => countTags(items[b]) - countTags(items[a]) || items[a].createdAt.localeCompare(items[b].createdAt));
+            const [keep, ...rest] = ranked;
+            return {
+                keep: items[keep],
+                duplicates: rest.map(i => ({ item: items[i], similarity: similarity(keep, i) }))
+            };
+        });
+};
+
+// Keeps one item, copies over any tags it is missing from the duplicates, then deletes the duplicates
+export const mergeDuplicateGroup = async (group: QuestionDuplicateGroup) => {
+    const { keep } = group;
+    const others = group.duplicates.map(d => d.item);
+    const firstTag = <K extends keyof QuestionBankItem>(key: K) => keep[key] || others.find(o => o[key])?.[key] || null;
+
+    const topic = firstTag('topic') as string | null;
+    const saved = await updateQuestionBankItems([{
+        id: keep.id,
+        fields: {
+            topic,
+            topicKey: toTopicKey(topic),
+            chapterId: firstTag('chapterId') as string | null,
+            difficulty: firstTag('difficulty') as QuestionBankItem['difficulty'],
+            bloomLevel: firstTag('bloomLevel') as QuestionBankItem['bloomLevel'],
+            searchTokens: keep.searchTokens || buildSearchTokens(keep.question),
+            mergedFrom: [...(keep.mergedFrom || []), ...others.map(o => o.id)],
+            updatedAt: new Date().toISOString()
+        }
+    }]);
+    if (!saved) return false;
+    return await deleteQuestionBankItems(others.map(o => o.id));
+};
+
+// Server-side counts, so stats never download the bank
+export const getBankStats = async () => {
+    const counts = await Promise.all(CLASS_LEVELS.map(classLevel => countQuestionBankItems({ classLevel })));
     return {
-        total: bank.length,
-        byClass: bank.reduce((acc, curr) => {
-            acc[curr.classLevel] = (acc[curr.classLevel] || 0) + 1;
+        total: await countQuestionBankItems(),
+        byClass: CLASS_LEVELS.reduce((acc, classLevel, i) => {
+            if (counts[i]) acc[classLevel] = counts[i];
             return acc;
         }, {} as Record<string, number>)
     };
@@ -64,64 +340,64 @@ export const getBankStats = () => {
 // --- CHALLENGE 2.0 OPERATIONS ---
 
 export const saveChallenge20 = async (challenge: Challenge20) => {
-    try {
-        const stored = localStorage.getItem(CHALLENGES_KEY);
-        const challenges: Challenge20[] = stored ? JSON.parse(stored) : [];
-        
-        // Remove duplicate if exists (update)
-        const filtered = challenges.filter(c => c.id !== challenge.id);
-        
-        const updated = [...filtered, challenge];
-        localStorage.setItem(CHALLENGES_KEY, JSON.stringify(updated));
-        
-        // Also save questions to bank implicitly if needed, but usually we do that separately
-        return true;
-    } catch (e) {
-        console.error("Error saving Challenge 2.0:", e);
-        return false;
-    }
+    // Saving with the same id updates the existing challenge
+    return await saveChallenge20Doc(challenge);
 };
 
 export const getActiveChallenges = async (classLevel: ClassLevel): Promise<Challenge20[]> => {
-    const stored = localStorage.getItem(CHALLENGES_KEY);
-    if (!stored) return [];
-    
-    const challenges: Challenge20[] = JSON.parse(stored);
+    const challenges = await getChallenges20(classLevel);
     const now = new Date();
-    
-    // Filter: Active AND Not Expired AND Matching Class
-    return challenges.filter(c => {
-        const expiry = new Date(c.expiryDate);
-        return c.isActive && expiry > now && c.classLevel === classLevel;
-    });
+
+    // Filter: Not Expired (active + class are filtered by the query)
+    return challenges.filter(c => new Date(c.expiryDate) > now);
 };
 
 export const getAllChallenges = async (): Promise<Challenge20[]> => {
-    const stored = localStorage.getItem(CHALLENGES_KEY);
-    return stored ? JSON.parse(stored) : [];
+    return await getChallenges20();
 };
 
 export const deleteChallenge20 = async (id: string) => {
-    const stored = localStorage.getItem(CHALLENGES_KEY);
-    if (!stored) return;
-    
-    const challenges: Challenge20[] = JSON.parse(stored);
-    const updated = challenges.filter(c => c.id !== id);
-    localStorage.setItem(CHALLENGES_KEY, JSON.stringify(updated));
+    await deleteChallenge20Docs([id]);
 };
 
 export const cleanupExpiredChallenges = async () => {
-    const stored = localStorage.getItem(CHALLENGES_KEY);
-    if (!stored) return;
-    
-    const challenges: Challenge20[] = JSON.parse(stored);
+    const challenges = await getChallenges20();
     const now = new Date();
-    
-    // Keep only non-expired
-    const active = challenges.filter(c => new Date(c.expiryDate) > now);
-    
-    if (active.length !== challenges.length) {
-        localStorage.setItem(CHALLENGES_KEY, JSON.stringify(active));
+
+    const expired = challenges.filter(c => new Date(c.expiryDate) <= now).map(c => c.id);
+    if (expired.length > 0) {
+        await deleteChallenge20Docs(expired);
         console.log("Cleaned up expired challenges.");
     }
 };
+
+// --- ONE-TIME MIGRATION ---
+
+// Uploads the bank and challenges an older build left in this browser's localStorage. Ids are kept,
+// so a migration interrupted halfway can safely run again; local copies are removed only after success.
+export const migrateLocalQuestionBank = async (): Promise<{ questions: number; challenges: number }> => {
+    const result = { questions: 0, challenges: 0 };
+    if (localStorage.getItem(MIGRATED_KEY)) return result;
+
+    try {
+        const storedBank = localStorage.getItem(LEGACY_BANK_KEY);
+        const bank: QuestionBankItem[] = storedBank ? JSON.parse(storedBank) : [];
+        const storedChallenges = localStorage.getItem(LEGACY_CHALLENGES_KEY);
+        const challenges: Challenge20[] = storedChallenges ? JSON.parse(storedChallenges) : [];
+
+        const items = bank.map(toBankItem);
+        if (items.length && !(await saveQuestionBankItems(items))) return result;
+
+        for (const challenge of challenges) {
+            if (!(await saveChallenge20Doc(challenge))) return result;
+        }
+
+        localStorage.removeItem(LEGACY_BANK_KEY);
+        localStorage.removeItem(LEGACY_CHALLENGES_KEY);
+        localStorage.setItem(MIGRATED_KEY, new Date().toISOString());
+        return { questions: items.length, challenges: challenges.length };
+    } catch (e) {
+        console.error("Question bank migration failed:", e);
+        return result;
+    }
+};
@@ -0,0 +1,266 @@
+import { MCQItem, Question, QuestionKind, QuestionResponse, SingleChoiceQuestion, OmrEntry } from '../types';
+import { getQuestionKey } from './questionBank';
+
+// --- QUESTION KINDS ---
+// MCQItem stays the stored shape everywhere (chapters, tests, bank); items without `kind` are single-answer MCQs.
+// toQuestion narrows an item to the Question union that grading, OMR and rendering switch on.
+
+export const QUESTION_KINDS: QuestionKind[] = ['SINGLE', 'MULTI', 'NUMERIC', 'ASSERTION_REASON', 'MATCH', 'CASE_BASED'];
+
+export const QUESTION_KIND_LABELS: Record<QuestionKind, string> = {
+    SINGLE: 'Single Correct',
+    MULTI: 'Multiple Correct',
+    NUMERIC: 'Integer / Numeric',
+    ASSERTION_REASON: 'Assertion – Reason',
+    MATCH: 'Match the Following',
+    CASE_BASED: 'Case Based'
+};
+
+export const ASSERTION_REASON_OPTIONS = [
+    'Both A and R are true, and R is the correct explanation of A',
+    'Both A and R are true, but R is not the correct explanation of A',
+    'A is true, but R is false',
+    'A is false, but R is true'
+];
+
+const NUMERIC_EPSILON = 1e-9;
+
+export const getQuestionKind = (item: MCQItem): QuestionKind => item.kind || 'SINGLE';
+
+// Single-answer kinds keep using the four-option MCQ layout and `selected` / `correct` in OMR data
+export const isSingleChoiceKind = (kind: QuestionKind) => kind === 'SINGLE' || kind === 'ASSERTION_REASON';
+
+const toSingle = (item: MCQItem): SingleChoiceQuestion => ({
+    kind: 'SINGLE',
+    question: item.question || '',
+    options: item.options || [],
+    correctAnswer: item.correctAnswer,
+    explanation: item.explanation || '',
+    mnemonic: item.mnemonic,
+    concept: item.concept
+});
+
+export const toQuestion = (item: MCQItem): Question => {
+    const base = { question: item.question || '', explanation: item.explanation || '', mnemonic: item.mnemonic, concept: item.concept };
+    switch (getQuestionKind(item)) {
+        case 'MULTI':
+            return { ...base, kind: 'MULTI', options: item.options || [], correctAnswers: item.correctAnswers?.length ? item.correctAnswers : [item.correctAnswer] };
+        case 'NUMERIC':
+            return { ...base, kind: 'NUMERIC', answer: item.numericAnswer || { value: NaN } };
+        case 'ASSERTION_REASON':
+            return {
+                ...base,
+                kind: 'ASSERTION_REASON',
+                assertion: item.assertion || '',
+                reason: item.reason || '',
+                options: item.options?.length ? item.options : ASSERTION_REASON_OPTIONS,
+                correctAnswer: item.correctAnswer
+            };
+        case 'MATCH':
+            return { ...base, kind: 'MATCH', left: item.matchLeft || [], right: item.matchRight || [], answer: item.matchAnswer || [] };
+        case 'CASE_BASED':
+            return { ...base, kind: 'CASE_BASED', passage: item.passage || '', subQuestions: (item.subQuestions || []).map(toSingle) };
+        default:
+            return toSingle(item);
+    }
+};
+
+const asNumber = (response: QuestionResponse | undefined | null) => typeof response === 'number' ? response : -1;
+const asList = (response: QuestionResponse | undefined | null) => Array.isArray(response) ? response : [];
+const parseNumeric = (response: QuestionResponse | undefined | null) => {
+    const text = String(response ?? '').trim().replace(/,/g, '');
+    return text === '' ? NaN : Number(text);
+};
+
+export const isResponseAnswered = (item: MCQItem, response: QuestionResponse | undefined | null): boolean => {
+    if (response === undefined || response === null) return false;
+    switch (getQuestionKind(item)) {
+        case 'MULTI': return asList(response).length > 0;
+        case 'NUMERIC': return !isNaN(parseNumeric(response));
+        case 'MATCH':
+        case 'CASE_BASED': return asList(response).some(r => r >= 0);
+        default: return asNumber(response) >= 0;
+    }
+};
+
+export interface GradedResponse {
+    answered: boolean;
+    isCorrect: boolean;
+    credit: number; // 0-1 share of the question answered correctly
+}
+
+// MULTI credit follows the usual partial rule: some correct options and no wrong one earns their share.
+// MATCH and CASE_BASED earn credit per pair / sub-question.
+export const gradeResponse = (item: MCQItem, response: QuestionResponse | undefined | null): GradedResponse => {
+    const answered = isResponseAnswered(item, response);
+    if (!answered) return { answered, isCorrect: false, credit: 0 };
+
+    const q = toQuestion(item);
+    let credit = 0;
+    switch (q.kind) {
+        case 'MULTI': {
+            const picked = Array.from(new Set(asList(response)));
+            const hasWrong = picked.some(p => !q.correctAnswers.includes(p));
+            credit = hasWrong ? 0 : picked.length / q.correctAnswers.length;
+            break;
+        }
+        case 'NUMERIC':
+            credit = Math.abs(parseNumeric(response) - q.answer.value) <= (q.answer.tolerance || 0) + NUMERIC_EPSILON ? 1 : 0;
+            break;
+        case 'MATCH': {
+            const pairs = asList(response);
+            credit = q.answer.length ? q.answer.filter((a, i) => pairs[i] === a).length / q.answer.length : 0;
+            break;
+        }
+        case 'CASE_BASED': {
+            const picks = asList(response);
+            credit = q.subQuestions.length ? q.subQuestions.filter((s, i) => picks[i] === s.correctAnswer).length / q.subQuestions.length : 0;
+            break;
+        }
+        default:
+            credit = asNumber(response) === q.correctAnswer ? 1 : 0;
+    }
+    return { answered, isCorrect: credit === 1, credit };
+};
+
+export const isResponseCorrect = (item: MCQItem, response: QuestionResponse | undefined | null) => gradeResponse(item, response).isCorrect;
+
+const letter = (i: number) => i >= 0 ? String.fromCharCode(65 + i) : '–';
+
+// Short text of an answer for the marksheet and review screens, e.g. "A, C", "12.5 m", "1→B, 2→A"
+export const formatResponse = (item: MCQItem, response: QuestionResponse | undefined | null): string => {
+    if (!isResponseAnswered(item, response)) return '–';
+    const q = toQuestion(item);
+    switch (q.kind) {
+        case 'MULTI': return [...asList(response)].sort((a, b) => a - b).map(letter).join(', ');
+        case 'NUMERIC': return `${String(response).trim()}${q.answer.unit ? ` ${q.answer.unit}` : ''}`;
+        case 'MATCH': return asList(response).map((r, i) => `${i + 1}→${letter(r)}`).join(', ');
+        case 'CASE_BASED': return asList(response).map((r, i) => `${i + 1}:${letter(r)}`).join(', ');
+        default: return letter(asNumber(response));
+    }
+};
+
+export const formatCorrectAnswer = (item: MCQItem): string => {
+    const q = toQuestion(item);
+    switch (q.kind) {
+        case 'MULTI': return formatResponse(item, q.correctAnswers);
+        case 'NUMERIC': return `${q.answer.value}${q.answer.tolerance ? ` ± ${q.answer.tolerance}` : ''}${q.answer.unit ? ` ${q.answer.unit}` : ''}`;
+        case 'MATCH': return formatResponse(item, q.answer);
+        case 'CASE_BASED': return formatResponse(item, q.subQuestions.map(s => s.correctAnswer));
+        default: return letter(q.correctAnswer);
+    }
+};
+
+// Item analysis key. Case-based stems are often generic ("Read the passage..."), so the passage is part of it.
+export const getItemKey = (item: MCQItem) =>
+    getQuestionKey(getQuestionKind(item) === 'CASE_BASED' ? `${item.question || ''} ${item.passage || ''}` : item.question);
+
+// One marksheet row. Single-answer kinds keep the classic selected / correct bubbles; the other kinds
+// store the whole response with the grading result, and selected -2 marks "answered".
+export const buildOmrEntry = (item: MCQItem, qIndex: number, response: QuestionResponse | undefined | null): OmrEntry => {
+    const kind = getQuestionKind(item);
+    const qKey = getItemKey(item);
+    if (isSingleChoiceKind(kind)) {
+        const entry: OmrEntry = { qIndex, selected: isResponseAnswered(item, response) ? asNumber(response) : -1, correct: item.correctAnswer, qKey };
+        return kind === 'SINGLE' ? entry : { ...entry, kind };
+    }
+    const graded = gradeResponse(item, response);
+    return {
+        qIndex,
+        selected: graded.answered ? -2 : -1,
+        correct: -2,
+        qKey,
+        kind,
+        ...(graded.answered ? { response } : {}),
+        isCorrect: graded.isCorrect,
+        credit: Math.round(graded.credit * 1000) / 1000
+    };
+};
+
+export const isOmrCorrect = (entry: OmrEntry) => entry.isCorrect ?? (entry.selected >= 0 && entry.selected === entry.correct);
+
+// The answer to restore into a review screen from a saved OMR row
+export const getOmrResponse = (entry: OmrEntry): QuestionResponse => entry.response ?? entry.selected;
+
+// --- SHEET IMPORT ---
+// One tab-separated row from the bulk importers. Untagged rows keep the classic layout
+// (Question | A | B | C | D | Answer | Explanation); an answer like "1,3" or "A,C" makes it multiple-correct.
+// Other kinds start with a tag column:
+//   NUMERIC | Question | Answer | Tolerance | Unit | Explanation
+//   AR      | Assertion | Reason | Answer (1-4 / A-D) | Explanation
+//   MATCH   | Question | Left items (a; b; c) | Right items (x; y; z) | Answer (2,1,3 or B,A,C) | Explanation
+//   CASE    | Question | Passage | then Question | A | B | C | D | Answer per sub-question | Explanation
+const KIND_TAGS: Record<string, QuestionKind> = {
+    MULTI: 'MULTI', MCQ_MULTI: 'MULTI',
+    NUMERIC: 'NUMERIC', INTEGER: 'NUMERIC',
+    AR: 'ASSERTION_REASON', ASSERTION_REASON: 'ASSERTION_REASON',
+    MATCH: 'MATCH',
+    CASE: 'CASE_BASED', CASE_BASED: 'CASE_BASED'
+};
+
+// "2" / "B" -> 1; "1,3" / "A, C" -> [0, 2]. Returns [] if any part is not an option reference.
+export const parseOptionAnswers = (raw: string): number[] => {
+    const parts = (raw || '').split(/[,;/&]/).map(p => p.trim()).filter(Boolean);
+    const indexes = parts.map(p => /^\d+$/.test(p) ? parseInt(p, 10) - 1 : /^[A-Za-z]$/.test(p) ? p.toUpperCase().charCodeAt(0) - 65 : -1);
+    return indexes.every(i => i >= 0) ? indexes : [];
+};
+
+const splitList = (raw: string) => (raw || '').split(';').map(s => s.trim()).filter(Boolean);
+
+const toSingleRow = (question: string, options: string[], rawAnswer: string, explanation: string): MCQItem => {
+    // Same leniency as before kinds existed: "2", "2 (Delhi)", "b"
+    let ans = parseInt(rawAnswer, 10) - 1;
+    if (isNaN(ans)) ans = ['A', 'B', 'C', 'D'].indexOf((rawAnswer || '').trim().toUpperCase());
+    return { question, options, correctAnswer: ans >= 0 && ans < options.length ? ans : 0, explanation }; // Default to A if invalid
+};
+
+export const parseSheetRow = (cols: string[]): MCQItem | null => {
+    const kind = KIND_TAGS[(cols[0] || '').toUpperCase()];
+    const c = kind ? cols.slice(1) : cols;
+
+    if (!kind || kind === 'MULTI') {
+        if (c.length < 6) return null;
+        const answers = parseOptionAnswers(c[5]).filter(a => a <= 3);
+        if (kind === 'MULTI' || answers.length > 1) {
+            const correctAnswers = Array.from(new Set(answers)).sort((a, b) => a - b);
+            if (correctAnswers.length === 0) return null;
+            return { kind: 'MULTI', question: c[0], options: c.slice(1, 5), correctAnswer: correctAnswers[0], correctAnswers, explanation: c[6] || '' };
+        }
+        return toSingleRow(c[0], c.slice(1, 5), c[5], c[6] || '');
+    }
+
+    switch (kind) {
+        case 'NUMERIC': {
+            const value = Number((c[1] || '').replace(/,/g, ''));
+            if (!c[0] || isNaN(value) || c[1] === '') return null;
+            const tolerance = Number(c[2]);
+            return {
+                kind, question: c[0], options: [], correctAnswer: -1, explanation: c[4] || '',
+                numericAnswer: { value, ...(tolerance > 0 ? { tolerance } : {}), ...(c[3] ? { unit: c[3] } : {}) }
+            };
+        }
+        case 'ASSERTION_REASON': {
+            if (!c[0] || !c[1]) return null;
+            const ans = toSingleRow('', ASSERTION_REASON_OPTIONS, c[2], '').correctAnswer;
+            return {
+                kind, question: 'Assertion (A) and Reason (R)', assertion: c[0], reason: c[1],
+                options: ASSERTION_REASON_OPTIONS, correctAnswer: ans, explanation: c[3] || ''
+            };
+        }
+        case 'MATCH': {
+            const matchLeft = splitList(c[1]);
+            const matchRight = splitList(c[2]);
+            const matchAnswer = parseOptionAnswers(c[3]);
+            if (!matchLeft.length || matchAnswer.length !== matchLeft.length || matchAnswer.some(a => a >= matchRight.length)) return null;
+            return { kind, question: c[0] || 'Match the following', options: [], correctAnswer: -1, matchLeft, matchRight, matchAnswer, explanation: c[4] || '' };
+        }
+        case 'CASE_BASED': {
+            const subQuestions: MCQItem[] = [];
+            let i = 2;
+            for (; i + 5 < c.length; i += 6) subQuestions.push(toSingleRow(c[i], c.slice(i + 1, i + 5), c[i + 5], ''));
+            if (!c[1] || subQuestions.length === 0) return null;
+            return { kind, question: c[0] || 'Read the passage and answer the questions', passage: c[1], options: [], correctAnswer: -1, subQuestions, explanation: c[i] || '' };
+        }
+    }
+    return null;
+};
@@ -0,0 +1,292 @@
+import { Board, ClassLevel, Stream, Subject, Chapter, MCQItem, TutorChunk, TutorChunkSource, TutorIndexEntry } from "../types";
+import { getChapterData, getTutorIndex, saveTutorIndexEntry } from "../firebase";
+import { normalizeQuestionText } from "./questionBank";
+import { decodeHtml } from "../utils/htmlDecoder";
+
+// --- AI TUTOR RETRIEVAL ---
+// Stored chapter content (notes HTML, MCQ explanations, concepts) is chunked into tutor_index/{contentKey}.
+// The student assistant ranks chunks from the student's own board + class only, and the passages
+// go into the prompt with [S1]..[Sn] labels so the answer can cite the chapter section it used.
+
+const CHUNK_CHARS = 700;
+const MAX_CHUNKS_PER_CHAPTER = 60;
+const DEFAULT_TOP_K = 4;
+const PROMPT_CHAR_BUDGET = 2800;
+const INDEX_CACHE_MS = 10 * 60 * 1000;
+
+// Notes fields in priority order; identical text across fields is indexed once
+const NOTE_FIELDS = ['schoolPremiumNotesHtml', 'schoolFreeNotesHtml', 'competitionPremiumNotesHtml', 'competitionFreeNotesHtml'];
+
+const STOPWORDS = new Set([
+    'the', 'is', 'are', 'was', 'were', 'a', 'an', 'of', 'to', 'in', 'on', 'for', 'and', 'or', 'what', 'why', 'how',
+    'which', 'who', 'when', 'does', 'do', 'did', 'with', 'by', 'as', 'at', 'be', 'this', 'that', 'it', 'from', 'can',
+    'explain', 'define', 'give', 'me', 'please', 'tell', 'about', 'kya', 'hai', 'ka', 'ki', 'ke', 'se', 'ko'
+]);
+
+export interface TutorScope {
+    board: Board;
+    classLevel: ClassLevel;
+    stream?: Stream | null;
+}
+
+export interface TutorFocus {
+    subjectName?: string;
+    chapterTitle?: string;
+}
+
+export interface TutorPassage {
+    label: string; // "S1"
+    subjectName: string;
+    chapterTitle: string;
+    section: string;
+    source: TutorChunkSource;
+    text: string;
+}
+
+export interface TutorChapterMeta {
+    contentKey: string;
+    board: Board;
+    classLevel: ClassLevel;
+    stream: Stream | null;
+    subjectName: string;
+    chapterId?: string;
+    chapterTitle: string;
+}
+
+// Per board|class cache of the loaded index (invalidated when this client re-indexes a chapter)
+const indexCache = new Map<string, { entries: TutorIndexEntry[]; loadedAt: number }>();
+const scopeKey = (board: string, classLevel: string) => `${board}|${classLevel}`;
+
+// --- CHUNKING ---
+
+const htmlToText = (html: string) => decodeHtml(html)
+    .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/<br\s*\/?>|<\/(p|div|li|tr|h[1-6])>/gi, '\n')
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\n\s*\n+/g, '\n')
+    .trim();
+
+// Splits notes at h1-h4 headings so each chunk can be cited by its section title
+const splitHtmlSections = (html: string, fallbackTitle: string): { section: string; text: string }[] => {
+    const decoded = decodeHtml(html);
+    const parts = decoded.split(/(<h[1-4][^>]*>[\s\S]*?<\/h[1-4]>)/i);
+    const sections: { section: string; text: string }[] = [];
+    let current = fallbackTitle;
+
+    parts.forEach(part => {
+        if (/^<h[1-4]/i.test(part)) {
+            current = htmlToText(part) || current;
+            return;
+        }
+        const text = htmlToText(part);
+        if (text) sections.push({ section: current, text });
+    });
+    return sections;
+};
+
+// Windows long text at sentence boundaries
+const windowText = (text: string): string[] => {
+    if (text.length <= CHUNK_CHARS) return [text];
+    const sentences = text.match(/[^.!?।\n]+[.!?।]?\s*/g) || [text];
+    const windows: string[] = [];
+    let current = '';
+    sentences.forEach(sentence => {
+        if (current && current.length + sentence.length > CHUNK_CHARS) {
+            windows.push(current.trim());
+            current = '';
+        }
+        current += sentence;
+    });
+    if (current.trim()) windows.push(current.trim());
+    return windows.map(w => w.slice(0, CHUNK_CHARS * 1.5));
+};
+
+export const chunkChapterContent = (data: Record<string, any>, chapterTitle: string): TutorChunk[] => {
+    const chunks: TutorChunk[] = [];
+    const seen = new Set<string>();
+    const push = (source: TutorChunkSource, section: string, text: string) => {
+        const key = normalizeQuestionText(text);
+        if (!key || seen.has(key)) return;
+        seen.add(key);
+        chunks.push({ id: `${source}-${chunks.length + 1}`, source, section, text });
+    };
+
+    NOTE_FIELDS.forEach(field => {
+        const html = data[field];
+        if (typeof html !== 'string' || !html.trim()) return;
+        splitHtmlSections(html, chapterTitle).forEach(({ section, text }) =>
+            windowText(text).forEach(w => push('NOTES', section, w))
+        );
+    });
+
+    const mcqs: MCQItem[] = Array.isArray(data.manualMcqData) ? data.manualMcqData : [];
+    mcqs.forEach((q, i) => {
+        if (!q?.question) return;
+        const answer = q.options?.[q.correctAnswer];
+        const parts = [`Q: ${htmlToText(q.question)}`];
+        if (answer) parts.push(`Answer: ${htmlToText(answer)}`);
+        if (q.explanation) parts.push(`Explanation: ${htmlToText(q.explanation)}`);
+        push('MCQ', `MCQ ${i + 1}`, parts.join('\n').slice(0, CHUNK_CHARS * 1.5));
+        if (q.concept) windowText(htmlToText(q.concept)).forEach(w => push('CONCEPT', `Concept (MCQ ${i + 1})`, w));
+    });
+
+    return chunks.slice(0, MAX_CHUNKS_PER_CHAPTER);
+};
+
+// --- INDEXING (admin side: called after content is published) ---
+
+export const indexChapterContent = async (meta: TutorChapterMeta, data: Record<string, any> | null) => {
+    const entry: TutorIndexEntry = {
+        ...meta,
+        chunks: data ? chunkChapterContent(data, meta.chapterTitle) : [],
+        updatedAt: new Date().toISOString()
+    };
+    await saveTutorIndexEntry(entry);
+    indexCache.delete(scopeKey(meta.board, meta.classLevel));
+    return entry.chunks.length;
+};
+
+// Re-indexes every chapter of a subject from content_data (covers Auto-Pilot, drafts and older saves)
+export const rebuildSubjectIndex = async (
+    board: Board,
+    classLevel: ClassLevel,
+    stream: Stream | null,
+    subject: Subject,
+    chapters: Chapter[],
+    onProgress?: (done: number, total: number) => void
+): Promise<{ chapters: number; chunks: number }> => {
+    const streamKey = (classLevel === '11' || classLevel === '12') && stream ? `-${stream}` : '';
+    let indexed = 0;
+    let chunks = 0;
+
+    for (let i = 0; i < chapters.length; i++) {
+        const chapter = chapters[i];
+        const contentKey = `nst_content_${board}_${classLevel}${streamKey}_${subject.name}_${chapter.id}`;
+        const data = await getChapterData(contentKey);
+        if (data) {
+            chunks += await indexChapterContent({
+                contentKey, board, classLevel, stream, subjectName: subject.name, chapterId: chapter.id, chapterTitle: chapter.title
+            }, data);
+            indexed++;
+        }
+        onProgress?.(i + 1, chapters.length);
+    }
+    return { chapters: indexed, chunks };
+};
+
+// --- RETRIEVAL (student side) ---
+
+const loadScopeIndex = async (scope: TutorScope): Promise<TutorIndexEntry[]> => {
+    const key = scopeKey(scope.board, scope.classLevel);
+    const cached = indexCache.get(key);
+    if (cached && Date.now() - cached.loadedAt < INDEX_CACHE_MS) return cached.entries;
+    const entries = await getTutorIndex(scope.board, scope.classLevel);
+    indexCache.set(key, { entries, loadedAt: Date.now() });
+    return entries;
+};
+
+const tokenize = (text: string) =>
+    normalizeQuestionText(text).split(' ').filter(t => t.length > 1 && !STOPWORDS.has(t));
+
+// BM25 over the chunks in scope, with a boost for the subject / chapter the student has open
+export const rankTutorChunks = (
+    question: string,
+    entries: TutorIndexEntry[],
+    focus: TutorFocus = {},
+    topK: number = DEFAULT_TOP_K
+): TutorPassage[] => {
+    const queryTerms = Array.from(new Set(tokenize(question)));
+    if (queryTerms.length === 0) return [];
+
+    const docs = entries.flatMap(entry => entry.chunks.map(chunk => ({
+        entry,
+        chunk,
+        tokens: tokenize(`${chunk.section} ${chunk.text}`)
+    })));
+    if (docs.length === 0) return [];
+
+    const avgLength = docs.reduce((sum, d) => sum + d.tokens.length, 0) / docs.length;
+    const docFreq: Record<string, number> = {};
+    queryTerms.forEach(term => {
+        docFreq[term] = docs.filter(d => d.tokens.includes(term)).length;
+    });
+
+    const k1 = 1.2;
+    const b = 0.75;
+    const focusSubject = focus.subjectName?.toLowerCase();
+    const focusChapter = focus.chapterTitle?.toLowerCase();
+
+    const scored = docs.map(d => {
+        let score = 0;
+        queryTerms.forEach(term => {
+            if (!docFreq[term]) return;
+            const tf = d.tokens.filter(t => t === term).length;
+            if (!tf) return;
+            const idf = Math.log(1 + (docs.length - docFreq[term] + 0.5) / (docFreq[term] + 0.5));
+            score += idf * (tf * (k1 + 1)) / (tf + k1 * (1 - b + b * d.tokens.length / avgLength));
+        });
+        if (score > 0 && focusSubject && d.entry.subjectName.toLowerCase() === focusSubject) score *= 1.2;
+        if (score > 0 && focusChapter && d.entry.chapterTitle.toLowerCase() === focusChapter) score *= 1.5;
+        return { ...d, score };
+    }).filter(d => d.score > 0).sort((a, b) => b.score - a.score);
+
+    const passages: TutorPassage[] = [];
+    let budget = PROMPT_CHAR_BUDGET;
+    for (const d of scored) {
+        if (passages.length >= topK || budget <= 0) break;
+        const text = d.chunk.text.slice(0, budget);
+        budget -= text.length;
+        passages.push({
+            label: `S${passages.length + 1}`,
+            subjectName: d.entry.subjectName,
+            chapterTitle: d.entry.chapterTitle,
+            section: d.chunk.section,
+            source: d.chunk.source,
+            text
+        });
+    }
+    return passages;
+};
+
+export const retrieveTutorPassages = async (question: string, scope: TutorScope, focus: TutorFocus = {}): Promise<TutorPassage[]> => {
+    const entries = (await loadScopeIndex(scope))
+        // Class 11/12 content is split by stream; chapters without a stream are shared
+        .filter(e => !scope.stream || !e.stream || e.stream === scope.stream);
+    return rankTutorChunks(question, entries, focus);
+};
+
+// --- PROMPT + CITATIONS ---
+
+export const buildGroundedTutorPrompt = (basePrompt: string, scope: TutorScope, passages: TutorPassage[]): string => {
+    const level = scope.classLevel === 'COMPETITION' ? 'competitive exam' : `Class ${scope.classLevel}`;
+    const prompt = `${basePrompt}
+
+SYLLABUS: The student studies ${level} (${scope.board} board). Keep the explanation within this syllabus and level; do not introduce methods or topics from higher classes.`;
+
+    if (passages.length === 0) {
+        return `${prompt}
+No stored notes matched this question; answer from standard ${level} ${scope.board} textbook knowledge.`;
+    }
+
+    const context = passages.map(p =>
+        `[${p.label}] ${p.subjectName} > ${p.chapterTitle} > ${p.section}\n${p.text}`
+    ).join('\n\n');
+
+    return `${prompt}
+
+OUR NOTES (official course material; follow them if they differ from general knowledge):
+${context}
+
+Cite the notes you used inline as [S1], [S2] etc. If they don't cover the question, say so in one line and then answer at the ${level} level.`;
+};
+
+// Passages the answer actually cited, in citation order
+export const getCitedPassages = (answer: string, passages: TutorPassage[]): TutorPassage[] => {
+    const cited = new Set((answer.match(/\[S\d+\]/g) || []).map(m => m.slice(1, -1)));
+    return passages.filter(p => cited.has(p.label));
+};
@@ -234,6 +234,7 @@ export interface PaymentRequest {
   packageId: string;
   packageName: string;
   amount: number;
+  credits?: number; // Coins in the package when requested
   txnId: string; // User entered Transaction ID/UTR
   status: 'PENDING' | 'APPROVED' | 'REJECTED';
   timestamp: string;
@@ -299,6 +300,7 @@ export interface SystemSettings {
   supportEmail?: string;
   aiModel?: string;
   aiInstruction?: string;
+  // Legacy per-variant prompts. Superseded by promptTemplates; still read as a fallback until imported.
   aiPromptNotes?: string;
   aiPromptNotesPremium?: string;
   aiPromptMCQ?: string;
@@ -332,6 +334,8 @@ export interface SystemSettings {
   hiddenSubjects?: string[];
   hiddenClasses?: string[]; // NEW: Granular Class Hiding
   hiddenChapters?: string[]; // NEW: Granular Chapter Hiding
+  featuredSectionTitle?: string;
+  featuredItems?: FeaturedItem[]; // Chapter shortcuts on the student home (max 4)
   contentVisibility?: { // NEW: Global Content Type Toggles
       VIDEO?: boolean;
       PDF?: boolean;
@@ -447,6 +451,12 @@ export interface SystemSettings {
       basic: number;
       ultra: number;
   };
+  aiCacheConfig?: AiCacheConfig; // Shared generation cache (notes, translations, custom notes)
+  aiAllowedModels?: string[]; // Models the /api proxies will serve (empty = built-in default list)
+  aiRateLimits?: {              // Per-minute request caps enforced by the /api proxies (admins exempt)
+      perUserPerMinute: number;
+      perIpPerMinute: number;
+  };
   aiNotesPrompt?: string;
   developedBy?: string;
   isMcqRegenerationEnabled?: boolean;
@@ -457,14 +467,320 @@ export interface SystemSettings {
       targetClasses: string[];
       targetBoards: string[];
       targetSubjects?: string[]; // New: Filter by Subject
-      contentTypes: ('NOTES' | 'MCQ')[];
+      contentTypes: AutoPilotJobKind[];
       requireApproval?: boolean; // NEW: Admin Approval Flow
+      mcqCount?: number; // NEW: MCQs generated per chapter (default 20)
   };
   tierPermissions?: {
       FREE: string[];
       BASIC: string[];
       ULTRA: string[];
   };
+  aiProviderRouting?: Partial<Record<AiTaskType, AiTaskRoute>>; // NEW: Provider + Fallback Chain per Task
+  aiMockMode?: AiMockMode; // NEW: Offline Mock / Record / Replay (Dev & Testing)
+  promptTemplates?: PromptTemplate[]; // NEW: Prompt Template Library (replaces aiPrompt* fields)
+  hindiGlossary?: Record<string, HindiGlossaryTerm[]>; // NEW: Subject name -> fixed Hindi terms for translation
+  morningInsightConfig?: MorningInsightConfig; // NEW: Daily per-class Morning Insight schedule
+}
+
+export interface MorningInsightConfig {
+  enabled: boolean;
+  hour: number; // Hour (0-23, Indian time) after which the day's insights are generated
+  minResults: number; // Segments with fewer test results in the last 24h are skipped
+}
+
+// MORNING INSIGHT ARCHIVE (Firestore morning_insights/{date}_{board}_{classLevel}; one per segment per day)
+export interface MorningInsightRecord {
+  id: string;
+  date: string; // YYYY-MM-DD
+  board: Board;
+  classLevel: ClassLevel;
+  title: string;
+  wisdom: string;
+  commonTrap: string; // Drawn from the most-missed questions of the day
+  proTip: string;
+  motivation: string;
+  sampleSize: number; // Test results analysed
+  topMistakes: { question: string; subject: string; chapter: string; misses: number }[];
+  generatedAt: string;
+}
+
+// Fixed translation for a technical term (kept consistent across every chapter of a subject)
+export interface HindiGlossaryTerm {
+  en: string;
+  hi: string;
+}
+
+// AUTO-PILOT JOB QUEUE (Persisted in Firestore: autopilot_jobs)
+export type AutoPilotJobStatus = 'QUEUED' | 'RUNNING' | 'DONE' | 'FAILED' | 'CANCELLED';
+export type AutoPilotJobKind = 'NOTES' | 'MCQ' | 'TRANSLATE_HI'; // TRANSLATE_HI fills missing _HI fields from the English content
+
+export interface AutoPilotJob {
+  id: string; // Deterministic: one job per content key + kind
+  kind: AutoPilotJobKind;
+  source: 'AUTO_PILOT' | 'COMMAND';
+  board: Board;
+  classLevel: ClassLevel;
+  stream: Stream | null;
+  subject: Subject;
+  chapter: Chapter;
+  contentKey: string; // nst_content_... key the result is saved under
+  status: AutoPilotJobStatus;
+  attempts: number;
+  maxAttempts: number;
+  error?: string; // Last failure message
+  nextAttemptAt?: string; // ISO, set while waiting for a backoff retry
+  createdAt: string;
+  updatedAt: string; // Also acts as the lease heartbeat for RUNNING jobs
+}
+
+// CONTENT VERSION HISTORY (Firestore: content_versions/{key}/versions)
+export interface ContentSaveMeta {
+  author?: { id: string; name: string };
+  summary?: string; // Why the change was made (auto field summary is always appended)
+}
+
+export interface ContentVersion {
+  id: string;
+  contentKey: string;
+  data: any; // Full chapter document as saved
+  authorId: string;
+  authorName: string;
+  summary: string;
+  timestamp: string;
+}
+
+// CONTENT DRAFTS (Review queue, Firestore: content_drafts). Never read by student views.
+export type DraftFieldStatus = 'PENDING' | 'APPROVED' | 'REJECTED';
+
+export interface DraftReviewEntry {
+  field: string;
+  decision: 'APPROVED' | 'REJECTED';
+  edited: boolean; // Reviewer changed the proposed value before publishing
+  reviewerId: string;
+  reviewerName: string;
+  timestamp: string;
+}
+
+export interface ContentDraft {
+  id: string; // Same as the Auto-Pilot job id that produced it
+  contentKey: string; // Target nst_content_... document
+  kind: AutoPilotJobKind;
+  chapterTitle: string;
+  subjectName: string;
+  board: Board;
+  classLevel: ClassLevel;
+  stream?: Stream | null; // Class 11/12 drafts (used when indexing approved content for the AI tutor)
+  fields: Record<string, any>; // Proposed values, e.g. { schoolPremiumNotesHtml: '...', manualMcqData: [...] }
+  fieldStatus: Record<string, DraftFieldStatus>;
+  publishExtras?: Record<string, any>; // Merged into the chapter on the first approval (e.g. is_premium flags)
+  pendingQuestionBank?: { subject: string; classLevel: ClassLevel; topic: string }; // Bank entry for approved MCQs
+  status: 'PENDING' | 'CLOSED';
+  reviews: DraftReviewEntry[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AutoPilotProgress {
+  groupKey: string; // board|class|stream|subject
+  board: Board;
+  classLevel: ClassLevel;
+  stream: Stream | null;
+  subjectName: string;
+  total: number;
+  done: number;
+  failed: number;
+  running: number;
+  queued: number;
+  cancelled: number;
+}
+
+// AI PROVIDER LAYER
+export type AiProviderId = 'GROQ' | 'GEMINI' | 'MOCK';
+
+export type AiTaskType = 'NOTES' | 'MCQ' | 'TRANSLATION' | 'ANALYSIS' | 'CHAT';
+
+// OFF = normal routing, MOCK = fixtures only, RECORD = real calls + capture, REPLAY = captured responses (fixtures as fallback)
+export type AiMockMode = 'OFF' | 'MOCK' | 'RECORD' | 'REPLAY';
+
+export interface AiTaskRoute {
+  providers: AiProviderId[]; // First entry is primary, the rest are tried in order on failure
+  models?: Partial<Record<AiProviderId, string>>; // Optional model override per provider
+}
+
+// PROMPT TEMPLATE LIBRARY
+export type PromptTemplateTask = 'NOTES' | 'NOTES_PREMIUM' | 'MCQ';
+
+export interface PromptTemplateVersion {
+  version: number;
+  body: string;
+  authorName: string;
+  note?: string;
+  createdAt: string;
+}
+
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  task: PromptTemplateTask;
+  board: Board | 'ANY';
+  syllabusMode: 'SCHOOL' | 'COMPETITION' | 'ANY';
+  classFrom?: number; // Inclusive range; unset = every class (including COMPETITION)
+  classTo?: number;
+  language: Language | 'ANY';
+  body: string; // Uses {board}, {class}, {stream}, {subject}, {chapter}, {language}, {count}, {instruction}
+  version: number;
+  history: PromptTemplateVersion[]; // Previous bodies, newest first
+  enabled: boolean;
+  updatedAt: string;
+  legacyField?: string; // aiPrompt* setting this template was imported from
+}
+
+// Firestore prompt_template_usage/{templateId}
+export interface PromptTemplateUsage {
+  templateId: string;
+  total: number;
+  lastUsedAt?: string;
+  byVersion?: Record<string, number>; // "v3" -> count
+}
+
+// API KEY HEALTH (Firestore api_key_health/{fingerprint}; never stores the key itself)
+export type ApiKeyHealthStatus = 'HEALTHY' | 'THROTTLED' | 'DEAD';
+
+export interface ApiKeyHealth {
+  fingerprint: string; // SHA-256 prefix of the key, stable across reordering
+  provider: AiProviderId;
+  label: string; // "...abcd" for display
+  successCount: number;
+  failureCount: number;
+  lastError?: string;
+  lastErrorAt?: string;
+  lastSuccessAt?: string;
+  cooldownUntil?: number; // Epoch ms; set on 429
+  invalid: boolean; // Set on 400 / API_KEY_INVALID, cleared only by an admin
+  updatedAt: string;
+}
+
+// AI GENERATION CACHE (Firestore ai_generation_cache/{hash}; hash of provider + model + normalized prompt + params)
+export interface AiCacheEntry {
+  hash: string;
+  provider: AiProviderId;
+  model: string;
+  task: AiTaskType;
+  text: string;
+  tag?: string; // Chapter content key the generation belongs to (purge by chapter)
+  tagLabel?: string; // "Physics > Motion (CBSE 10)" for the admin list
+  sizeBytes: number;
+  createdAt: string;
+  expiresAt: Date; // Firestore TTL policy field; reads also treat expired entries as misses
+}
+
+export interface AiCacheConfig {
+  enabled: boolean;
+  ttlHours: number;
+  maxEntryKB: number; // Larger generations are not cached (Firestore 1 MB document limit)
+}
+
+// AI SPEND LEDGER (Firestore ai_usage_ledger/{id}; one record per model call, written by the AI proxies)
+export type AiFeature = 'NOTES' | 'MCQ' | 'ULTRA_ANALYSIS' | 'CHAT' | 'TRANSLATION' | 'PILOT';
+
+export interface AiTokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  estimated?: boolean; // Provider reported nothing, counted as ~4 chars per token
+}
+
+export interface AiUsageRecord {
+  id: string;
+  userId: string; // App user id (User.id), resolved by the proxy from the verified uid (auth_links)
+  uid?: string; // Verified auth uid of the caller
+  feature: AiFeature;
+  task: AiTaskType;
+  provider: AiProviderId;
+  model: string;
+  keyId?: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  tokensEstimated: boolean;
+  latencyMs: number;
+  credits: number; // Coins charged to the student for this call
+  cached: boolean; // Only older client-written records hold cache hits
+  status: 'OK' | 'ERROR';
+  date: string; // YYYY-MM-DD, for range queries
+  timestamp: string;
+}
+
+// ADMIN AI ACTIONS (dry-run plan -> admin confirmation -> Firestore admin_action_history/{id})
+export interface AdminActionTarget {
+  kind: 'USER' | 'SETTINGS' | 'RECORD';
+  id: string; // User id, 'system_settings', or the RTDB path of the record
+  label: string;
+  operation: 'CREATE' | 'UPDATE' | 'DELETE';
+}
+
+export interface AdminActionDiff {
+  targetId: string;
+  path: string; // Dotted field path, e.g. "aiLimits.free"
+  before: any; // undefined = field not set
+  after: any; // undefined = field removed
+}
+
+export interface AdminActionPlan {
+  id: string;
+  tool: string;
+  args: Record<string, any>; // Validated tool arguments
+  prepared?: Record<string, any>; // Generated values (questions, codes) reused on execution
+  summary: string;
+  targets: AdminActionTarget[];
+  diffs: AdminActionDiff[]; // Empty for created/deleted records
+  createdAt: string;
+}
+
+// Previous values of the top-level fields an action wrote. null = the field (or record) did not exist.
+// `expected` holds the values the action wrote, so undo can tell whether the record changed since.
+export type AdminActionInverse =
+  | { kind: 'RESTORE_USER'; userId: string; user: any }
+  | { kind: 'PATCH_USER'; userId: string; fields: Record<string, any>; expected: Record<string, any> }
+  | { kind: 'PATCH_SETTINGS'; fields: Record<string, any>; expected: Record<string, any> }
+  | { kind: 'RESTORE_RECORD'; path: string; value: any; expected: any };
+
+export interface AdminActionRecord {
+  id: string;
+  planId: string;
+  tool: string;
+  args: Record<string, any>;
+  summary: string;
+  targets: AdminActionTarget[];
+  diffs: AdminActionDiff[]; // Display copy, long values shortened
+  inverse: AdminActionInverse[]; // One per target
+  executedBy: string; // Firebase uid
+  executedAt: string;
+  undoneAt?: string;
+  undoneBy?: string;
+}
+
+// AI TUTOR RETRIEVAL INDEX (Firestore tutor_index/{contentKey}; one doc per chapter, rebuilt on save)
+export type TutorChunkSource = 'NOTES' | 'MCQ' | 'CONCEPT';
+
+export interface TutorChunk {
+  id: string; // `${source}-${n}`, stable within a chapter
+  source: TutorChunkSource;
+  section: string; // Notes heading or "MCQ 3"; shown as the citation
+  text: string; // Plain text (HTML stripped), capped in size
+}
+
+export interface TutorIndexEntry {
+  contentKey: string;
+  board: Board;
+  classLevel: ClassLevel;
+  stream: Stream | null;
+  subjectName: string;
+  chapterId?: string;
+  chapterTitle: string;
+  chunks: TutorChunk[];
+  updatedAt: string;
 }
 
 export interface ContentInfoItem {
@@ -616,15 +932,87 @@ export interface WatermarkConfig {
   rotation: number; // deg
 }
 
+// --- QUESTION KINDS ---
+// Items without `kind` are single-answer MCQs, so everything saved before question kinds existed reads unchanged
+export type QuestionKind = 'SINGLE' | 'MULTI' | 'NUMERIC' | 'ASSERTION_REASON' | 'MATCH' | 'CASE_BASED';
+
+export interface NumericAnswerKey {
+  value: number;
+  tolerance?: number; // Absolute; 0 / missing = exact match
+  unit?: string; // Shown next to the input, never typed by the student
+}
+
 export interface MCQItem {
+  kind?: QuestionKind; // Missing = SINGLE
   question: string;
-  options: string[];
-  correctAnswer: number; // Index 0-3
+  options: string[]; // Empty for NUMERIC, MATCH and CASE_BASED
+  correctAnswer: number; // Index 0-3 (SINGLE / ASSERTION_REASON), first correct option (MULTI), -1 for other kinds
   explanation: string;
   mnemonic?: string; // Memory Trick
   concept?: string; // Full concept explanation
+  correctAnswers?: number[]; // MULTI: every correct option index
+  numericAnswer?: NumericAnswerKey; // NUMERIC
+  assertion?: string; // ASSERTION_REASON: options default to the standard four A/R choices
+  reason?: string;
+  matchLeft?: string[]; // MATCH: matchAnswer[i] is the matchRight index paired with matchLeft[i]
+  matchRight?: string[];
+  matchAnswer?: number[];
+  passage?: string; // CASE_BASED: single-answer subQuestions on a shared passage
+  subQuestions?: MCQItem[];
+}
+
+// Narrowed view of an MCQItem per kind, built by toQuestion in services/questionTypes
+interface QuestionBase {
+  question: string;
+  explanation: string;
+  mnemonic?: string;
+  concept?: string;
+}
+
+export interface SingleChoiceQuestion extends QuestionBase {
+  kind: 'SINGLE';
+  options: string[];
+  correctAnswer: number;
 }
 
+export interface MultiCorrectQuestion extends QuestionBase {
+  kind: 'MULTI';
+  options: string[];
+  correctAnswers: number[];
+}
+
+export interface NumericQuestion extends QuestionBase {
+  kind: 'NUMERIC';
+  answer: NumericAnswerKey;
+}
+
+export interface AssertionReasonQuestion extends QuestionBase {
+  kind: 'ASSERTION_REASON';
+  assertion: string;
+  reason: string;
+  options: string[];
+  correctAnswer: number;
+}
+
+export interface MatchQuestion extends QuestionBase {
+  kind: 'MATCH';
+  left: string[];
+  right: string[];
+  answer: number[];
+}
+
+export interface CaseBasedQuestion extends QuestionBase {
+  kind: 'CASE_BASED';
+  passage: string;
+  subQuestions: SingleChoiceQuestion[];
+}
+
+export type Question = SingleChoiceQuestion | MultiCorrectQuestion | NumericQuestion | AssertionReasonQuestion | MatchQuestion | CaseBasedQuestion;
+
+// Option index (SINGLE, ASSERTION_REASON), option indexes (MULTI), typed value (NUMERIC),
+// right-column index per left item (MATCH) or option index per sub-question (CASE_BASED); -1 = blank part
+export type QuestionResponse = number | number[] | string;
+
 // NEW: Performance Analytics
 export type PerformanceTag = 'EXCELLENT' | 'GOOD' | 'BAD' | 'VERY_BAD';
 
@@ -650,11 +1038,11 @@ export interface MCQResult {
   
   // OMR DATA
   classLevel?: string;
-  omrData?: {
-      qIndex: number;
-      selected: number; // -1 if skipped
-      correct: number;
-  }[];
+  omrData?: OmrEntry[];
+  marks?: number; // Under the test's marking scheme; score stays the correct-answer count
+  maxMarks?: number;
+  passed?: boolean; // marks reached the test's passing percentage
+  sectionScores?: SectionScore[];
 
   wrongQuestions?: {
     question: string;
@@ -663,6 +1051,40 @@ export interface MCQResult {
   ultraAnalysisReport?: string;
 }
 
+export interface OmrEntry {
+  qIndex: number;
+  selected: number; // -1 if skipped; -2 = answered a kind without a single option (see response)
+  correct: number; // -2 for kinds without a single correct option
+  qKey?: string; // Stable question id (hash of the normalized text), used by item analysis
+  kind?: QuestionKind; // Missing = SINGLE
+  response?: QuestionResponse; // Full answer for non-single kinds
+  isCorrect?: boolean; // Set for non-single kinds, where selected / correct can't be compared
+  credit?: number; // 0-1 share of the parts answered correctly (MULTI, MATCH, CASE_BASED)
+  marks?: number; // Marks awarded under the test's marking scheme
+}
+
+// --- ITEM ANALYSIS ---
+// Per-question statistics aggregated from students' omrData, stored in item_stats/{questionKey}
+export type ItemFlag = 'KEY_SUSPECT' | 'NEGATIVE_DISCRIMINATION' | 'LOW_DISCRIMINATION';
+
+export interface ItemStats {
+  questionKey: string;
+  question?: string; // Text, when a test, challenge or wrong-answer log still has it
+  options?: string[];
+  correctAnswer: number; // The key students were marked against
+  sources: string[]; // Chapters / tests the question appeared in
+  attempts: number; // Including skips
+  skipped: number;
+  correct: number;
+  pValue: number; // correct / attempts
+  discrimination: number | null; // Upper 27% minus lower 27% p-value; null with too few attempts
+  optionCounts: number[]; // How often each option was picked
+  avgTimeSeconds: number | null;
+  difficulty: QuestionDifficulty | null; // From pValue; null with too few attempts
+  flags: ItemFlag[];
+  updatedAt: string;
+}
+
 export interface UniversalAnalysisLog {
   id: string;
   userId: string;
@@ -681,10 +1103,12 @@ export interface LeaderboardEntry {
     id: string;
     userId: string;
     userName: string;
-    score: number;
-    total: number;
+    score: number; // Marks under the test's marking scheme (can be negative)
+    total: number; // Maximum marks
     date: string;
     topic: string;
+    testId?: string; // Entries from the same test are ranked together
+    sectionScores?: SectionScore[];
 }
 
 export interface ActivityLogEntry {
@@ -764,7 +1188,7 @@ export interface LessonContent {
   aiHtmlContent?: string; // NEW: HTML Content for AI Notes
   aiImagePrice?: number; // Price for AI Image Notes
   isComingSoon?: boolean; // If content is missing
-  userAnswers?: Record<number, number>; // Saved answers for History/Analysis
+  userAnswers?: Record<number, QuestionResponse>; // Saved answers for History/Analysis
   is_free?: boolean; // NEW: Explicit Flag
   is_premium?: boolean; // NEW: Explicit Flag
 
@@ -791,12 +1215,71 @@ export interface WeeklyTest {
   classLevel: ClassLevel;
   questions: MCQItem[];
   totalQuestions: number;
-  passingScore: number;
+  passingScore: number; // Percent of the maximum marks
   createdAt: string;
   durationMinutes?: number; // Default 120 (2 hours)
   autoSubmitEnabled?: boolean; // Auto-submit after timeout
   selectedSubjects?: string[]; // Subject IDs included in this test
   selectedChapters?: string[]; // Chapter IDs included in this test (mix from multiple)
+  markingScheme?: MarkingScheme; // Missing = +1 per correct answer, no negative marking
+  sections?: TestSection[];
+}
+
+// --- MARKING SCHEMES & SECTIONS ---
+export interface MarkRule {
+  correct: number; // Marks for a fully correct answer, e.g. 4
+  incorrect: number; // Marks for a wrong answer, e.g. -1 (0 = no negative marking)
+}
+
+export interface MarkingScheme extends MarkRule {
+  unanswered?: number; // Default 0
+  partialCredit?: boolean; // MULTI / MATCH / CASE_BASED earn their correct share of `correct` (MULTI only without a wrong pick)
+  perKind?: Partial<Record<QuestionKind, MarkRule>>; // e.g. numeric answers without negative marking
+}
+
+// Sections split test.questions in order: the first questionCount questions are section 1, and so on
+export interface TestSection {
+  id: string;
+  name: string; // e.g. "Physics" or "Section B (Numeric)"
+  questionCount: number;
+  durationMinutes?: number; // Own time limit: sections then run one after another and lock when time is up
+  markingScheme?: MarkingScheme; // Overrides the test's scheme
+}
+
+export interface SectionScore {
+  sectionId: string;
+  name: string;
+  marks: number;
+  maxMarks: number;
+  correct: number;
+  partial: number; // Earned partial credit without being fully correct
+  wrong: number;
+  unanswered: number;
+  timeSeconds?: number; // Sum of the question times in the section
+}
+
+// TEST PAPER BLUEPRINT (Multi-chapter paper generator)
+export type QuestionDifficulty = 'EASY' | 'MEDIUM' | 'HARD';
+
+export interface TestPaperBlueprintItem {
+  subject: Subject;
+  chapter: Chapter;
+  count: number; // Questions to draw from this chapter
+}
+
+export interface TestPaperBlueprint {
+  board: Board;
+  classLevel: ClassLevel;
+  stream?: Stream | null;
+  items: TestPaperBlueprintItem[];
+  difficultyMix: Record<QuestionDifficulty, number>; // Percentages, e.g. { EASY: 30, MEDIUM: 50, HARD: 20 }
+  language: Language;
+}
+
+export interface TestPaper {
+  questions: MCQItem[]; // Ready to use as WeeklyTest.questions
+  sourceCounts: { bank: number; chapter: number; ai: number };
+  shortfall: number; // Questions the blueprint asked for but could not be filled
 }
 
 // 2.0 FEATURES
@@ -812,19 +1295,64 @@ export interface Challenge20 {
     isAutoGenerated: boolean; // True if "Auto Mix" used
     isActive: boolean;
     durationMinutes?: number; // NEW: Admin customized timer
+    markingScheme?: MarkingScheme; // Same meaning as on WeeklyTest
+    sections?: TestSection[];
 }
 
+// Bloom's taxonomy (revised), lowest to highest cognitive level
+export type BloomLevel = 'REMEMBER' | 'UNDERSTAND' | 'APPLY' | 'ANALYZE' | 'EVALUATE' | 'CREATE';
+
 export interface QuestionBankItem {
     id: string; // Unique ID
     question: MCQItem;
     subject: string;
     topic?: string;
+    topicKey?: string | null; // Lower-cased topic, the field topic filters query on
+    chapterId?: string | null; // Chapter tag set from the bank console / auto-tagging
     classLevel: ClassLevel;
-    difficulty?: 'EASY' | 'MEDIUM' | 'HARD';
+    difficulty?: QuestionDifficulty | null; // null = not tagged yet (stored so it can be queried)
+    bloomLevel?: BloomLevel | null;
+    searchTokens?: string[]; // Normalized words of the question and options, for whole-word search
+    questionKey?: string; // Same key as MCQResult omrData qKey, links the item to its real-answer statistics
+    pValue?: number; // Share of students answering correctly, set when difficulty is calibrated from data
+    calibratedAt?: string;
+    mergedFrom?: string[]; // Ids of near-duplicates merged into this item
     createdAt: string;
+    updatedAt?: string;
     source: 'AI' | 'MANUAL';
 }
 
+// Firestore question_bank filters. Every filter is an equality match, so no composite indexes are needed.
+export interface QuestionBankFilters {
+    classLevel?: ClassLevel;
+    subject?: string;
+    topic?: string | string[]; // Any of these topics (chapter title or id)
+    chapterId?: string;
+    difficulty?: QuestionDifficulty | 'UNTAGGED';
+    bloomLevel?: BloomLevel | 'UNTAGGED';
+    source?: 'AI' | 'MANUAL';
+    questionKey?: string | string[]; // Up to 10 keys
+    search?: string; // Whole words that must all appear in the question or its options
+}
+
+// Bulk tag edit: undefined leaves a tag unchanged, null clears it
+export interface QuestionBankTags {
+    topic?: string | null;
+    chapterId?: string | null;
+    difficulty?: QuestionDifficulty | null;
+    bloomLevel?: BloomLevel | null;
+}
+
+export interface QuestionDuplicateGroup {
+    keep: QuestionBankItem; // The best-tagged (then oldest) item survives a merge
+    duplicates: { item: QuestionBankItem; similarity: number }[];
+}
+
+export interface QuestionBankPage {
+    items: QuestionBankItem[];
+    nextCursor: string | null; // Id of the last item; pass back to load the next page
+}
+
 export interface StudentTestAttempt {
   testId: string;
   userId: string;
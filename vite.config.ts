@@ -21,8 +21,7 @@ export default defineConfig(({ mode }) => {
         }
       },
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.AI_MOCK_MODE': JSON.stringify(env.AI_MOCK_MODE || '')
       }
     };
 });